@@ -4,19 +4,20 @@ import cors from "cors";
 import helmet from "helmet";
 import { routes } from "./modules/index.js";
 import { requestLogger } from "./middlewares/request-logger.js";
-import { errorMiddleware } from "./middlewares/error.middleware.js";
+import { errorMiddleware, notFoundMiddleware } from "./middlewares/error.middleware.js";
 
 export function createApp() {
   const app = express();
 
+  app.use(requestLogger);
   app.use(helmet());
-  app.use(cors());
+  app.use(cors({ exposedHeaders: ["X-Request-Id"] }));
   app.use(express.json());
   app.use(compression());
-  app.use(requestLogger);
 
   app.use(routes);
 
+  app.use(notFoundMiddleware);
   app.use(errorMiddleware);
 
   return app;
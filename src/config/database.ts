@@ -1,4 +1,58 @@
-// Placeholder for future database setup (Prisma / Mongoose / Knex).
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import { migrations } from "../database/migrations/index.js";
+import { runMigrations } from "../database/migrator.js";
+import { logger } from "../utils/logger.js";
+import { config } from "./index.js";
+
+let db: Database.Database | null = null;
+
+const openDatabase = (path: string) => {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const instance = new Database(path);
+  instance.pragma("journal_mode = WAL");
+  instance.pragma("foreign_keys = ON");
+  runMigrations(instance, migrations);
+
+  logger.info({ path }, "Database ready");
+  return instance;
+};
+
+/**
+ * Open the embedded SQLite database and bring its schema up to date.
+ * Safe to call more than once.
+ */
 export const connectDatabase = async () => {
-  // No-op until a database is introduced.
-};
\ No newline at end of file
+  getDatabase();
+};
+
+/**
+ * Shared connection. Opens it on first use so code paths that skip the
+ * explicit startup step (serverless handlers, tests) still work.
+ */
+export const getDatabase = (): Database.Database => {
+  if (!db) {
+    db = openDatabase(config.databasePath);
+  }
+  return db;
+};
+
+export const closeDatabase = async () => {
+  if (!db) return;
+  db.close();
+  db = null;
+  logger.info("Database closed");
+};
+
+/**
+ * Run `fn` inside a transaction; it is rolled back if `fn` throws.
+ * better-sqlite3 is synchronous, so `fn` must not await.
+ */
+export const withTransaction = <T>(fn: (db: Database.Database) => T): T => {
+  const database = getDatabase();
+  return database.transaction(() => fn(database))();
+};
@@ -7,6 +7,48 @@ const schema = z.object({
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
   PORT: z.string().default("4000"),
   LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"]).default("info"),
+  DATABASE_PATH: z.string().optional(),
+  TELEMETRY_CACHE_OPEN_TTL_MS: z.coerce.number().int().nonnegative().default(30_000),
+  TELEMETRY_CACHE_MAX_SERIES: z.coerce.number().int().positive().default(1000),
+  TELEMETRY_BATCH_CONCURRENCY: z.coerce.number().int().positive().default(5),
+  TELEMETRY_PROVIDER: z.enum(["thingsboard", "simulator"]).default("thingsboard"),
+  SIMULATOR_DEVICE_COUNT: z.coerce.number().int().min(1).max(100).default(5),
+  SIMULATOR_SAMPLE_INTERVAL_MS: z.coerce.number().int().min(1000).default(60_000),
+  SIMULATOR_UTC_OFFSET_MINUTES: z.coerce.number().int().min(-720).max(840).default(60),
+  SIMULATOR_SEED: z.string().min(1).default("indusmind"),
+  SIMULATOR_STREAM_INTERVAL_MS: z.coerce.number().int().min(100).default(5000),
+  THINGSBOARD_TIMEOUT_MS: z.coerce.number().int().positive().default(15_000),
+  THINGSBOARD_MAX_CONCURRENT: z.coerce.number().int().positive().default(10),
+  CUSTOMER_API_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  CUSTOMER_API_MAX_CONCURRENT: z.coerce.number().int().positive().default(2),
+  DEFAULT_CUSTOMER_ID: z.coerce.number().int().positive().default(1),
+  DEFAULT_CUSTOMER_NAME: z.string().min(1).default("Indusmind"),
+  DEFAULT_CUSTOMER_DEVICE_API_URL: z
+    .string()
+    .url()
+    .or(z.literal(""))
+    .default("http://52.47.152.33:3666/customer/getAllIndusmindCustomerDevices"),
+  UPSTREAM_MAX_RETRIES: z.coerce.number().int().nonnegative().default(2),
+  UPSTREAM_RETRY_BASE_DELAY_MS: z.coerce.number().int().nonnegative().default(250),
+  UPSTREAM_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  UPSTREAM_BREAKER_RESET_MS: z.coerce.number().int().positive().default(30_000),
+  ALARM_EVALUATION_INTERVAL_MS: z.coerce.number().int().nonnegative().default(60_000),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().default("Indusmind <no-reply@indusmind.local>"),
+  NOTIFICATION_DISPATCH_INTERVAL_MS: z.coerce.number().int().nonnegative().default(10_000),
+  NOTIFICATION_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  NOTIFICATION_RETRY_DELAY_MS: z.coerce.number().int().positive().default(30_000),
+  REPORT_SCHEDULER_INTERVAL_MS: z.coerce.number().int().nonnegative().default(60_000),
+  JWT_ACCESS_SECRET: z.string().min(16).optional(),
+  JWT_REFRESH_SECRET: z.string().min(16).optional(),
+  JWT_ACCESS_TTL_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+  JWT_REFRESH_TTL_SECONDS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60),
+  AUTH_ADMIN_EMAIL: z.string().email().optional(),
+  AUTH_ADMIN_PASSWORD: z.string().min(8).optional(),
 });
 
-export const env = schema.parse(process.env);
\ No newline at end of file
+export const env = schema.parse(process.env);
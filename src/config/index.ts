@@ -1,7 +1,88 @@
 import { env } from "./env.js";
 
+// Signing secrets must be provided in production; local runs fall back to fixed dev values.
+const requireSecret = (value: string | undefined, name: string, devFallback: string) => {
+  if (value) return value;
+  if (env.NODE_ENV === "production") {
+    throw new Error(`${name} must be set in production`);
+  }
+  return devFallback;
+};
+
 export const config = {
   env: env.NODE_ENV,
   port: Number(env.PORT),
   logLevel: env.LOG_LEVEL,
-};
\ No newline at end of file
+  // Tests get a throwaway in-memory database unless told otherwise
+  databasePath: env.DATABASE_PATH ?? (env.NODE_ENV === "test" ? ":memory:" : "data/indusmind.db"),
+  telemetryCache: {
+    openBucketTtlMs: env.TELEMETRY_CACHE_OPEN_TTL_MS,
+    maxSeries: env.TELEMETRY_CACHE_MAX_SERIES,
+  },
+  telemetryBatchConcurrency: env.TELEMETRY_BATCH_CONCURRENCY,
+  // "simulator" serves generated meter data instead of ThingsBoard, for local development and demos
+  telemetryProvider: env.TELEMETRY_PROVIDER,
+  simulator: {
+    deviceCount: env.SIMULATOR_DEVICE_COUNT,
+    sampleIntervalMs: env.SIMULATOR_SAMPLE_INTERVAL_MS,
+    utcOffsetMinutes: env.SIMULATOR_UTC_OFFSET_MINUTES,
+    seed: env.SIMULATOR_SEED,
+    streamIntervalMs: env.SIMULATOR_STREAM_INTERVAL_MS,
+  },
+  // Timeouts, retries, circuit breakers and concurrency limits of the upstream HTTP services
+  upstreams: {
+    maxRetries: env.UPSTREAM_MAX_RETRIES,
+    retryBaseDelayMs: env.UPSTREAM_RETRY_BASE_DELAY_MS,
+    breaker: {
+      failureThreshold: env.UPSTREAM_BREAKER_FAILURE_THRESHOLD,
+      resetTimeoutMs: env.UPSTREAM_BREAKER_RESET_MS,
+    },
+    thingsboard: {
+      timeoutMs: env.THINGSBOARD_TIMEOUT_MS,
+      maxConcurrent: env.THINGSBOARD_MAX_CONCURRENT,
+    },
+    // Applies to each customer's device API separately
+    customerApi: {
+      timeoutMs: env.CUSTOMER_API_TIMEOUT_MS,
+      maxConcurrent: env.CUSTOMER_API_MAX_CONCURRENT,
+    },
+  },
+  customers: {
+    // Registered on startup while the customer registry is empty; an empty device API URL registers it without one
+    bootstrap: {
+      id: env.DEFAULT_CUSTOMER_ID,
+      name: env.DEFAULT_CUSTOMER_NAME,
+      deviceApiUrl: env.DEFAULT_CUSTOMER_DEVICE_API_URL || null,
+    },
+  },
+  // 0 turns the background alarm evaluation off
+  alarmEvaluationIntervalMs: env.ALARM_EVALUATION_INTERVAL_MS,
+  // Email notifications are disabled until SMTP_HOST is set
+  smtp: env.SMTP_HOST
+    ? {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.SMTP_FROM,
+      }
+    : null,
+  notifications: {
+    dispatchIntervalMs: env.NOTIFICATION_DISPATCH_INTERVAL_MS,
+    maxAttempts: env.NOTIFICATION_MAX_ATTEMPTS,
+    retryDelayMs: env.NOTIFICATION_RETRY_DELAY_MS,
+  },
+  // How often due scheduled reports are looked for; 0 turns the report scheduler off
+  reportSchedulerIntervalMs: env.REPORT_SCHEDULER_INTERVAL_MS,
+  auth: {
+    accessTokenSecret: requireSecret(env.JWT_ACCESS_SECRET, "JWT_ACCESS_SECRET", "indusmind-dev-access-secret"),
+    refreshTokenSecret: requireSecret(env.JWT_REFRESH_SECRET, "JWT_REFRESH_SECRET", "indusmind-dev-refresh-secret"),
+    accessTokenTtlSeconds: env.JWT_ACCESS_TTL_SECONDS,
+    refreshTokenTtlSeconds: env.JWT_REFRESH_TTL_SECONDS,
+    bootstrapAdmin:
+      env.AUTH_ADMIN_EMAIL && env.AUTH_ADMIN_PASSWORD
+        ? { email: env.AUTH_ADMIN_EMAIL, password: env.AUTH_ADMIN_PASSWORD }
+        : null,
+  },
+};
@@ -0,0 +1,34 @@
+import { Migration } from "../migrator.js";
+
+export const initialMigration: Migration = {
+  version: 1,
+  name: "initial",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        customer_ids TEXT NOT NULL DEFAULT '[]',
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE revoked_tokens (
+        token_id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_revoked_tokens_expires_at ON revoked_tokens (expires_at);
+
+      CREATE TABLE user_settings (
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, key)
+      );
+    `);
+  },
+};
@@ -0,0 +1,25 @@
+import { Migration } from "../migrator.js";
+
+export const tariffsMigration: Migration = {
+  version: 2,
+  name: "tariffs",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE tariffs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        definition TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE tariff_assignments (
+        target_type TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        tariff_id TEXT NOT NULL REFERENCES tariffs (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (target_type, target_id)
+      );
+    `);
+  },
+};
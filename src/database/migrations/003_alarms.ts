@@ -0,0 +1,42 @@
+import { Migration } from "../migrator.js";
+
+export const alarmsMigration: Migration = {
+  version: 3,
+  name: "alarms",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE alarm_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        severity TEXT NOT NULL,
+        target TEXT NOT NULL,
+        condition TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE alarms (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT REFERENCES alarm_rules (id) ON DELETE SET NULL,
+        rule_name TEXT NOT NULL,
+        device_uuid TEXT NOT NULL,
+        device_name TEXT,
+        customer_id INTEGER,
+        severity TEXT NOT NULL,
+        message TEXT NOT NULL,
+        value REAL,
+        started_at TEXT NOT NULL,
+        raised_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        acknowledged_at TEXT,
+        acknowledged_by TEXT,
+        cleared_at TEXT,
+        cleared_by TEXT
+      );
+      -- At most one uncleared alarm per rule and device
+      CREATE UNIQUE INDEX idx_alarms_open ON alarms (rule_id, device_uuid) WHERE cleared_at IS NULL;
+      CREATE INDEX idx_alarms_raised_at ON alarms (raised_at);
+    `);
+  },
+};
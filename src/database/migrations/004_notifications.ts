@@ -0,0 +1,54 @@
+import { Migration } from "../migrator.js";
+
+export const notificationsMigration: Migration = {
+  version: 4,
+  name: "notifications",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE notification_channels (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        config TEXT NOT NULL,
+        templates TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE notification_subscriptions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        channel_id TEXT NOT NULL REFERENCES notification_channels (id) ON DELETE CASCADE,
+        event_types TEXT NOT NULL,
+        min_severity TEXT NOT NULL,
+        device_uuids TEXT,
+        quiet_hours TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_notification_subscriptions_user ON notification_subscriptions (user_id);
+
+      CREATE TABLE notification_deliveries (
+        id TEXT PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        channel_id TEXT,
+        subscription_id TEXT,
+        user_id TEXT,
+        recipient TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        event TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at INTEGER,
+        created_at TEXT NOT NULL,
+        sent_at TEXT
+      );
+      CREATE INDEX idx_notification_deliveries_due ON notification_deliveries (status, next_attempt_at);
+      CREATE INDEX idx_notification_deliveries_created_at ON notification_deliveries (created_at);
+    `);
+  },
+};
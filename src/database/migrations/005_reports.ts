@@ -0,0 +1,36 @@
+import { Migration } from "../migrator.js";
+
+export const reportsMigration: Migration = {
+  version: 5,
+  name: "reports",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        definition TEXT NOT NULL,
+        next_run_at INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_reports_next_run_at ON reports (next_run_at);
+
+      CREATE TABLE report_runs (
+        id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        trigger TEXT NOT NULL,
+        status TEXT NOT NULL,
+        period_start INTEGER NOT NULL,
+        period_end INTEGER NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        error TEXT,
+        email_error TEXT,
+        html TEXT,
+        pdf BLOB
+      );
+      CREATE INDEX idx_report_runs_report ON report_runs (report_id, started_at);
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import { Migration } from "../migrator.js";
+
+export const telemetryKeysMigration: Migration = {
+  version: 6,
+  name: "telemetry_keys",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE telemetry_keys (
+        id TEXT PRIMARY KEY,
+        raw_key TEXT NOT NULL,
+        device_uuid TEXT,
+        canonical_key TEXT NOT NULL,
+        label TEXT,
+        unit TEXT,
+        scale REAL NOT NULL DEFAULT 1,
+        value_offset REAL NOT NULL DEFAULT 0,
+        precision INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      -- One mapping per raw key, plus optional per-device overrides
+      CREATE UNIQUE INDEX idx_telemetry_keys_raw ON telemetry_keys (raw_key, COALESCE(device_uuid, ''));
+      CREATE INDEX idx_telemetry_keys_canonical ON telemetry_keys (canonical_key);
+    `);
+  },
+};
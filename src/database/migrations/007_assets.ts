@@ -0,0 +1,29 @@
+import { Migration } from "../migrator.js";
+
+export const assetsMigration: Migration = {
+  version: 7,
+  name: "assets",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE asset_nodes (
+        id TEXT PRIMARY KEY,
+        parent_id TEXT REFERENCES asset_nodes (id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        name TEXT NOT NULL,
+        customer_id INTEGER,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_asset_nodes_parent ON asset_nodes (parent_id);
+
+      -- A device hangs under at most one node
+      CREATE TABLE asset_devices (
+        device_uuid TEXT PRIMARY KEY,
+        node_id TEXT NOT NULL REFERENCES asset_nodes (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_asset_devices_node ON asset_devices (node_id);
+    `);
+  },
+};
@@ -0,0 +1,24 @@
+import { Migration } from "../migrator.js";
+
+export const virtualMetersMigration: Migration = {
+  version: 8,
+  name: "virtual_meters",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE virtual_meters (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        customer_id INTEGER,
+        -- {"A": "<deviceUUID>", ...}
+        sources TEXT NOT NULL,
+        -- {"kWh": {"expression": "A.kWh - B.kWh", "unit": "kWh"}, ...}
+        formulas TEXT NOT NULL,
+        created_by TEXT REFERENCES users (id) ON DELETE SET NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_virtual_meters_customer ON virtual_meters (customer_id);
+    `);
+  },
+};
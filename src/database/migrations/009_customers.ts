@@ -0,0 +1,23 @@
+import { Migration } from "../migrator.js";
+
+export const customersMigration: Migration = {
+  version: 9,
+  name: "customers",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE customers (
+        -- Same id as users.customer_ids, tariff assignments and asset nodes refer to
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        -- {"url": "...", "customerName": "...", "headers": {...}}, null when the customer has no device API
+        device_api TEXT,
+        -- {"baseUrl": "...", "username": "...", "password": "..."}, null for the default tenant
+        thingsboard TEXT,
+        -- {"displayName": "...", "logoUrl": "...", "primaryColor": "#0a7cff", ...}
+        branding TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+  },
+};
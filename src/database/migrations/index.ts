@@ -0,0 +1,26 @@
+import { Migration } from "../migrator.js";
+import { initialMigration } from "./001_initial.js";
+import { tariffsMigration } from "./002_tariffs.js";
+import { alarmsMigration } from "./003_alarms.js";
+import { notificationsMigration } from "./004_notifications.js";
+import { reportsMigration } from "./005_reports.js";
+import { telemetryKeysMigration } from "./006_telemetry_keys.js";
+import { assetsMigration } from "./007_assets.js";
+import { virtualMetersMigration } from "./008_virtual_meters.js";
+import { customersMigration } from "./009_customers.js";
+
+/**
+ * Ordered list of schema migrations. Append new ones; never edit a migration
+ * that has already shipped.
+ */
+export const migrations: Migration[] = [
+  initialMigration,
+  tariffsMigration,
+  alarmsMigration,
+  notificationsMigration,
+  reportsMigration,
+  telemetryKeysMigration,
+  assetsMigration,
+  virtualMetersMigration,
+  customersMigration,
+];
@@ -0,0 +1,46 @@
+import type { Database } from "better-sqlite3";
+import { logger } from "../utils/logger.js";
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+};
+
+/**
+ * Apply pending migrations in version order. Each migration runs in its own
+ * transaction together with its bookkeeping row, so a failure leaves the
+ * schema at the previous version.
+ */
+export const runMigrations = (db: Database, migrations: Migration[]) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare("SELECT version FROM schema_migrations")
+      .all()
+      .map((row) => (row as { version: number }).version),
+  );
+
+  const pending = [...migrations].sort((a, b) => a.version - b.version).filter((m) => !applied.has(m.version));
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)").run(
+        migration.version,
+        migration.name,
+        new Date().toISOString(),
+      );
+    })();
+    logger.info({ version: migration.version, name: migration.name }, "Applied database migration");
+  }
+
+  return pending.length;
+};
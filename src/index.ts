@@ -1,5 +1,9 @@
 import { createApp } from "./app.js";
 import { config } from "./config/config.js";
+import { closeDatabase, connectDatabase } from "./config/database.js";
+import { startServices, stopServices } from "./modules/index.js";
+import { ensureBootstrapAdmin } from "./modules/user/user.service.js";
+import { ensureDefaultCustomer } from "./modules/customer/customer.service.js";
 import { logger } from "./utils/logger.js";
 
 const app = createApp();
@@ -8,6 +12,11 @@ const app = createApp();
 if (process.env.NODE_ENV !== "production" || !process.env.VERCEL) {
   // Local server mode
   async function start() {
+    await connectDatabase();
+    await ensureBootstrapAdmin();
+    await ensureDefaultCustomer();
+    startServices();
+
     const server = app.listen(config.port, () => {
       logger.info({ port: config.port }, "Server listening");
     });
@@ -16,6 +25,18 @@ if (process.env.NODE_ENV !== "production" || !process.env.VERCEL) {
       logger.error({ err }, "Server error");
       process.exit(1);
     });
+
+    const shutdown = (signal: string) => {
+      logger.info({ signal }, "Shutting down");
+      stopServices();
+      server.close(async () => {
+        await closeDatabase();
+        process.exit(0);
+      });
+    };
+
+    process.on("SIGINT", () => shutdown("SIGINT"));
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
   }
 
   start();
@@ -1,5 +1 @@
-import { NextFunction, Request, Response } from "express";
-
-export function authMiddleware(_req: Request, _res: Response, next: NextFunction) {
-  next();
-}
\ No newline at end of file
+export { authMiddleware } from "../modules/auth/auth.middleware.js";
@@ -1,7 +1,57 @@
 import { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
+import { ApiError, NotFoundError, toApiError } from "../utils/apiError.js";
 import { logger } from "../utils/logger.js";
+import { failure } from "../utils/response.js";
+import { toValidationError } from "../utils/validation.js";
 
-export function errorMiddleware(err: Error, _req: Request, res: Response, _next: NextFunction) {
-  logger.error({ err }, "Unhandled error");
-  res.status(500).json({ message: "Internal Server Error" });
-}
\ No newline at end of file
+/**
+ * Errors raised by express.json() carry the status to answer with
+ */
+interface BodyParserError extends Error {
+  status: number;
+  type: string;
+}
+
+const isBodyParserError = (err: unknown): err is BodyParserError =>
+  err instanceof Error && typeof (err as BodyParserError).type === "string" && "status" in err;
+
+const normalizeError = (err: unknown): ApiError => {
+  if (err instanceof ZodError) {
+    return toValidationError(err);
+  }
+  if (isBodyParserError(err)) {
+    return err.type === "entity.parse.failed"
+      ? new ApiError(400, "Malformed JSON body", "INVALID_JSON")
+      : new ApiError(err.status, err.message);
+  }
+  return toApiError(err);
+};
+
+/**
+ * Answer every error with the same envelope, code and request id
+ */
+export function errorMiddleware(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    // A streamed response cannot change its status anymore; let Express close it
+    next(err);
+    return;
+  }
+
+  const error = normalizeError(err);
+  const requestId = typeof req.id === "string" ? req.id : undefined;
+  if (error.status >= 500) {
+    logger.error({ err, reqId: requestId }, `${req.method} ${req.originalUrl} failed`);
+  } else {
+    logger.warn({ reqId: requestId }, `${req.method} ${req.originalUrl} rejected (${error.code}): ${error.message}`);
+  }
+
+  res.status(error.status).json(failure(error, requestId));
+}
+
+/**
+ * Unmatched routes, answered through errorMiddleware
+ */
+export function notFoundMiddleware(req: Request, _res: Response, next: NextFunction) {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
+}
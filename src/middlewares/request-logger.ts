@@ -1,9 +1,20 @@
+import { randomUUID } from "node:crypto";
 import pinoHttpModule from "pino-http";
 import { logger } from "../utils/logger.js";
 
 const pinoHttp = pinoHttpModule.default || pinoHttpModule;
 
+// Ids sent by a proxy or client are reused when they look like one
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
 export const requestLogger = pinoHttp({
   logger,
   autoLogging: true,
-});
\ No newline at end of file
+  // Every request gets an id, echoed in X-Request-Id and in error responses
+  genReqId: (req, res) => {
+    const header = req.headers["x-request-id"];
+    const id = typeof header === "string" && REQUEST_ID.test(header) ? header : randomUUID();
+    res.setHeader("X-Request-Id", id);
+    return id;
+  },
+});
@@ -0,0 +1,46 @@
+import type { AlarmRuleInput } from "./alarm.validation.js";
+
+export const ALARM_SEVERITIES = ["critical", "major", "minor", "warning", "info"] as const;
+export type AlarmSeverity = (typeof ALARM_SEVERITIES)[number];
+
+/**
+ * active -> acknowledged and/or cleared; an alarm that is both cleared and
+ * acknowledged is closed.
+ */
+export const ALARM_STATUSES = ["active", "acknowledged", "cleared", "closed"] as const;
+export type AlarmStatus = (typeof ALARM_STATUSES)[number];
+
+export type AlarmRule = AlarmRuleInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Alarm = {
+  id: string;
+  // null once the rule has been deleted
+  ruleId: string | null;
+  ruleName: string;
+  deviceUUID: string;
+  deviceName: string | null;
+  customerId: number | null;
+  severity: AlarmSeverity;
+  status: AlarmStatus;
+  message: string;
+  // Latest value that kept the alarm raised
+  value: number | null;
+  // When the condition started to hold
+  startedAt: string;
+  raisedAt: string;
+  lastSeenAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  clearedAt: string | null;
+  // null when cleared by the evaluator
+  clearedBy: string | null;
+};
+
+export const alarmStatus = (alarm: Pick<Alarm, "acknowledgedAt" | "clearedAt">): AlarmStatus => {
+  if (alarm.clearedAt) return alarm.acknowledgedAt ? "closed" : "cleared";
+  return alarm.acknowledgedAt ? "acknowledged" : "active";
+};
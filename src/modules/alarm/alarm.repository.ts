@@ -0,0 +1,210 @@
+import { getDatabase } from "../../config/database.js";
+import { Alarm, alarmStatus, AlarmRule, AlarmSeverity, AlarmStatus } from "./alarm.model.js";
+import { AlarmCondition, AlarmTarget } from "./alarm.validation.js";
+
+type AlarmRuleRow = {
+  id: string;
+  name: string;
+  enabled: number;
+  severity: AlarmSeverity;
+  target: string;
+  condition: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type AlarmRow = {
+  id: string;
+  rule_id: string | null;
+  rule_name: string;
+  device_uuid: string;
+  device_name: string | null;
+  customer_id: number | null;
+  severity: AlarmSeverity;
+  message: string;
+  value: number | null;
+  started_at: string;
+  raised_at: string;
+  last_seen_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  cleared_at: string | null;
+  cleared_by: string | null;
+};
+
+export type AlarmFilter = {
+  status?: AlarmStatus;
+  severity?: AlarmSeverity;
+  deviceUUID?: string;
+  ruleId?: string;
+  // Restrict to alarms of these customers; undefined means no restriction
+  customerIds?: number[];
+  limit: number;
+};
+
+const STATUS_CONDITIONS: Record<AlarmStatus, string> = {
+  active: "acknowledged_at IS NULL AND cleared_at IS NULL",
+  acknowledged: "acknowledged_at IS NOT NULL AND cleared_at IS NULL",
+  cleared: "acknowledged_at IS NULL AND cleared_at IS NOT NULL",
+  closed: "acknowledged_at IS NOT NULL AND cleared_at IS NOT NULL",
+};
+
+const toRule = (row: AlarmRuleRow): AlarmRule => ({
+  id: row.id,
+  name: row.name,
+  enabled: row.enabled === 1,
+  severity: row.severity,
+  target: JSON.parse(row.target) as AlarmTarget,
+  condition: JSON.parse(row.condition) as AlarmCondition,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toAlarm = (row: AlarmRow): Alarm => {
+  const alarm = {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    deviceUUID: row.device_uuid,
+    deviceName: row.device_name,
+    customerId: row.customer_id,
+    severity: row.severity,
+    message: row.message,
+    value: row.value,
+    startedAt: row.started_at,
+    raisedAt: row.raised_at,
+    lastSeenAt: row.last_seen_at,
+    acknowledgedAt: row.acknowledged_at,
+    acknowledgedBy: row.acknowledged_by,
+    clearedAt: row.cleared_at,
+    clearedBy: row.cleared_by,
+  };
+  return { ...alarm, status: alarmStatus(alarm) };
+};
+
+export const findAllRules = async (): Promise<AlarmRule[]> => {
+  const rows = getDatabase().prepare("SELECT * FROM alarm_rules ORDER BY name").all() as AlarmRuleRow[];
+  return rows.map(toRule);
+};
+
+export const findRuleById = async (id: string): Promise<AlarmRule | null> => {
+  const row = getDatabase().prepare("SELECT * FROM alarm_rules WHERE id = ?").get(id) as AlarmRuleRow | undefined;
+  return row ? toRule(row) : null;
+};
+
+export const saveRule = async (rule: AlarmRule): Promise<AlarmRule> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO alarm_rules (id, name, enabled, severity, target, condition, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, enabled = excluded.enabled, severity = excluded.severity,
+         target = excluded.target, condition = excluded.condition, updated_at = excluded.updated_at`,
+    )
+    .run(
+      rule.id,
+      rule.name,
+      rule.enabled ? 1 : 0,
+      rule.severity,
+      JSON.stringify(rule.target),
+      JSON.stringify(rule.condition),
+      rule.createdAt,
+      rule.updatedAt,
+    );
+  return rule;
+};
+
+export const deleteRuleById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM alarm_rules WHERE id = ?").run(id).changes > 0;
+};
+
+export const findAlarms = async (filter: AlarmFilter): Promise<Alarm[]> => {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.status) clauses.push(STATUS_CONDITIONS[filter.status]);
+  if (filter.severity) {
+    clauses.push("severity = ?");
+    params.push(filter.severity);
+  }
+  if (filter.deviceUUID) {
+    clauses.push("device_uuid = ?");
+    params.push(filter.deviceUUID);
+  }
+  if (filter.ruleId) {
+    clauses.push("rule_id = ?");
+    params.push(filter.ruleId);
+  }
+  if (filter.customerIds) {
+    clauses.push(`customer_id IN (${filter.customerIds.map(() => "?").join(", ") || "NULL"})`);
+    params.push(...filter.customerIds);
+  }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const rows = getDatabase()
+    .prepare(`SELECT * FROM alarms ${where} ORDER BY raised_at DESC LIMIT ?`)
+    .all(...params, filter.limit) as AlarmRow[];
+  return rows.map(toAlarm);
+};
+
+export const findAlarmById = async (id: string): Promise<Alarm | null> => {
+  const row = getDatabase().prepare("SELECT * FROM alarms WHERE id = ?").get(id) as AlarmRow | undefined;
+  return row ? toAlarm(row) : null;
+};
+
+/**
+ * Uncleared alarms of a rule, keyed by device UUID
+ */
+export const findOpenAlarmsByRule = async (ruleId: string): Promise<Map<string, Alarm>> => {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM alarms WHERE rule_id = ? AND cleared_at IS NULL")
+    .all(ruleId) as AlarmRow[];
+  return new Map(rows.map((row) => [row.device_uuid, toAlarm(row)]));
+};
+
+export const insertAlarm = async (alarm: Alarm): Promise<Alarm> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO alarms (id, rule_id, rule_name, device_uuid, device_name, customer_id, severity, message, value,
+         started_at, raised_at, last_seen_at, acknowledged_at, acknowledged_by, cleared_at, cleared_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      alarm.id,
+      alarm.ruleId,
+      alarm.ruleName,
+      alarm.deviceUUID,
+      alarm.deviceName,
+      alarm.customerId,
+      alarm.severity,
+      alarm.message,
+      alarm.value,
+      alarm.startedAt,
+      alarm.raisedAt,
+      alarm.lastSeenAt,
+      alarm.acknowledgedAt,
+      alarm.acknowledgedBy,
+      alarm.clearedAt,
+      alarm.clearedBy,
+    );
+  return alarm;
+};
+
+export const updateAlarm = async (alarm: Alarm): Promise<Alarm> => {
+  getDatabase()
+    .prepare(
+      `UPDATE alarms SET severity = ?, message = ?, value = ?, last_seen_at = ?, acknowledged_at = ?,
+         acknowledged_by = ?, cleared_at = ?, cleared_by = ? WHERE id = ?`,
+    )
+    .run(
+      alarm.severity,
+      alarm.message,
+      alarm.value,
+      alarm.lastSeenAt,
+      alarm.acknowledgedAt,
+      alarm.acknowledgedBy,
+      alarm.clearedAt,
+      alarm.clearedBy,
+      alarm.id,
+    );
+  return { ...alarm, status: alarmStatus(alarm) };
+};
@@ -0,0 +1,195 @@
+import { randomUUID } from "node:crypto";
+import { ForbiddenError, NotFoundError } from "../../utils/apiError.js";
+import { eventBus } from "../../services/event-bus.js";
+import { AuthPayload } from "../auth/auth.model.js";
+import { canViewDevice, isAdmin, ScopedDevice } from "../auth/auth.policy.js";
+import { Alarm, AlarmRule } from "./alarm.model.js";
+import {
+  deleteRuleById,
+  findAlarmById,
+  findAlarms,
+  findAllRules,
+  findRuleById,
+  insertAlarm,
+  saveRule,
+  updateAlarm,
+} from "./alarm.repository.js";
+import { AlarmListQuery, AlarmRuleInput, AlarmTarget } from "./alarm.validation.js";
+
+export type AlarmObservation = {
+  value: number | null;
+  // When the condition started to hold (epoch ms)
+  since: number;
+  message: string;
+};
+
+const alarmDevice = (alarm: Alarm): ScopedDevice => ({
+  deviceUUID: alarm.deviceUUID,
+  customerId: alarm.customerId ?? undefined,
+  assignedToCustomer: alarm.customerId !== null,
+});
+
+const publishAlarmEvent = (type: "alarm.raised" | "alarm.acknowledged" | "alarm.cleared", alarm: Alarm) => {
+  const where = alarm.deviceName ?? alarm.deviceUUID;
+  const titles = {
+    "alarm.raised": `${alarm.ruleName} on ${where}: ${alarm.message}`,
+    "alarm.acknowledged": `${alarm.ruleName} on ${where} was acknowledged`,
+    "alarm.cleared": `${alarm.ruleName} on ${where} cleared`,
+  };
+
+  eventBus.publish({
+    type,
+    severity: alarm.severity,
+    title: titles[type],
+    deviceUUID: alarm.deviceUUID,
+    deviceName: alarm.deviceName ?? undefined,
+    customerId: alarm.customerId ?? undefined,
+    data: {
+      alarmId: alarm.id,
+      ruleName: alarm.ruleName,
+      message: alarm.message,
+      value: alarm.value,
+      status: alarm.status,
+      startedAt: alarm.startedAt,
+    },
+  });
+};
+
+/**
+ * Non-admins may only target their own customers' devices; rules over every
+ * device are reserved to admins. Device targets are checked by the caller,
+ * which knows the device list.
+ */
+const assertTargetAllowed = (auth: AuthPayload, target: AlarmTarget) => {
+  if (isAdmin(auth)) return;
+  if (target.type === "all") {
+    throw new ForbiddenError("Only admins can define rules for all devices");
+  }
+  if (target.type === "customer" && !auth.customerIds.includes(target.customerId)) {
+    throw new ForbiddenError("Insufficient permissions");
+  }
+};
+
+export const listRules = async (): Promise<AlarmRule[]> => findAllRules();
+
+export const getRule = async (id: string): Promise<AlarmRule> => {
+  const rule = await findRuleById(id);
+  if (!rule) {
+    throw new NotFoundError(`Alarm rule ${id} not found`);
+  }
+  return rule;
+};
+
+export const createRule = async (input: AlarmRuleInput, auth: AuthPayload): Promise<AlarmRule> => {
+  assertTargetAllowed(auth, input.target);
+  const now = new Date().toISOString();
+  return saveRule({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+};
+
+export const replaceRule = async (id: string, input: AlarmRuleInput, auth: AuthPayload): Promise<AlarmRule> => {
+  const existing = await getRule(id);
+  assertTargetAllowed(auth, existing.target);
+  assertTargetAllowed(auth, input.target);
+  return saveRule({ ...input, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() });
+};
+
+export const deleteRule = async (id: string, auth: AuthPayload): Promise<void> => {
+  assertTargetAllowed(auth, (await getRule(id)).target);
+  await deleteRuleById(id);
+};
+
+export const listAlarms = async (query: AlarmListQuery, auth: AuthPayload): Promise<Alarm[]> => {
+  return findAlarms({ ...query, customerIds: isAdmin(auth) ? undefined : auth.customerIds });
+};
+
+/**
+ * Alarms on devices hidden from `auth` are reported as not found
+ */
+export const getAlarm = async (id: string, auth: AuthPayload): Promise<Alarm> => {
+  const alarm = await findAlarmById(id);
+  if (!alarm || !canViewDevice(auth, alarmDevice(alarm))) {
+    throw new NotFoundError(`Alarm ${id} not found`);
+  }
+  return alarm;
+};
+
+/**
+ * Acknowledging is idempotent; acknowledging a cleared alarm closes it
+ */
+export const acknowledgeAlarm = async (id: string, auth: AuthPayload): Promise<Alarm> => {
+  const alarm = await getAlarm(id, auth);
+  if (alarm.acknowledgedAt) return alarm;
+  const acknowledged = await updateAlarm({
+    ...alarm,
+    acknowledgedAt: new Date().toISOString(),
+    acknowledgedBy: auth.userId,
+  });
+  publishAlarmEvent("alarm.acknowledged", acknowledged);
+  return acknowledged;
+};
+
+/**
+ * Manual clear. If the condition still holds, the evaluator raises a new alarm.
+ */
+export const clearAlarm = async (id: string, auth: AuthPayload): Promise<Alarm> => {
+  const alarm = await getAlarm(id, auth);
+  if (alarm.clearedAt) return alarm;
+  const cleared = await updateAlarm({ ...alarm, clearedAt: new Date().toISOString(), clearedBy: auth.userId });
+  publishAlarmEvent("alarm.cleared", cleared);
+  return cleared;
+};
+
+/**
+ * Raise an alarm for a rule and device, or refresh the one already open
+ * (at most one uncleared alarm exists per rule and device).
+ */
+export const raiseAlarm = async (
+  rule: AlarmRule,
+  device: ScopedDevice & { name?: string },
+  observation: AlarmObservation,
+  open: Alarm | undefined,
+  now: number,
+): Promise<{ alarm: Alarm; created: boolean }> => {
+  const seenAt = new Date(now).toISOString();
+  if (open) {
+    const alarm = await updateAlarm({
+      ...open,
+      severity: rule.severity,
+      message: observation.message,
+      value: observation.value,
+      lastSeenAt: seenAt,
+    });
+    return { alarm, created: false };
+  }
+
+  const alarm = await insertAlarm({
+    id: randomUUID(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    deviceUUID: device.deviceUUID,
+    deviceName: device.name ?? null,
+    customerId: device.assignedToCustomer && typeof device.customerId === "number" ? device.customerId : null,
+    severity: rule.severity,
+    status: "active",
+    message: observation.message,
+    value: observation.value,
+    startedAt: new Date(observation.since).toISOString(),
+    raisedAt: seenAt,
+    lastSeenAt: seenAt,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    clearedAt: null,
+    clearedBy: null,
+  });
+  publishAlarmEvent("alarm.raised", alarm);
+  return { alarm, created: true };
+};
+
+/**
+ * Clear an open alarm because its condition no longer holds
+ */
+export const autoClearAlarm = async (alarm: Alarm, now: number): Promise<Alarm> => {
+  const cleared = await updateAlarm({ ...alarm, clearedAt: new Date(now).toISOString(), clearedBy: null });
+  publishAlarmEvent("alarm.cleared", cleared);
+  return cleared;
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { ALARM_SEVERITIES, ALARM_STATUSES } from "./alarm.model.js";
+
+const key = z.string().trim().min(1);
+
+export const THRESHOLD_OPERATORS = [">", ">=", "<", "<="] as const;
+
+export const alarmConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("threshold"),
+    key,
+    operator: z.enum(THRESHOLD_OPERATORS),
+    value: z.number(),
+    // How long the threshold must be breached before the alarm is raised
+    durationMs: z.number().int().nonnegative().default(0),
+    // Margin the value must move back past the threshold before the alarm clears
+    hysteresis: z.number().nonnegative().default(0),
+  }),
+  z.object({
+    type: z.literal("no_data"),
+    key,
+    durationMs: z.number().int().positive(),
+  }),
+]);
+
+export const alarmTargetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("device"), deviceUUID: z.string().trim().min(1) }),
+  z.object({ type: z.literal("customer"), customerId: z.number().int() }),
+  z.object({ type: z.literal("all") }),
+]);
+
+export const alarmRuleSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  enabled: z.boolean().default(true),
+  severity: z.enum(ALARM_SEVERITIES).default("major"),
+  target: alarmTargetSchema,
+  condition: alarmConditionSchema,
+});
+
+export const alarmListQuerySchema = z.object({
+  status: z.enum(ALARM_STATUSES).optional(),
+  severity: z.enum(ALARM_SEVERITIES).optional(),
+  deviceUUID: z.string().trim().min(1).optional(),
+  ruleId: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export type AlarmCondition = z.infer<typeof alarmConditionSchema>;
+export type ThresholdCondition = Extract<AlarmCondition, { type: "threshold" }>;
+export type AlarmTarget = z.infer<typeof alarmTargetSchema>;
+export type AlarmRuleInput = z.infer<typeof alarmRuleSchema>;
+export type AlarmListQuery = z.infer<typeof alarmListQuerySchema>;
+
+export const alarmValidation = {
+  rule: alarmRuleSchema,
+  listQuery: alarmListQuerySchema,
+};
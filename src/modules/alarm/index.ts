@@ -0,0 +1,2 @@
+export * from "./alarm.model.js";
+export * from "./alarm.service.js";
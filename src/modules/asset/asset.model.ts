@@ -0,0 +1,25 @@
+import { AssetMetadata } from "./asset.validation.js";
+
+// Levels of the hierarchy, top down. A node may skip levels (e.g. a meter
+// directly under a building) but never sit above its parent's level.
+export const ASSET_NODE_TYPES = ["company", "site", "building", "line", "meter"] as const;
+export type AssetNodeType = (typeof ASSET_NODE_TYPES)[number];
+
+export type AssetNode = {
+  id: string;
+  parentId: string | null;
+  type: AssetNodeType;
+  name: string;
+  // Customer owning the company this node belongs to; null for admin-only trees
+  customerId: number | null;
+  metadata: AssetMetadata;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AssetTreeNode = AssetNode & {
+  deviceUUIDs: string[];
+  children: AssetTreeNode[];
+};
+
+export const assetLevel = (type: AssetNodeType) => ASSET_NODE_TYPES.indexOf(type);
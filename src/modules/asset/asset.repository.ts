@@ -0,0 +1,142 @@
+import { getDatabase } from "../../config/database.js";
+import { AssetNode, AssetNodeType } from "./asset.model.js";
+import { AssetMetadata } from "./asset.validation.js";
+
+type AssetNodeRow = {
+  id: string;
+  parent_id: string | null;
+  type: AssetNodeType;
+  name: string;
+  customer_id: number | null;
+  metadata: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const toAssetNode = (row: AssetNodeRow): AssetNode => ({
+  id: row.id,
+  parentId: row.parent_id,
+  type: row.type,
+  name: row.name,
+  customerId: row.customer_id,
+  metadata: JSON.parse(row.metadata) as AssetMetadata,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Ids of a node and all its descendants
+const SUBTREE = `WITH RECURSIVE subtree (id) AS (
+    SELECT id FROM asset_nodes WHERE id = ?
+    UNION ALL
+    SELECT n.id FROM asset_nodes n JOIN subtree s ON n.parent_id = s.id
+  )`;
+
+export const findAllNodes = async (customerIds?: number[]): Promise<AssetNode[]> => {
+  const db = getDatabase();
+  const rows = (
+    customerIds
+      ? db
+          .prepare(
+            `SELECT * FROM asset_nodes WHERE customer_id IN (${customerIds.map(() => "?").join(", ") || "NULL"})
+             ORDER BY name`,
+          )
+          .all(...customerIds)
+      : db.prepare("SELECT * FROM asset_nodes ORDER BY name").all()
+  ) as AssetNodeRow[];
+  return rows.map(toAssetNode);
+};
+
+export const findNodeById = async (id: string): Promise<AssetNode | null> => {
+  const row = getDatabase().prepare("SELECT * FROM asset_nodes WHERE id = ?").get(id) as AssetNodeRow | undefined;
+  return row ? toAssetNode(row) : null;
+};
+
+export const findChildren = async (id: string): Promise<AssetNode[]> => {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM asset_nodes WHERE parent_id = ? ORDER BY name")
+    .all(id) as AssetNodeRow[];
+  return rows.map(toAssetNode);
+};
+
+export const saveNode = async (node: AssetNode): Promise<AssetNode> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO asset_nodes (id, parent_id, type, name, customer_id, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET parent_id = excluded.parent_id, name = excluded.name,
+         customer_id = excluded.customer_id, metadata = excluded.metadata, updated_at = excluded.updated_at`,
+    )
+    .run(
+      node.id,
+      node.parentId,
+      node.type,
+      node.name,
+      node.customerId,
+      JSON.stringify(node.metadata),
+      node.createdAt,
+      node.updatedAt,
+    );
+  return node;
+};
+
+/**
+ * Delete a node; its descendants and device attachments go with it
+ */
+export const deleteNodeById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM asset_nodes WHERE id = ?").run(id).changes > 0;
+};
+
+/**
+ * Device UUIDs attached to the node itself, or to it and all its descendants
+ */
+export const findNodeDevices = async (id: string, includeDescendants: boolean): Promise<string[]> => {
+  const rows = (
+    includeDescendants
+      ? getDatabase()
+          .prepare(
+            `${SUBTREE} SELECT device_uuid FROM asset_devices WHERE node_id IN (SELECT id FROM subtree)
+             ORDER BY device_uuid`,
+          )
+          .all(id)
+      : getDatabase().prepare("SELECT device_uuid FROM asset_devices WHERE node_id = ? ORDER BY device_uuid").all(id)
+  ) as { device_uuid: string }[];
+  return rows.map((row) => row.device_uuid);
+};
+
+export const findDeviceAttachments = async (): Promise<Map<string, string[]>> => {
+  const rows = getDatabase().prepare("SELECT device_uuid, node_id FROM asset_devices").all() as {
+    device_uuid: string;
+    node_id: string;
+  }[];
+  const byNode = new Map<string, string[]>();
+  for (const row of rows) {
+    byNode.set(row.node_id, [...(byNode.get(row.node_id) ?? []), row.device_uuid]);
+  }
+  return byNode;
+};
+
+export const findDeviceNodeId = async (deviceUUID: string): Promise<string | null> => {
+  const row = getDatabase().prepare("SELECT node_id FROM asset_devices WHERE device_uuid = ?").get(deviceUUID) as
+    | { node_id: string }
+    | undefined;
+  return row?.node_id ?? null;
+};
+
+/**
+ * Attach a device to a node, moving it away from its previous node
+ */
+export const attachDevice = async (deviceUUID: string, nodeId: string): Promise<void> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO asset_devices (device_uuid, node_id, created_at) VALUES (?, ?, ?)
+       ON CONFLICT (device_uuid) DO UPDATE SET node_id = excluded.node_id, created_at = excluded.created_at`,
+    )
+    .run(deviceUUID, nodeId, new Date().toISOString());
+};
+
+export const detachDevice = async (deviceUUID: string, nodeId: string): Promise<boolean> => {
+  return (
+    getDatabase().prepare("DELETE FROM asset_devices WHERE device_uuid = ? AND node_id = ?").run(deviceUUID, nodeId)
+      .changes > 0
+  );
+};
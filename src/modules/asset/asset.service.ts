@@ -0,0 +1,183 @@
+import { randomUUID } from "node:crypto";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../../utils/apiError.js";
+import { AuthPayload } from "../auth/auth.model.js";
+import { isAdmin } from "../auth/auth.policy.js";
+import { AssetNode, AssetTreeNode, assetLevel } from "./asset.model.js";
+import {
+  attachDevice,
+  deleteNodeById,
+  detachDevice,
+  findAllNodes,
+  findChildren,
+  findDeviceAttachments,
+  findDeviceNodeId,
+  findNodeById,
+  findNodeDevices,
+  saveNode,
+} from "./asset.repository.js";
+import { CreateAssetNodeInput, UpdateAssetNodeInput } from "./asset.validation.js";
+
+/**
+ * Admins see every node; other users the trees of their customers
+ */
+const canViewNode = (auth: AuthPayload, node: AssetNode) =>
+  isAdmin(auth) || (node.customerId !== null && auth.customerIds.includes(node.customerId));
+
+export const listNodes = async (auth: AuthPayload): Promise<AssetNode[]> =>
+  findAllNodes(isAdmin(auth) ? undefined : auth.customerIds);
+
+/**
+ * Visible nodes as nested trees, one per company, with the devices attached to each node
+ */
+export const getNodeTree = async (auth: AuthPayload): Promise<AssetTreeNode[]> => {
+  const nodes = await listNodes(auth);
+  const devices = await findDeviceAttachments();
+  const byId = new Map<string, AssetTreeNode>(
+    nodes.map((node) => [node.id, { ...node, deviceUUIDs: devices.get(node.id) ?? [], children: [] }]),
+  );
+
+  const roots: AssetTreeNode[] = [];
+  for (const node of byId.values()) {
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+};
+
+export const getNode = async (id: string, auth: AuthPayload): Promise<AssetNode> => {
+  const node = await findNodeById(id);
+  if (!node || !canViewNode(auth, node)) {
+    throw new NotFoundError(`Asset node ${id} not found`);
+  }
+  return node;
+};
+
+/**
+ * Nodes from the company down to `node`
+ */
+export const getNodePath = async (node: AssetNode): Promise<AssetNode[]> => {
+  const path = [node];
+  let current = node;
+  while (current.parentId) {
+    const parent = await findNodeById(current.parentId);
+    if (!parent) break;
+    path.unshift(parent);
+    current = parent;
+  }
+  return path;
+};
+
+const assertLevel = (parent: AssetNode, type: AssetNode["type"]) => {
+  if (assetLevel(type) <= assetLevel(parent.type)) {
+    throw new ValidationError(`A ${type} cannot be placed under a ${parent.type}`);
+  }
+};
+
+export const createNode = async (input: CreateAssetNodeInput, auth: AuthPayload): Promise<AssetNode> => {
+  let customerId = input.customerId;
+  if (input.type === "company") {
+    if (!isAdmin(auth)) {
+      throw new ForbiddenError("Only admins can create companies");
+    }
+  } else {
+    const parent = await getNode(input.parentId!, auth);
+    assertLevel(parent, input.type);
+    customerId = parent.customerId;
+  }
+
+  const now = new Date().toISOString();
+  return saveNode({
+    id: randomUUID(),
+    parentId: input.parentId,
+    type: input.type,
+    name: input.name,
+    customerId,
+    metadata: input.metadata,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Rename a node, replace its metadata and optionally move it (with its subtree)
+ * under another parent of the same company
+ */
+export const updateNode = async (id: string, input: UpdateAssetNodeInput, auth: AuthPayload): Promise<AssetNode> => {
+  const node = await getNode(id, auth);
+  let parentId = node.parentId;
+
+  if (input.parentId !== undefined && input.parentId !== node.parentId) {
+    if (node.type === "company" || input.parentId === null) {
+      throw new ValidationError("Companies stay top-level and other nodes need a parent");
+    }
+    const parent = await getNode(input.parentId, auth);
+    assertLevel(parent, node.type);
+    // Levels strictly increase downwards, so a node can never land under its own descendant
+    if ((await getNodePath(parent))[0].id !== (await getNodePath(node))[0].id) {
+      throw new ValidationError("Nodes can only move within their company");
+    }
+    parentId = parent.id;
+  }
+
+  return saveNode({
+    ...node,
+    parentId,
+    name: input.name,
+    metadata: input.metadata,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Delete a node. A node with children is only deleted with `cascade`, which
+ * removes its whole subtree; devices attached to removed nodes become unattached.
+ */
+export const deleteNode = async (id: string, auth: AuthPayload, cascade = false): Promise<void> => {
+  const node = await getNode(id, auth);
+  if (node.type === "company" && !isAdmin(auth)) {
+    throw new ForbiddenError("Only admins can delete companies");
+  }
+  if (!cascade && (await findChildren(id)).length > 0) {
+    throw new ConflictError(`Asset node ${node.name} has children; delete them first or pass cascade=true`);
+  }
+  await deleteNodeById(id);
+};
+
+export const listNodeDeviceUUIDs = async (
+  id: string,
+  auth: AuthPayload,
+  includeDescendants = true,
+): Promise<string[]> => {
+  await getNode(id, auth);
+  return findNodeDevices(id, includeDescendants);
+};
+
+/**
+ * Attach a device to a node. A device belongs to one node at a time, so it is
+ * moved if it was attached elsewhere. Returns the node it was moved from.
+ */
+export const attachDeviceToNode = async (
+  id: string,
+  device: { deviceUUID: string; customerId?: number },
+  auth: AuthPayload,
+): Promise<{ previousNodeId: string | null }> => {
+  const node = await getNode(id, auth);
+  if (node.customerId !== null && device.customerId !== node.customerId) {
+    throw new ValidationError(`Device ${device.deviceUUID} does not belong to the customer of ${node.name}`);
+  }
+
+  const previousNodeId = await findDeviceNodeId(device.deviceUUID);
+  await attachDevice(device.deviceUUID, id);
+  return { previousNodeId: previousNodeId === id ? null : previousNodeId };
+};
+
+export const detachDeviceFromNode = async (id: string, deviceUUID: string, auth: AuthPayload): Promise<void> => {
+  await getNode(id, auth);
+  if (!(await detachDevice(deviceUUID, id))) {
+    throw new NotFoundError(`Device ${deviceUUID} is not attached to asset node ${id}`);
+  }
+};
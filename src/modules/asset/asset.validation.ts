@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { ASSET_NODE_TYPES } from "./asset.model.js";
+
+/**
+ * Known figures used for normalized KPIs, plus free-form attributes
+ */
+export const assetMetadataSchema = z
+  .object({
+    // m², for kWh/m²
+    floorArea: z.number().positive().optional(),
+    // People on site, for kWh per person
+    headcount: z.number().int().positive().optional(),
+    address: z.string().trim().max(500).optional(),
+  })
+  .catchall(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+  .default({});
+
+export const createAssetNodeSchema = z
+  .object({
+    type: z.enum(ASSET_NODE_TYPES),
+    name: z.string().trim().min(1).max(200),
+    // Required for everything but companies
+    parentId: z.string().trim().min(1).nullable().default(null),
+    // Companies only; other nodes inherit it from their company
+    customerId: z.number().int().nullable().default(null),
+    metadata: assetMetadataSchema,
+  })
+  .refine((input) => (input.type === "company") === (input.parentId === null), {
+    message: "Companies are top-level nodes; every other node needs a parentId",
+    path: ["parentId"],
+  })
+  .refine((input) => input.type === "company" || input.customerId === null, {
+    message: "Only companies take a customerId; other nodes inherit it",
+    path: ["customerId"],
+  });
+
+export const updateAssetNodeSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  // Move the node (with its subtree) under another parent of the same company
+  parentId: z.string().trim().min(1).nullable().optional(),
+  metadata: assetMetadataSchema,
+});
+
+export type AssetMetadata = z.infer<typeof assetMetadataSchema>;
+export type CreateAssetNodeInput = z.infer<typeof createAssetNodeSchema>;
+export type UpdateAssetNodeInput = z.infer<typeof updateAssetNodeSchema>;
+
+export const assetValidation = {
+  create: createAssetNodeSchema,
+  update: updateAssetNodeSchema,
+};
@@ -0,0 +1,2 @@
+export * from "./asset.model.js";
+export * from "./asset.service.js";
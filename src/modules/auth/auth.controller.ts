@@ -1,5 +1,45 @@
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../../utils/apiError.js";
+import { success } from "../../utils/response.js";
+import { parseOrThrow } from "../../utils/validation.js";
+import * as authService from "./auth.service.js";
+import { authValidation } from "./auth.validation.js";
 
-export const login = (_req: Request, res: Response) => {
-  res.json({ token: "placeholder" });
-};
\ No newline at end of file
+export const login = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = parseOrThrow(authValidation.login, req.body);
+    const { user, tokens } = await authService.authenticate(email, password);
+    res.json(success({ ...tokens, user }));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { refreshToken } = parseOrThrow(authValidation.refresh, req.body);
+    res.json(success(await authService.refresh(refreshToken)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.auth) throw new UnauthorizedError("Not authenticated");
+    const { refreshToken } = parseOrThrow(authValidation.logout, req.body ?? {});
+    await authService.logout(req.auth, refreshToken);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const me = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.auth) throw new UnauthorizedError("Not authenticated");
+    res.json(success(await authService.getCurrentUser(req.auth)));
+  } catch (error) {
+    next(error);
+  }
+};
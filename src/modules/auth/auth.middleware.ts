@@ -1,5 +1,21 @@
 import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../../utils/apiError.js";
+import { verifyAccessToken } from "./auth.service.js";
 
-export function authMiddleware(_req: Request, _res: Response, next: NextFunction) {
-  next();
-}
\ No newline at end of file
+/**
+ * Require a valid `Authorization: Bearer <accessToken>` header and attach
+ * the decoded payload to `req.auth`.
+ */
+export async function authMiddleware(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+      throw new UnauthorizedError("Missing bearer token");
+    }
+
+    req.auth = await verifyAccessToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,4 +1,22 @@
-// Placeholder auth model
+import { UserRole } from "../user/user.model.js";
+
+export type TokenType = "access" | "refresh";
+
+/**
+ * Decoded access token, attached to authenticated requests as `req.auth`.
+ */
 export type AuthPayload = {
   userId: string;
-};
\ No newline at end of file
+  email: string;
+  role: UserRole;
+  customerIds: number[];
+  tokenId: string;
+  expiresAt: number;
+};
+
+export type TokenPair = {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  expiresIn: number;
+};
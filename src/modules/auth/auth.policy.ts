@@ -0,0 +1,71 @@
+import { NextFunction, Request, Response } from "express";
+import { ForbiddenError, UnauthorizedError } from "../../utils/apiError.js";
+import { UserRole } from "../user/user.model.js";
+import { AuthPayload } from "./auth.model.js";
+
+/**
+ * Minimal shape needed to decide whether a device is visible.
+ * Matches both CustomerDevice and DeviceService's Device.
+ */
+export type ScopedDevice = {
+  deviceUUID: string;
+  customerId?: number;
+  assignedToCustomer?: boolean;
+};
+
+export const isAdmin = (auth: Pick<AuthPayload, "role">) => auth.role === "admin";
+
+/**
+ * Admins see every device. Everyone else only sees devices that are assigned
+ * to one of their customers.
+ */
+export const canViewDevice = (auth: Pick<AuthPayload, "role" | "customerIds">, device: ScopedDevice): boolean => {
+  if (isAdmin(auth)) return true;
+  return (
+    device.assignedToCustomer === true &&
+    typeof device.customerId === "number" &&
+    auth.customerIds.includes(device.customerId)
+  );
+};
+
+export const filterVisibleDevices = <T extends ScopedDevice>(auth: AuthPayload, devices: T[]): T[] =>
+  devices.filter((device) => canViewDevice(auth, device));
+
+/**
+ * Roles allowed to change device-level configuration (attributes, rules, ...).
+ */
+export const canManageDevices = (auth: AuthPayload) => auth.role === "admin" || auth.role === "site_manager";
+
+/**
+ * Express guard: 401 without a session, 403 if the caller's role is not listed.
+ * Must run after authMiddleware.
+ */
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      next(new UnauthorizedError("Not authenticated"));
+      return;
+    }
+    if (!roles.includes(req.auth.role)) {
+      next(new ForbiddenError("Insufficient permissions"));
+      return;
+    }
+    next();
+  };
+
+/**
+ * Raw ThingsBoard entity access (legacy /telemetry/timeseries).
+ * The ThingsBoard account is shared between customers, so non-admins are
+ * limited to DEVICE entities that are visible to them.
+ */
+export const canQueryEntity = (
+  auth: AuthPayload,
+  entityType: string,
+  entityId: string,
+  devices: ScopedDevice[]
+): boolean => {
+  if (isAdmin(auth)) return true;
+  if (entityType.toUpperCase() !== "DEVICE") return false;
+  return devices.some((device) => device.deviceUUID === entityId && canViewDevice(auth, device));
+};
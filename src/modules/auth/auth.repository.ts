@@ -1,2 +1,15 @@
-// Placeholder repository
-export const findAuthRecord = async () => null;
\ No newline at end of file
+import { getDatabase, withTransaction } from "../../config/database.js";
+
+// Revoked token ids (jti) are kept until the token would have expired anyway.
+
+export const revokeToken = async (tokenId: string, expiresAt: number) => {
+  withTransaction((db) => {
+    db.prepare("DELETE FROM revoked_tokens WHERE expires_at <= ?").run(Date.now());
+    db.prepare("INSERT OR REPLACE INTO revoked_tokens (token_id, expires_at) VALUES (?, ?)").run(tokenId, expiresAt);
+  });
+};
+
+export const isTokenRevoked = async (tokenId: string): Promise<boolean> => {
+  const row = getDatabase().prepare("SELECT 1 FROM revoked_tokens WHERE token_id = ?").get(tokenId);
+  return row !== undefined;
+};
@@ -1,6 +1,10 @@
 import { Router } from "express";
-import { login } from "./auth.controller.js";
+import { login, logout, me, refresh } from "./auth.controller.js";
+import { authMiddleware } from "./auth.middleware.js";
 
 export const authRouter = Router();
 
-authRouter.post("/login", login);
\ No newline at end of file
+authRouter.post("/login", login);
+authRouter.post("/refresh", refresh);
+authRouter.post("/logout", authMiddleware, logout);
+authRouter.get("/me", authMiddleware, me);
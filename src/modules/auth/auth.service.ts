@@ -1,4 +1,116 @@
-// Placeholder auth service
-export const authenticate = async () => {
-  return { token: "placeholder" };
-};
\ No newline at end of file
+import { randomUUID } from "node:crypto";
+import jwt from "jsonwebtoken";
+import { config } from "../../config/index.js";
+import { UnauthorizedError } from "../../utils/apiError.js";
+import { verifyPassword } from "../../utils/password.js";
+import { toPublicUser, User, UserRole } from "../user/user.model.js";
+import { findUserByEmail, findUserById } from "../user/user.repository.js";
+import { AuthPayload, TokenPair, TokenType } from "./auth.model.js";
+import { isTokenRevoked, revokeToken } from "./auth.repository.js";
+
+type TokenClaims = {
+  sub: string;
+  email: string;
+  role: UserRole;
+  customerIds: number[];
+  type: TokenType;
+  jti: string;
+  exp: number;
+};
+
+const secretFor = (type: TokenType) =>
+  type === "access" ? config.auth.accessTokenSecret : config.auth.refreshTokenSecret;
+
+const signToken = (user: User, type: TokenType, ttlSeconds: number) =>
+  jwt.sign({ email: user.email, role: user.role, customerIds: user.customerIds, type }, secretFor(type), {
+    subject: user.id,
+    jwtid: randomUUID(),
+    expiresIn: ttlSeconds,
+  });
+
+const issueTokens = (user: User): TokenPair => ({
+  accessToken: signToken(user, "access", config.auth.accessTokenTtlSeconds),
+  refreshToken: signToken(user, "refresh", config.auth.refreshTokenTtlSeconds),
+  tokenType: "Bearer",
+  expiresIn: config.auth.accessTokenTtlSeconds,
+});
+
+/**
+ * Verify signature, expiry, token type and revocation.
+ */
+const verifyToken = async (token: string, type: TokenType): Promise<TokenClaims> => {
+  let claims: TokenClaims;
+  try {
+    claims = jwt.verify(token, secretFor(type)) as TokenClaims;
+  } catch {
+    throw new UnauthorizedError("Invalid or expired token");
+  }
+
+  if (claims.type !== type || !claims.jti || !claims.sub) {
+    throw new UnauthorizedError("Invalid or expired token");
+  }
+  if (await isTokenRevoked(claims.jti)) {
+    throw new UnauthorizedError("Token has been revoked");
+  }
+  return claims;
+};
+
+export const authenticate = async (email: string, password: string) => {
+  const user = await findUserByEmail(email);
+  // Same message for unknown users and wrong passwords to avoid account enumeration
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new UnauthorizedError("Invalid email or password");
+  }
+
+  const publicUser = toPublicUser(user);
+  return { user: publicUser, tokens: issueTokens(publicUser) };
+};
+
+/**
+ * Exchange a refresh token for a new pair. The presented refresh token is
+ * revoked so each one can only be used once.
+ */
+export const refresh = async (refreshToken: string): Promise<TokenPair> => {
+  const claims = await verifyToken(refreshToken, "refresh");
+  const user = await findUserById(claims.sub);
+  if (!user) {
+    throw new UnauthorizedError("User no longer exists");
+  }
+
+  await revokeToken(claims.jti, claims.exp * 1000);
+  return issueTokens(toPublicUser(user));
+};
+
+export const verifyAccessToken = async (accessToken: string): Promise<AuthPayload> => {
+  const claims = await verifyToken(accessToken, "access");
+  return {
+    userId: claims.sub,
+    email: claims.email,
+    role: claims.role,
+    customerIds: claims.customerIds ?? [],
+    tokenId: claims.jti,
+    expiresAt: claims.exp * 1000,
+  };
+};
+
+/**
+ * Revoke the current access token and, when given, the refresh token of the session.
+ */
+export const logout = async (auth: AuthPayload, refreshToken?: string) => {
+  await revokeToken(auth.tokenId, auth.expiresAt);
+
+  if (refreshToken) {
+    const claims = await verifyToken(refreshToken, "refresh").catch(() => null);
+    if (claims && claims.sub === auth.userId) {
+      await revokeToken(claims.jti, claims.exp * 1000);
+    }
+  }
+};
+
+export const getCurrentUser = async (auth: AuthPayload): Promise<User> => {
+  const user = await findUserById(auth.userId);
+  if (!user) {
+    throw new UnauthorizedError("User no longer exists");
+  }
+  return toPublicUser(user);
+};
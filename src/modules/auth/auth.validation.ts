@@ -1,2 +1,20 @@
-// Placeholder validation
-export const authValidation = {};
\ No newline at end of file
+import { z } from "zod";
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+export const authValidation = {
+  login: loginSchema,
+  refresh: refreshSchema,
+  logout: logoutSchema,
+};
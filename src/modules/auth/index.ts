@@ -1 +1,3 @@
-export {};
\ No newline at end of file
+export * from "./auth.routes.js";
+export * from "./auth.middleware.js";
+export * from "./auth.model.js";
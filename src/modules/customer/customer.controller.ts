@@ -1,23 +1,91 @@
 /**
  * Customer Controller
- * Handles HTTP requests for customer devices
+ * Handles HTTP requests for the customer registry and customer devices
  */
 
 import { Request, Response, NextFunction } from 'express';
 import * as customerService from './customer.service.js';
-import { logger } from '../../utils/logger.js';
+import { filterVisibleDevices, isAdmin } from '../auth/auth.policy.js';
+import { NotFoundError } from '../../utils/apiError.js';
+import { success } from '../../utils/response.js';
+import { parseOrThrow } from '../../utils/validation.js';
+import { toPublicCustomer } from './customer.model.js';
+import { customerValidation } from './customer.validation.js';
+
+/**
+ * Id from the route, checked against the caller's customers.
+ * Customers outside the caller's scope are reported as not found so their existence is not leaked.
+ */
+const customerIdFor = (req: Request): number => {
+  const { customerId } = parseOrThrow(customerValidation.params, req.params);
+  if (req.auth && !isAdmin(req.auth) && !req.auth.customerIds.includes(customerId)) {
+    throw new NotFoundError(`Customer ${customerId} not found`);
+  }
+  return customerId;
+};
+
+/**
+ * GET /api/customer
+ * Admins get every customer, everyone else their own
+ */
+export const getCustomers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ids = req.auth && !isAdmin(req.auth) ? req.auth.customerIds : undefined;
+    const customers = await customerService.listCustomers(ids);
+    res.json(success(customers.map(toPublicCustomer)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCustomerById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(toPublicCustomer(await customerService.getCustomer(customerIdFor(req)))));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const postCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseOrThrow(customerValidation.create, req.body);
+    res.status(201).json(success(toPublicCustomer(await customerService.createCustomer(input))));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const putCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const customerId = customerIdFor(req);
+    const definition = parseOrThrow(customerValidation.definition, req.body);
+    res.json(success(toPublicCustomer(await customerService.replaceCustomer(customerId, definition))));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await customerService.deleteCustomer(customerIdFor(req));
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
 
 /**
  * GET /api/customer/devices
- * Fetch all Indusmind customer devices
+ * Devices of every registered customer that are visible to the caller
  */
 export const getCustomerDevices = async (
-  _req: Request,
+  req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const devices = await customerService.getAllIndusmindCustomerDevices();
+    const allDevices = await customerService.getAllCustomerDevices();
+    const devices = req.auth ? filterVisibleDevices(req.auth, allDevices) : [];
     
     res.json({
       success: true,
@@ -26,7 +94,27 @@ export const getCustomerDevices = async (
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-console.error('Error in getCustomerDevices controller:', error);
+    next(error);
+  }
+};
+
+/**
+ * GET /api/customer/:customerId/devices
+ * Devices of one customer, straight from its device API
+ */
+export const getDevicesOfCustomer = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const customer = await customerService.getCustomer(customerIdFor(req));
+    const allDevices = await customerService.fetchCustomerDevices(customer);
+    const devices = req.auth ? filterVisibleDevices(req.auth, allDevices) : [];
+
+    res.json({
+      success: true,
+      data: devices,
+      count: devices.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
     next(error);
   }
 };
@@ -0,0 +1,34 @@
+import { CustomerDefinition } from './customer.validation.js';
+
+export type Customer = CustomerDefinition & {
+  id: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * A customer as sent to clients: ThingsBoard passwords and device API header
+ * values (API keys) are left out.
+ */
+export type PublicCustomer = Omit<Customer, 'deviceApi' | 'thingsboard'> & {
+  deviceApi: { url: string; customerName?: string; headers: string[] } | null;
+  thingsboard: { baseUrl?: string; username: string } | null;
+};
+
+export const toPublicCustomer = (customer: Customer): PublicCustomer => ({
+  id: customer.id,
+  name: customer.name,
+  deviceApi: customer.deviceApi
+    ? {
+        url: customer.deviceApi.url,
+        customerName: customer.deviceApi.customerName,
+        headers: Object.keys(customer.deviceApi.headers),
+      }
+    : null,
+  thingsboard: customer.thingsboard
+    ? { baseUrl: customer.thingsboard.baseUrl, username: customer.thingsboard.username }
+    : null,
+  branding: customer.branding,
+  createdAt: customer.createdAt,
+  updatedAt: customer.updatedAt,
+});
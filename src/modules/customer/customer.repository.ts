@@ -0,0 +1,76 @@
+import { getDatabase } from '../../config/database.js';
+import { Customer } from './customer.model.js';
+
+type CustomerRow = {
+  id: number;
+  name: string;
+  device_api: string | null;
+  thingsboard: string | null;
+  branding: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const toCustomer = (row: CustomerRow): Customer => ({
+  id: row.id,
+  name: row.name,
+  deviceApi: row.device_api ? (JSON.parse(row.device_api) as Customer['deviceApi']) : null,
+  thingsboard: row.thingsboard ? (JSON.parse(row.thingsboard) as Customer['thingsboard']) : null,
+  branding: JSON.parse(row.branding) as Customer['branding'],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const findAllCustomers = async (ids?: number[]): Promise<Customer[]> => {
+  const db = getDatabase();
+  const rows = (
+    ids
+      ? db
+          .prepare(`SELECT * FROM customers WHERE id IN (${ids.map(() => '?').join(', ') || 'NULL'}) ORDER BY name`)
+          .all(...ids)
+      : db.prepare('SELECT * FROM customers ORDER BY name').all()
+  ) as CustomerRow[];
+  return rows.map(toCustomer);
+};
+
+export const findCustomerById = async (id: number): Promise<Customer | null> => {
+  const row = getDatabase().prepare('SELECT * FROM customers WHERE id = ?').get(id) as CustomerRow | undefined;
+  return row ? toCustomer(row) : null;
+};
+
+export const findCustomerByName = async (name: string): Promise<Customer | null> => {
+  const row = getDatabase().prepare('SELECT * FROM customers WHERE name = ? COLLATE NOCASE').get(name) as
+    | CustomerRow
+    | undefined;
+  return row ? toCustomer(row) : null;
+};
+
+export const countCustomers = async (): Promise<number> =>
+  (getDatabase().prepare('SELECT COUNT(*) AS n FROM customers').get() as { n: number }).n;
+
+/**
+ * Insert or update a customer. Without an id, SQLite assigns the next one.
+ */
+export const saveCustomer = async (customer: Omit<Customer, 'id'> & { id?: number }): Promise<Customer> => {
+  const result = getDatabase()
+    .prepare(
+      `INSERT INTO customers (id, name, device_api, thingsboard, branding, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, device_api = excluded.device_api,
+         thingsboard = excluded.thingsboard, branding = excluded.branding, updated_at = excluded.updated_at`,
+    )
+    .run(
+      customer.id ?? null,
+      customer.name,
+      customer.deviceApi ? JSON.stringify(customer.deviceApi) : null,
+      customer.thingsboard ? JSON.stringify(customer.thingsboard) : null,
+      JSON.stringify(customer.branding),
+      customer.createdAt,
+      customer.updatedAt,
+    );
+  return { ...customer, id: customer.id ?? Number(result.lastInsertRowid) };
+};
+
+export const deleteCustomerById = async (id: number): Promise<boolean> => {
+  return getDatabase().prepare('DELETE FROM customers WHERE id = ?').run(id).changes > 0;
+};
@@ -1,15 +1,37 @@
 /**
  * Customer Routes
- * Defines API endpoints for customer device operations
+ * Defines API endpoints for the customer registry and customer devices
  */
 
 import { Router } from 'express';
-import { getCustomerDevices } from './customer.controller.js';
+import { requireRole } from '../auth/auth.policy.js';
+import {
+  getCustomerById,
+  getCustomerDevices,
+  getCustomers,
+  getDevicesOfCustomer,
+  postCustomer,
+  putCustomer,
+  removeCustomer,
+} from './customer.controller.js';
 
 export const customerRouter = Router();
 
+customerRouter.get('/', getCustomers);
+customerRouter.post('/', requireRole('admin'), postCustomer);
+
 /**
  * GET /api/customer/devices
- * Fetch all Indusmind customer devices
+ * Fetch the devices of every registered customer
  */
 customerRouter.get('/devices', getCustomerDevices);
+
+customerRouter.get('/:customerId', getCustomerById);
+customerRouter.put('/:customerId', requireRole('admin'), putCustomer);
+customerRouter.delete('/:customerId', requireRole('admin'), removeCustomer);
+
+/**
+ * GET /api/customer/:customerId/devices
+ * Fetch the devices of one customer
+ */
+customerRouter.get('/:customerId/devices', getDevicesOfCustomer);
@@ -1,11 +1,24 @@
 /**
  * Customer Service
- * Handles external API calls to Indusmind customer devices API
+ * Keeps the registry of customers and fetches each customer's devices from its device API
  */
 
-import axios from 'axios';
+import { config } from '../../config/index.js';
+import { ConflictError, NotFoundError, UpstreamError } from '../../utils/apiError.js';
+import { logger } from '../../utils/logger.js';
+import { customerApiFor, forgetCustomerApi } from '../../services/upstream/upstreams.js';
+import { Customer } from './customer.model.js';
+import {
+  countCustomers,
+  deleteCustomerById,
+  findAllCustomers,
+  findCustomerById,
+  findCustomerByName,
+  saveCustomer,
+} from './customer.repository.js';
+import { CreateCustomerInput, CustomerDefinition } from './customer.validation.js';
 
-const INDUSMIND_API_URL = 'http://52.47.152.33:3666/customer/getAllIndusmindCustomerDevices';
+const customerLogger = logger.child({ module: 'CustomerService' });
 
 export interface CustomerDevice {
   id: number;
@@ -20,35 +33,160 @@ export interface CustomerDevice {
 }
 
 /**
- * Fetch all Indusmind customer devices from external API
+ * Every customer, or only those with the given ids
  */
-export const getAllIndusmindCustomerDevices = async (): Promise<CustomerDevice[]> => {
-  try {
-    console.log('Fetching customer devices from:', INDUSMIND_API_URL);
-    
-    const response = await axios.post(INDUSMIND_API_URL, {"customerName":"Indusmind"}, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    console.log('Response status:', response.status);
-    console.log('Response data type:', Array.isArray(response.data) ? 'array' : 'object');
-    
-    // Handle both response formats: { data: [...] } or [...]
-    if (Array.isArray(response.data)) {
-      return response.data;
-    }
-    
-    return response.data.data || [];
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      console.error('Axios error:', error.message);
-      console.error('Response data:', error.response?.data);
-      console.error('Response status:', error.response?.status);
-    } else {
-      console.error('Error fetching Indusmind customer devices:', error);
+export const listCustomers = async (ids?: number[]): Promise<Customer[]> => {
+  await ensureDefaultCustomer();
+  return findAllCustomers(ids);
+};
+
+export const getCustomer = async (id: number): Promise<Customer> => {
+  await ensureDefaultCustomer();
+  const customer = await findCustomerById(id);
+  if (!customer) {
+    throw new NotFoundError(`Customer ${id} not found`);
+  }
+  return customer;
+};
+
+const assertNameAvailable = async (name: string, id?: number) => {
+  const existing = await findCustomerByName(name);
+  if (existing && existing.id !== id) {
+    throw new ConflictError(`Customer ${name} already exists`);
+  }
+};
+
+export const createCustomer = async ({ id, ...definition }: CreateCustomerInput): Promise<Customer> => {
+  await ensureDefaultCustomer();
+  if (id !== undefined && (await findCustomerById(id))) {
+    throw new ConflictError(`Customer ${id} already exists`);
+  }
+  await assertNameAvailable(definition.name);
+
+  const now = new Date().toISOString();
+  const customer = await saveCustomer({ ...definition, id, createdAt: now, updatedAt: now });
+  customerLogger.info({ customerId: customer.id, name: customer.name }, 'Customer created');
+  return customer;
+};
+
+export const replaceCustomer = async (id: number, definition: CustomerDefinition): Promise<Customer> => {
+  const existing = await getCustomer(id);
+  await assertNameAvailable(definition.name, id);
+  return saveCustomer({ ...definition, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() });
+};
+
+export const deleteCustomer = async (id: number): Promise<void> => {
+  await ensureDefaultCustomer();
+  if (!(await deleteCustomerById(id))) {
+    throw new NotFoundError(`Customer ${id} not found`);
+  }
+  forgetCustomerApi(id);
+  customerLogger.info({ customerId: id }, 'Customer deleted');
+};
+
+/**
+ * Fetch a customer's devices from its device API.
+ * The API answers a POST of {"customerName": ...} with the devices, as an array or
+ * wrapped in { data: [...] }. Devices keep the customerId the API reports, which is
+ * what user accounts are scoped by; the registry id only fills in a missing one.
+ * Timeouts, retries and the circuit breaker come from the customer's own device API client.
+ */
+export const fetchCustomerDevices = async (customer: Customer): Promise<CustomerDevice[]> => {
+  if (!customer.deviceApi) {
+    return [];
+  }
+
+  // A read despite the POST, so it is safe to retry
+  const response = await customerApiFor(customer.id).request<CustomerDevice[] | { data?: CustomerDevice[] }>({
+    method: 'post',
+    url: customer.deviceApi.url,
+    data: { customerName: customer.deviceApi.customerName ?? customer.name },
+    headers: {
+      ...customer.deviceApi.headers,
+      'Content-Type': 'application/json',
+    },
+    retry: true,
+  });
+
+  if (response.status < 200 || response.status >= 300) {
+    customerLogger.error({ customerId: customer.id, status: response.status }, 'Customer device API error');
+    throw new UpstreamError(`Customer API error for ${customer.name}: ${response.status} ${response.statusText}`);
+  }
+
+  const devices = Array.isArray(response.data) ? response.data : response.data.data || [];
+  return devices.map((device) => ({
+    ...device,
+    customerId: typeof device.customerId === 'number' ? device.customerId : customer.id,
+  }));
+};
+
+export interface RegisteredCustomerDevices {
+  customer: Customer;
+  devices: CustomerDevice[];
+}
+
+/**
+ * Devices of every registered customer, grouped by registry customer.
+ * A customer whose device API fails is left out (and logged) so the others stay
+ * available; the call only fails when every device API does.
+ */
+export const listDevicesByCustomer = async (): Promise<RegisteredCustomerDevices[]> => {
+  const customers = (await listCustomers()).filter((customer) => customer.deviceApi);
+  const results = await Promise.allSettled(customers.map(fetchCustomerDevices));
+
+  const groups: RegisteredCustomerDevices[] = [];
+  const failures: unknown[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      groups.push({ customer: customers[index], devices: result.value });
+      return;
     }
-    throw error;
+    failures.push(result.reason);
+    const errorMsg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    customerLogger.warn({ customerId: customers[index].id }, `Skipping customer devices: ${errorMsg}`);
+  });
+
+  if (customers.length > 0 && failures.length === customers.length) {
+    throw failures[0];
   }
+  return groups;
+};
+
+/**
+ * Devices of every registered customer, see listDevicesByCustomer
+ */
+export const getAllCustomerDevices = async (): Promise<CustomerDevice[]> =>
+  (await listDevicesByCustomer()).flatMap((group) => group.devices);
+
+let defaultCustomerReady: Promise<void> | null = null;
+
+/**
+ * Register the customer configured by DEFAULT_CUSTOMER_* when the registry is
+ * empty, so existing deployments keep their devices after upgrading.
+ * Runs once per process: at startup, or on the first registry read for
+ * serverless handlers that skip the startup step.
+ */
+export const ensureDefaultCustomer = (): Promise<void> => {
+  defaultCustomerReady ??= seedDefaultCustomer().catch((error) => {
+    defaultCustomerReady = null;
+    throw error;
+  });
+  return defaultCustomerReady;
+};
+
+const seedDefaultCustomer = async () => {
+  const bootstrap = config.customers.bootstrap;
+  if ((await countCustomers()) > 0) return;
+
+  const now = new Date().toISOString();
+  await saveCustomer({
+    id: bootstrap.id,
+    name: bootstrap.name,
+    deviceApi: bootstrap.deviceApiUrl ? { url: bootstrap.deviceApiUrl, headers: {} } : null,
+    thingsboard: null,
+    branding: {},
+    createdAt: now,
+    updatedAt: now,
+  });
+  customerLogger.info({ customerId: bootstrap.id, name: bootstrap.name }, 'Default customer registered');
 };
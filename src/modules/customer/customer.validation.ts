@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const deviceApiSchema = z.object({
+  // Endpoint answering a POST of {"customerName": ...} with the customer's devices
+  url: z.string().url(),
+  // Name sent to the device API; the customer's name when omitted
+  customerName: z.string().trim().min(1).max(200).optional(),
+  // Extra request headers, e.g. an API key
+  headers: z.record(z.string().regex(/^[\w-]+$/, 'Invalid header name'), z.string()).default({}),
+});
+
+const thingsboardSchema = z.object({
+  // The default ThingsBoard server when omitted
+  baseUrl: z.string().url().optional(),
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #RRGGBB color');
+
+const brandingSchema = z.object({
+  displayName: z.string().trim().min(1).max(200).optional(),
+  logoUrl: z.string().url().optional(),
+  primaryColor: color.optional(),
+  accentColor: color.optional(),
+});
+
+export const customerDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  deviceApi: deviceApiSchema.nullable().default(null),
+  thingsboard: thingsboardSchema.nullable().default(null),
+  branding: brandingSchema.default({}),
+});
+
+export const createCustomerSchema = customerDefinitionSchema.extend({
+  // Existing id to register the customer under (the one user accounts and devices already use)
+  id: z.number().int().positive().optional(),
+});
+
+export const customerParamsSchema = z.object({
+  customerId: z.coerce.number({ invalid_type_error: 'Expected a customer id' }).int().positive(),
+});
+
+export type CustomerDefinition = z.infer<typeof customerDefinitionSchema>;
+export type CreateCustomerInput = z.infer<typeof createCustomerSchema>;
+export type CustomerDeviceApi = z.infer<typeof deviceApiSchema>;
+export type CustomerThingsboard = z.infer<typeof thingsboardSchema>;
+export type CustomerBranding = z.infer<typeof brandingSchema>;
+
+export const customerValidation = {
+  definition: customerDefinitionSchema,
+  create: createCustomerSchema,
+  params: customerParamsSchema,
+};
@@ -1,3 +1,4 @@
 export * from './customer.routes.js';
 export * from './customer.controller.js';
 export * from './customer.service.js';
+export * from './customer.model.js';
@@ -3,23 +3,111 @@ import { healthRouter } from "./misc/health.routes.js";
 import { userRouter } from "./user/user.routes.js";
 import { authRouter } from "./auth/auth.routes.js";
 import { customerRouter } from "./customer/customer.routes.js";
+import { tariffRouter } from "./tariff/tariff.routes.js";
+import { telemetryKeyRouter } from "./telemetry-key/telemetry-key.routes.js";
 import { createTelemetryRoutes } from "../routes/telemetry.router.js";
-import { initializeThingsboardServices } from "../services/thingsboard/thingsboard.module.js";
+import { createEnergyRoutes } from "../routes/energy.router.js";
+import { createAlarmRoutes } from "../routes/alarm.router.js";
+import { createNotificationRoutes } from "../routes/notification.router.js";
+import { createReportRoutes } from "../routes/report.router.js";
+import { createAssetRoutes } from "../routes/asset.router.js";
+import { createVirtualMeterRoutes } from "../routes/virtual-meter.router.js";
+import { initializeTelemetryServices } from "../services/telemetry.module.js";
 import { DeviceService } from "../services/device.service.js";
+import { ConsumptionService } from "../services/energy/consumption.service.js";
+import { CostService } from "../services/energy/cost.service.js";
+import { AnomalyService } from "../services/energy/anomaly.service.js";
+import { ForecastService } from "../services/energy/forecast.service.js";
+import { AlarmEvaluatorService } from "../services/alarm/alarm-evaluator.service.js";
+import { NotificationService } from "../services/notification/notification.service.js";
+import { ChatSender, EmailSender, WebhookSender } from "../services/notification/senders.js";
+import { ReportService } from "../services/report/report.service.js";
+import { AssetAggregationService } from "../services/asset/asset-aggregation.service.js";
+import { VirtualMeterService } from "../services/virtual-meter/virtual-meter.service.js";
+import { eventBus } from "../services/event-bus.js";
+import { config } from "../config/index.js";
+import { authMiddleware } from "./auth/auth.middleware.js";
 
 export const routes = Router();
 
 // Initialize shared services once
-const { authService, telemetryService } = initializeThingsboardServices();
-const deviceService = new DeviceService();
+const { telemetryService, streamService, cleanup: cleanupTelemetry } = initializeTelemetryServices();
+const deviceService = new DeviceService(() => telemetryService.listDevices());
+const virtualMeterService = new VirtualMeterService(telemetryService, config.telemetryBatchConcurrency);
 const telemetryRouter = createTelemetryRoutes(
 	telemetryService,
-	authService,
-	deviceService
+	deviceService,
+	streamService,
+	virtualMeterService
 );
+const consumptionService = new ConsumptionService(telemetryService);
+const costService = new CostService(consumptionService, telemetryService);
+const anomalyService = new AnomalyService(consumptionService, telemetryService);
+const aggregationService = new AssetAggregationService(
+	consumptionService,
+	telemetryService,
+	config.telemetryBatchConcurrency
+);
+const forecastService = new ForecastService(consumptionService, aggregationService);
+const energyRouter = createEnergyRoutes(
+	consumptionService,
+	costService,
+	deviceService,
+	anomalyService,
+	forecastService
+);
+const alarmEvaluator = new AlarmEvaluatorService(telemetryService, deviceService, {
+	intervalMs: config.alarmEvaluationIntervalMs,
+	concurrency: config.telemetryBatchConcurrency,
+});
+const alarmRouter = createAlarmRoutes(deviceService);
+const emailSender = new EmailSender(config.smtp);
+const notificationService = new NotificationService(
+	{
+		email: emailSender,
+		webhook: new WebhookSender(),
+		chat: new ChatSender(),
+	},
+	config.notifications
+);
+const notificationRouter = createNotificationRoutes(notificationService);
+const reportService = new ReportService(telemetryService, deviceService, emailSender, {
+	intervalMs: config.reportSchedulerIntervalMs,
+	concurrency: config.telemetryBatchConcurrency,
+});
+const reportRouter = createReportRoutes(reportService, deviceService);
+const assetRouter = createAssetRoutes(deviceService, aggregationService, forecastService);
+const virtualMeterRouter = createVirtualMeterRoutes(deviceService);
+
+/**
+ * Start background jobs. Call once the database is connected.
+ */
+export const startServices = () => {
+	notificationService.start(eventBus);
+	alarmEvaluator.start();
+	reportService.start();
+};
+
+/**
+ * Release timers and upstream connections held by the shared services
+ */
+export const stopServices = () => {
+	alarmEvaluator.stop();
+	reportService.stop();
+	notificationService.stop();
+	cleanupTelemetry();
+};
 
 routes.use("/health", healthRouter);
 routes.use("/users", userRouter);
 routes.use("/auth", authRouter);
-routes.use("/customer", customerRouter);
-routes.use("/telemetry", telemetryRouter);
\ No newline at end of file
+routes.use("/customer", authMiddleware, customerRouter);
+routes.use("/telemetry", authMiddleware, telemetryRouter);
+routes.use("/energy", authMiddleware, energyRouter);
+routes.use("/tariffs", tariffRouter);
+routes.use("/telemetry-keys", telemetryKeyRouter);
+routes.use("/alarms", authMiddleware, alarmRouter);
+routes.use("/notifications", authMiddleware, notificationRouter);
+routes.use("/reports", authMiddleware, reportRouter);
+routes.use("/assets", authMiddleware, assetRouter);
+routes.use("/virtual-meters", authMiddleware, virtualMeterRouter);
\ No newline at end of file
@@ -1,7 +1,15 @@
 import { Router } from "express";
+import { getUpstreamStatuses } from "../../services/upstream/upstreams.js";
+import { config } from "../../config/index.js";
 
 export const healthRouter = Router();
 
+/**
+ * Liveness plus the circuit breaker state of each upstream. The server stays up
+ * when an upstream is down, so the status is "degraded" rather than an error.
+ */
 healthRouter.get("/", (_req, res) => {
-  res.json({ status: "ok" });
-});
\ No newline at end of file
+  const upstreams = getUpstreamStatuses();
+  const degraded = Object.values(upstreams).some((upstream) => upstream.state !== "closed");
+  res.json({ status: degraded ? "degraded" : "ok", telemetryProvider: config.telemetryProvider, upstreams });
+});
@@ -0,0 +1,2 @@
+export * from "./notification.model.js";
+export * from "./notification.service.js";
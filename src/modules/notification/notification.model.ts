@@ -0,0 +1,71 @@
+import type { AppEvent, AppEventType } from "../../services/event-bus.js";
+import type { ChannelInput, SubscriptionInput } from "./notification.validation.js";
+
+export const CHANNEL_TYPES = ["email", "webhook", "chat"] as const;
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+export type NotificationChannel = ChannelInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NotificationSubscription = SubscriptionInput & {
+  id: string;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * pending: waiting for its first or next attempt (retry or quiet hours)
+ * sent: delivered; failed: gave up after the last attempt
+ */
+export const DELIVERY_STATUSES = ["pending", "sent", "failed"] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export type NotificationDelivery = {
+  id: string;
+  eventType: AppEventType;
+  channelId: string | null;
+  subscriptionId: string | null;
+  userId: string | null;
+  recipient: string;
+  subject: string;
+  body: string;
+  event: AppEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  // Epoch ms of the next attempt while pending
+  nextAttemptAt: number | null;
+  createdAt: string;
+  sentAt: string | null;
+};
+
+const SECRET_MASK = "********";
+
+// Keeps the host so users can tell where a channel posts to
+const maskUrl = (url: string) => `${new URL(url).origin}/${SECRET_MASK}`;
+
+/**
+ * Channel as returned by the API: webhook secrets are never sent back.
+ * Without `withTargets` (non-admins), URLs and header values are masked too:
+ * chat webhook URLs work as credentials and headers often hold API keys.
+ */
+export const toPublicChannel = (channel: NotificationChannel, withTargets = true): NotificationChannel => {
+  switch (channel.type) {
+    case "email":
+      return channel;
+    case "chat":
+      return withTargets ? channel : { ...channel, config: { url: maskUrl(channel.config.url) } };
+    case "webhook": {
+      const config = { ...channel.config, ...(channel.config.secret ? { secret: SECRET_MASK } : {}) };
+      if (!withTargets) {
+        config.url = maskUrl(config.url);
+        config.headers = Object.fromEntries(Object.keys(config.headers).map((name) => [name, SECRET_MASK]));
+      }
+      return { ...channel, config };
+    }
+  }
+};
@@ -0,0 +1,271 @@
+import { getDatabase } from "../../config/database.js";
+import type { AppEvent, AppEventType } from "../../services/event-bus.js";
+import {
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationSubscription,
+} from "./notification.model.js";
+
+type ChannelRow = {
+  id: string;
+  name: string;
+  type: NotificationChannel["type"];
+  enabled: number;
+  config: string;
+  templates: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type SubscriptionRow = {
+  id: string;
+  user_id: string;
+  channel_id: string;
+  event_types: string;
+  min_severity: NotificationSubscription["minSeverity"];
+  device_uuids: string | null;
+  quiet_hours: string | null;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+};
+
+type DeliveryRow = {
+  id: string;
+  event_type: AppEventType;
+  channel_id: string | null;
+  subscription_id: string | null;
+  user_id: string | null;
+  recipient: string;
+  subject: string;
+  body: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+export type DeliveryFilter = {
+  status?: DeliveryStatus;
+  channelId?: string;
+  eventType?: AppEventType;
+  // Only deliveries of this user; undefined for every user
+  userId?: string;
+  limit: number;
+};
+
+const toChannel = (row: ChannelRow): NotificationChannel =>
+  ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    enabled: row.enabled === 1,
+    config: JSON.parse(row.config),
+    templates: JSON.parse(row.templates),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }) as NotificationChannel;
+
+const toSubscription = (row: SubscriptionRow): NotificationSubscription => ({
+  id: row.id,
+  userId: row.user_id,
+  channelId: row.channel_id,
+  eventTypes: JSON.parse(row.event_types),
+  minSeverity: row.min_severity,
+  deviceUUIDs: row.device_uuids ? JSON.parse(row.device_uuids) : null,
+  quietHours: row.quiet_hours ? JSON.parse(row.quiet_hours) : null,
+  enabled: row.enabled === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toDelivery = (row: DeliveryRow): NotificationDelivery => ({
+  id: row.id,
+  eventType: row.event_type,
+  channelId: row.channel_id,
+  subscriptionId: row.subscription_id,
+  userId: row.user_id,
+  recipient: row.recipient,
+  subject: row.subject,
+  body: row.body,
+  event: JSON.parse(row.event) as AppEvent,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  nextAttemptAt: row.next_attempt_at,
+  createdAt: row.created_at,
+  sentAt: row.sent_at,
+});
+
+export const findAllChannels = async (): Promise<NotificationChannel[]> => {
+  const rows = getDatabase().prepare("SELECT * FROM notification_channels ORDER BY name").all() as ChannelRow[];
+  return rows.map(toChannel);
+};
+
+export const findChannelById = async (id: string): Promise<NotificationChannel | null> => {
+  const row = getDatabase().prepare("SELECT * FROM notification_channels WHERE id = ?").get(id) as
+    | ChannelRow
+    | undefined;
+  return row ? toChannel(row) : null;
+};
+
+export const saveChannel = async (channel: NotificationChannel): Promise<NotificationChannel> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO notification_channels (id, name, type, enabled, config, templates, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, type = excluded.type, enabled = excluded.enabled,
+         config = excluded.config, templates = excluded.templates, updated_at = excluded.updated_at`,
+    )
+    .run(
+      channel.id,
+      channel.name,
+      channel.type,
+      channel.enabled ? 1 : 0,
+      JSON.stringify(channel.config),
+      JSON.stringify(channel.templates),
+      channel.createdAt,
+      channel.updatedAt,
+    );
+  return channel;
+};
+
+export const deleteChannelById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM notification_channels WHERE id = ?").run(id).changes > 0;
+};
+
+export const findSubscriptions = async (userId?: string): Promise<NotificationSubscription[]> => {
+  const rows = (
+    userId
+      ? getDatabase()
+          .prepare("SELECT * FROM notification_subscriptions WHERE user_id = ? ORDER BY created_at")
+          .all(userId)
+      : getDatabase().prepare("SELECT * FROM notification_subscriptions ORDER BY created_at").all()
+  ) as SubscriptionRow[];
+  return rows.map(toSubscription);
+};
+
+export const findEnabledSubscriptions = async (): Promise<NotificationSubscription[]> => {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM notification_subscriptions WHERE enabled = 1")
+    .all() as SubscriptionRow[];
+  return rows.map(toSubscription);
+};
+
+export const findSubscriptionById = async (id: string): Promise<NotificationSubscription | null> => {
+  const row = getDatabase().prepare("SELECT * FROM notification_subscriptions WHERE id = ?").get(id) as
+    | SubscriptionRow
+    | undefined;
+  return row ? toSubscription(row) : null;
+};
+
+export const saveSubscription = async (subscription: NotificationSubscription): Promise<NotificationSubscription> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO notification_subscriptions (id, user_id, channel_id, event_types, min_severity, device_uuids,
+         quiet_hours, enabled, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET channel_id = excluded.channel_id, event_types = excluded.event_types,
+         min_severity = excluded.min_severity, device_uuids = excluded.device_uuids,
+         quiet_hours = excluded.quiet_hours, enabled = excluded.enabled, updated_at = excluded.updated_at`,
+    )
+    .run(
+      subscription.id,
+      subscription.userId,
+      subscription.channelId,
+      JSON.stringify(subscription.eventTypes),
+      subscription.minSeverity,
+      subscription.deviceUUIDs ? JSON.stringify(subscription.deviceUUIDs) : null,
+      subscription.quietHours ? JSON.stringify(subscription.quietHours) : null,
+      subscription.enabled ? 1 : 0,
+      subscription.createdAt,
+      subscription.updatedAt,
+    );
+  return subscription;
+};
+
+export const deleteSubscriptionById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM notification_subscriptions WHERE id = ?").run(id).changes > 0;
+};
+
+export const insertDelivery = async (delivery: NotificationDelivery): Promise<NotificationDelivery> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO notification_deliveries (id, event_type, channel_id, subscription_id, user_id, recipient, subject,
+         body, event, status, attempts, last_error, next_attempt_at, created_at, sent_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      delivery.id,
+      delivery.eventType,
+      delivery.channelId,
+      delivery.subscriptionId,
+      delivery.userId,
+      delivery.recipient,
+      delivery.subject,
+      delivery.body,
+      JSON.stringify(delivery.event),
+      delivery.status,
+      delivery.attempts,
+      delivery.lastError,
+      delivery.nextAttemptAt,
+      delivery.createdAt,
+      delivery.sentAt,
+    );
+  return delivery;
+};
+
+export const updateDelivery = async (delivery: NotificationDelivery): Promise<NotificationDelivery> => {
+  getDatabase()
+    .prepare(
+      `UPDATE notification_deliveries SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?, sent_at = ?
+       WHERE id = ?`,
+    )
+    .run(delivery.status, delivery.attempts, delivery.lastError, delivery.nextAttemptAt, delivery.sentAt, delivery.id);
+  return delivery;
+};
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first
+ */
+export const findDueDeliveries = async (now: number, limit: number): Promise<NotificationDelivery[]> => {
+  const rows = getDatabase()
+    .prepare(
+      `SELECT * FROM notification_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT ?`,
+    )
+    .all(now, limit) as DeliveryRow[];
+  return rows.map(toDelivery);
+};
+
+export const findDeliveries = async (filter: DeliveryFilter): Promise<NotificationDelivery[]> => {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filter.status) {
+    clauses.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.channelId) {
+    clauses.push("channel_id = ?");
+    params.push(filter.channelId);
+  }
+  if (filter.eventType) {
+    clauses.push("event_type = ?");
+    params.push(filter.eventType);
+  }
+  if (filter.userId) {
+    clauses.push("user_id = ?");
+    params.push(filter.userId);
+  }
+
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const rows = getDatabase()
+    .prepare(`SELECT * FROM notification_deliveries ${where} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params, filter.limit) as DeliveryRow[];
+  return rows.map(toDelivery);
+};
@@ -0,0 +1,101 @@
+import { randomUUID } from "node:crypto";
+import { NotFoundError } from "../../utils/apiError.js";
+import { AuthPayload } from "../auth/auth.model.js";
+import { isAdmin } from "../auth/auth.policy.js";
+import { NotificationChannel, NotificationDelivery, NotificationSubscription } from "./notification.model.js";
+import {
+  deleteChannelById,
+  deleteSubscriptionById,
+  findAllChannels,
+  findChannelById,
+  findDeliveries,
+  findSubscriptionById,
+  findSubscriptions,
+  saveChannel,
+  saveSubscription,
+} from "./notification.repository.js";
+import { ChannelInput, DeliveryQuery, SubscriptionInput } from "./notification.validation.js";
+
+export const listChannels = async (): Promise<NotificationChannel[]> => findAllChannels();
+
+export const getChannel = async (id: string): Promise<NotificationChannel> => {
+  const channel = await findChannelById(id);
+  if (!channel) {
+    throw new NotFoundError(`Notification channel ${id} not found`);
+  }
+  return channel;
+};
+
+export const createChannel = async (input: ChannelInput): Promise<NotificationChannel> => {
+  const now = new Date().toISOString();
+  return saveChannel({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+};
+
+/**
+ * Replace a channel. A webhook update without `secret` keeps the current one.
+ */
+export const replaceChannel = async (id: string, input: ChannelInput): Promise<NotificationChannel> => {
+  const existing = await getChannel(id);
+  let channel: ChannelInput = input;
+  if (input.type === "webhook" && existing.type === "webhook" && !input.config.secret) {
+    channel = { ...input, config: { ...input.config, secret: existing.config.secret } };
+  }
+  return saveChannel({ ...channel, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() });
+};
+
+export const deleteChannel = async (id: string): Promise<void> => {
+  if (!(await deleteChannelById(id))) {
+    throw new NotFoundError(`Notification channel ${id} not found`);
+  }
+};
+
+export const listSubscriptions = async (auth: AuthPayload): Promise<NotificationSubscription[]> =>
+  findSubscriptions(auth.userId);
+
+/**
+ * Users only see and change their own subscriptions
+ */
+const getOwnSubscription = async (id: string, auth: AuthPayload): Promise<NotificationSubscription> => {
+  const subscription = await findSubscriptionById(id);
+  if (!subscription || subscription.userId !== auth.userId) {
+    throw new NotFoundError(`Notification subscription ${id} not found`);
+  }
+  return subscription;
+};
+
+export const createSubscription = async (
+  input: SubscriptionInput,
+  auth: AuthPayload,
+): Promise<NotificationSubscription> => {
+  await getChannel(input.channelId);
+  const now = new Date().toISOString();
+  return saveSubscription({ ...input, id: randomUUID(), userId: auth.userId, createdAt: now, updatedAt: now });
+};
+
+export const replaceSubscription = async (
+  id: string,
+  input: SubscriptionInput,
+  auth: AuthPayload,
+): Promise<NotificationSubscription> => {
+  const existing = await getOwnSubscription(id, auth);
+  await getChannel(input.channelId);
+  return saveSubscription({
+    ...input,
+    id,
+    userId: existing.userId,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const deleteSubscription = async (id: string, auth: AuthPayload): Promise<void> => {
+  await getOwnSubscription(id, auth);
+  await deleteSubscriptionById(id);
+};
+
+/**
+ * Admins see every delivery, other users only those addressed to them
+ */
+export const listDeliveries = async (query: DeliveryQuery, auth: AuthPayload): Promise<NotificationDelivery[]> => {
+  return findDeliveries({ ...query, userId: isAdmin(auth) ? undefined : auth.userId });
+};
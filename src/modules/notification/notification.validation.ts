@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { isValidTimeZone } from "../../utils/time.js";
+import { APP_EVENT_TYPES } from "../../services/event-bus.js";
+import { ALARM_SEVERITIES } from "../alarm/alarm.model.js";
+import { DELIVERY_STATUSES } from "./notification.model.js";
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const templateSchema = z.object({
+  subject: z.string().min(1).max(300).optional(),
+  body: z.string().min(1).max(10_000).optional(),
+});
+
+// Per event type, or "default" for every event type without its own template
+const templatesSchema = z.record(z.enum(["default", ...APP_EVENT_TYPES]), templateSchema).default({});
+
+export const channelSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    name: z.string().trim().min(1).max(120),
+    enabled: z.boolean().default(true),
+    // Email goes to each subscriber's own address
+    config: z.object({}).default({}),
+    templates: templatesSchema,
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    name: z.string().trim().min(1).max(120),
+    enabled: z.boolean().default(true),
+    config: z.object({
+      url: z.string().url(),
+      // Signs each request with HMAC-SHA256; omitted on update to keep the current secret
+      secret: z.string().min(16).optional(),
+      headers: z.record(z.string(), z.string()).default({}),
+    }),
+    templates: templatesSchema,
+  }),
+  z.object({
+    // Slack-compatible incoming webhook (also Mattermost, Rocket.Chat, ...)
+    type: z.literal("chat"),
+    name: z.string().trim().min(1).max(120),
+    enabled: z.boolean().default(true),
+    config: z.object({ url: z.string().url() }),
+    templates: templatesSchema,
+  }),
+]);
+
+export const subscriptionSchema = z.object({
+  channelId: z.string().trim().min(1),
+  eventTypes: z.array(z.enum(APP_EVENT_TYPES)).min(1),
+  minSeverity: z.enum(ALARM_SEVERITIES).default("info"),
+  // Only these devices; null for every device visible to the user
+  deviceUUIDs: z.array(z.string().trim().min(1)).min(1).nullable().default(null),
+  // Non-critical notifications are held until the end of the quiet hours
+  quietHours: z
+    .object({
+      from: timeOfDay,
+      to: timeOfDay,
+      timeZone: z
+        .string()
+        .default("UTC")
+        .refine((tz) => isValidTimeZone(tz), { message: "Unknown time zone" }),
+    })
+    .nullable()
+    .default(null),
+  enabled: z.boolean().default(true),
+});
+
+export const deliveryQuerySchema = z.object({
+  status: z.enum(DELIVERY_STATUSES).optional(),
+  channelId: z.string().trim().min(1).optional(),
+  eventType: z.enum(APP_EVENT_TYPES).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export type ChannelInput = z.infer<typeof channelSchema>;
+export type SubscriptionInput = z.infer<typeof subscriptionSchema>;
+export type DeliveryQuery = z.infer<typeof deliveryQuerySchema>;
+export type MessageTemplate = z.infer<typeof templateSchema>;
+
+export const notificationValidation = {
+  channel: channelSchema,
+  subscription: subscriptionSchema,
+  deliveryQuery: deliveryQuerySchema,
+};
@@ -0,0 +1,34 @@
+import type { ReportDefinition } from "./report.validation.js";
+
+export const REPORT_FREQUENCIES = ["weekly", "monthly"] as const;
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+
+export const REPORT_AGGREGATIONS = ["DELTA", "SUM", "AVG", "MIN", "MAX"] as const;
+export type ReportAggregation = (typeof REPORT_AGGREGATIONS)[number];
+
+export const REPORT_SECTIONS = ["summary", "chart", "table"] as const;
+
+export type Report = ReportDefinition & {
+  id: string;
+  ownerId: string;
+  // Epoch ms of the next scheduled run; null when not scheduled
+  nextRunAt: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ReportRunStatus = "running" | "succeeded" | "failed";
+
+export type ReportRun = {
+  id: string;
+  reportId: string;
+  trigger: "schedule" | "manual";
+  status: ReportRunStatus;
+  periodStart: number;
+  periodEnd: number;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+  // Set when the report was rendered but could not be emailed
+  emailError: string | null;
+};
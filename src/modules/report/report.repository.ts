@@ -0,0 +1,152 @@
+import { getDatabase } from "../../config/database.js";
+import { Report, ReportRun } from "./report.model.js";
+import { ReportDefinition } from "./report.validation.js";
+
+type ReportRow = {
+  id: string;
+  owner_id: string;
+  name: string;
+  definition: string;
+  next_run_at: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type ReportRunRow = {
+  id: string;
+  report_id: string;
+  trigger: ReportRun["trigger"];
+  status: ReportRun["status"];
+  period_start: number;
+  period_end: number;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  email_error: string | null;
+};
+
+// Everything but the rendered documents, which are only loaded for download
+const RUN_COLUMNS =
+  "id, report_id, trigger, status, period_start, period_end, started_at, finished_at, error, email_error";
+
+const toReport = (row: ReportRow): Report => ({
+  ...(JSON.parse(row.definition) as ReportDefinition),
+  id: row.id,
+  ownerId: row.owner_id,
+  nextRunAt: row.next_run_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRun = (row: ReportRunRow): ReportRun => ({
+  id: row.id,
+  reportId: row.report_id,
+  trigger: row.trigger,
+  status: row.status,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  error: row.error,
+  emailError: row.email_error,
+});
+
+export const findReports = async (ownerId?: string): Promise<Report[]> => {
+  const rows = (
+    ownerId
+      ? getDatabase().prepare("SELECT * FROM reports WHERE owner_id = ? ORDER BY name").all(ownerId)
+      : getDatabase().prepare("SELECT * FROM reports ORDER BY name").all()
+  ) as ReportRow[];
+  return rows.map(toReport);
+};
+
+export const findReportById = async (id: string): Promise<Report | null> => {
+  const row = getDatabase().prepare("SELECT * FROM reports WHERE id = ?").get(id) as ReportRow | undefined;
+  return row ? toReport(row) : null;
+};
+
+export const findDueReports = async (now: number): Promise<Report[]> => {
+  const rows = getDatabase()
+    .prepare("SELECT * FROM reports WHERE next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at")
+    .all(now) as ReportRow[];
+  return rows.map(toReport);
+};
+
+export const saveReport = async (report: Report): Promise<Report> => {
+  const { id, ownerId, nextRunAt, createdAt, updatedAt, ...definition } = report;
+  getDatabase()
+    .prepare(
+      `INSERT INTO reports (id, owner_id, name, definition, next_run_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, definition = excluded.definition,
+         next_run_at = excluded.next_run_at, updated_at = excluded.updated_at`,
+    )
+    .run(id, ownerId, definition.name, JSON.stringify(definition), nextRunAt, createdAt, updatedAt);
+  return report;
+};
+
+export const updateNextRunAt = async (id: string, nextRunAt: number | null): Promise<void> => {
+  getDatabase().prepare("UPDATE reports SET next_run_at = ? WHERE id = ?").run(nextRunAt, id);
+};
+
+export const deleteReportById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM reports WHERE id = ?").run(id).changes > 0;
+};
+
+export const findRuns = async (reportId: string, limit: number): Promise<ReportRun[]> => {
+  const rows = getDatabase()
+    .prepare(`SELECT ${RUN_COLUMNS} FROM report_runs WHERE report_id = ? ORDER BY started_at DESC LIMIT ?`)
+    .all(reportId, limit) as ReportRunRow[];
+  return rows.map(toRun);
+};
+
+export const findRunById = async (id: string): Promise<ReportRun | null> => {
+  const row = getDatabase().prepare(`SELECT ${RUN_COLUMNS} FROM report_runs WHERE id = ?`).get(id) as
+    | ReportRunRow
+    | undefined;
+  return row ? toRun(row) : null;
+};
+
+export const insertRun = async (run: ReportRun): Promise<ReportRun> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO report_runs (id, report_id, trigger, status, period_start, period_end, started_at, finished_at,
+         error, email_error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      run.id,
+      run.reportId,
+      run.trigger,
+      run.status,
+      run.periodStart,
+      run.periodEnd,
+      run.startedAt,
+      run.finishedAt,
+      run.error,
+      run.emailError,
+    );
+  return run;
+};
+
+/**
+ * Record the outcome of a run, with its rendered documents when it succeeded
+ */
+export const completeRun = async (
+  run: ReportRun,
+  documents: { html: string; pdf: Buffer } | null,
+): Promise<ReportRun> => {
+  getDatabase()
+    .prepare(
+      "UPDATE report_runs SET status = ?, finished_at = ?, error = ?, email_error = ?, html = ?, pdf = ? WHERE id = ?",
+    )
+    .run(run.status, run.finishedAt, run.error, run.emailError, documents?.html ?? null, documents?.pdf ?? null, run.id);
+  return run;
+};
+
+export const findRunDocument = async (id: string, format: "html" | "pdf"): Promise<string | Buffer | null> => {
+  const row = getDatabase()
+    .prepare(`SELECT ${format === "html" ? "html" : "pdf"} AS document FROM report_runs WHERE id = ?`)
+    .get(id) as { document: string | Buffer | null } | undefined;
+  return row?.document ?? null;
+};
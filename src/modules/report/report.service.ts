@@ -0,0 +1,100 @@
+import { randomUUID } from "node:crypto";
+import { ConflictError, NotFoundError } from "../../utils/apiError.js";
+import { nextRunAfter } from "../../services/report/schedule.js";
+import { AuthPayload } from "../auth/auth.model.js";
+import { isAdmin } from "../auth/auth.policy.js";
+import { Report, ReportRun } from "./report.model.js";
+import {
+  deleteReportById,
+  findReportById,
+  findReports,
+  findRunById,
+  findRunDocument,
+  findRuns,
+  saveReport,
+} from "./report.repository.js";
+import { ReportDefinition } from "./report.validation.js";
+
+const scheduleOf = (definition: ReportDefinition, now: number): number | null =>
+  definition.schedule.enabled ? nextRunAfter(definition.frequency, definition.schedule.hour, now) : null;
+
+/**
+ * Admins see every report, other users the ones they created
+ */
+export const listReports = async (auth: AuthPayload): Promise<Report[]> =>
+  findReports(isAdmin(auth) ? undefined : auth.userId);
+
+export const getReport = async (id: string, auth: AuthPayload): Promise<Report> => {
+  const report = await findReportById(id);
+  if (!report || (!isAdmin(auth) && report.ownerId !== auth.userId)) {
+    throw new NotFoundError(`Report ${id} not found`);
+  }
+  return report;
+};
+
+export const createReport = async (input: ReportDefinition, auth: AuthPayload): Promise<Report> => {
+  const now = new Date();
+  return saveReport({
+    ...input,
+    id: randomUUID(),
+    ownerId: auth.userId,
+    nextRunAt: scheduleOf(input, now.getTime()),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  });
+};
+
+/**
+ * Replace a report definition; its schedule restarts from now
+ */
+export const replaceReport = async (id: string, input: ReportDefinition, auth: AuthPayload): Promise<Report> => {
+  const existing = await getReport(id, auth);
+  const now = new Date();
+  return saveReport({
+    ...input,
+    id,
+    ownerId: existing.ownerId,
+    nextRunAt: scheduleOf(input, now.getTime()),
+    createdAt: existing.createdAt,
+    updatedAt: now.toISOString(),
+  });
+};
+
+/**
+ * Delete a report with its archived runs
+ */
+export const deleteReport = async (id: string, auth: AuthPayload): Promise<void> => {
+  await getReport(id, auth);
+  await deleteReportById(id);
+};
+
+export const listRuns = async (reportId: string, auth: AuthPayload, limit = 50): Promise<ReportRun[]> => {
+  await getReport(reportId, auth);
+  return findRuns(reportId, limit);
+};
+
+export const getRun = async (reportId: string, runId: string, auth: AuthPayload): Promise<ReportRun> => {
+  await getReport(reportId, auth);
+  const run = await findRunById(runId);
+  if (!run || run.reportId !== reportId) {
+    throw new NotFoundError(`Report run ${runId} not found`);
+  }
+  return run;
+};
+
+/**
+ * Rendered HTML or PDF of a successful run
+ */
+export const getRunDocument = async (
+  reportId: string,
+  runId: string,
+  format: "html" | "pdf",
+  auth: AuthPayload,
+): Promise<string | Buffer> => {
+  const run = await getRun(reportId, runId, auth);
+  const document = run.status === "succeeded" ? await findRunDocument(run.id, format) : null;
+  if (document === null) {
+    throw new ConflictError(`Report run ${runId} has no ${format.toUpperCase()} document (status: ${run.status})`);
+  }
+  return document;
+};
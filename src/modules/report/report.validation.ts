@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { REPORT_AGGREGATIONS, REPORT_FREQUENCIES, REPORT_SECTIONS } from "./report.model.js";
+
+export const reportDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  deviceUUIDs: z.array(z.string().trim().min(1)).min(1).max(50),
+  metrics: z
+    .array(
+      z.object({
+        key: z.string().trim().min(1),
+        label: z.string().trim().min(1).max(80).optional(),
+        unit: z.string().trim().max(20).optional(),
+        // DELTA turns a cumulative counter into consumption per bucket
+        aggregation: z.enum(REPORT_AGGREGATIONS).default("AVG"),
+      }),
+    )
+    .min(1)
+    .max(10),
+  // Weekly reports cover the previous ISO week, monthly ones the previous month
+  frequency: z.enum(REPORT_FREQUENCIES),
+  granularity: z.enum(["hour", "day", "week"]).default("day"),
+  layout: z
+    .object({
+      title: z.string().trim().min(1).max(200).optional(),
+      sections: z.array(z.enum(REPORT_SECTIONS)).min(1).default([...REPORT_SECTIONS]),
+    })
+    .default({}),
+  schedule: z
+    .object({
+      enabled: z.boolean().default(true),
+      // UTC hour at which the report runs once its period is over
+      hour: z.number().int().min(0).max(23).default(6),
+    })
+    .default({}),
+  recipients: z.array(z.string().email()).max(50).default([]),
+});
+
+export const reportRunRequestSchema = z
+  .object({
+    // Defaults to the last complete period
+    startTs: z.number().int().nonnegative().optional(),
+    endTs: z.number().int().nonnegative().optional(),
+    sendEmail: z.boolean().default(false),
+  })
+  .refine((body) => (body.startTs === undefined) === (body.endTs === undefined), {
+    message: "startTs and endTs go together",
+    path: ["startTs"],
+  })
+  .refine((body) => body.startTs === undefined || body.endTs === undefined || body.startTs < body.endTs, {
+    message: "startTs must be less than endTs",
+    path: ["startTs"],
+  });
+
+export const reportRunsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type ReportDefinition = z.infer<typeof reportDefinitionSchema>;
+export type ReportRunRequest = z.infer<typeof reportRunRequestSchema>;
+
+export const reportValidation = {
+  definition: reportDefinitionSchema,
+  runRequest: reportRunRequestSchema,
+  runsQuery: reportRunsQuerySchema,
+};
@@ -0,0 +1,2 @@
+export * from "./tariff.routes.js";
+export * from "./tariff.model.js";
@@ -0,0 +1,84 @@
+import { NextFunction, Request, Response } from "express";
+import { success } from "../../utils/response.js";
+import { parseOrThrow } from "../../utils/validation.js";
+import {
+  assignTariff,
+  createTariff,
+  deleteTariff,
+  getTariff,
+  listTariffAssignments,
+  listTariffs,
+  replaceTariff,
+  unassignTariff,
+} from "./tariff.service.js";
+import { tariffValidation } from "./tariff.validation.js";
+
+export const getTariffs = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(await listTariffs()));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTariffById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(await getTariff(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const postTariff = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const definition = parseOrThrow(tariffValidation.definition, req.body);
+    res.status(201).json(success(await createTariff(definition)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const putTariff = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const definition = parseOrThrow(tariffValidation.definition, req.body);
+    res.json(success(await replaceTariff(req.params.id, definition)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTariff = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await deleteTariff(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTariffAssignments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(await listTariffAssignments(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const postTariffAssignment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { targetType, targetId } = parseOrThrow(tariffValidation.assignment, req.body);
+    res.status(201).json(success(await assignTariff(req.params.id, targetType, targetId)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTariffAssignment = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { targetType, targetId } = parseOrThrow(tariffValidation.assignment, req.params);
+    await unassignTariff(targetType, targetId);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
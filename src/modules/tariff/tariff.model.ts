@@ -0,0 +1,14 @@
+import { TariffDefinition, TariffTargetType } from "./tariff.validation.js";
+
+export type Tariff = TariffDefinition & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TariffAssignment = {
+  targetType: TariffTargetType;
+  targetId: string;
+  tariffId: string;
+  createdAt: string;
+};
@@ -0,0 +1,94 @@
+import { getDatabase } from "../../config/database.js";
+import { Tariff, TariffAssignment } from "./tariff.model.js";
+import { TariffDefinition, TariffTargetType } from "./tariff.validation.js";
+
+type TariffRow = {
+  id: string;
+  name: string;
+  definition: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type AssignmentRow = {
+  target_type: TariffTargetType;
+  target_id: string;
+  tariff_id: string;
+  created_at: string;
+};
+
+const toTariff = (row: TariffRow): Tariff => ({
+  ...(JSON.parse(row.definition) as TariffDefinition),
+  id: row.id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toAssignment = (row: AssignmentRow): TariffAssignment => ({
+  targetType: row.target_type,
+  targetId: row.target_id,
+  tariffId: row.tariff_id,
+  createdAt: row.created_at,
+});
+
+export const findAllTariffs = async (): Promise<Tariff[]> => {
+  const rows = getDatabase().prepare("SELECT * FROM tariffs ORDER BY name").all() as TariffRow[];
+  return rows.map(toTariff);
+};
+
+export const findTariffById = async (id: string): Promise<Tariff | null> => {
+  const row = getDatabase().prepare("SELECT * FROM tariffs WHERE id = ?").get(id) as TariffRow | undefined;
+  return row ? toTariff(row) : null;
+};
+
+export const saveTariff = async (tariff: Tariff): Promise<Tariff> => {
+  const { id, createdAt, updatedAt, ...definition } = tariff;
+  getDatabase()
+    .prepare(
+      `INSERT INTO tariffs (id, name, definition, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, definition = excluded.definition, updated_at = excluded.updated_at`,
+    )
+    .run(id, definition.name, JSON.stringify(definition), createdAt, updatedAt);
+  return tariff;
+};
+
+export const deleteTariffById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM tariffs WHERE id = ?").run(id).changes > 0;
+};
+
+export const findAssignments = async (tariffId?: string): Promise<TariffAssignment[]> => {
+  const rows = (
+    tariffId
+      ? getDatabase().prepare("SELECT * FROM tariff_assignments WHERE tariff_id = ?").all(tariffId)
+      : getDatabase().prepare("SELECT * FROM tariff_assignments").all()
+  ) as AssignmentRow[];
+  return rows.map(toAssignment);
+};
+
+export const findAssignment = async (
+  targetType: TariffTargetType,
+  targetId: string,
+): Promise<TariffAssignment | null> => {
+  const row = getDatabase()
+    .prepare("SELECT * FROM tariff_assignments WHERE target_type = ? AND target_id = ?")
+    .get(targetType, targetId) as AssignmentRow | undefined;
+  return row ? toAssignment(row) : null;
+};
+
+export const saveAssignment = async (assignment: TariffAssignment): Promise<TariffAssignment> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO tariff_assignments (target_type, target_id, tariff_id, created_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (target_type, target_id) DO UPDATE SET tariff_id = excluded.tariff_id, created_at = excluded.created_at`,
+    )
+    .run(assignment.targetType, assignment.targetId, assignment.tariffId, assignment.createdAt);
+  return assignment;
+};
+
+export const deleteAssignment = async (targetType: TariffTargetType, targetId: string): Promise<boolean> => {
+  return (
+    getDatabase()
+      .prepare("DELETE FROM tariff_assignments WHERE target_type = ? AND target_id = ?")
+      .run(targetType, targetId).changes > 0
+  );
+};
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { authMiddleware } from "../auth/auth.middleware.js";
+import { requireRole } from "../auth/auth.policy.js";
+import { uuidParam } from "../../utils/validation.js";
+import {
+  getTariffAssignments,
+  getTariffById,
+  getTariffs,
+  postTariff,
+  postTariffAssignment,
+  putTariff,
+  removeTariff,
+  removeTariffAssignment,
+} from "./tariff.controller.js";
+
+export const tariffRouter = Router();
+
+tariffRouter.use(authMiddleware);
+tariffRouter.param("id", uuidParam);
+
+tariffRouter.get("/", getTariffs);
+tariffRouter.post("/", requireRole("admin"), postTariff);
+tariffRouter.delete("/assignments/:targetType/:targetId", requireRole("admin"), removeTariffAssignment);
+tariffRouter.get("/:id", getTariffById);
+tariffRouter.put("/:id", requireRole("admin"), putTariff);
+tariffRouter.delete("/:id", requireRole("admin"), removeTariff);
+tariffRouter.get("/:id/assignments", requireRole("admin"), getTariffAssignments);
+tariffRouter.post("/:id/assignments", requireRole("admin"), postTariffAssignment);
@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto";
+import { NotFoundError } from "../../utils/apiError.js";
+import { Tariff, TariffAssignment } from "./tariff.model.js";
+import {
+  deleteAssignment,
+  deleteTariffById,
+  findAllTariffs,
+  findAssignment,
+  findAssignments,
+  findTariffById,
+  saveAssignment,
+  saveTariff,
+} from "./tariff.repository.js";
+import { TariffDefinition, TariffTargetType } from "./tariff.validation.js";
+
+export type ResolvedTariff = {
+  tariff: Tariff;
+  // Where the tariff comes from: the device itself or its customer
+  source: TariffTargetType | "explicit";
+};
+
+export const listTariffs = async (): Promise<Tariff[]> => findAllTariffs();
+
+export const getTariff = async (id: string): Promise<Tariff> => {
+  const tariff = await findTariffById(id);
+  if (!tariff) {
+    throw new NotFoundError(`Tariff ${id} not found`);
+  }
+  return tariff;
+};
+
+export const createTariff = async (definition: TariffDefinition): Promise<Tariff> => {
+  const now = new Date().toISOString();
+  return saveTariff({ ...definition, id: randomUUID(), createdAt: now, updatedAt: now });
+};
+
+export const replaceTariff = async (id: string, definition: TariffDefinition): Promise<Tariff> => {
+  const existing = await getTariff(id);
+  return saveTariff({ ...definition, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() });
+};
+
+export const deleteTariff = async (id: string): Promise<void> => {
+  if (!(await deleteTariffById(id))) {
+    throw new NotFoundError(`Tariff ${id} not found`);
+  }
+};
+
+export const listTariffAssignments = async (tariffId: string): Promise<TariffAssignment[]> => {
+  await getTariff(tariffId);
+  return findAssignments(tariffId);
+};
+
+/**
+ * Assign a tariff to a device or a customer, replacing any previous assignment of that target
+ */
+export const assignTariff = async (
+  tariffId: string,
+  targetType: TariffTargetType,
+  targetId: string,
+): Promise<TariffAssignment> => {
+  await getTariff(tariffId);
+  return saveAssignment({ tariffId, targetType, targetId, createdAt: new Date().toISOString() });
+};
+
+export const unassignTariff = async (targetType: TariffTargetType, targetId: string): Promise<void> => {
+  if (!(await deleteAssignment(targetType, targetId))) {
+    throw new NotFoundError(`No tariff assignment found for ${targetType} ${targetId}`);
+  }
+};
+
+/**
+ * Tariff applying to a device: an explicit tariff id, else the device's own
+ * assignment, else its customer's
+ */
+export const resolveDeviceTariff = async (
+  device: { deviceUUID: string; customerId?: number },
+  tariffId?: string,
+): Promise<ResolvedTariff> => {
+  if (tariffId) {
+    return { tariff: await getTariff(tariffId), source: "explicit" };
+  }
+
+  const assignment =
+    (await findAssignment("device", device.deviceUUID)) ??
+    (device.customerId !== undefined ? await findAssignment("customer", String(device.customerId)) : null);
+  if (!assignment) {
+    throw new NotFoundError(`Tariff not found for device ${device.deviceUUID}`);
+  }
+
+  return { tariff: await getTariff(assignment.tariffId), source: assignment.targetType };
+};
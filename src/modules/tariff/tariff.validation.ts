@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { isValidTimeZone } from "../../utils/time.js";
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Expected HH:MM");
+const periodName = z.string().trim().min(1).max(40);
+const rates = z.record(periodName, z.number().nonnegative());
+
+const timeOfUseWindowSchema = z.object({
+  period: periodName,
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  days: z.array(z.number().int().min(1).max(7)).min(1).default([1, 2, 3, 4, 5, 6, 7]),
+  // Windows may wrap past midnight (22:00 -> 06:00)
+  from: timeOfDay,
+  to: timeOfDay,
+});
+
+const seasonSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  months: z.array(z.number().int().min(1).max(12)).min(1),
+  windows: z.array(timeOfUseWindowSchema).default([]),
+  // Period rates overriding the tariff-level ones during this season
+  rates: rates.optional(),
+});
+
+export const tariffDefinitionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    currency: z.string().length(3).default("EUR"),
+    timeZone: z
+      .string()
+      .default("UTC")
+      .refine((tz) => isValidTimeZone(tz), { message: "Unknown time zone" }),
+    // Price per kWh for each period
+    rates,
+    // Period used outside every time-of-use window
+    defaultPeriod: periodName,
+    seasons: z.array(seasonSchema).default([]),
+    demandCharge: z
+      .object({
+        // Charged on each calendar month's peak demand
+        ratePerKw: z.number().nonnegative(),
+        // Power key (kW) to read the peak from; without it the peak hourly consumption is used
+        powerKey: z.string().trim().min(1).optional(),
+      })
+      .nullable()
+      .default(null),
+    fixedFees: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(80),
+          amount: z.number(),
+          per: z.enum(["day", "month", "bill"]),
+        }),
+      )
+      .default([]),
+    taxes: z
+      .array(
+        z.object({
+          name: z.string().trim().min(1).max(80),
+          // Fraction of the subtotal, e.g. 0.2 for 20 %
+          rate: z.number().nonnegative(),
+        }),
+      )
+      .default([]),
+  })
+  .superRefine((tariff, ctx) => {
+    const periods = new Set(Object.keys(tariff.rates));
+    const checkPeriod = (period: string, path: (string | number)[]) => {
+      if (!periods.has(period)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No rate for period "${period}"`, path });
+      }
+    };
+
+    checkPeriod(tariff.defaultPeriod, ["defaultPeriod"]);
+    const seenMonths = new Set<number>();
+    tariff.seasons.forEach((season, s) => {
+      season.windows.forEach((window, w) => checkPeriod(window.period, ["seasons", s, "windows", w, "period"]));
+      for (const month of season.months) {
+        if (seenMonths.has(month)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Month ${month} belongs to more than one season`,
+            path: ["seasons", s, "months"],
+          });
+        }
+        seenMonths.add(month);
+      }
+    });
+  });
+
+export const TARIFF_TARGET_TYPES = ["device", "customer"] as const;
+
+export const tariffAssignmentSchema = z.object({
+  targetType: z.enum(TARIFF_TARGET_TYPES),
+  targetId: z.string().trim().min(1),
+});
+
+export type TariffDefinition = z.infer<typeof tariffDefinitionSchema>;
+export type TariffTargetType = (typeof TARIFF_TARGET_TYPES)[number];
+
+export const tariffValidation = {
+  definition: tariffDefinitionSchema,
+  assignment: tariffAssignmentSchema,
+};
@@ -0,0 +1,2 @@
+export * from "./telemetry-key.routes.js";
+export * from "./telemetry-key.model.js";
@@ -0,0 +1,55 @@
+import { NextFunction, Request, Response } from "express";
+import { success } from "../../utils/response.js";
+import { parseOrThrow } from "../../utils/validation.js";
+import {
+  createTelemetryKey,
+  deleteTelemetryKey,
+  getTelemetryKey,
+  listTelemetryKeys,
+  replaceTelemetryKey,
+} from "./telemetry-key.service.js";
+import { telemetryKeyValidation } from "./telemetry-key.validation.js";
+
+export const getTelemetryKeys = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = parseOrThrow(telemetryKeyValidation.query, req.query);
+    res.json(success(await listTelemetryKeys(query)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTelemetryKeyById = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(await getTelemetryKey(req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const postTelemetryKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseOrThrow(telemetryKeyValidation.entry, req.body);
+    res.status(201).json(success(await createTelemetryKey(input)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const putTelemetryKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseOrThrow(telemetryKeyValidation.entry, req.body);
+    res.json(success(await replaceTelemetryKey(req.params.id, input)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTelemetryKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await deleteTelemetryKey(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
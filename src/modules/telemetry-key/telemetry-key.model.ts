@@ -0,0 +1,10 @@
+import { TelemetryKeyInput } from "./telemetry-key.validation.js";
+
+/**
+ * Catalogue entry mapping a raw ThingsBoard key to its canonical name, unit and scaling
+ */
+export type TelemetryKey = TelemetryKeyInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
@@ -0,0 +1,100 @@
+import { getDatabase } from "../../config/database.js";
+import { TelemetryKey } from "./telemetry-key.model.js";
+import { TelemetryKeyQuery } from "./telemetry-key.validation.js";
+
+type TelemetryKeyRow = {
+  id: string;
+  raw_key: string;
+  device_uuid: string | null;
+  canonical_key: string;
+  label: string | null;
+  unit: string | null;
+  scale: number;
+  value_offset: number;
+  precision: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const toTelemetryKey = (row: TelemetryKeyRow): TelemetryKey => ({
+  id: row.id,
+  rawKey: row.raw_key,
+  deviceUUID: row.device_uuid,
+  canonicalKey: row.canonical_key,
+  label: row.label,
+  unit: row.unit,
+  scale: row.scale,
+  offset: row.value_offset,
+  precision: row.precision,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Entries matching the filter. With `deviceUUID`, both that device's entries and
+ * the global ones are returned.
+ */
+export const findTelemetryKeys = async (filter: TelemetryKeyQuery = {}): Promise<TelemetryKey[]> => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.deviceUUID) {
+    conditions.push("(device_uuid IS NULL OR device_uuid = ?)");
+    params.push(filter.deviceUUID);
+  }
+  if (filter.canonicalKey) {
+    conditions.push("canonical_key = ?");
+    params.push(filter.canonicalKey);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getDatabase()
+    .prepare(`SELECT * FROM telemetry_keys ${where} ORDER BY canonical_key, raw_key, device_uuid`)
+    .all(...params) as TelemetryKeyRow[];
+  return rows.map(toTelemetryKey);
+};
+
+export const findTelemetryKeyById = async (id: string): Promise<TelemetryKey | null> => {
+  const row = getDatabase().prepare("SELECT * FROM telemetry_keys WHERE id = ?").get(id) as
+    | TelemetryKeyRow
+    | undefined;
+  return row ? toTelemetryKey(row) : null;
+};
+
+export const findTelemetryKeyByRawKey = async (
+  rawKey: string,
+  deviceUUID: string | null,
+): Promise<TelemetryKey | null> => {
+  const row = getDatabase()
+    .prepare("SELECT * FROM telemetry_keys WHERE raw_key = ? AND COALESCE(device_uuid, '') = ?")
+    .get(rawKey, deviceUUID ?? "") as TelemetryKeyRow | undefined;
+  return row ? toTelemetryKey(row) : null;
+};
+
+export const saveTelemetryKey = async (entry: TelemetryKey): Promise<TelemetryKey> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO telemetry_keys (id, raw_key, device_uuid, canonical_key, label, unit, scale, value_offset, precision,
+         created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET raw_key = excluded.raw_key, device_uuid = excluded.device_uuid,
+         canonical_key = excluded.canonical_key, label = excluded.label, unit = excluded.unit, scale = excluded.scale,
+         value_offset = excluded.value_offset, precision = excluded.precision, updated_at = excluded.updated_at`,
+    )
+    .run(
+      entry.id,
+      entry.rawKey,
+      entry.deviceUUID,
+      entry.canonicalKey,
+      entry.label,
+      entry.unit,
+      entry.scale,
+      entry.offset,
+      entry.precision,
+      entry.createdAt,
+      entry.updatedAt,
+    );
+  return entry;
+};
+
+export const deleteTelemetryKeyById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM telemetry_keys WHERE id = ?").run(id).changes > 0;
+};
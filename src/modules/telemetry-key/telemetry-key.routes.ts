@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { authMiddleware } from "../auth/auth.middleware.js";
+import { requireRole } from "../auth/auth.policy.js";
+import { uuidParam } from "../../utils/validation.js";
+import {
+  getTelemetryKeyById,
+  getTelemetryKeys,
+  postTelemetryKey,
+  putTelemetryKey,
+  removeTelemetryKey,
+} from "./telemetry-key.controller.js";
+
+/**
+ * Key catalogue: every signed-in user can read it, admins maintain it
+ */
+export const telemetryKeyRouter = Router();
+
+telemetryKeyRouter.use(authMiddleware);
+telemetryKeyRouter.param("id", uuidParam);
+
+telemetryKeyRouter.get("/", getTelemetryKeys);
+telemetryKeyRouter.post("/", requireRole("admin"), postTelemetryKey);
+telemetryKeyRouter.get("/:id", getTelemetryKeyById);
+telemetryKeyRouter.put("/:id", requireRole("admin"), putTelemetryKey);
+telemetryKeyRouter.delete("/:id", requireRole("admin"), removeTelemetryKey);
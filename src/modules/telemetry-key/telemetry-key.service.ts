@@ -0,0 +1,51 @@
+import { randomUUID } from "node:crypto";
+import { ConflictError, NotFoundError } from "../../utils/apiError.js";
+import { TelemetryKey } from "./telemetry-key.model.js";
+import {
+  deleteTelemetryKeyById,
+  findTelemetryKeyById,
+  findTelemetryKeyByRawKey,
+  findTelemetryKeys,
+  saveTelemetryKey,
+} from "./telemetry-key.repository.js";
+import { TelemetryKeyInput, TelemetryKeyQuery } from "./telemetry-key.validation.js";
+
+export const listTelemetryKeys = async (query: TelemetryKeyQuery = {}): Promise<TelemetryKey[]> =>
+  findTelemetryKeys(query);
+
+export const getTelemetryKey = async (id: string): Promise<TelemetryKey> => {
+  const entry = await findTelemetryKeyById(id);
+  if (!entry) {
+    throw new NotFoundError(`Telemetry key ${id} not found`);
+  }
+  return entry;
+};
+
+/**
+ * A raw key has at most one global mapping and one per device
+ */
+const assertUnique = async (input: TelemetryKeyInput, id?: string) => {
+  const existing = await findTelemetryKeyByRawKey(input.rawKey, input.deviceUUID);
+  if (existing && existing.id !== id) {
+    const scope = input.deviceUUID ? `device ${input.deviceUUID}` : "all devices";
+    throw new ConflictError(`Raw key ${input.rawKey} is already mapped for ${scope} (${existing.id})`);
+  }
+};
+
+export const createTelemetryKey = async (input: TelemetryKeyInput): Promise<TelemetryKey> => {
+  await assertUnique(input);
+  const now = new Date().toISOString();
+  return saveTelemetryKey({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+};
+
+export const replaceTelemetryKey = async (id: string, input: TelemetryKeyInput): Promise<TelemetryKey> => {
+  const existing = await getTelemetryKey(id);
+  await assertUnique(input, id);
+  return saveTelemetryKey({ ...input, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() });
+};
+
+export const deleteTelemetryKey = async (id: string): Promise<void> => {
+  if (!(await deleteTelemetryKeyById(id))) {
+    throw new NotFoundError(`Telemetry key ${id} not found`);
+  }
+};
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const telemetryKeySchema = z.object({
+  // Key as stored in ThingsBoard, e.g. "P_tot" or "ActivePowerTotal"
+  rawKey: z.string().trim().min(1).max(255),
+  // Limit the mapping to one device; null applies it to every device with that key
+  deviceUUID: z.string().trim().min(1).nullable().default(null),
+  // Vendor-neutral name the key is exposed as, e.g. "active_power"
+  canonicalKey: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z][\w.-]*$/, "Use letters, digits, '_', '.' or '-', starting with a letter")
+    .max(100),
+  label: z.string().trim().min(1).max(120).nullable().default(null),
+  unit: z.string().trim().min(1).max(20).nullable().default(null),
+  // Normalized value = raw value * scale + offset (e.g. W -> kW with scale 0.001)
+  scale: z.number().finite().refine((value) => value !== 0, "scale cannot be 0").default(1),
+  offset: z.number().finite().default(0),
+  // Decimal places kept after scaling; null keeps full precision
+  precision: z.number().int().min(0).max(10).nullable().default(null),
+});
+
+export const telemetryKeyQuerySchema = z.object({
+  deviceUUID: z.string().trim().min(1).optional(),
+  canonicalKey: z.string().trim().min(1).optional(),
+});
+
+export type TelemetryKeyInput = z.infer<typeof telemetryKeySchema>;
+export type TelemetryKeyQuery = z.infer<typeof telemetryKeyQuerySchema>;
+
+export const telemetryKeyValidation = {
+  entry: telemetryKeySchema,
+  query: telemetryKeyQuerySchema,
+};
@@ -1 +1,2 @@
-export {};
\ No newline at end of file
+export * from "./user.routes.js";
+export * from "./user.model.js";
@@ -1,6 +1,51 @@
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../../utils/apiError.js";
+import { success } from "../../utils/response.js";
+import { parseOrThrow } from "../../utils/validation.js";
+import { createUser, getUserSettings, listUsers, updateUser, updateUserSettings } from "./user.service.js";
+import { userValidation } from "./user.validation.js";
 
-// Placeholder controller
-export const getUsers = (_req: Request, res: Response) => {
-  res.json({ users: [] });
-};
\ No newline at end of file
+export const getUsers = async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(success(await listUsers()));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const postUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseOrThrow(userValidation.createUser, req.body);
+    res.status(201).json(success(await createUser(input)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const patchUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = parseOrThrow(userValidation.updateUser, req.body);
+    res.json(success(await updateUser(req.params.id, input)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMySettings = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.auth) throw new UnauthorizedError("Not authenticated");
+    res.json(success(await getUserSettings(req.auth.userId)));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const putMySettings = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.auth) throw new UnauthorizedError("Not authenticated");
+    const settings = parseOrThrow(userValidation.settings, req.body);
+    res.json(success(await updateUserSettings(req.auth.userId, settings)));
+  } catch (error) {
+    next(error);
+  }
+};
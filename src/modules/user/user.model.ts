@@ -1,5 +1,33 @@
-// Placeholder model
+export const USER_ROLES = ["admin", "site_manager", "viewer"] as const;
+
+/**
+ * - admin: every device and every user
+ * - site_manager: devices of their customers, may change device-level settings
+ * - viewer: read-only access to devices of their customers
+ */
+export type UserRole = (typeof USER_ROLES)[number];
+
 export type User = {
   id: string;
   email: string;
-};
\ No newline at end of file
+  name: string;
+  role: UserRole;
+  // Customer ids (CustomerDevice.customerId) whose devices the user may see. Ignored for admins.
+  customerIds: number[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UserRecord = User & {
+  passwordHash: string;
+};
+
+export const toPublicUser = (record: UserRecord): User => ({
+  id: record.id,
+  email: record.email,
+  name: record.name,
+  role: record.role,
+  customerIds: record.customerIds,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
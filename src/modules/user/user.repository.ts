@@ -1,4 +1,104 @@
-// Placeholder repository
-export const findAllUsers = async () => {
-  return [];
-};
\ No newline at end of file
+import { getDatabase, withTransaction } from "../../config/database.js";
+import { UserRecord, UserRole } from "./user.model.js";
+
+type UserRow = {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  customer_ids: string;
+  password_hash: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const toRecord = (row: UserRow): UserRecord => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  customerIds: JSON.parse(row.customer_ids) as number[],
+  passwordHash: row.password_hash,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (user: UserRecord): UserRow => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  customer_ids: JSON.stringify(user.customerIds),
+  password_hash: user.passwordHash,
+  created_at: user.createdAt,
+  updated_at: user.updatedAt,
+});
+
+export const findAllUsers = async (): Promise<UserRecord[]> => {
+  const rows = getDatabase().prepare("SELECT * FROM users ORDER BY created_at").all() as UserRow[];
+  return rows.map(toRecord);
+};
+
+export const findUserById = async (id: string): Promise<UserRecord | null> => {
+  const row = getDatabase().prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+  return row ? toRecord(row) : null;
+};
+
+export const findUserByEmail = async (email: string): Promise<UserRecord | null> => {
+  const row = getDatabase().prepare("SELECT * FROM users WHERE email = ?").get(email.toLowerCase()) as
+    | UserRow
+    | undefined;
+  return row ? toRecord(row) : null;
+};
+
+export const insertUser = async (user: UserRecord): Promise<UserRecord> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO users (id, email, name, role, customer_ids, password_hash, created_at, updated_at)
+       VALUES (@id, @email, @name, @role, @customer_ids, @password_hash, @created_at, @updated_at)`,
+    )
+    .run(toRow(user));
+  return user;
+};
+
+export const updateUserRecord = async (user: UserRecord): Promise<UserRecord> => {
+  getDatabase()
+    .prepare(
+      `UPDATE users
+       SET name = @name, role = @role, customer_ids = @customer_ids, password_hash = @password_hash, updated_at = @updated_at
+       WHERE id = @id`,
+    )
+    .run(toRow(user));
+  return user;
+};
+
+export const findUserSettings = async (userId: string): Promise<Record<string, unknown>> => {
+  const rows = getDatabase().prepare("SELECT key, value FROM user_settings WHERE user_id = ?").all(userId) as {
+    key: string;
+    value: string;
+  }[];
+  return Object.fromEntries(rows.map((row) => [row.key, JSON.parse(row.value)]));
+};
+
+/**
+ * Upsert the given keys; a `null` value deletes the key.
+ */
+export const saveUserSettings = async (userId: string, settings: Record<string, unknown>) => {
+  const now = new Date().toISOString();
+
+  withTransaction((db) => {
+    const upsert = db.prepare(
+      `INSERT INTO user_settings (user_id, key, value, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+    );
+    const remove = db.prepare("DELETE FROM user_settings WHERE user_id = ? AND key = ?");
+
+    for (const [key, value] of Object.entries(settings)) {
+      if (value === null) {
+        remove.run(userId, key);
+      } else {
+        upsert.run(userId, key, JSON.stringify(value), now);
+      }
+    }
+  });
+};
@@ -1,6 +1,18 @@
 import { Router } from "express";
-import { getUsers } from "./user.controller.js";
+import { authMiddleware } from "../auth/auth.middleware.js";
+import { requireRole } from "../auth/auth.policy.js";
+import { uuidParam } from "../../utils/validation.js";
+import { getMySettings, getUsers, patchUser, postUser, putMySettings } from "./user.controller.js";
 
 export const userRouter = Router();
 
-userRouter.get("/", getUsers);
\ No newline at end of file
+userRouter.use(authMiddleware);
+userRouter.param("id", uuidParam);
+
+// Any signed-in user manages their own settings
+userRouter.get("/me/settings", getMySettings);
+userRouter.put("/me/settings", putMySettings);
+
+userRouter.get("/", requireRole("admin"), getUsers);
+userRouter.post("/", requireRole("admin"), postUser);
+userRouter.patch("/:id", requireRole("admin"), patchUser);
@@ -1,4 +1,80 @@
-// Placeholder service
-export const listUsers = async () => {
-  return [];
-};
\ No newline at end of file
+import { randomUUID } from "node:crypto";
+import { config } from "../../config/index.js";
+import { ConflictError, NotFoundError } from "../../utils/apiError.js";
+import { logger } from "../../utils/logger.js";
+import { hashPassword } from "../../utils/password.js";
+import { toPublicUser, User } from "./user.model.js";
+import {
+  findAllUsers,
+  findUserByEmail,
+  findUserById,
+  findUserSettings,
+  insertUser,
+  saveUserSettings,
+  updateUserRecord,
+} from "./user.repository.js";
+import { CreateUserInput, UpdateUserInput } from "./user.validation.js";
+
+export const listUsers = async (): Promise<User[]> => {
+  const users = await findAllUsers();
+  return users.map(toPublicUser);
+};
+
+export const createUser = async (input: CreateUserInput): Promise<User> => {
+  const email = input.email.toLowerCase();
+  if (await findUserByEmail(email)) {
+    throw new ConflictError(`User ${email} already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const user = await insertUser({
+    id: randomUUID(),
+    email,
+    name: input.name,
+    role: input.role ?? "viewer",
+    customerIds: input.customerIds ?? [],
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return toPublicUser(user);
+};
+
+export const updateUser = async (id: string, input: UpdateUserInput): Promise<User> => {
+  const existing = await findUserById(id);
+  if (!existing) {
+    throw new NotFoundError(`User ${id} not found`);
+  }
+
+  const { password, ...changes } = input;
+  const updated = await updateUserRecord({
+    ...existing,
+    ...changes,
+    passwordHash: password ? await hashPassword(password) : existing.passwordHash,
+    updatedAt: new Date().toISOString(),
+  });
+
+  return toPublicUser(updated);
+};
+
+export const getUserSettings = async (userId: string) => findUserSettings(userId);
+
+export const updateUserSettings = async (userId: string, settings: Record<string, unknown>) => {
+  await saveUserSettings(userId, settings);
+  return findUserSettings(userId);
+};
+
+/**
+ * Create the admin account from AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD
+ * so that a fresh install has someone who can log in.
+ */
+export const ensureBootstrapAdmin = async () => {
+  const admin = config.auth.bootstrapAdmin;
+  if (!admin) return;
+
+  if (await findUserByEmail(admin.email)) return;
+
+  await createUser({ email: admin.email, name: "Administrator", password: admin.password, role: "admin" });
+  logger.info({ email: admin.email }, "Bootstrap admin created");
+};
@@ -1,2 +1,31 @@
-// Placeholder validation
-export const userValidation = {};
\ No newline at end of file
+import { z } from "zod";
+import { USER_ROLES } from "./user.model.js";
+
+export const createUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(120),
+  password: z.string().min(8).max(200),
+  role: z.enum(USER_ROLES).default("viewer"),
+  customerIds: z.array(z.number().int()).default([]),
+});
+
+export const updateUserSchema = z
+  .object({
+    name: z.string().min(1).max(120),
+    password: z.string().min(8).max(200),
+    role: z.enum(USER_ROLES),
+    customerIds: z.array(z.number().int()),
+  })
+  .partial();
+
+// Free-form dashboard preferences; a null value removes the key
+export const userSettingsSchema = z.record(z.string().min(1).max(100), z.unknown());
+
+export type CreateUserInput = z.input<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+
+export const userValidation = {
+  createUser: createUserSchema,
+  updateUser: updateUserSchema,
+  settings: userSettingsSchema,
+};
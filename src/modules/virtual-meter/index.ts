@@ -0,0 +1,2 @@
+export * from "./virtual-meter.model.js";
+export * from "./virtual-meter.service.js";
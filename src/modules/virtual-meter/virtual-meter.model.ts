@@ -0,0 +1,24 @@
+export type VirtualMeterFormula = {
+  // e.g. "A.kWh - B.kWh - C.kWh"
+  expression: string;
+  unit: string | null;
+};
+
+/**
+ * A device without a meter of its own, computed from other devices' telemetry.
+ * Its id is used as a deviceUUID by the telemetry endpoints.
+ */
+export type VirtualMeter = {
+  id: string;
+  name: string;
+  description: string | null;
+  // Common customer of the source devices; null when they span customers (admins only)
+  customerId: number | null;
+  // Alias used in the formulas -> source deviceUUID
+  sources: Record<string, string>;
+  // Output key -> formula
+  formulas: Record<string, VirtualMeterFormula>;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
@@ -0,0 +1,73 @@
+import { getDatabase } from "../../config/database.js";
+import { VirtualMeter } from "./virtual-meter.model.js";
+
+type VirtualMeterRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  customer_id: number | null;
+  sources: string;
+  formulas: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const toVirtualMeter = (row: VirtualMeterRow): VirtualMeter => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  customerId: row.customer_id,
+  sources: JSON.parse(row.sources) as VirtualMeter["sources"],
+  formulas: JSON.parse(row.formulas) as VirtualMeter["formulas"],
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const findAllVirtualMeters = async (customerIds?: number[]): Promise<VirtualMeter[]> => {
+  const db = getDatabase();
+  const rows = (
+    customerIds
+      ? db
+          .prepare(
+            `SELECT * FROM virtual_meters WHERE customer_id IN (${customerIds.map(() => "?").join(", ") || "NULL"})
+             ORDER BY name`,
+          )
+          .all(...customerIds)
+      : db.prepare("SELECT * FROM virtual_meters ORDER BY name").all()
+  ) as VirtualMeterRow[];
+  return rows.map(toVirtualMeter);
+};
+
+export const findVirtualMeterById = async (id: string): Promise<VirtualMeter | null> => {
+  const row = getDatabase().prepare("SELECT * FROM virtual_meters WHERE id = ?").get(id) as VirtualMeterRow | undefined;
+  return row ? toVirtualMeter(row) : null;
+};
+
+export const saveVirtualMeter = async (meter: VirtualMeter): Promise<VirtualMeter> => {
+  getDatabase()
+    .prepare(
+      `INSERT INTO virtual_meters (id, name, description, customer_id, sources, formulas, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, description = excluded.description,
+         customer_id = excluded.customer_id, sources = excluded.sources, formulas = excluded.formulas,
+         updated_at = excluded.updated_at`,
+    )
+    .run(
+      meter.id,
+      meter.name,
+      meter.description,
+      meter.customerId,
+      JSON.stringify(meter.sources),
+      JSON.stringify(meter.formulas),
+      meter.createdBy,
+      meter.createdAt,
+      meter.updatedAt,
+    );
+  return meter;
+};
+
+export const deleteVirtualMeterById = async (id: string): Promise<boolean> => {
+  return getDatabase().prepare("DELETE FROM virtual_meters WHERE id = ?").run(id).changes > 0;
+};
@@ -0,0 +1,88 @@
+import { randomUUID } from "node:crypto";
+import { NotFoundError, ValidationError } from "../../utils/apiError.js";
+import { AuthPayload } from "../auth/auth.model.js";
+import { isAdmin, ScopedDevice } from "../auth/auth.policy.js";
+import { VirtualMeter } from "./virtual-meter.model.js";
+import {
+  deleteVirtualMeterById,
+  findAllVirtualMeters,
+  findVirtualMeterById,
+  saveVirtualMeter,
+} from "./virtual-meter.repository.js";
+import { VirtualMeterInput } from "./virtual-meter.validation.js";
+
+/**
+ * Admins see every virtual meter; other users those of their customers
+ */
+export const canViewVirtualMeter = (auth: AuthPayload, meter: VirtualMeter) =>
+  isAdmin(auth) || (meter.customerId !== null && auth.customerIds.includes(meter.customerId));
+
+export const listVirtualMeters = async (auth: AuthPayload): Promise<VirtualMeter[]> =>
+  findAllVirtualMeters(isAdmin(auth) ? undefined : auth.customerIds);
+
+export const getVirtualMeter = async (id: string, auth: AuthPayload): Promise<VirtualMeter> => {
+  const meter = await findVirtualMeterById(id);
+  if (!meter || !canViewVirtualMeter(auth, meter)) {
+    throw new NotFoundError(`Virtual meter ${id} not found`);
+  }
+  return meter;
+};
+
+/**
+ * The customer shared by every source device, or null when they span customers.
+ * Non-admins could not see a meter without a customer, so they may not create one.
+ */
+const customerOf = (sourceDevices: ScopedDevice[], auth: AuthPayload): number | null => {
+  const customerIds = new Set(
+    sourceDevices.map((device) => (device.assignedToCustomer === true ? device.customerId : undefined)),
+  );
+  const [customerId] = customerIds;
+  if (customerIds.size === 1 && typeof customerId === "number") {
+    return customerId;
+  }
+  if (!isAdmin(auth)) {
+    throw new ValidationError("All source devices must belong to the same customer");
+  }
+  return null;
+};
+
+/**
+ * @param sourceDevices - The devices named in `input.sources`, already checked to be visible to `auth`
+ */
+export const createVirtualMeter = async (
+  input: VirtualMeterInput,
+  sourceDevices: ScopedDevice[],
+  auth: AuthPayload,
+): Promise<VirtualMeter> => {
+  const now = new Date().toISOString();
+  return saveVirtualMeter({
+    ...input,
+    id: randomUUID(),
+    customerId: customerOf(sourceDevices, auth),
+    createdBy: auth.userId,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const replaceVirtualMeter = async (
+  id: string,
+  input: VirtualMeterInput,
+  sourceDevices: ScopedDevice[],
+  auth: AuthPayload,
+): Promise<VirtualMeter> => {
+  const existing = await getVirtualMeter(id, auth);
+  return saveVirtualMeter({
+    ...input,
+    id,
+    customerId: customerOf(sourceDevices, auth),
+    createdBy: existing.createdBy,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const deleteVirtualMeter = async (id: string, auth: AuthPayload): Promise<void> => {
+  await getVirtualMeter(id, auth);
+  await deleteVirtualMeterById(id);
+};
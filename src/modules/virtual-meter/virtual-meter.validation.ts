@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { collectRefs, parseExpression } from "../../services/virtual-meter/expression.js";
+
+const identifier = z.string().regex(/^[A-Za-z_]\w{0,31}$/, "Use letters, digits and underscores, not starting with a digit");
+
+export const virtualMeterSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(1000).nullable().default(null),
+    sources: z
+      .record(identifier, z.string().trim().min(1))
+      .refine((sources) => Object.keys(sources).length >= 1 && Object.keys(sources).length <= 20, {
+        message: "Between 1 and 20 sources",
+      }),
+    formulas: z
+      .record(
+        z.string().regex(/^\w{1,64}$/, "Keys use letters, digits and underscores"),
+        z.object({
+          expression: z.string().trim().min(1),
+          unit: z.string().trim().max(20).nullable().default(null),
+        }),
+      )
+      .refine((formulas) => Object.keys(formulas).length >= 1 && Object.keys(formulas).length <= 20, {
+        message: "Between 1 and 20 formulas",
+      }),
+  })
+  .superRefine((input, ctx) => {
+    for (const [key, formula] of Object.entries(input.formulas)) {
+      const path = ["formulas", key, "expression"];
+      let refs;
+      try {
+        refs = collectRefs(parseExpression(formula.expression));
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: (error as Error).message });
+        continue;
+      }
+      if (refs.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: "The formula must reference at least one source" });
+      }
+      for (const ref of refs.filter((ref) => !Object.hasOwn(input.sources, ref.alias))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown source "${ref.alias}"` });
+      }
+    }
+  });
+
+export type VirtualMeterInput = z.infer<typeof virtualMeterSchema>;
+
+export const virtualMeterValidation = {
+  meter: virtualMeterSchema,
+};
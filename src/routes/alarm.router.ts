@@ -0,0 +1,234 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { NotFoundError } from '../utils/apiError.js'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { DeviceService } from '../services/device.service.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import { isAdmin, requireRole } from '../modules/auth/auth.policy.js'
+import { AlarmRule } from '../modules/alarm/alarm.model.js'
+import {
+  acknowledgeAlarm,
+  clearAlarm,
+  createRule,
+  deleteRule,
+  getAlarm,
+  getRule,
+  listAlarms,
+  listRules,
+  replaceRule,
+} from '../modules/alarm/alarm.service.js'
+import { alarmValidation, AlarmTarget } from '../modules/alarm/alarm.validation.js'
+
+/**
+ * Create alarm routes
+ * Endpoints:
+ * - GET /api/alarms - List alarms (filter by status, severity, device, rule)
+ * - GET /api/alarms/:id - Get one alarm
+ * - POST /api/alarms/:id/acknowledge - Acknowledge an alarm
+ * - POST /api/alarms/:id/clear - Clear an alarm
+ * - GET/POST /api/alarms/rules, GET/PUT/DELETE /api/alarms/rules/:id - Manage alarm rules
+ *
+ * Alarms and rules are scoped like devices: callers only see those on devices
+ * visible to them. Acknowledging, clearing and rule changes need a role that
+ * may manage devices.
+ */
+export function createAlarmRoutes(deviceService: DeviceService): Router {
+  const router = Router()
+  router.param('id', uuidParam)
+  const canManage = requireRole('admin', 'site_manager')
+
+  /**
+   * Rules over a single device are only visible to (and editable by) callers who can see that device
+   */
+  const isRuleVisible = (auth: AuthPayload, target: AlarmTarget, visibleUUIDs: Set<string>) => {
+    if (isAdmin(auth)) return true
+    switch (target.type) {
+      case 'device':
+        return visibleUUIDs.has(target.deviceUUID)
+      case 'customer':
+        return auth.customerIds.includes(target.customerId)
+      case 'all':
+        return true
+    }
+  }
+
+  const visibleDeviceUUIDs = async (auth: AuthPayload) =>
+    new Set((await deviceService.getDevices(false, auth)).map((device) => device.deviceUUID))
+
+  const assertDeviceTarget = async (auth: AuthPayload, target: AlarmTarget) => {
+    if (target.type === 'device') {
+      await deviceService.validateDevice(target.deviceUUID, auth)
+    }
+  }
+
+  const getVisibleRule = async (auth: AuthPayload, id: string): Promise<AlarmRule> => {
+    const rule = await getRule(id)
+    const visibleUUIDs =
+      rule.target.type === 'device' && !isAdmin(auth) ? await visibleDeviceUUIDs(auth) : new Set<string>()
+    if (!isRuleVisible(auth, rule.target, visibleUUIDs)) {
+      throw new NotFoundError(`Alarm rule ${id} not found`)
+    }
+    return rule
+  }
+
+  /**
+   * GET /api/alarms
+   *
+   * Query Parameters:
+   * - status (optional): active, acknowledged, cleared or closed
+   * - severity (optional): critical, major, minor, warning or info
+   * - deviceUUID, ruleId (optional): string
+   * - limit (optional): number - newest first (default 100, max 1000)
+   */
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filters = parseOrThrow(alarmValidation.listQuery, req.query)
+
+      const alarms = await listAlarms(filters, req.auth!)
+      return res.json({
+        success: true,
+        data: alarms,
+        count: alarms.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/alarms/rules
+   */
+  router.get('/rules', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const auth = req.auth!
+      const visibleUUIDs = isAdmin(auth) ? new Set<string>() : await visibleDeviceUUIDs(auth)
+      const rules = (await listRules()).filter((rule) => isRuleVisible(auth, rule.target, visibleUUIDs))
+
+      return res.json({
+        success: true,
+        data: rules,
+        count: rules.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/alarms/rules
+   *
+   * Body:
+   * {
+   *   "name": "Phase current high",
+   *   "severity": "major",
+   *   "target": { "type": "device", "deviceUUID": "545ffcb0-ab9c-11f0-a05e-97f672464deb" },
+   *   "condition": { "type": "threshold", "key": "Current_L1", "operator": ">", "value": 120,
+   *                  "durationMs": 300000, "hysteresis": 5 }
+   * }
+   *
+   * Targets: a device, every device of a customer ({ "type": "customer", "customerId": 3 })
+   * or every device ({ "type": "all" }, admins only).
+   * Conditions: threshold (above) or { "type": "no_data", "key": "...", "durationMs": 1800000 }.
+   */
+  router.post('/rules', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(alarmValidation.rule, req.body)
+
+      await assertDeviceTarget(req.auth!, input.target)
+      return res.status(201).json({
+        success: true,
+        data: await createRule(input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/alarms/rules/:id
+   */
+  router.get('/rules/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getVisibleRule(req.auth!, req.params.id),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * PUT /api/alarms/rules/:id - Replace a rule (same body as POST)
+   */
+  router.put('/rules/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(alarmValidation.rule, req.body)
+
+      await getVisibleRule(req.auth!, req.params.id)
+      await assertDeviceTarget(req.auth!, input.target)
+      return res.json({
+        success: true,
+        data: await replaceRule(req.params.id, input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * DELETE /api/alarms/rules/:id - Existing alarms are kept
+   */
+  router.delete('/rules/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await getVisibleRule(req.auth!, req.params.id)
+      await deleteRule(req.params.id, req.auth!)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/alarms/:id
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getAlarm(req.params.id, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/alarms/:id/acknowledge
+   */
+  router.post('/:id/acknowledge', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await acknowledgeAlarm(req.params.id, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/alarms/:id/clear
+   */
+  router.post('/:id/clear', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await clearAlarm(req.params.id, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
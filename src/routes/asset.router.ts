@@ -0,0 +1,344 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { ValidationError } from '../utils/apiError.js'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import { requireRole } from '../modules/auth/auth.policy.js'
+import {
+  attachDeviceToNode,
+  createNode,
+  deleteNode,
+  detachDeviceFromNode,
+  getNode,
+  getNodePath,
+  getNodeTree,
+  listNodeDeviceUUIDs,
+  listNodes,
+  updateNode,
+} from '../modules/asset/asset.service.js'
+import { assetValidation } from '../modules/asset/asset.validation.js'
+import { DeviceService } from '../services/device.service.js'
+import { AssetAggregationService } from '../services/asset/asset-aggregation.service.js'
+import { ForecastService } from '../services/energy/forecast.service.js'
+import { normalizedKpis } from '../services/asset/aggregation.js'
+import { consumptionQuerySchema, forecastQuerySchema } from './energy.validation.js'
+import { deleteNodeQuerySchema, nodeDevicesQuerySchema, nodeTelemetryQuerySchema } from './asset.validation.js'
+
+// Devices aggregated in one node-level request
+const MAX_NODE_DEVICES = 200
+
+/**
+ * Create asset routes
+ * Endpoints:
+ * - GET/POST /api/assets, GET /api/assets/tree, GET/PUT/DELETE /api/assets/:id - Asset nodes
+ * - GET /api/assets/:id/devices, PUT/DELETE /api/assets/:id/devices/:deviceUUID - Attached devices
+ * - GET /api/assets/:id/consumption - Consumption of every device under a node
+ * - GET /api/assets/:id/telemetry - Telemetry of every device under a node, combined per key
+ * - GET /api/assets/:id/forecast - Consumption forecast of every device under a node
+ *
+ * Nodes form a tree per company: company > site > building > line > meter, where
+ * levels may be skipped but never reversed. Devices are attached to any node and
+ * count for all of its ancestors. Users see the trees of their customers; admins
+ * and site managers edit them, and only admins create or delete companies.
+ */
+export function createAssetRoutes(
+  deviceService: DeviceService,
+  aggregationService: AssetAggregationService,
+  forecastService: ForecastService
+): Router {
+  const router = Router()
+  router.param('id', uuidParam)
+  router.param('deviceUUID', uuidParam)
+  const canManage = requireRole('admin', 'site_manager')
+
+  /**
+   * Devices under a node that the caller can see; detached or deleted devices are skipped
+   */
+  const nodeDevices = async (id: string, auth: AuthPayload) => {
+    const deviceUUIDs = new Set(await listNodeDeviceUUIDs(id, auth))
+    if (deviceUUIDs.size === 0) return []
+    const devices = (await deviceService.getDevices(false, auth)).filter((device) => deviceUUIDs.has(device.deviceUUID))
+    if (devices.length > MAX_NODE_DEVICES) {
+      throw new ValidationError(`Too many devices under this node (${devices.length}, max ${MAX_NODE_DEVICES})`)
+    }
+    return devices
+  }
+
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const nodes = await listNodes(req.auth!)
+      return res.json({
+        success: true,
+        data: nodes,
+        count: nodes.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/tree - Nested nodes with the devices attached directly to each
+   */
+  router.get('/tree', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getNodeTree(req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/assets
+   *
+   * Body examples:
+   * { "type": "company", "name": "Indusmind", "customerId": 12 }
+   * { "type": "site", "name": "Lyon plant", "parentId": "...", "metadata": { "address": "..." } }
+   * { "type": "building", "name": "Building A", "parentId": "...", "metadata": { "floorArea": 4200, "headcount": 85 } }
+   *
+   * Nodes below a company take its customer.
+   */
+  router.post('/', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(assetValidation.create, req.body)
+
+      return res.status(201).json({
+        success: true,
+        data: await createNode(input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/:id - A node with its path from the company down
+   */
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const node = await getNode(req.params.id, req.auth!)
+      const path = await getNodePath(node)
+      return res.json({
+        success: true,
+        data: node,
+        meta: {
+          path: path.map(({ id, type, name }) => ({ id, type, name })),
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * PUT /api/assets/:id - Rename, replace metadata, or move under another parent with "parentId"
+   */
+  router.put('/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(assetValidation.update, req.body)
+
+      return res.json({
+        success: true,
+        data: await updateNode(req.params.id, input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * DELETE /api/assets/:id?cascade=true - Without cascade, nodes with children are refused (409)
+   */
+  router.delete('/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(deleteNodeQuerySchema, req.query)
+
+      await deleteNode(req.params.id, req.auth!, query.cascade)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/:id/devices
+   *
+   * Query Parameters:
+   * - includeDescendants (optional): boolean - also list devices of child nodes (default true)
+   */
+  router.get('/:id/devices', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(nodeDevicesQuerySchema, req.query)
+
+      const deviceUUIDs = await listNodeDeviceUUIDs(req.params.id, req.auth!, query.includeDescendants)
+      const devices = (await deviceService.getDevices(false, req.auth)).filter((device) =>
+        deviceUUIDs.includes(device.deviceUUID)
+      )
+      return res.json({
+        success: true,
+        data: devices,
+        count: devices.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * PUT /api/assets/:id/devices/:deviceUUID - Attach a device, moving it from its previous node if any
+   */
+  router.put('/:id/devices/:deviceUUID', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const device = await deviceService.validateDevice(req.params.deviceUUID, req.auth)
+      const { previousNodeId } = await attachDeviceToNode(req.params.id, device, req.auth!)
+      return res.json({
+        success: true,
+        data: {
+          nodeId: req.params.id,
+          deviceUUID: device.deviceUUID,
+          previousNodeId,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.delete('/:id/devices/:deviceUUID', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await detachDeviceFromNode(req.params.id, req.params.deviceUUID, req.auth!)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/:id/consumption
+   *
+   * Consumption of every device under the node, summed per bucket. Same query
+   * parameters as GET /api/energy/:deviceUUID/consumption. `kpis` divides the
+   * total by the node's floorArea and headcount when its metadata has them.
+   *
+   * Example:
+   * GET /api/assets/6f1c.../consumption?startTs=1704067200000&endTs=1706745600000&granularity=month
+   */
+  router.get('/:id/consumption', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(consumptionQuerySchema, req.query)
+
+      const node = await getNode(req.params.id, req.auth!)
+      const devices = await nodeDevices(node.id, req.auth!)
+      const consumption = await aggregationService.getConsumption(
+        devices.map((device) => device.deviceUUID),
+        query
+      )
+
+      return res.json({
+        success: true,
+        data: {
+          buckets: consumption.buckets,
+          total: consumption.total,
+          kpis: normalizedKpis(consumption.total, node.metadata),
+          devices: consumption.devices,
+        },
+        node: {
+          id: node.id,
+          type: node.type,
+          name: node.name,
+        },
+        meta: query,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/:id/telemetry
+   *
+   * Each device's series is aggregated per interval, then the devices are
+   * combined per timestamp.
+   *
+   * Query Parameters:
+   * - keys (required): comma-separated telemetry keys (max 10)
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - interval (required): number - bucket size in milliseconds (min 60000)
+   * - agg (optional): AVG (default), MIN, MAX or SUM - per device and interval
+   * - combine (optional): sum (default), avg, min or max - across devices
+   *
+   * Example:
+   * GET /api/assets/6f1c.../telemetry?keys=ActivePowerTotal&startTs=1704067200000&endTs=1704153600000&interval=900000
+   */
+  router.get('/:id/telemetry', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(nodeTelemetryQuerySchema, req.query)
+
+      const node = await getNode(req.params.id, req.auth!)
+      const devices = await nodeDevices(node.id, req.auth!)
+      const { series, devices: contributions } = await aggregationService.getTelemetry(
+        devices.map((device) => device.deviceUUID),
+        query
+      )
+
+      return res.json({
+        success: true,
+        data: series,
+        devices: contributions,
+        node: {
+          id: node.id,
+          type: node.type,
+          name: node.name,
+        },
+        meta: query,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/assets/:id/forecast
+   *
+   * Forecast of the summed consumption of every device under the node. Same
+   * query parameters as GET /api/energy/:deviceUUID/forecast.
+   *
+   * Example:
+   * GET /api/assets/6f1c.../forecast?granularity=day&horizonDays=28
+   */
+  router.get('/:id/forecast', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(forecastQuerySchema, req.query)
+
+      const node = await getNode(req.params.id, req.auth!)
+      const devices = await nodeDevices(node.id, req.auth!)
+      const { history, devices: contributions, ...forecast } = await forecastService.forecastNode(
+        devices.map((device) => device.deviceUUID),
+        query
+      )
+
+      return res.json({
+        success: true,
+        data: {
+          ...forecast,
+          devices: contributions,
+        },
+        node: {
+          id: node.id,
+          type: node.type,
+          name: node.name,
+        },
+        meta: {
+          ...query,
+          history,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod'
+import { COMBINE_MODES } from '../services/asset/aggregation.js'
+
+const booleanFlag = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true')
+
+/**
+ * GET /api/assets/:id/devices query
+ */
+export const nodeDevicesQuerySchema = z.object({
+  includeDescendants: booleanFlag.default('true'),
+})
+
+/**
+ * DELETE /api/assets/:id query
+ */
+export const deleteNodeQuerySchema = z.object({
+  cascade: booleanFlag.default('false'),
+})
+
+/**
+ * GET /api/assets/:id/telemetry query
+ */
+export const nodeTelemetryQuerySchema = z
+  .object({
+    keys: z
+      .string()
+      .transform((value) =>
+        value
+          .split(',')
+          .map((key) => key.trim())
+          .filter((key) => key.length > 0)
+      )
+      .pipe(z.array(z.string()).min(1).max(10)),
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    interval: z.coerce.number().int().min(60_000),
+    agg: z
+      .string()
+      .transform((v) => v.toUpperCase())
+      .pipe(z.enum(['AVG', 'MIN', 'MAX', 'SUM']))
+      .default('AVG'),
+    combine: z.enum(COMBINE_MODES).default('sum'),
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+  .refine((query) => (query.endTs - query.startTs) / query.interval <= 10_000, {
+    message: 'Too many intervals: use a larger interval or a shorter range',
+    path: ['interval'],
+  })
@@ -0,0 +1,279 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { DeviceService } from '../services/device.service.js'
+import { ConsumptionService } from '../services/energy/consumption.service.js'
+import { CostService } from '../services/energy/cost.service.js'
+import { AnomalyService } from '../services/energy/anomaly.service.js'
+import { ForecastService } from '../services/energy/forecast.service.js'
+import { resolveDeviceTariff } from '../modules/tariff/tariff.service.js'
+import {
+  anomalyQuerySchema,
+  baselineQuerySchema,
+  consumptionQuerySchema,
+  costQuerySchema,
+  forecastQuerySchema,
+} from './energy.validation.js'
+
+/**
+ * Create energy routes
+ * Endpoints:
+ * - GET /api/energy/:deviceUUID/consumption - Consumption per hour/day/week/month from a cumulative counter
+ * - GET /api/energy/:deviceUUID/cost - Bill-style cost breakdown of a device's consumption
+ * - GET /api/energy/:deviceUUID/baseline - Hour-of-week profile learned from the device's history
+ * - GET /api/energy/:deviceUUID/anomalies - Periods that deviate from that profile
+ * - GET /api/energy/:deviceUUID/forecast - Consumption forecast with prediction intervals
+ */
+export function createEnergyRoutes(
+  consumptionService: ConsumptionService,
+  costService: CostService,
+  deviceService: DeviceService,
+  anomalyService: AnomalyService,
+  forecastService: ForecastService
+): Router {
+  const router = Router()
+  router.param('deviceUUID', uuidParam)
+
+  /**
+   * GET /api/energy/:deviceUUID/consumption
+   *
+   * Turn a cumulative counter (e.g. active energy index) into consumption per bucket.
+   * Counter resets, rollovers and meter replacements are detected and reported in `events`.
+   * Each bucket says whether its value is measured, estimated (interpolated or
+   * extrapolated) or missing, and which share of it is backed by measured data.
+   *
+   * Query Parameters:
+   * - key (optional): string - counter key (default AccumulatedActiveEnergyDelivered)
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - granularity (optional): hour, day (default), week (ISO, Monday) or month
+   * - rolloverValue (optional): number - value at which the counter wraps to zero
+   * - maxGapMs (optional): number - readings further apart are treated as a data gap
+   *
+   * Example:
+   * GET /api/energy/545ffcb0-ab9c-11f0-a05e-97f672464deb/consumption?startTs=1704067200000&endTs=1706745600000&granularity=day
+   */
+  router.get('/:deviceUUID/consumption', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const options = parseOrThrow(consumptionQuerySchema, req.query)
+
+      const { deviceUUID } = req.params
+      const device = await deviceService.validateDevice(deviceUUID, req.auth)
+      const { buckets, total, events, readings, maxGapMs, ...query } =
+        await consumptionService.getConsumption({ deviceUUID, ...options })
+
+      return res.json({
+        success: true,
+        data: {
+          buckets,
+          total,
+          events,
+        },
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          ...query,
+          readings,
+          maxGapMs,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/energy/:deviceUUID/cost
+   *
+   * Price the device's consumption over a range with its tariff: the tariff
+   * assigned to the device, else the one assigned to its customer, unless
+   * `tariffId` is given. Energy is broken down by season and time-of-use period,
+   * followed by monthly demand charges, fixed fees and taxes.
+   *
+   * Query Parameters:
+   * - key (optional): string - cumulative energy key in kWh (default AccumulatedActiveEnergyDelivered)
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - tariffId (optional): string - tariff to apply instead of the assigned one
+   * - rolloverValue, maxGapMs (optional): as for /consumption
+   *
+   * Example:
+   * GET /api/energy/545ffcb0-ab9c-11f0-a05e-97f672464deb/cost?startTs=1704067200000&endTs=1706745600000
+   */
+  router.get('/:deviceUUID/cost', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tariffId, ...query } = parseOrThrow(costQuerySchema, req.query)
+      const { deviceUUID } = req.params
+      const device = await deviceService.validateDevice(deviceUUID, req.auth)
+      const { tariff, source } = await resolveDeviceTariff(device, tariffId)
+      const breakdown = await costService.getCost({ deviceUUID, ...query, tariff })
+
+      return res.json({
+        success: true,
+        data: breakdown,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          ...query,
+          tariff: {
+            id: tariff.id,
+            name: tariff.name,
+            source,
+          },
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/energy/:deviceUUID/baseline
+   *
+   * What the device usually does: mean and standard deviation of its hourly
+   * consumption (or hourly average of a non-cumulative key) for each weekday
+   * and hour in local time, learned from the days before `endTs`. Slots with
+   * fewer than 3 samples use the hour-of-day profile of working days or weekends.
+   *
+   * Query Parameters:
+   * - key (optional): string - counter key (default AccumulatedActiveEnergyDelivered)
+   * - cumulative (optional): boolean - false to model the hourly average of the key instead (default true)
+   * - endTs (optional): number - end of the history window in milliseconds (default now)
+   * - baselineDays (optional): number - days of history, 7 to 180 (default 28)
+   * - tz (optional): string - IANA time zone for weekdays and hours (default UTC)
+   * - rolloverValue, maxGapMs (optional): as for /consumption
+   *
+   * Example:
+   * GET /api/energy/545ffcb0-ab9c-11f0-a05e-97f672464deb/baseline?baselineDays=56&tz=Europe/Paris
+   */
+  router.get('/:deviceUUID/baseline', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tz, endTs, ...query } = parseOrThrow(baselineQuerySchema, req.query)
+      const { deviceUUID } = req.params
+      const device = await deviceService.validateDevice(deviceUUID, req.auth)
+      const { slots, ...baseline } = await anomalyService.getBaseline({
+        deviceUUID,
+        ...query,
+        endTs: endTs ?? Date.now(),
+        timeZone: tz,
+      })
+
+      return res.json({
+        success: true,
+        data: slots,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          ...query,
+          ...baseline,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/energy/:deviceUUID/anomalies
+   *
+   * Compare every full hour of the range with the baseline learned from the
+   * `baselineDays` days before `startTs`. An hour is anomalous when it deviates by
+   * at least `threshold` standard deviations and `minDeviation` of the expected
+   * value; consecutive anomalous hours in the same direction form one period
+   * with its expected and actual totals.
+   *
+   * Query Parameters:
+   * - key, cumulative, baselineDays, tz, rolloverValue, maxGapMs (optional): as for /baseline
+   * - startTs, endTs (required): number - range to check in milliseconds, at most 92 days
+   * - threshold (optional): number - standard deviations (default 3)
+   * - minDeviation (optional): number - relative deviation, 0.2 = 20 % (default 0.2)
+   * - details (optional): boolean - also return every scored hour (default false)
+   *
+   * Example:
+   * GET /api/energy/545ffcb0-ab9c-11f0-a05e-97f672464deb/anomalies?startTs=1706745600000&endTs=1707350400000&tz=Europe/Paris
+   */
+  router.get('/:deviceUUID/anomalies', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tz, details, ...query } = parseOrThrow(anomalyQuerySchema, req.query)
+      const { deviceUUID } = req.params
+      const device = await deviceService.validateDevice(deviceUUID, req.auth)
+      const { periods, hours, summary, baseline } = await anomalyService.detectAnomalies({
+        deviceUUID,
+        ...query,
+        timeZone: tz,
+      })
+
+      return res.json({
+        success: true,
+        data: {
+          periods,
+          summary,
+          ...(details ? { hours } : {}),
+        },
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          ...query,
+          tz,
+          baseline,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/energy/:deviceUUID/forecast
+   *
+   * Forecast hourly or daily consumption for the coming days with a seasonal
+   * model (weekly pattern) fitted on the device's history: Holt-Winters or a
+   * seasonal regression, or whichever backtests better ("auto"). Each bucket has
+   * a prediction interval; `backtest` reports how the same model did on the
+   * last part of the history (MAE, RMSE, MAPE, bias and interval coverage).
+   * The forecast starts with the current, incomplete period.
+   *
+   * Query Parameters:
+   * - key (optional): string - counter key (default AccumulatedActiveEnergyDelivered)
+   * - granularity (optional): hour or day (default)
+   * - historyDays (optional): number - 14 to 365, at most 120 hourly (default 84)
+   * - horizonDays (optional): number - 1 to 90, at most 31 hourly (default 14)
+   * - method (optional): auto (default), holt_winters or seasonal_regression
+   * - confidence (optional): 80, 90, 95 (default) or 99 - prediction interval in percent
+   * - rolloverValue, maxGapMs (optional): as for /consumption
+   *
+   * Example:
+   * GET /api/energy/545ffcb0-ab9c-11f0-a05e-97f672464deb/forecast?horizonDays=30&confidence=90
+   */
+  router.get('/:deviceUUID/forecast', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(forecastQuerySchema, req.query)
+
+      const { deviceUUID } = req.params
+      const device = await deviceService.validateDevice(deviceUUID, req.auth)
+      const { history, ...forecast } = await forecastService.forecastDevice(deviceUUID, query)
+
+      return res.json({
+        success: true,
+        data: forecast,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          ...query,
+          history,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod'
+import { CALENDAR_UNITS } from '../utils/calendar.js'
+import { isValidTimeZone } from '../utils/time.js'
+import { DEFAULT_ANOMALY_OPTIONS } from '../services/energy/baseline.js'
+import { ConfidenceLevel, FORECAST_METHODS } from '../services/energy/forecast.js'
+import { FORECAST_GRANULARITIES } from '../services/energy/forecast.service.js'
+
+/**
+ * GET /api/energy/:deviceUUID/consumption query
+ */
+export const consumptionQuerySchema = z
+  .object({
+    key: z.string().trim().min(1).default('AccumulatedActiveEnergyDelivered'),
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    granularity: z.enum(CALENDAR_UNITS).default('day'),
+    rolloverValue: z.coerce.number().positive().optional(),
+    maxGapMs: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+
+/**
+ * GET /api/energy/:deviceUUID/cost query
+ */
+export const costQuerySchema = z
+  .object({
+    key: z.string().trim().min(1).default('AccumulatedActiveEnergyDelivered'),
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    tariffId: z.string().trim().min(1).optional(),
+    rolloverValue: z.coerce.number().positive().optional(),
+    maxGapMs: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+
+const timeZone = z
+  .string()
+  .default('UTC')
+  .refine((tz) => isValidTimeZone(tz), { message: 'Unknown time zone' })
+
+const booleanFlag = z.enum(['true', 'false']).transform((v) => v === 'true')
+
+const baselineFields = {
+  key: z.string().trim().min(1).default('AccumulatedActiveEnergyDelivered'),
+  cumulative: booleanFlag.default('true'),
+  baselineDays: z.coerce.number().int().min(7).max(180).default(28),
+  tz: timeZone,
+  rolloverValue: z.coerce.number().positive().optional(),
+  maxGapMs: z.coerce.number().int().positive().optional(),
+}
+
+/**
+ * GET /api/energy/:deviceUUID/baseline query
+ */
+export const baselineQuerySchema = z.object({
+  ...baselineFields,
+  endTs: z.coerce.number().int().nonnegative().optional(),
+})
+
+const MAX_ANOMALY_RANGE_MS = 92 * 24 * 60 * 60 * 1000
+
+/**
+ * GET /api/energy/:deviceUUID/anomalies query
+ */
+export const anomalyQuerySchema = z
+  .object({
+    ...baselineFields,
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    threshold: z.coerce.number().positive().max(100).default(DEFAULT_ANOMALY_OPTIONS.threshold),
+    minDeviation: z.coerce.number().nonnegative().max(10).default(DEFAULT_ANOMALY_OPTIONS.minDeviation),
+    details: booleanFlag.default('false'),
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+  .refine((query) => query.endTs - query.startTs <= MAX_ANOMALY_RANGE_MS, {
+    message: 'The range may not exceed 92 days',
+    path: ['endTs'],
+  })
+
+/**
+ * GET /api/energy/:deviceUUID/forecast and GET /api/assets/:id/forecast query
+ */
+export const forecastQuerySchema = z
+  .object({
+    key: z.string().trim().min(1).default('AccumulatedActiveEnergyDelivered'),
+    granularity: z.enum(FORECAST_GRANULARITIES).default('day'),
+    // Two weeks are needed to learn the weekly pattern
+    historyDays: z.coerce.number().int().min(14).max(365).default(84),
+    horizonDays: z.coerce.number().int().min(1).max(90).default(14),
+    method: z.enum(FORECAST_METHODS).default('auto'),
+    confidence: z
+      .enum(['80', '90', '95', '99'])
+      .default('95')
+      .transform((v) => Number(v) as ConfidenceLevel),
+    rolloverValue: z.coerce.number().positive().optional(),
+    maxGapMs: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => query.granularity === 'day' || query.historyDays <= 120, {
+    message: 'Hourly forecasts use at most 120 days of history',
+    path: ['historyDays'],
+  })
+  .refine((query) => query.granularity === 'day' || query.horizonDays <= 31, {
+    message: 'Hourly forecasts reach at most 31 days ahead',
+    path: ['horizonDays'],
+  })
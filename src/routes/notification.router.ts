@@ -0,0 +1,237 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { UnauthorizedError } from '../utils/apiError.js'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { isAdmin, requireRole } from '../modules/auth/auth.policy.js'
+import { findUserById } from '../modules/user/user.repository.js'
+import { toPublicChannel } from '../modules/notification/notification.model.js'
+import {
+  createChannel,
+  createSubscription,
+  deleteChannel,
+  deleteSubscription,
+  getChannel,
+  listChannels,
+  listDeliveries,
+  listSubscriptions,
+  replaceChannel,
+  replaceSubscription,
+} from '../modules/notification/notification.service.js'
+import { notificationValidation } from '../modules/notification/notification.validation.js'
+import { NotificationService } from '../services/notification/notification.service.js'
+
+/**
+ * Create notification routes
+ * Endpoints:
+ * - GET /api/notifications/channels, GET /api/notifications/channels/:id - Channels
+ * - POST /api/notifications/channels, PUT/DELETE /api/notifications/channels/:id - Manage channels (admin)
+ * - POST /api/notifications/channels/:id/test - Send a test message through a channel (admin)
+ * - GET/POST /api/notifications/subscriptions, PUT/DELETE /api/notifications/subscriptions/:id - Own subscriptions
+ * - GET /api/notifications/deliveries - Delivery log
+ *
+ * Channels are shared (email via SMTP, signed webhooks, Slack-style chat) and
+ * managed by admins. Every user subscribes to the channels they want, per
+ * event type and minimum severity, with optional quiet hours.
+ */
+export function createNotificationRoutes(notificationService: NotificationService): Router {
+  const router = Router()
+  router.param('id', uuidParam)
+  const adminOnly = requireRole('admin')
+
+  /**
+   * GET /api/notifications/channels - Webhook secrets are masked, and so are
+   * URLs and header values for non-admins
+   */
+  router.get('/channels', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channels = (await listChannels()).map((channel) => toPublicChannel(channel, isAdmin(req.auth!)))
+      return res.json({
+        success: true,
+        data: channels,
+        count: channels.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/notifications/channels
+   *
+   * Body examples:
+   * { "type": "email", "name": "Email" }
+   * { "type": "webhook", "name": "Ops webhook", "config": { "url": "https://ops.example.com/hooks/indusmind",
+   *   "secret": "at-least-16-characters" } }
+   * { "type": "chat", "name": "#energy", "config": { "url": "https://hooks.slack.com/services/..." } }
+   *
+   * Optional "templates" per event type (or "default"), e.g.
+   * { "alarm.raised": { "subject": "{{severity}}: {{title}}", "body": "{{data.message}} on {{device}}" } }
+   */
+  router.post('/channels', adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(notificationValidation.channel, req.body)
+
+      return res.status(201).json({
+        success: true,
+        data: toPublicChannel(await createChannel(input)),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.get('/channels/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: toPublicChannel(await getChannel(req.params.id), isAdmin(req.auth!)),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * PUT /api/notifications/channels/:id - Replace a channel; omit a webhook secret to keep it
+   */
+  router.put('/channels/:id', adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(notificationValidation.channel, req.body)
+
+      return res.json({
+        success: true,
+        data: toPublicChannel(await replaceChannel(req.params.id, input)),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * DELETE /api/notifications/channels/:id - Also removes the subscriptions to it
+   */
+  router.delete('/channels/:id', adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await deleteChannel(req.params.id)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/notifications/channels/:id/test
+   *
+   * Sends a sample message right away (email goes to the caller's address) and
+   * returns the resulting delivery, with `lastError` when it failed.
+   */
+  router.post('/channels/:id/test', adminOnly, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const channel = await getChannel(req.params.id)
+      const user = await findUserById(req.auth!.userId)
+      if (!user) {
+        throw new UnauthorizedError('Not authenticated')
+      }
+
+      const delivery = await notificationService.sendTest(channel, user)
+      return res.status(delivery.status === 'sent' ? 200 : 502).json({
+        success: delivery.status === 'sent',
+        data: delivery,
+        ...(delivery.lastError ? { error: delivery.lastError } : {}),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/notifications/subscriptions - The caller's subscriptions
+   */
+  router.get('/subscriptions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subscriptions = await listSubscriptions(req.auth!)
+      return res.json({
+        success: true,
+        data: subscriptions,
+        count: subscriptions.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/notifications/subscriptions
+   *
+   * Body:
+   * {
+   *   "channelId": "...",
+   *   "eventTypes": ["alarm.raised", "alarm.cleared"],
+   *   "minSeverity": "major",
+   *   "deviceUUIDs": null,
+   *   "quietHours": { "from": "22:00", "to": "07:00", "timeZone": "Europe/Paris" }
+   * }
+   *
+   * Only events on devices visible to the caller are delivered.
+   */
+  router.post('/subscriptions', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(notificationValidation.subscription, req.body)
+
+      return res.status(201).json({
+        success: true,
+        data: await createSubscription(input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.put('/subscriptions/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(notificationValidation.subscription, req.body)
+
+      return res.json({
+        success: true,
+        data: await replaceSubscription(req.params.id, input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.delete('/subscriptions/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await deleteSubscription(req.params.id, req.auth!)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/notifications/deliveries
+   *
+   * Newest first. Admins see every delivery, other users their own.
+   *
+   * Query Parameters:
+   * - status (optional): pending, sent or failed
+   * - channelId, eventType (optional): string
+   * - limit (optional): number (default 100, max 1000)
+   */
+  router.get('/deliveries', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filters = parseOrThrow(notificationValidation.deliveryQuery, req.query)
+
+      const deliveries = await listDeliveries(filters, req.auth!)
+      return res.json({
+        success: true,
+        data: deliveries,
+        count: deliveries.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,229 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import {
+  createReport,
+  deleteReport,
+  getReport,
+  getRun,
+  getRunDocument,
+  listReports,
+  listRuns,
+  replaceReport,
+} from '../modules/report/report.service.js'
+import { ReportDefinition, reportValidation } from '../modules/report/report.validation.js'
+import { DeviceService } from '../services/device.service.js'
+import { ReportService } from '../services/report/report.service.js'
+
+/**
+ * Create report routes
+ * Endpoints:
+ * - GET/POST /api/reports, GET/PUT/DELETE /api/reports/:id - Report definitions
+ * - POST /api/reports/:id/runs - Build a report now
+ * - GET /api/reports/:id/runs, GET /api/reports/:id/runs/:runId - Archived runs
+ * - GET /api/reports/:id/runs/:runId/html, GET /api/reports/:id/runs/:runId/pdf - Download a run
+ *
+ * A report combines devices, telemetry keys with an aggregation, a weekly or
+ * monthly period and a layout. Scheduled reports are built by the backend
+ * after each period and emailed to their recipients. Users manage their own
+ * reports; admins see all of them.
+ */
+export function createReportRoutes(reportService: ReportService, deviceService: DeviceService): Router {
+  const router = Router()
+  router.param('id', uuidParam)
+  router.param('runId', uuidParam)
+
+  /**
+   * Every device of a report must be visible to whoever saves it
+   */
+  const assertDevices = async (auth: AuthPayload, definition: ReportDefinition) => {
+    for (const deviceUUID of new Set(definition.deviceUUIDs)) {
+      await deviceService.validateDevice(deviceUUID, auth)
+    }
+  }
+
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const reports = await listReports(req.auth!)
+      return res.json({
+        success: true,
+        data: reports,
+        count: reports.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/reports
+   *
+   * Body:
+   * {
+   *   "name": "Plant A weekly energy",
+   *   "deviceUUIDs": ["...", "..."],
+   *   "metrics": [
+   *     { "key": "AccumulatedActiveEnergyDelivered", "label": "Energy", "unit": "kWh", "aggregation": "DELTA" },
+   *     { "key": "ActivePowerTotal", "label": "Power", "unit": "kW", "aggregation": "MAX" }
+   *   ],
+   *   "frequency": "weekly",
+   *   "granularity": "day",
+   *   "layout": { "title": "Plant A - weekly energy", "sections": ["summary", "chart", "table"] },
+   *   "schedule": { "enabled": true, "hour": 6 },
+   *   "recipients": ["plant.manager@example.com"]
+   * }
+   *
+   * aggregation: DELTA (consumption of a cumulative counter), SUM, AVG, MIN or MAX.
+   * Weekly reports run on Mondays, monthly ones on the 1st, at `schedule.hour` UTC,
+   * over the period that just ended.
+   */
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(reportValidation.definition, req.body)
+
+      await assertDevices(req.auth!, input)
+      return res.status(201).json({
+        success: true,
+        data: await createReport(input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getReport(req.params.id, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * PUT /api/reports/:id - Replace a report definition; its archived runs are kept
+   */
+  router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(reportValidation.definition, req.body)
+
+      await getReport(req.params.id, req.auth!)
+      await assertDevices(req.auth!, input)
+      return res.json({
+        success: true,
+        data: await replaceReport(req.params.id, input, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * DELETE /api/reports/:id - Also deletes the archived runs
+   */
+  router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await deleteReport(req.params.id, req.auth!)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/reports/:id/runs
+   *
+   * Builds the report right away and archives the run. Without a range it covers
+   * the last complete week or month.
+   *
+   * Body (all optional): { "startTs": 1767225600000, "endTs": 1769904000000, "sendEmail": false }
+   *
+   * Returns 201 with the run; a run that failed is still archived and returned with a 502.
+   */
+  router.post('/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(reportValidation.runRequest, req.body)
+
+      const report = await getReport(req.params.id, req.auth!)
+      const period =
+        input.startTs !== undefined && input.endTs !== undefined ? { start: input.startTs, end: input.endTs } : undefined
+      const run = await reportService.run(report, {
+        period,
+        trigger: 'manual',
+        sendEmail: input.sendEmail,
+      })
+      return res.status(run.status === 'succeeded' ? 201 : 502).json({
+        success: run.status === 'succeeded',
+        data: run,
+        ...(run.error ? { error: run.error } : {}),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/reports/:id/runs - Newest first
+   *
+   * Query Parameters:
+   * - limit (optional): number (default 50, max 500)
+   */
+  router.get('/:id/runs', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { limit } = parseOrThrow(reportValidation.runsQuery, req.query)
+
+      const runs = await listRuns(req.params.id, req.auth!, limit)
+      return res.json({
+        success: true,
+        data: runs,
+        count: runs.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.get('/:id/runs/:runId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getRun(req.params.id, req.params.runId, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/reports/:id/runs/:runId/html - The run as a standalone HTML page
+   */
+  router.get('/:id/runs/:runId/html', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const html = await getRunDocument(req.params.id, req.params.runId, 'html', req.auth!)
+      res.setHeader('Content-Type', 'text/html; charset=utf-8')
+      return res.send(html)
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/reports/:id/runs/:runId/pdf - The run as a PDF download
+   */
+  router.get('/:id/runs/:runId/pdf', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const run = await getRun(req.params.id, req.params.runId, req.auth!)
+      const pdf = await getRunDocument(req.params.id, run.id, 'pdf', req.auth!)
+      const date = new Date(run.periodStart).toISOString().slice(0, 10)
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader('Content-Disposition', `attachment; filename="report-${date}-${run.id.slice(0, 8)}.pdf"`)
+      return res.send(pdf)
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
@@ -1,8 +1,46 @@
-import { Router, Request, Response } from 'express'
+import { NextFunction, Router, Request, Response } from 'express'
 import { logger } from '../utils/logger.js'
-import { ThingsboardTelemetryService } from '../services/thingsboard/thingsboard-telemetry.service.js'
-import { ThingsboardAuthService } from '../services/thingsboard/thingsboard-auth.service.js'
-import { DeviceService } from '../services/device.service.js'
+import { ForbiddenError, toApiError, ValidationError } from '../utils/apiError.js'
+import {
+  ATTRIBUTE_SCOPES,
+  AttributeScope,
+  TelemetryProvider,
+  TelemetryStream,
+} from '../services/telemetry-provider.js'
+import { Device, DeviceService } from '../services/device.service.js'
+import { VirtualMeterService } from '../services/virtual-meter/virtual-meter.service.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import { canQueryEntity, isAdmin, requireRole } from '../modules/auth/auth.policy.js'
+import { SseStream } from '../utils/sse.js'
+import { mapWithConcurrency } from '../utils/concurrency.js'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { config } from '../config/index.js'
+import {
+  attributesQuerySchema,
+  attributesWriteSchema,
+  batchTimeseriesSchema,
+  devicesQuerySchema,
+  exportQuerySchema,
+  latestQuerySchema,
+  legacyTimeseriesQuerySchema,
+  qualityOptionsSchema,
+  qualityQuerySchema,
+  streamQuerySchema,
+  timeseriesQuerySchema,
+  writableScopeSchema,
+} from './telemetry.validation.js'
+import { TelemetryExportService } from '../services/telemetry-export.service.js'
+import {
+  describeKeys,
+  NormalizedKeyInfo,
+  normalizeTimeseries,
+  resolveKeys,
+} from '../services/key-normalization.js'
+import { listTelemetryKeys } from '../modules/telemetry-key/telemetry-key.service.js'
+import { applyDownsampling, DownsampleMethod, DownsamplingPlan, planDownsampling } from '../services/downsampling.js'
+import { analyzeTimeseries, QualityOptions } from '../services/data-quality.js'
+import { CalendarInterval, exceedsCalendarBuckets, getCalendarTimeseries } from '../services/calendar-aggregation.js'
+import { CalendarUnit } from '../utils/calendar.js'
 
 const routerLogger = logger.child({ module: 'TelemetryRouter' })
 
@@ -11,25 +49,158 @@ const routerLogger = logger.child({ module: 'TelemetryRouter' })
  * Endpoints:
  * - GET /api/telemetry/devices - List available devices
  * - GET /api/telemetry/:deviceUUID/timeseries - Get device timeseries data
+ * - GET /api/telemetry/:deviceUUID/keys - Timeseries keys of a device
+ * - GET /api/telemetry/:deviceUUID/latest - Last value of each key
+ * - GET /api/telemetry/:deviceUUID/quality - Gaps, flatlines, spikes and out-of-range values
+ * - GET /api/telemetry/:deviceUUID/attributes - Device attributes by scope
+ * - POST /api/telemetry/:deviceUUID/attributes/:scope - Set shared or server attributes
  * - GET /api/telemetry/timeseries - Legacy endpoint with explicit entity type and ID
+ * - GET /api/telemetry/stream - Server-Sent Events stream of live values
+ * - POST /api/telemetry/batch - Same time range for many devices at once
+ * - GET /api/telemetry/:deviceUUID/export - Download one device's telemetry
+ * - GET /api/telemetry/export - Download telemetry for several devices
+ *
+ * Virtual meters (see /api/virtual-meters) are accepted wherever a deviceUUID is,
+ * except for attributes and live streams.
  */
 export function createTelemetryRoutes(
-  telemetryService: ThingsboardTelemetryService,
-  authService: ThingsboardAuthService,
-  deviceService: DeviceService
+  telemetryService: TelemetryProvider,
+  deviceService: DeviceService,
+  streamService: TelemetryStream,
+  virtualMeters: VirtualMeterService
 ): Router {
   const router = Router()
+  router.param('deviceUUID', uuidParam)
+  const canManage = requireRole('admin', 'site_manager')
+  // Raw points fetched per key when maxPoints is set without a limit, and for quality analysis
+  const downsampleRawLimit = 50000
+  const qualityRawLimit = 50000
+  const maxCalendarBuckets = 10000
+  const maxExportDevices = 50
+  // Telemetry reads go through the virtual meter service, which passes real devices on to ThingsBoard
+  const telemetry = virtualMeters
+  const exportService = new TelemetryExportService(
+    telemetry,
+    config.telemetryBatchConcurrency
+  )
+
+  /**
+   * A virtual meter or a device from the customer API, visible to `auth`
+   */
+  const validateDevice = async (deviceUUID: string, auth?: AuthPayload): Promise<Device> =>
+    (await virtualMeters.findDevice(deviceUUID, auth)) ?? deviceService.validateDevice(deviceUUID, auth)
+
+  /**
+   * Calendar interval when interval is hour, day, week or month, null for a number of milliseconds
+   */
+  const calendarInterval = (query: {
+    startTs: number
+    endTs: number
+    interval?: number | CalendarUnit
+    tz: string
+  }): CalendarInterval | null => {
+    if (typeof query.interval !== 'string') return null
+    const calendar = { unit: query.interval, timeZone: query.tz }
+    if (exceedsCalendarBuckets(query.startTs, query.endTs, calendar, maxCalendarBuckets)) {
+      throw new ValidationError(
+        `Too many ${calendar.unit} buckets (max ${maxCalendarBuckets}): use a larger interval or a shorter range`
+      )
+    }
+    return calendar
+  }
+
+  /**
+   * Downsampling plan for maxPoints, null without it
+   */
+  const downsamplingPlan = (
+    query: {
+      startTs: number
+      endTs: number
+      agg?: string
+      limit?: number
+      maxPoints?: number
+      downsample: DownsampleMethod
+    },
+    interval: number | undefined
+  ): DownsamplingPlan | null =>
+    query.maxPoints
+      ? planDownsampling({ ...query, interval }, query.maxPoints, query.downsample, downsampleRawLimit)
+      : null
+
+  /**
+   * Quality options per key from the query (see qualityOptionsSchema)
+   */
+  const qualityOptions = (req: Request): ((key: string) => QualityOptions) => {
+    const { counters, ...options } = parseOrThrow(qualityOptionsSchema, req.query)
+    return (key) => ({ ...options, cumulative: counters?.includes(key) ?? false })
+  }
+
+  const assertNotVirtual = (device: Device, what: string) => {
+    if (device.virtual) {
+      throw new ValidationError(`Virtual meters have no ${what}`)
+    }
+  }
+
+  /**
+   * Shared handler for both export routes
+   */
+  const handleExport = async (req: Request, res: Response, next: NextFunction, deviceUUID?: string) => {
+    try {
+      const query = parseOrThrow(exportQuerySchema, req.query)
+
+      const deviceUUIDs = deviceUUID ? [deviceUUID] : [...new Set(query.devices ?? [])]
+      if (deviceUUIDs.length === 0) {
+        throw new ValidationError('Missing required parameter: devices')
+      }
+      if (deviceUUIDs.length > maxExportDevices) {
+        throw new ValidationError(`At most ${maxExportDevices} devices can be exported at once`)
+      }
+
+      const devices = []
+      for (const uuid of deviceUUIDs) {
+        const device = await validateDevice(uuid, req.auth)
+        devices.push({ deviceUUID: uuid, label: device.name || uuid, keys: query.keys })
+      }
+
+      routerLogger.info(
+        `Export request: format=${query.format} devices=${devices.length} keys=${query.keys.length} range=${query.endTs - query.startTs}ms`
+      )
+
+      await exportService.export(
+        {
+          format: query.format,
+          devices,
+          startTs: query.startTs,
+          endTs: query.endTs,
+          interval: query.interval,
+          agg: query.agg,
+          timeZone: query.tz,
+          useStrictDataTypes: query.useStrictDataTypes,
+        },
+        res
+      )
+    } catch (error) {
+      // Part of the file is already on its way; cut it so the client sees a failed download
+      if (res.headersSent) {
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        routerLogger.error(`Export failed while streaming: ${errorMsg}`)
+        res.destroy()
+        return
+      }
+
+      return next(error)
+    }
+  }
 
   /**
    * GET /api/telemetry/devices
    *
-   * List all available devices from the customer API
-   * GET http://localhost:4000/customer/devices
+   * List the devices from the customer API that the caller may see
    */
-  router.get('/devices', async (req: Request, res: Response) => {
+  router.get('/devices', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const forceRefresh = req.query.refresh === 'true'
-      const devices = await deviceService.getDevices(forceRefresh)
+      const { refresh } = parseOrThrow(devicesQuerySchema, req.query)
+      const devices = await deviceService.getDevices(refresh ?? false, req.auth)
 
       return res.json({
         success: true,
@@ -37,13 +208,7 @@ export function createTelemetryRoutes(
         count: devices.length,
       })
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      routerLogger.error(`Failed to fetch devices: ${errorMsg}`)
-
-      return res.status(502).json({
-        success: false,
-        error: errorMsg,
-      })
+      return next(error)
     }
   })
 
@@ -52,6 +217,7 @@ export function createTelemetryRoutes(
    *
    * Retrieve telemetry timeseries data for a specific device
    * Uses deviceUUID to lookup the device and its access token
+   * Devices outside the caller's customers are reported as not found
    *
    * Path Parameters:
    * - deviceUUID: string - UUID of the device (e.g., 545ffcb0-ab9c-11f0-a05e-97f672464deb)
@@ -60,164 +226,362 @@ export function createTelemetryRoutes(
    * - keys (required): string - comma-separated telemetry keys
    * - startTs (required): number - start timestamp in milliseconds (UTC)
    * - endTs (required): number - end timestamp in milliseconds (UTC)
-   * - interval (optional): number - aggregation interval in milliseconds
+   * - interval (optional): number - aggregation interval in milliseconds, or a calendar unit
+   *   (hour, day, week for ISO weeks starting Monday, month): the range is split at local
+   *   calendar boundaries in `tz` and aggregated per bucket, so days last 23 or 25 hours across
+   *   DST changes and months have their real length. Requires agg; each point is stamped with its
+   *   bucket start and carries `end` and the local `label` (e.g. 2026-03-29, 2026-W13, 2026-03).
+   *   The first and last buckets are clipped to the range. Cannot be combined with maxPoints
+   * - tz (optional): string - IANA time zone of calendar intervals (default UTC)
    * - agg (optional): string - aggregation function (NONE, AVG, MIN, MAX, SUM)
    * - orderBy (optional): string - ASC or DESC
    * - limit (optional): number - max number of data points when agg=NONE
    * - useStrictDataTypes (optional): boolean - use strict data types
+   * - normalize (optional): boolean - apply the key catalogue (see /api/telemetry-keys): keys may be
+   *   canonical names, data comes back under canonical names with scaled values, and meta.normalized
+   *   gives the raw key, label and unit behind each returned key
+   * - maxPoints (optional): number - at most this many points per key (10 to 20000), for charts.
+   *   With agg, the interval is widened to a multiple of the requested one; raw data is fetched
+   *   (up to 50000 points per key unless limit is given) and thinned with the downsample method.
+   *   meta.downsampling reports the method, the interval used and original/returned point counts
+   * - downsample (optional): lttb (default, keeps the visual shape) or minmax (keeps every extreme)
+   * - quality (optional): boolean - add meta.quality, the analysis of /:deviceUUID/quality on the
+   *   fetched data (before downsampling, under raw key names); its threshold parameters apply too
+   *
+   * Aggregated queries are served through the range cache; meta.cache reports
+   * hits and misses in buckets and the number of upstream requests made.
    *
    * Example:
    * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/timeseries?keys=temperature,humidity&startTs=1705689600000&endTs=1705776000000
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/timeseries?keys=ActivePowerTotal&startTs=1704063600000&endTs=1735686000000&interval=month&agg=MAX&tz=Europe/Paris
    */
-  router.get('/:deviceUUID/timeseries', async (req: Request, res: Response) => {
+  router.get('/:deviceUUID/timeseries', async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const query = parseOrThrow(timeseriesQuerySchema, req.query)
       const { deviceUUID } = req.params
-      const { keys, startTs, endTs, interval, agg, orderBy, limit, useStrictDataTypes } = req.query
-
-      // Validate required parameters
-      if (!keys || !startTs || !endTs) {
-        return res.status(400).json({
-          success: false,
-          error: 'Missing required parameters: keys, startTs, endTs',
-        })
-      }
+      const calendar = calendarInterval(query)
+      const interval = typeof query.interval === 'number' ? query.interval : undefined
+      const plan = downsamplingPlan(query, interval)
+      const quality = query.quality ? qualityOptions(req) : undefined
 
       // Fetch device and validate it exists
-      const device = await deviceService.validateDevice(deviceUUID)
-      routerLogger.info(`Device found: ${device.name || deviceUUID}`)
-
-      // Parse and validate timestamps
-      const startTimestamp = parseInt(String(startTs), 10)
-      const endTimestamp = parseInt(String(endTs), 10)
-
-      if (isNaN(startTimestamp) || isNaN(endTimestamp)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid timestamp format. Expected milliseconds.',
-        })
-      }
+      const device = await validateDevice(deviceUUID, req.auth)
+      routerLogger.info(
+        `Timeseries request: device=${device.name || deviceUUID} keys=${query.keys.length} range=${query.endTs - query.startTs}ms agg=${query.agg || 'NONE'}`
+      )
 
-      if (startTimestamp >= endTimestamp) {
-        return res.status(400).json({
-          success: false,
-          error: 'startTs must be less than endTs',
-        })
-      }
+      // With normalize=true, canonical names are expanded to the device's raw keys
+      const resolution = query.normalize
+        ? resolveKeys(query.keys, await listTelemetryKeys({ deviceUUID }), deviceUUID)
+        : null
+      const keys = resolution ? resolution.rawKeys : query.keys
 
-      // Parse keys
-      const keyArray = String(keys)
-        .split(',')
-        .map((k) => k.trim())
-        .filter((k) => k.length > 0)
-
-      if (keyArray.length === 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'At least one key must be provided',
-        })
-      }
+      // Call service with ThingsBoard entity (DEVICE and the device UUID)
+      const { data, cache } = calendar
+        ? await getCalendarTimeseries(
+            telemetry,
+            {
+              entityType: 'DEVICE',
+              entityId: deviceUUID,
+              keys,
+              startTs: query.startTs,
+              endTs: query.endTs,
+              calendar,
+              agg: query.agg!,
+              orderBy: query.orderBy,
+              useStrictDataTypes: query.useStrictDataTypes,
+            },
+            config.telemetryBatchConcurrency
+          )
+        : await telemetry.getTimeseriesWithCacheStats(
+            'DEVICE',
+            deviceUUID,
+            keys,
+            query.startTs,
+            query.endTs,
+            plan ? plan.interval : interval,
+            query.agg,
+            query.orderBy,
+            plan ? plan.limit : query.limit,
+            query.useStrictDataTypes
+          )
+      const qualityReport = quality ? analyzeTimeseries(data, query.startTs, query.endTs, quality).quality : null
+      const sampled = plan ? applyDownsampling(plan, data) : null
+      const normalized = resolution ? normalizeTimeseries(sampled ? sampled.data : data, resolution) : null
 
-      // Parse optional parameters
-      const intervalValue = interval ? parseInt(String(interval), 10) : undefined
-      if (intervalValue && (isNaN(intervalValue) || intervalValue < 1)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Interval must be a positive number',
-        })
-      }
+      return res.json({
+        success: true,
+        data: normalized ? normalized.data : sampled ? sampled.data : data,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+          accessToken: device.accessToken,
+        },
+        meta: {
+          entityType: 'DEVICE',
+          entityId: deviceUUID,
+          keys: query.keys,
+          startTs: query.startTs,
+          endTs: query.endTs,
+          interval: calendar ? calendar.unit : interval,
+          ...(calendar ? { tz: calendar.timeZone } : {}),
+          agg: query.agg || 'NONE',
+          orderBy: query.orderBy || 'default',
+          limit: query.limit,
+          useStrictDataTypes: query.useStrictDataTypes,
+          cache,
+          ...(normalized ? { normalized: normalized.keys } : {}),
+          ...(sampled ? { downsampling: sampled.meta } : {}),
+          ...(qualityReport ? { quality: qualityReport } : {}),
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
 
-      // Validate aggregation function
-      if (agg) {
-        const validAgg = ['NONE', 'AVG', 'MIN', 'MAX', 'SUM']
-        if (!validAgg.includes(String(agg).toUpperCase())) {
-          return res.status(400).json({
-            success: false,
-            error: `Invalid aggregation function. Must be one of: ${validAgg.join(', ')}`,
-          })
-        }
-      }
+  /**
+   * GET /api/telemetry/:deviceUUID/keys
+   *
+   * Timeseries keys the device has reported, with their catalogue mapping
+   * (canonicalKey, label and unit are null for keys the catalogue does not know)
+   *
+   * Example:
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/keys
+   * -> { "data": [{ "key": "P_tot", "canonicalKey": "active_power", "label": "Active power", "unit": "kW" }, ...] }
+   */
+  router.get('/:deviceUUID/keys', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { deviceUUID } = req.params
+      const device = await validateDevice(deviceUUID, req.auth)
+      const keys = await telemetry.getTimeseriesKeys('DEVICE', deviceUUID)
+      const data = describeKeys(keys, await listTelemetryKeys({ deviceUUID }), deviceUUID)
 
-      // Validate order
-      if (orderBy) {
-        const validOrder = ['ASC', 'DESC']
-        if (!validOrder.includes(String(orderBy).toUpperCase())) {
-          return res.status(400).json({
-            success: false,
-            error: 'Invalid orderBy. Must be ASC or DESC',
-          })
-        }
-      }
+      return res.json({
+        success: true,
+        data,
+        count: data.length,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/telemetry/:deviceUUID/latest
+   *
+   * Last value of every key (or of the given keys) for a device, for overview tiles
+   *
+   * Query Parameters:
+   * - keys (optional): string - comma-separated telemetry keys; all keys when omitted
+   * - useStrictDataTypes (optional): boolean - use strict data types
+   * - normalize (optional): boolean - apply the key catalogue, as for /:deviceUUID/timeseries
+   *
+   * Keys without any value are left out of data.
+   *
+   * Example:
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/latest?keys=ActivePowerTotal,Voltage
+   * -> { "data": { "ActivePowerTotal": { "ts": 1705689600000, "value": "42.1" }, ... } }
+   */
+  router.get('/:deviceUUID/latest', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { keys, useStrictDataTypes, normalize } = parseOrThrow(latestQuerySchema, req.query)
+      const { deviceUUID } = req.params
+      const device = await validateDevice(deviceUUID, req.auth)
+      const catalogue = normalize ? await listTelemetryKeys({ deviceUUID }) : []
+      const requested = normalize && keys ? resolveKeys(keys, catalogue, deviceUUID) : null
 
-      // Parse limit
-      const limitValue = limit ? parseInt(String(limit), 10) : undefined
-      if (limitValue && (isNaN(limitValue) || limitValue < 1)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Limit must be a positive number',
-        })
+      const latest = await telemetry.getLatestTimeseries(
+        'DEVICE',
+        deviceUUID,
+        requested ? requested.rawKeys : keys,
+        useStrictDataTypes
+      )
+
+      let data = latest
+      let normalized: Record<string, NormalizedKeyInfo> | undefined
+      if (normalize) {
+        // Without keys every raw key the device has is normalized
+        const resolution = requested ?? resolveKeys(Object.keys(latest), catalogue, deviceUUID)
+        const points = Object.fromEntries(Object.entries(latest).map(([key, point]) => [key, [point]]))
+        const result = normalizeTimeseries(points, resolution)
+        data = Object.fromEntries(Object.entries(result.data).map(([key, [point]]) => [key, point]))
+        normalized = result.keys
       }
 
-      // Parse useStrictDataTypes
-      const useStrictDataTypesValue =
-        useStrictDataTypes && String(useStrictDataTypes).toLowerCase() === 'true'
-          ? true
-          : undefined
+      return res.json({
+        success: true,
+        data,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          keys: keys ?? 'all',
+          count: Object.keys(data).length,
+          ...(normalized ? { normalized } : {}),
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
 
-      routerLogger.info(
-        `Timeseries request: device=${device.name || deviceUUID} keys=${keyArray.length} range=${endTimestamp - startTimestamp}ms agg=${agg || 'NONE'}`
-      )
+  /**
+   * GET /api/telemetry/:deviceUUID/quality
+   *
+   * Data quality of the raw readings of each key: a 0-100 score, coverage, and
+   * flagged intervals for gaps, flatlines, spikes, out-of-range values and
+   * cumulative counters going backwards.
+   *
+   * Query Parameters:
+   * - keys (required): string - comma-separated telemetry keys (max 20)
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - expectedIntervalMs (optional): number - reporting interval; the median interval when omitted
+   * - gapFactor (optional): number - pauses longer than expectedIntervalMs x gapFactor are gaps (default 2)
+   * - flatlineMinDurationMs (optional): number - identical values for this long are a flatline (default 4 h)
+   * - spikeFactor (optional): number - robust z-score of a step that makes a spike (default 8)
+   * - maxStep (optional): number - any step larger than this is a spike
+   * - min, max (optional): number - physical range of the values
+   * - counters (optional): string - comma-separated keys holding cumulative counters
+   * - clean (optional): boolean - also return each series without non-numeric, spike,
+   *   out-of-range and counter-decrease readings
+   *
+   * Example:
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/quality?keys=ActivePowerTotal,AccumulatedActiveEnergyDelivered&counters=AccumulatedActiveEnergyDelivered&startTs=1704067200000&endTs=1706745600000&min=0&max=500
+   */
+  router.get('/:deviceUUID/quality', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { keys, startTs, endTs, clean } = parseOrThrow(qualityQuerySchema, req.query)
+      const optionsFor = qualityOptions(req)
 
-      // Call service with ThingsBoard entity (DEVICE and the device UUID)
-      const data = await telemetryService.getTimeseries(
+      const { deviceUUID } = req.params
+      const device = await validateDevice(deviceUUID, req.auth)
+      const { data } = await telemetry.getTimeseriesWithCacheStats(
         'DEVICE',
         deviceUUID,
-        keyArray,
-        startTimestamp,
-        endTimestamp,
-        intervalValue,
-        agg ? String(agg) : undefined,
-        orderBy ? String(orderBy) : undefined,
-        limitValue,
-        useStrictDataTypesValue
+        keys,
+        startTs,
+        endTs,
+        undefined,
+        'NONE',
+        'ASC',
+        qualityRawLimit
       )
 
+      // Keys without any reading are reported too, as one gap over the whole range
+      const series = Object.fromEntries(keys.map((key) => [key, data[key] ?? []]))
+      const { quality, cleaned } = analyzeTimeseries(series, startTs, endTs, optionsFor, clean)
+      const truncated = keys.filter((key) => series[key].length >= qualityRawLimit)
+
       return res.json({
         success: true,
-        data,
+        data: quality,
+        ...(cleaned ? { cleaned } : {}),
         device: {
           uuid: device.deviceUUID,
           name: device.name,
-          accessToken: device.accessToken,
         },
         meta: {
-          entityType: 'DEVICE',
-          entityId: deviceUUID,
-          keys: keyArray,
-          startTs: startTimestamp,
-          endTs: endTimestamp,
-          interval: intervalValue,
-          agg: agg || 'NONE',
-          orderBy: orderBy || 'default',
-          limit: limitValue,
-          useStrictDataTypes: useStrictDataTypesValue,
+          keys,
+          startTs,
+          endTs,
+          ...(truncated.length > 0 ? { truncated } : {}),
         },
       })
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      routerLogger.error(`Timeseries request failed: ${errorMsg}`)
-
-      // Check if it's a device not found error (404)
-      if (errorMsg.includes('not found')) {
-        return res.status(404).json({
-          success: false,
-          error: errorMsg,
-        })
+      return next(error)
+    }
+  })
+
+  /**
+   * GET /api/telemetry/:deviceUUID/attributes
+   *
+   * Device attributes (rated power, CT ratio, location, ...) grouped by scope
+   *
+   * Query Parameters:
+   * - scope (optional): string - comma-separated scopes among client, shared, server (default: all three)
+   * - keys (optional): string - comma-separated attribute keys; all when omitted
+   *
+   * Example:
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/attributes?scope=server&keys=ratedPower,ctRatio
+   * -> { "data": { "server": { "ratedPower": { "value": 250, "lastUpdateTs": 1705689600000 } } } }
+   */
+  router.get('/:deviceUUID/attributes', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = parseOrThrow(attributesQuerySchema, req.query)
+      const { deviceUUID } = req.params
+      const scopes = query.scope ? [...new Set(query.scope)] : [...ATTRIBUTE_SCOPES]
+      const device = await validateDevice(deviceUUID, req.auth)
+      assertNotVirtual(device, 'attributes')
+      const attributes = await telemetryService.getAttributes('DEVICE', deviceUUID, scopes, query.keys)
+
+      const data: Partial<Record<AttributeScope, Record<string, { value: unknown; lastUpdateTs: number }>>> =
+        Object.fromEntries(scopes.map((scope) => [scope, {}]))
+      for (const { scope, key, value, lastUpdateTs } of attributes) {
+        data[scope]![key] = { value, lastUpdateTs }
       }
 
-      return res.status(502).json({
-        success: false,
-        error: errorMsg,
+      return res.json({
+        success: true,
+        data,
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
+        meta: {
+          scopes,
+          keys: query.keys ?? 'all',
+          count: attributes.length,
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/telemetry/:deviceUUID/attributes/:scope
+   *
+   * Create or update shared or server attributes of a device. Client attributes
+   * are reported by the device itself and cannot be written here.
+   * Requires a role that may manage devices.
+   *
+   * Path Parameters:
+   * - scope: shared or server
+   *
+   * Body: the attributes to set, e.g. { "ratedPower": 250, "ctRatio": "200/5", "location": { "site": "Plant A" } }
+   */
+  router.post('/:deviceUUID/attributes/:scope', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const scope = parseOrThrow(writableScopeSchema, req.params.scope)
+      const attributes = parseOrThrow(attributesWriteSchema, req.body)
+
+      const { deviceUUID } = req.params
+      const device = await validateDevice(deviceUUID, req.auth)
+      assertNotVirtual(device, 'attributes')
+      await telemetryService.saveAttributes('DEVICE', deviceUUID, scope, attributes)
+      routerLogger.info(
+        `Attributes saved by ${req.auth!.email}: device=${device.name || deviceUUID} scope=${scope} keys=${Object.keys(attributes).join(',')}`
+      )
+
+      return res.json({
+        success: true,
+        data: {
+          scope,
+          attributes,
+        },
+        device: {
+          uuid: device.deviceUUID,
+          name: device.name,
+        },
       })
+    } catch (error) {
+      return next(error)
     }
   })
 
@@ -226,6 +590,7 @@ export function createTelemetryRoutes(
    *
    * Retrieve telemetry timeseries data from ThingsBoard endpoint
    * This endpoint requires explicit entityType and entityId
+   * Admins may query any entity; other roles only DEVICE entities they can see
    *
    * Query Parameters:
    * - entityType (required): string - e.g., DEVICE
@@ -233,155 +598,316 @@ export function createTelemetryRoutes(
    * - keys (required): string - comma-separated telemetry keys
    * - startTs (required): number - start timestamp in milliseconds (UTC)
    * - endTs (required): number - end timestamp in milliseconds (UTC)
-   * - interval (optional): number - aggregation interval in milliseconds
+   * - interval (optional): number - aggregation interval in milliseconds, or hour, day, week or
+   *   month with `tz`, as for /:deviceUUID/timeseries
    * - agg (optional): string - aggregation function (NONE, AVG, MIN, MAX, SUM)
    * - orderBy (optional): string - ASC or DESC
    * - limit (optional): number - max number of data points when agg=NONE
    * - useStrictDataTypes (optional): boolean - use strict data types
+   * - maxPoints, downsample (optional): as for /:deviceUUID/timeseries
    */
-  router.get('/timeseries', async (req: Request, res: Response) => {
+  router.get('/timeseries', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const {
-        entityType,
-        entityId,
-        keys,
-        startTs,
-        endTs,
-        interval,
-        agg,
-        orderBy,
-        limit,
-        useStrictDataTypes,
-      } = req.query
-
-      // Validate required parameters
-      if (!entityType || !entityId || !keys || !startTs || !endTs) {
-        return res.status(400).json({
-          success: false,
-          error:
-            'Missing required parameters: entityType, entityId, keys, startTs, endTs',
-        })
-      }
-
-      // Parse and validate timestamps
-      const startTimestamp = parseInt(String(startTs), 10)
-      const endTimestamp = parseInt(String(endTs), 10)
-
-      if (isNaN(startTimestamp) || isNaN(endTimestamp)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid timestamp format. Expected milliseconds.',
-        })
+      const query = parseOrThrow(legacyTimeseriesQuerySchema, req.query)
+      const { entityType, entityId } = query
+
+      // Only load the device list when the caller is not an admin
+      const scopedDevices =
+        req.auth && !isAdmin(req.auth)
+          ? [...(await deviceService.getDevices()), ...(await virtualMeters.listDevices(req.auth))]
+          : []
+      if (!req.auth || !canQueryEntity(req.auth, entityType, entityId, scopedDevices)) {
+        throw new ForbiddenError(`Not allowed to query ${entityType}/${entityId}`)
       }
 
-      if (startTimestamp >= endTimestamp) {
-        return res.status(400).json({
-          success: false,
-          error: 'startTs must be less than endTs',
-        })
-      }
+      const calendar = calendarInterval(query)
+      const interval = typeof query.interval === 'number' ? query.interval : undefined
+      const plan = downsamplingPlan(query, interval)
 
-      // Parse keys
-      const keyArray = String(keys)
-        .split(',')
-        .map((k) => k.trim())
-        .filter((k) => k.length > 0)
-
-      if (keyArray.length === 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'At least one key must be provided',
-        })
-      }
+      routerLogger.info(
+        `Timeseries request: ${entityType}/${entityId} keys=${query.keys.length} range=${query.endTs - query.startTs}ms agg=${query.agg || 'NONE'}`
+      )
 
-      // Parse optional parameters
-      const intervalValue = interval ? parseInt(String(interval), 10) : undefined
-      if (intervalValue && (isNaN(intervalValue) || intervalValue < 1)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Interval must be a positive number',
-        })
-      }
+      // Call service
+      const { data, cache } = calendar
+        ? await getCalendarTimeseries(
+            telemetry,
+            {
+              entityType,
+              entityId,
+              keys: query.keys,
+              startTs: query.startTs,
+              endTs: query.endTs,
+              calendar,
+              agg: query.agg!,
+              orderBy: query.orderBy,
+              useStrictDataTypes: query.useStrictDataTypes,
+            },
+            config.telemetryBatchConcurrency
+          )
+        : await telemetry.getTimeseriesWithCacheStats(
+            entityType,
+            entityId,
+            query.keys,
+            query.startTs,
+            query.endTs,
+            plan ? plan.interval : interval,
+            query.agg,
+            query.orderBy,
+            plan ? plan.limit : query.limit,
+            query.useStrictDataTypes
+          )
+      const sampled = plan ? applyDownsampling(plan, data) : null
 
-      // Validate aggregation function
-      if (agg) {
-        const validAgg = ['NONE', 'AVG', 'MIN', 'MAX', 'SUM']
-        if (!validAgg.includes(String(agg).toUpperCase())) {
-          return res.status(400).json({
-            success: false,
-            error: `Invalid aggregation function. Must be one of: ${validAgg.join(', ')}`,
-          })
-        }
-      }
+      return res.json({
+        success: true,
+        data: sampled ? sampled.data : data,
+        meta: {
+          entityType,
+          entityId,
+          keys: query.keys,
+          startTs: query.startTs,
+          endTs: query.endTs,
+          interval: calendar ? calendar.unit : interval,
+          ...(calendar ? { tz: calendar.timeZone } : {}),
+          agg: query.agg || 'NONE',
+          orderBy: query.orderBy || 'default',
+          limit: query.limit,
+          useStrictDataTypes: query.useStrictDataTypes,
+          cache,
+          ...(sampled ? { downsampling: sampled.meta } : {}),
+        },
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
 
-      // Validate order
-      if (orderBy) {
-        const validOrder = ['ASC', 'DESC']
-        if (!validOrder.includes(String(orderBy).toUpperCase())) {
-          return res.status(400).json({
-            success: false,
-            error: 'Invalid orderBy. Must be ASC or DESC',
-          })
-        }
-      }
+  /**
+   * POST /api/telemetry/batch
+   *
+   * Retrieve timeseries for several devices over one shared time range.
+   * Devices are resolved with a single device list lookup and upstream calls
+   * run with bounded concurrency. A failing device does not fail the request:
+   * its entry carries success=false and the error instead.
+   *
+   * Body:
+   * - devices (required): array of device UUIDs or { deviceUUID, keys } (max 100)
+   * - keys (optional): string[] - keys for devices that do not list their own
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - interval, tz, agg, orderBy, limit, useStrictDataTypes (optional): as for /:deviceUUID/timeseries;
+   *   interval is a number of milliseconds or "hour", "day", "week" or "month"
+   * - maxPoints, downsample (optional): as for /:deviceUUID/timeseries; each entry reports its own downsampling
+   *
+   * Example:
+   * POST /api/telemetry/batch
+   * { "devices": ["545ffcb0-...", { "deviceUUID": "7a1b...", "keys": ["AccumulatedActiveEnergyDelivered"] }],
+   *   "keys": ["ActivePowerTotal"], "startTs": 1705689600000, "endTs": 1705776000000, "interval": 3600000, "agg": "AVG" }
+   */
+  router.post('/batch', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = parseOrThrow(batchTimeseriesSchema, req.body)
 
-      // Parse limit
-      const limitValue = limit ? parseInt(String(limit), 10) : undefined
-      if (limitValue && (isNaN(limitValue) || limitValue < 1)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Limit must be a positive number',
-        })
+      // One lookup for all devices; refresh once if some are unknown
+      const virtual = await virtualMeters.listDevices(req.auth!)
+      let visible = [...(await deviceService.getDevices(false, req.auth)), ...virtual]
+      if (body.devices.some((d) => !visible.some((v) => v.deviceUUID === d.deviceUUID))) {
+        visible = [...(await deviceService.getDevices(true, req.auth)), ...virtual]
       }
-
-      // Parse useStrictDataTypes
-      const useStrictDataTypesValue =
-        useStrictDataTypes && String(useStrictDataTypes).toLowerCase() === 'true'
-          ? true
-          : undefined
+      const devicesByUUID = new Map(visible.map((d) => [d.deviceUUID, d]))
+      const calendar = calendarInterval(body)
+      const interval = typeof body.interval === 'number' ? body.interval : undefined
+      const plan = downsamplingPlan(body, interval)
 
       routerLogger.info(
-        `Timeseries request: ${entityType}/${entityId} keys=${keyArray.length} range=${endTimestamp - startTimestamp}ms agg=${agg || 'NONE'}`
+        `Batch timeseries request: devices=${body.devices.length} range=${body.endTs - body.startTs}ms agg=${body.agg || 'NONE'}`
       )
 
-      // Call service
-      const data = await telemetryService.getTimeseries(
-        String(entityType),
-        String(entityId),
-        keyArray,
-        startTimestamp,
-        endTimestamp,
-        intervalValue,
-        agg ? String(agg) : undefined,
-        orderBy ? String(orderBy) : undefined,
-        limitValue,
-        useStrictDataTypesValue
+      const results = await mapWithConcurrency(
+        body.devices,
+        config.telemetryBatchConcurrency,
+        async ({ deviceUUID, keys }) => {
+          const device = devicesByUUID.get(deviceUUID)
+          if (!device) {
+            return {
+              deviceUUID,
+              success: false as const,
+              status: 404,
+              code: 'NOT_FOUND',
+              error: `Device with UUID ${deviceUUID} not found`,
+            }
+          }
+
+          const deviceKeys = keys ?? body.keys ?? []
+          try {
+            // One run at a time per device: the devices already use up the batch concurrency
+            const { data, cache } = calendar
+              ? await getCalendarTimeseries(
+                  telemetry,
+                  {
+                    entityType: 'DEVICE',
+                    entityId: deviceUUID,
+                    keys: deviceKeys,
+                    startTs: body.startTs,
+                    endTs: body.endTs,
+                    calendar,
+                    agg: body.agg!,
+                    orderBy: body.orderBy,
+                    useStrictDataTypes: body.useStrictDataTypes,
+                  },
+                  1
+                )
+              : await telemetry.getTimeseriesWithCacheStats(
+                  'DEVICE',
+                  deviceUUID,
+                  deviceKeys,
+                  body.startTs,
+                  body.endTs,
+                  plan ? plan.interval : interval,
+                  body.agg,
+                  body.orderBy,
+                  plan ? plan.limit : body.limit,
+                  body.useStrictDataTypes
+                )
+            const sampled = plan ? applyDownsampling(plan, data) : null
+            return {
+              deviceUUID,
+              name: device.name,
+              success: true as const,
+              keys: deviceKeys,
+              data: sampled ? sampled.data : data,
+              cache,
+              ...(sampled ? { downsampling: sampled.meta } : {}),
+            }
+          } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error)
+            routerLogger.warn(`Batch entry failed for ${deviceUUID}: ${errorMsg}`)
+            const { status, code } = toApiError(error)
+            return {
+              deviceUUID,
+              name: device.name,
+              success: false as const,
+              status,
+              code,
+              error: errorMsg,
+            }
+          }
+        }
       )
 
+      const succeeded = results.filter((r) => r.success).length
       return res.json({
         success: true,
-        data,
+        data: results,
         meta: {
-          entityType,
-          entityId,
-          keys: keyArray,
-          startTs: startTimestamp,
-          endTs: endTimestamp,
-          interval: intervalValue,
-          agg: agg || 'NONE',
-          orderBy: orderBy || 'default',
-          limit: limitValue,
-          useStrictDataTypes: useStrictDataTypesValue,
+          startTs: body.startTs,
+          endTs: body.endTs,
+          interval: body.interval,
+          ...(calendar ? { tz: calendar.timeZone } : {}),
+          agg: body.agg || 'NONE',
+          orderBy: body.orderBy || 'default',
+          limit: body.limit,
+          maxPoints: body.maxPoints,
+          requested: results.length,
+          succeeded,
+          failed: results.length - succeeded,
         },
       })
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
-      routerLogger.error(`Timeseries request failed: ${errorMsg}`)
+      return next(error)
+    }
+  })
 
-      return res.status(502).json({
-        success: false,
-        error: errorMsg,
-      })
+  /**
+   * GET /api/telemetry/:deviceUUID/export
+   *
+   * Download a device's telemetry as a file
+   *
+   * Query Parameters:
+   * - format (optional): csv (default), xlsx or ndjson
+   * - keys (required): string - comma-separated telemetry keys
+   * - startTs, endTs (required): number - time range in milliseconds (UTC)
+   * - interval (optional): number - aggregation interval in milliseconds, required with agg
+   * - agg (optional): string - NONE, AVG, MIN, MAX, SUM
+   * - tz (optional): string - IANA time zone for the timestamp column (default UTC)
+   * - useStrictDataTypes (optional): boolean
+   *
+   * One row per timestamp, one column per key. The file is streamed while the
+   * range is fetched chunk by chunk.
+   *
+   * Example:
+   * GET /api/telemetry/545ffcb0-ab9c-11f0-a05e-97f672464deb/export?format=xlsx&keys=ActivePowerTotal&startTs=1705689600000&endTs=1708368000000&interval=3600000&agg=AVG&tz=Europe/Paris
+   */
+  router.get('/:deviceUUID/export', (req: Request, res: Response, next: NextFunction) =>
+    handleExport(req, res, next, req.params.deviceUUID)
+  )
+
+  /**
+   * GET /api/telemetry/export
+   *
+   * Same as /:deviceUUID/export for several devices, with one column per device and key
+   *
+   * Query Parameters:
+   * - devices (required): string - comma-separated device UUIDs (max 50)
+   * - all parameters of /:deviceUUID/export
+   */
+  router.get('/export', (req: Request, res: Response, next: NextFunction) => handleExport(req, res, next))
+
+  /**
+   * GET /api/telemetry/stream
+   *
+   * Server-Sent Events stream of live telemetry, fed by the ThingsBoard WebSocket of each device's tenant
+   *
+   * Query Parameters:
+   * - devices (required): string - comma-separated device UUIDs (max 100)
+   * - keys (optional): string - comma-separated telemetry keys; all keys when omitted
+   *
+   * Events:
+   * - ready: { devices, keys } once the subscription is registered
+   * - telemetry: { deviceUUID, key, values: [{ ts, value }] }
+   *
+   * Slow clients get the latest value per device and key; a client that keeps
+   * falling behind is disconnected.
+   *
+   * Example:
+   * GET /api/telemetry/stream?devices=545ffcb0-ab9c-11f0-a05e-97f672464deb&keys=ActivePowerTotal
+   */
+  router.get('/stream', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { devices: deviceUUIDs, keys } = parseOrThrow(streamQuerySchema, req.query)
+      const keyArray = keys ?? []
+
+      for (const deviceUUID of deviceUUIDs) {
+        assertNotVirtual(await validateDevice(deviceUUID, req.auth), 'live stream')
+      }
+
+      const stream = new SseStream(res)
+      const unsubscribe = streamService.subscribe(
+        deviceUUIDs.map((deviceUUID) => ({ deviceUUID, keys: keyArray })),
+        (update) => {
+          for (const [key, values] of Object.entries(update.data)) {
+            stream.send(
+              'telemetry',
+              { deviceUUID: update.deviceUUID, key, values },
+              `${update.deviceUUID}:${key}`
+            )
+          }
+        },
+        () => stream.end()
+      )
+      stream.onClose(unsubscribe)
+      stream.send('ready', { devices: deviceUUIDs, keys: keyArray })
+
+      routerLogger.info(`Stream opened: devices=${deviceUUIDs.length} keys=${keyArray.length || 'all'}`)
+    } catch (error) {
+      // Once the event stream is open, failures end it instead of answering an error
+      if (res.headersSent) {
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        routerLogger.error(`Stream failed: ${errorMsg}`)
+        return
+      }
+
+      return next(error)
     }
   })
 
@@ -0,0 +1,269 @@
+import { z } from 'zod'
+import { isValidTimeZone } from '../utils/time.js'
+import { CALENDAR_UNITS } from '../utils/calendar.js'
+import { ATTRIBUTE_SCOPES } from '../services/telemetry-provider.js'
+import { DOWNSAMPLE_METHODS } from '../services/downsampling.js'
+import { DEFAULT_QUALITY_OPTIONS } from '../services/data-quality.js'
+
+export const AGGREGATIONS = ['NONE', 'AVG', 'MIN', 'MAX', 'SUM'] as const
+
+const keyList = z.array(z.string().trim().min(1)).min(1)
+
+const maxPoints = z.number().int().min(10).max(20000)
+
+const timeZone = z
+  .string()
+  .default('UTC')
+  .refine((tz) => isValidTimeZone(tz), { message: 'Unknown time zone' })
+
+const aggregation = z
+  .string()
+  .transform((v) => v.toUpperCase())
+  .pipe(z.enum(AGGREGATIONS))
+
+const order = z
+  .string()
+  .transform((v) => v.toUpperCase())
+  .pipe(z.enum(['ASC', 'DESC']))
+
+const booleanFlag = z
+  .enum(['true', 'false'])
+  .transform((v) => v === 'true')
+  .optional()
+
+const commaList = z
+  .string()
+  .transform((value) =>
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+  )
+  .pipe(z.array(z.string()).min(1))
+
+const calendarAggMessage = 'agg (AVG, MIN, MAX or SUM) is required with a calendar interval'
+const calendarMaxPointsMessage = 'maxPoints cannot be combined with a calendar interval'
+
+/**
+ * POST /api/telemetry/batch body
+ */
+export const batchTimeseriesSchema = z
+  .object({
+    devices: z
+      .array(
+        z.union([
+          z.string().min(1).transform((deviceUUID) => ({ deviceUUID, keys: undefined })),
+          z.object({ deviceUUID: z.string().min(1), keys: keyList.optional() }),
+        ])
+      )
+      .min(1)
+      .max(100),
+    // Default keys for devices that do not list their own
+    keys: keyList.optional(),
+    startTs: z.number().int().nonnegative(),
+    endTs: z.number().int().nonnegative(),
+    // Milliseconds, or a calendar unit split at local boundaries in `tz`
+    interval: z.union([z.number().int().positive(), z.enum(CALENDAR_UNITS)]).optional(),
+    tz: timeZone,
+    agg: aggregation.optional(),
+    orderBy: order.optional(),
+    limit: z.number().int().positive().optional(),
+    useStrictDataTypes: z.boolean().optional(),
+    maxPoints: maxPoints.optional(),
+    downsample: z.enum(DOWNSAMPLE_METHODS).default('lttb'),
+  })
+  .refine((body) => body.startTs < body.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+  .refine((body) => body.keys !== undefined || body.devices.every((d) => d.keys !== undefined), {
+    message: 'Every device needs keys, either its own or the shared keys list',
+    path: ['keys'],
+  })
+  .refine((body) => typeof body.interval !== 'string' || (body.agg !== undefined && body.agg !== 'NONE'), {
+    message: calendarAggMessage,
+    path: ['agg'],
+  })
+  .refine((body) => typeof body.interval !== 'string' || body.maxPoints === undefined, {
+    message: calendarMaxPointsMessage,
+    path: ['maxPoints'],
+  })
+
+export type BatchTimeseriesRequest = z.infer<typeof batchTimeseriesSchema>
+
+// Required query timestamps: a missing one is coerced to NaN
+const timestamp = z.coerce.number({ invalid_type_error: 'Expected a timestamp in milliseconds' }).int().nonnegative()
+
+const timeseriesQueryFields = {
+  keys: commaList,
+  startTs: timestamp,
+  endTs: timestamp,
+  // Milliseconds, or a calendar unit split at local boundaries in `tz`
+  interval: z
+    .union([z.enum(CALENDAR_UNITS), z.coerce.number().int().positive()], {
+      errorMap: () => ({ message: 'Expected a positive number of milliseconds or hour, day, week or month' }),
+    })
+    .optional(),
+  tz: timeZone,
+  agg: aggregation.optional(),
+  orderBy: order.optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  useStrictDataTypes: booleanFlag,
+  maxPoints: z.coerce.number().pipe(maxPoints).optional(),
+  downsample: z.enum(DOWNSAMPLE_METHODS).default('lttb'),
+}
+
+const refineTimeseriesQuery = (
+  query: { startTs: number; endTs: number; interval?: unknown; agg?: string; maxPoints?: number },
+  ctx: z.RefinementCtx
+) => {
+  if (query.startTs >= query.endTs) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'startTs must be less than endTs', path: ['startTs'] })
+  }
+  if (typeof query.interval === 'string') {
+    if (query.agg === undefined || query.agg === 'NONE') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: calendarAggMessage, path: ['agg'] })
+    }
+    if (query.maxPoints !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: calendarMaxPointsMessage, path: ['maxPoints'] })
+    }
+  }
+}
+
+/**
+ * GET /api/telemetry/:deviceUUID/timeseries query
+ */
+export const timeseriesQuerySchema = z
+  .object({
+    ...timeseriesQueryFields,
+    normalize: booleanFlag,
+    quality: booleanFlag,
+  })
+  .superRefine(refineTimeseriesQuery)
+
+export type TimeseriesQuery = z.infer<typeof timeseriesQuerySchema>
+
+/**
+ * GET /api/telemetry/timeseries (legacy) query
+ */
+export const legacyTimeseriesQuerySchema = z
+  .object({
+    ...timeseriesQueryFields,
+    entityType: z.string().trim().min(1),
+    entityId: z.string().trim().min(1),
+  })
+  .superRefine(refineTimeseriesQuery)
+
+/**
+ * GET /api/telemetry/export and /api/telemetry/:deviceUUID/export query
+ */
+export const exportQuerySchema = z
+  .object({
+    format: z.enum(['csv', 'xlsx', 'ndjson']).default('csv'),
+    devices: commaList.optional(),
+    keys: commaList,
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    interval: z.coerce.number().int().positive().optional(),
+    agg: aggregation.optional(),
+    tz: timeZone,
+    useStrictDataTypes: booleanFlag,
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+  .refine((query) => !query.agg || query.agg === 'NONE' || query.interval !== undefined, {
+    message: 'interval is required when agg is not NONE',
+    path: ['interval'],
+  })
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>
+
+/**
+ * GET /api/telemetry/:deviceUUID/latest query
+ */
+export const latestQuerySchema = z.object({
+  // All keys of the device when omitted
+  keys: commaList.optional(),
+  useStrictDataTypes: booleanFlag,
+  normalize: booleanFlag,
+})
+
+/**
+ * GET /api/telemetry/:deviceUUID/attributes query
+ */
+export const attributesQuerySchema = z.object({
+  scope: commaList.pipe(z.array(z.enum(ATTRIBUTE_SCOPES))).optional(),
+  keys: commaList.optional(),
+})
+
+/**
+ * POST /api/telemetry/:deviceUUID/attributes/:scope body: the attributes to set
+ */
+export const attributesWriteSchema = z
+  .record(
+    z.string().trim().min(1).max(255),
+    z.union([z.string(), z.number(), z.boolean(), z.array(z.unknown()), z.record(z.unknown())])
+  )
+  .refine((attributes) => Object.keys(attributes).length > 0, { message: 'At least one attribute is required' })
+  .refine((attributes) => Object.keys(attributes).length <= 100, { message: 'At most 100 attributes at once' })
+
+export const writableScopeSchema = z.enum(['shared', 'server'], {
+  errorMap: () => ({ message: 'Invalid scope. Must be shared or server' }),
+})
+
+/**
+ * Data quality thresholds, shared by GET /api/telemetry/:deviceUUID/quality and quality=true on timeseries
+ */
+export const qualityOptionsSchema = z
+  .object({
+    expectedIntervalMs: z.coerce.number().int().positive().optional(),
+    gapFactor: z.coerce.number().min(1).default(DEFAULT_QUALITY_OPTIONS.gapFactor),
+    flatlineMinDurationMs: z.coerce.number().int().positive().default(DEFAULT_QUALITY_OPTIONS.flatlineMinDurationMs),
+    spikeFactor: z.coerce.number().positive().default(DEFAULT_QUALITY_OPTIONS.spikeFactor),
+    maxStep: z.coerce.number().positive().optional(),
+    min: z.coerce.number().optional(),
+    max: z.coerce.number().optional(),
+    // Keys holding cumulative counters
+    counters: commaList.optional(),
+  })
+  .refine((query) => query.min === undefined || query.max === undefined || query.min < query.max, {
+    message: 'min must be less than max',
+    path: ['min'],
+  })
+
+export type QualityOptionsQuery = z.infer<typeof qualityOptionsSchema>
+
+/**
+ * GET /api/telemetry/:deviceUUID/quality query
+ */
+export const qualityQuerySchema = z
+  .object({
+    keys: commaList.pipe(z.array(z.string()).max(20)),
+    startTs: z.coerce.number().int().nonnegative(),
+    endTs: z.coerce.number().int().nonnegative(),
+    clean: booleanFlag,
+  })
+  .refine((query) => query.startTs < query.endTs, {
+    message: 'startTs must be less than endTs',
+    path: ['startTs'],
+  })
+
+/**
+ * GET /api/telemetry/devices query
+ */
+export const devicesQuerySchema = z.object({
+  refresh: booleanFlag,
+})
+
+/**
+ * GET /api/telemetry/stream query
+ */
+export const streamQuerySchema = z.object({
+  devices: commaList
+    .transform((devices) => [...new Set(devices)])
+    .pipe(z.array(z.string()).max(100, 'At most 100 devices can be streamed at once')),
+  // All keys when omitted
+  keys: commaList.optional(),
+})
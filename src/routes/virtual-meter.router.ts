@@ -0,0 +1,121 @@
+import { NextFunction, Router, Request, Response } from 'express'
+import { parseOrThrow, uuidParam } from '../utils/validation.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import { requireRole } from '../modules/auth/auth.policy.js'
+import {
+  createVirtualMeter,
+  deleteVirtualMeter,
+  getVirtualMeter,
+  listVirtualMeters,
+  replaceVirtualMeter,
+} from '../modules/virtual-meter/virtual-meter.service.js'
+import { VirtualMeterInput, virtualMeterValidation } from '../modules/virtual-meter/virtual-meter.validation.js'
+import { Device, DeviceService } from '../services/device.service.js'
+
+/**
+ * Create virtual meter routes
+ * Endpoints:
+ * - GET/POST /api/virtual-meters, GET/PUT/DELETE /api/virtual-meters/:id - Virtual meter definitions
+ *
+ * A virtual meter computes keys from other devices' telemetry with arithmetic
+ * formulas, for loads that have no meter of their own. Its id is used as a
+ * deviceUUID with the /api/telemetry endpoints. Users see the virtual meters
+ * of their customers; admins and site managers edit them.
+ */
+export function createVirtualMeterRoutes(deviceService: DeviceService): Router {
+  const router = Router()
+  router.param('id', uuidParam)
+  const canManage = requireRole('admin', 'site_manager')
+
+  /**
+   * Source devices must be physical devices visible to whoever saves the meter
+   */
+  const sourceDevices = async (auth: AuthPayload, input: VirtualMeterInput): Promise<Device[]> => {
+    const devices: Device[] = []
+    for (const deviceUUID of new Set(Object.values(input.sources))) {
+      devices.push(await deviceService.validateDevice(deviceUUID, auth))
+    }
+    return devices
+  }
+
+  router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const meters = await listVirtualMeters(req.auth!)
+      return res.json({
+        success: true,
+        data: meters,
+        count: meters.length,
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  /**
+   * POST /api/virtual-meters
+   *
+   * Body:
+   * {
+   *   "name": "Workshop (unmetered)",
+   *   "sources": { "MAIN": "545ffcb0-...", "L1": "7a1b...", "L2": "9c2d..." },
+   *   "formulas": {
+   *     "kWh": { "expression": "MAIN.AccumulatedActiveEnergyDelivered - L1.AccumulatedActiveEnergyDelivered - L2.AccumulatedActiveEnergyDelivered", "unit": "kWh" },
+   *     "kW": { "expression": "max(MAIN.ActivePowerTotal - L1.ActivePowerTotal - L2.ActivePowerTotal, 0)", "unit": "kW" }
+   *   }
+   * }
+   *
+   * Formulas use + - * /, parentheses, numbers, abs(), min() and max() over
+   * `SOURCE.key` references. Aggregated queries apply the aggregation to each
+   * source before the formula, which is exact for sums and differences.
+   */
+  router.post('/', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(virtualMeterValidation.meter, req.body)
+
+      const devices = await sourceDevices(req.auth!, input)
+      return res.status(201).json({
+        success: true,
+        data: await createVirtualMeter(input, devices, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      return res.json({
+        success: true,
+        data: await getVirtualMeter(req.params.id, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.put('/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = parseOrThrow(virtualMeterValidation.meter, req.body)
+
+      await getVirtualMeter(req.params.id, req.auth!)
+      const devices = await sourceDevices(req.auth!, input)
+      return res.json({
+        success: true,
+        data: await replaceVirtualMeter(req.params.id, input, devices, req.auth!),
+      })
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  router.delete('/:id', canManage, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await deleteVirtualMeter(req.params.id, req.auth!)
+      return res.status(204).end()
+    } catch (error) {
+      return next(error)
+    }
+  })
+
+  return router
+}
@@ -1,7 +1,16 @@
 import { createApp } from "./app.js";
 import { config } from "./config/index.js";
+import { closeDatabase, connectDatabase } from "./config/database.js";
+import { startServices, stopServices } from "./modules/index.js";
+import { ensureBootstrapAdmin } from "./modules/user/user.service.js";
+import { ensureDefaultCustomer } from "./modules/customer/customer.service.js";
 import { logger } from "./utils/logger.js";
 
+await connectDatabase();
+await ensureBootstrapAdmin();
+await ensureDefaultCustomer();
+startServices();
+
 const app = createApp();
 
 const server = app.listen(config.port, () => {
@@ -10,8 +19,12 @@ const server = app.listen(config.port, () => {
 
 const shutdown = (signal: string) => {
   logger.info({ signal }, "Shutting down");
-  server.close(() => process.exit(0));
+  stopServices();
+  server.close(async () => {
+    await closeDatabase();
+    process.exit(0);
+  });
 };
 
 process.on("SIGINT", () => shutdown("SIGINT"));
-process.on("SIGTERM", () => shutdown("SIGTERM"));
\ No newline at end of file
+process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -0,0 +1,181 @@
+import { logger } from '../../utils/logger.js'
+import { mapWithConcurrency } from '../../utils/concurrency.js'
+import { Alarm, AlarmRule } from '../../modules/alarm/alarm.model.js'
+import { autoClearAlarm, listRules, raiseAlarm } from '../../modules/alarm/alarm.service.js'
+import { findOpenAlarmsByRule } from '../../modules/alarm/alarm.repository.js'
+import { Device, DeviceService } from '../device.service.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { evaluateCondition, Reading } from './rule-evaluation.js'
+
+const evaluatorLogger = logger.child({ module: 'AlarmEvaluator' })
+
+export interface AlarmEvaluatorOptions {
+  // Time between two evaluation runs; 0 disables the schedule
+  intervalMs: number
+  // Upstream telemetry calls made in parallel
+  concurrency: number
+}
+
+export interface EvaluationSummary {
+  rules: number
+  evaluations: number
+  raised: number
+  cleared: number
+  failed: number
+}
+
+/**
+ * Alarm Evaluator
+ * Periodically checks every enabled alarm rule against recent telemetry and
+ * raises, refreshes or clears alarms
+ */
+export class AlarmEvaluatorService {
+  private logger = evaluatorLogger
+  private readonly telemetryService: TelemetryProvider
+  private readonly deviceService: DeviceService
+  private readonly options: AlarmEvaluatorOptions
+  private timer: NodeJS.Timeout | null = null
+  private running: Promise<EvaluationSummary> | null = null
+  // Readings fetched before a threshold rule's duration, so breaches that started earlier are seen
+  private readonly minLookbackMs = 10 * 60 * 1000
+  private readonly readingLimit = 5000
+
+  constructor(
+    telemetryService: TelemetryProvider,
+    deviceService: DeviceService,
+    options: AlarmEvaluatorOptions
+  ) {
+    this.telemetryService = telemetryService
+    this.deviceService = deviceService
+    this.options = options
+  }
+
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) return
+
+    this.timer = setInterval(() => {
+      this.evaluateAll().catch((error) => {
+        this.logger.error(`Alarm evaluation failed: ${error instanceof Error ? error.message : error}`)
+      })
+    }, this.options.intervalMs)
+    this.timer.unref()
+    this.logger.info(`Alarm evaluation scheduled every ${this.options.intervalMs} ms`)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Evaluate every enabled rule once. A run that starts while another one is
+   * still in progress joins it instead of overlapping.
+   */
+  evaluateAll(now: number = Date.now()): Promise<EvaluationSummary> {
+    if (!this.running) {
+      this.running = this.runEvaluation(now).finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private async runEvaluation(now: number): Promise<EvaluationSummary> {
+    const rules = (await listRules()).filter((rule) => rule.enabled)
+    const summary: EvaluationSummary = { rules: rules.length, evaluations: 0, raised: 0, cleared: 0, failed: 0 }
+    if (rules.length === 0) return summary
+
+    const devices = await this.deviceService.getDevices()
+
+    for (const rule of rules) {
+      const targets = this.resolveTargets(rule, devices)
+      const openAlarms = await findOpenAlarmsByRule(rule.id)
+
+      await mapWithConcurrency(targets, this.options.concurrency, async (device) => {
+        summary.evaluations++
+        try {
+          const result = await this.evaluateRule(rule, device, openAlarms.get(device.deviceUUID), now)
+          if (result === 'raised') summary.raised++
+          if (result === 'cleared') summary.cleared++
+        } catch (error) {
+          summary.failed++
+          const errorMsg = error instanceof Error ? error.message : String(error)
+          this.logger.warn(`Rule "${rule.name}" failed on ${device.deviceUUID}: ${errorMsg}`)
+        }
+      })
+    }
+
+    this.logger.info(
+      `Alarm evaluation: rules=${summary.rules} evaluations=${summary.evaluations} raised=${summary.raised} cleared=${summary.cleared} failed=${summary.failed}`
+    )
+    return summary
+  }
+
+  private resolveTargets(rule: AlarmRule, devices: Device[]): Device[] {
+    const { target } = rule
+    switch (target.type) {
+      case 'device':
+        return devices.filter((device) => device.deviceUUID === target.deviceUUID)
+      case 'customer':
+        return devices.filter(
+          (device) => device.assignedToCustomer === true && device.customerId === target.customerId
+        )
+      case 'all':
+        return devices
+    }
+  }
+
+  private async evaluateRule(
+    rule: AlarmRule,
+    device: Device,
+    open: Alarm | undefined,
+    now: number
+  ): Promise<'raised' | 'cleared' | null> {
+    const { condition } = rule
+    const lookback =
+      condition.type === 'threshold'
+        ? condition.durationMs + Math.max(this.minLookbackMs, 2 * this.options.intervalMs)
+        : condition.durationMs
+    const readings = await this.getReadings(device.deviceUUID, condition.key, now - lookback, now)
+    const evaluation = evaluateCondition(condition, readings, now, open !== undefined)
+
+    if (evaluation.outcome === 'raise') {
+      const { alarm, created } = await raiseAlarm(rule, device, evaluation, open, now)
+      if (created) {
+        this.logger.info(`Alarm raised: "${rule.name}" on ${device.deviceUUID} (${alarm.message})`)
+        return 'raised'
+      }
+    } else if (evaluation.outcome === 'clear' && open) {
+      await autoClearAlarm(open, now)
+      this.logger.info(`Alarm cleared: "${rule.name}" on ${device.deviceUUID}`)
+      return 'cleared'
+    }
+
+    return null
+  }
+
+  /**
+   * Numeric readings in [startTs, endTs], oldest first. The newest readings
+   * are kept when the limit is reached.
+   */
+  private async getReadings(deviceUUID: string, key: string, startTs: number, endTs: number): Promise<Reading[]> {
+    const data = await this.telemetryService.getTimeseries(
+      'DEVICE',
+      deviceUUID,
+      [key],
+      startTs,
+      endTs,
+      undefined,
+      'NONE',
+      'DESC',
+      this.readingLimit
+    )
+
+    return (data[key] ?? [])
+      .map((point) => ({ ts: Number(point.ts), value: Number(point.value) }))
+      .filter((reading) => Number.isFinite(reading.value))
+      .sort((a, b) => a.ts - b.ts)
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Decide whether an alarm condition holds for one device.
+ *
+ * - threshold: raised once the key has breached the threshold continuously for
+ *   `durationMs` (measured between readings). An open alarm is cleared only when
+ *   the latest value moves back past the threshold by `hysteresis`; inside that
+ *   band the alarm is left as is.
+ * - no_data: raised when the key has no reading in the last `durationMs`,
+ *   cleared as soon as a reading shows up.
+ *
+ * Without any reading a threshold rule holds its current state, so a gateway
+ * outage neither raises nor clears it (that is what no_data rules are for).
+ */
+
+import { AlarmCondition, ThresholdCondition } from '../../modules/alarm/alarm.validation.js'
+
+export interface Reading {
+  ts: number
+  value: number
+}
+
+export type EvaluationOutcome =
+  | { outcome: 'raise'; value: number | null; since: number; message: string }
+  | { outcome: 'clear'; value: number | null }
+  | { outcome: 'hold' }
+
+const breaches = (condition: ThresholdCondition, value: number): boolean => {
+  switch (condition.operator) {
+    case '>':
+      return value > condition.value
+    case '>=':
+      return value >= condition.value
+    case '<':
+      return value < condition.value
+    case '<=':
+      return value <= condition.value
+  }
+}
+
+const recovered = (condition: ThresholdCondition, value: number): boolean => {
+  switch (condition.operator) {
+    case '>':
+      return value <= condition.value - condition.hysteresis
+    case '>=':
+      return value < condition.value - condition.hysteresis
+    case '<':
+      return value >= condition.value + condition.hysteresis
+    case '<=':
+      return value > condition.value + condition.hysteresis
+  }
+}
+
+const formatDuration = (ms: number) =>
+  ms % 60000 === 0 ? `${ms / 60000} min` : `${Math.round(ms / 1000)} s`
+
+/**
+ * @param readings - readings of the condition's key, oldest first, covering at
+ *   least the last `durationMs` before `now`
+ * @param isOpen - whether an uncleared alarm already exists for this rule and device
+ */
+export function evaluateCondition(
+  condition: AlarmCondition,
+  readings: Reading[],
+  now: number,
+  isOpen: boolean
+): EvaluationOutcome {
+  if (condition.type === 'no_data') {
+    const recent = readings.filter((reading) => reading.ts > now - condition.durationMs)
+    if (recent.length > 0) {
+      return { outcome: 'clear', value: recent[recent.length - 1].value }
+    }
+    const last = readings[readings.length - 1]
+    return {
+      outcome: 'raise',
+      value: null,
+      since: last?.ts ?? now - condition.durationMs,
+      message: `No data for ${condition.key} in the last ${formatDuration(condition.durationMs)}`,
+    }
+  }
+
+  const latest = readings[readings.length - 1]
+  if (!latest) return { outcome: 'hold' }
+
+  if (!breaches(condition, latest.value)) {
+    if (isOpen && !recovered(condition, latest.value)) return { outcome: 'hold' }
+    return { outcome: 'clear', value: latest.value }
+  }
+
+  // Walk back to the start of the current breach
+  let since = latest.ts
+  for (let i = readings.length - 2; i >= 0 && breaches(condition, readings[i].value); i--) {
+    since = readings[i].ts
+  }
+
+  if (!isOpen && latest.ts - since < condition.durationMs) return { outcome: 'hold' }
+
+  const duration = condition.durationMs > 0 ? ` for ${formatDuration(condition.durationMs)}` : ''
+  return {
+    outcome: 'raise',
+    value: latest.value,
+    since,
+    message: `${condition.key} ${condition.operator} ${condition.value}${duration} (latest ${latest.value})`,
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Roll device-level consumption and telemetry up to an asset node.
+ */
+
+import { AssetMetadata } from '../../modules/asset/asset.validation.js'
+import { BucketStatus, ConsumptionBucket } from '../energy/consumption.js'
+import { TelemetryPoint } from '../thingsboard/telemetry-cache.js'
+
+export const COMBINE_MODES = ['sum', 'avg', 'min', 'max'] as const
+export type CombineMode = (typeof COMBINE_MODES)[number]
+
+export interface NodeConsumptionBucket extends ConsumptionBucket {
+  // Devices with a value in this bucket
+  devices: number
+}
+
+export interface CombinedPoint {
+  ts: number
+  value: number
+  // Devices with a numeric value at this timestamp
+  devices: number
+}
+
+/**
+ * Add up the consumption buckets of several devices computed over the same
+ * buckets. A node bucket is measured only when every device measured it, and
+ * missing only when no device has a value; its coverage is the mean coverage.
+ */
+export function sumConsumption(
+  perDevice: ConsumptionBucket[][]
+): { buckets: NodeConsumptionBucket[]; total: number } {
+  if (perDevice.length === 0) {
+    return { buckets: [], total: 0 }
+  }
+
+  const buckets = perDevice[0].map((first, index): NodeConsumptionBucket => {
+    const column = perDevice.map((buckets) => buckets[index])
+    const withValue = column.filter((bucket) => bucket.value !== null)
+    let status: BucketStatus = 'estimated'
+    if (withValue.length === 0) status = 'missing'
+    else if (column.every((bucket) => bucket.status === 'measured')) status = 'measured'
+
+    return {
+      start: first.start,
+      end: first.end,
+      label: first.label,
+      value: withValue.length > 0 ? withValue.reduce((sum, bucket) => sum + bucket.value!, 0) : null,
+      status,
+      coverage: column.reduce((sum, bucket) => sum + bucket.coverage, 0) / column.length,
+      devices: withValue.length,
+    }
+  })
+
+  return { buckets, total: buckets.reduce((sum, bucket) => sum + (bucket.value ?? 0), 0) }
+}
+
+/**
+ * Merge aggregated series of several devices by timestamp. Non-numeric values
+ * are ignored; timestamps without any numeric value are dropped.
+ */
+export function combineSeries(series: TelemetryPoint[][], mode: CombineMode): CombinedPoint[] {
+  const byTs = new Map<number, number[]>()
+  for (const points of series) {
+    for (const point of points) {
+      const value = Number(point.value)
+      if (point.value === null || point.value === '' || !Number.isFinite(value)) continue
+      const values = byTs.get(point.ts)
+      if (values) values.push(value)
+      else byTs.set(point.ts, [value])
+    }
+  }
+
+  return [...byTs.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([ts, values]) => {
+      let value: number
+      if (mode === 'min') value = Math.min(...values)
+      else if (mode === 'max') value = Math.max(...values)
+      else {
+        const sum = values.reduce((total, v) => total + v, 0)
+        value = mode === 'avg' ? sum / values.length : sum
+      }
+      return { ts, value, devices: values.length }
+    })
+}
+
+/**
+ * Consumption per square metre and per person, when the node's metadata has them
+ */
+export function normalizedKpis(
+  total: number,
+  metadata: AssetMetadata
+): { perFloorArea: number | null; perHeadcount: number | null } {
+  return {
+    perFloorArea: metadata.floorArea ? total / metadata.floorArea : null,
+    perHeadcount: metadata.headcount ? total / metadata.headcount : null,
+  }
+}
@@ -0,0 +1,135 @@
+import { logger } from '../../utils/logger.js'
+import { UpstreamError } from '../../utils/apiError.js'
+import { mapWithConcurrency } from '../../utils/concurrency.js'
+import { CalendarUnit } from '../../utils/calendar.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { TelemetryPoint } from '../thingsboard/telemetry-cache.js'
+import { ConsumptionService } from '../energy/consumption.service.js'
+import { ConsumptionBucket } from '../energy/consumption.js'
+import { CombinedPoint, CombineMode, NodeConsumptionBucket, combineSeries, sumConsumption } from './aggregation.js'
+
+const aggregationLogger = logger.child({ module: 'AssetAggregationService' })
+
+export interface DeviceContribution {
+  deviceUUID: string
+  total?: number
+  error?: string
+}
+
+export interface NodeConsumption {
+  buckets: NodeConsumptionBucket[]
+  total: number
+  devices: DeviceContribution[]
+}
+
+export interface NodeConsumptionQuery {
+  key: string
+  startTs: number
+  endTs: number
+  granularity: CalendarUnit
+  rolloverValue?: number
+  maxGapMs?: number
+}
+
+export interface NodeTelemetryQuery {
+  keys: string[]
+  startTs: number
+  endTs: number
+  interval: number
+  agg: string
+  combine: CombineMode
+}
+
+/**
+ * Asset Aggregation Service
+ * Computes consumption and telemetry of an asset node from the devices under it.
+ * A device that fails is reported with its error and left out of the totals.
+ */
+export class AssetAggregationService {
+  private logger = aggregationLogger
+  private readonly consumptionService: ConsumptionService
+  private readonly telemetryService: TelemetryProvider
+  private readonly concurrency: number
+
+  constructor(
+    consumptionService: ConsumptionService,
+    telemetryService: TelemetryProvider,
+    concurrency: number = 4
+  ) {
+    this.consumptionService = consumptionService
+    this.telemetryService = telemetryService
+    this.concurrency = concurrency
+  }
+
+  async getConsumption(deviceUUIDs: string[], query: NodeConsumptionQuery): Promise<NodeConsumption> {
+    const results = await mapWithConcurrency(deviceUUIDs, this.concurrency, async (deviceUUID) => {
+      try {
+        const { buckets, total } = await this.consumptionService.getConsumption({ deviceUUID, ...query })
+        return { deviceUUID, buckets, total }
+      } catch (error) {
+        return { deviceUUID, error: error instanceof Error ? error.message : String(error) }
+      }
+    })
+
+    const succeeded = results.filter((result): result is { deviceUUID: string; buckets: ConsumptionBucket[]; total: number } =>
+      result.buckets !== undefined
+    )
+    this.assertSomeSucceeded(deviceUUIDs, succeeded.length, results)
+
+    return {
+      ...sumConsumption(succeeded.map((result) => result.buckets)),
+      devices: results.map(({ deviceUUID, total, error }) => ({ deviceUUID, total, error })),
+    }
+  }
+
+  /**
+   * One combined series per key, built from each device's series aggregated per `interval`
+   */
+  async getTelemetry(
+    deviceUUIDs: string[],
+    query: NodeTelemetryQuery
+  ): Promise<{ series: Record<string, CombinedPoint[]>; devices: DeviceContribution[] }> {
+    const results = await mapWithConcurrency(deviceUUIDs, this.concurrency, async (deviceUUID) => {
+      try {
+        const data: Record<string, TelemetryPoint[]> = await this.telemetryService.getTimeseries(
+          'DEVICE',
+          deviceUUID,
+          query.keys,
+          query.startTs,
+          query.endTs,
+          query.interval,
+          query.agg,
+          'ASC'
+        )
+        return { deviceUUID, data }
+      } catch (error) {
+        return { deviceUUID, error: error instanceof Error ? error.message : String(error) }
+      }
+    })
+
+    const succeeded = results.filter((result) => result.data !== undefined)
+    this.assertSomeSucceeded(deviceUUIDs, succeeded.length, results)
+
+    const series: Record<string, CombinedPoint[]> = {}
+    for (const key of query.keys) {
+      series[key] = combineSeries(
+        succeeded.map((result) => result.data![key] ?? []),
+        query.combine
+      )
+    }
+    return {
+      series,
+      devices: results.map(({ deviceUUID, error }) => ({ deviceUUID, error })),
+    }
+  }
+
+  private assertSomeSucceeded(deviceUUIDs: string[], succeeded: number, results: { error?: string }[]): void {
+    const failed = deviceUUIDs.length - succeeded
+    if (failed > 0) {
+      this.logger.warn(`${failed}/${deviceUUIDs.length} device(s) failed during node aggregation`)
+    }
+    if (deviceUUIDs.length > 0 && succeeded === 0) {
+      throw new UpstreamError(`Every device of the node failed: ${results[0].error}`)
+    }
+  }
+}
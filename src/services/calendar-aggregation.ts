@@ -0,0 +1,114 @@
+/**
+ * Aggregation per calendar bucket (local hour, day, ISO week or month).
+ *
+ * ThingsBoard only aggregates over a fixed interval in milliseconds, which
+ * drifts across DST changes and months of different lengths. The range is
+ * split at local calendar boundaries instead; consecutive buckets of the same
+ * length are requested together, with that length as interval, and every
+ * returned value is put back on the start of its bucket with the bucket's
+ * local label. The first and last buckets are clipped to the range.
+ */
+
+import { mapWithConcurrency } from '../utils/concurrency.js'
+import { CalendarBucket, CalendarUnit, nextPeriod, splitRange, startOfPeriod } from '../utils/calendar.js'
+import { TelemetryCacheStats, TelemetryPoint } from './thingsboard/telemetry-cache.js'
+import { TelemetryProvider } from './telemetry-provider.js'
+
+export interface CalendarInterval {
+  unit: CalendarUnit
+  timeZone: string
+}
+
+export interface CalendarPoint extends TelemetryPoint {
+  // End of the bucket that starts at `ts`
+  end: number
+  label: string
+}
+
+export interface CalendarTimeseriesQuery {
+  entityType: string
+  entityId: string
+  keys: string[]
+  startTs: number
+  endTs: number
+  calendar: CalendarInterval
+  agg: string
+  orderBy?: string
+  useStrictDataTypes?: boolean
+}
+
+type TimeseriesSource = Pick<TelemetryProvider, 'getTimeseriesWithCacheStats'>
+
+/**
+ * Consecutive buckets of equal length, each group fetched with one upstream request
+ */
+export function bucketRuns(buckets: CalendarBucket[]): CalendarBucket[][] {
+  const runs: CalendarBucket[][] = []
+  for (const bucket of buckets) {
+    const run = runs[runs.length - 1]
+    if (run && run[0].end - run[0].start === bucket.end - bucket.start) run.push(bucket)
+    else runs.push([bucket])
+  }
+  return runs
+}
+
+/**
+ * Whether [startTs, endTs) holds more than `max` buckets; stops counting past `max`
+ */
+export function exceedsCalendarBuckets(startTs: number, endTs: number, calendar: CalendarInterval, max: number): boolean {
+  let count = 0
+  for (let ts = startOfPeriod(startTs, calendar.unit, calendar.timeZone); ts < endTs; ) {
+    if (++count > max) return true
+    ts = nextPeriod(ts, calendar.unit, calendar.timeZone)
+  }
+  return false
+}
+
+export async function getCalendarTimeseries(
+  source: TimeseriesSource,
+  query: CalendarTimeseriesQuery,
+  concurrency: number = 4
+): Promise<{ data: Record<string, CalendarPoint[]>; cache: TelemetryCacheStats }> {
+  const runs = bucketRuns(splitRange(query.startTs, query.endTs, query.calendar.unit, query.calendar.timeZone))
+  const cache: TelemetryCacheStats = { cacheable: true, hits: 0, misses: 0, upstreamRequests: 0 }
+  const data: Record<string, CalendarPoint[]> = {}
+
+  const results = await mapWithConcurrency(runs, concurrency, async (run) => {
+    const length = run[0].end - run[0].start
+    const result = await source.getTimeseriesWithCacheStats(
+      query.entityType,
+      query.entityId,
+      query.keys,
+      run[0].start,
+      run[run.length - 1].end,
+      length,
+      query.agg,
+      'ASC',
+      undefined,
+      query.useStrictDataTypes
+    )
+    return { run, length, ...result }
+  })
+
+  for (const { run, length, data: runData, cache: runCache } of results) {
+    cache.cacheable &&= runCache.cacheable
+    cache.hits += runCache.hits
+    cache.misses += runCache.misses
+    cache.upstreamRequests += runCache.upstreamRequests
+
+    for (const [key, points] of Object.entries(runData)) {
+      const series = (data[key] ??= [])
+      for (const point of points) {
+        // Aggregated values are stamped inside their interval, which starts at the run's start
+        const bucket = run[Math.floor((point.ts - run[0].start) / length)]
+        if (bucket) series.push({ ts: bucket.start, value: point.value, end: bucket.end, label: bucket.label })
+      }
+    }
+  }
+
+  const descending = query.orderBy?.toUpperCase() === 'DESC'
+  for (const points of Object.values(data)) {
+    points.sort((a, b) => (descending ? b.ts - a.ts : a.ts - b.ts))
+  }
+  return { data, cache }
+}
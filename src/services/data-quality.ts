@@ -0,0 +1,238 @@
+/**
+ * Data quality of meter timeseries: gaps against the expected reporting interval,
+ * flatlined (stuck) values, spikes, values outside a physical range and
+ * cumulative counters that go backwards.
+ *
+ * Spikes are found with a robust statistic: a step is suspicious when it is more
+ * than `spikeFactor` times the median absolute deviation (scaled to a standard
+ * deviation) away from the median step, so a few absurd readings cannot hide
+ * themselves by inflating the threshold.
+ */
+
+import { TelemetryPoint } from './thingsboard/telemetry-cache.js'
+
+export const QUALITY_ISSUE_TYPES = ['gap', 'flatline', 'spike', 'out_of_range', 'counter_decrease'] as const
+export type QualityIssueType = (typeof QUALITY_ISSUE_TYPES)[number]
+
+export interface QualityOptions {
+  // Expected time between readings; the median interval of the series when omitted
+  expectedIntervalMs?: number
+  // A pause longer than expectedIntervalMs * gapFactor is a gap
+  gapFactor: number
+  // Identical consecutive values lasting at least this long are a flatline
+  flatlineMinDurationMs: number
+  // Robust z-score above which a step is a spike
+  spikeFactor: number
+  // Absolute step above which a reading is a spike, whatever the statistics say
+  maxStep?: number
+  // Physical range of the values
+  min?: number
+  max?: number
+  // Cumulative counter (energy index): must never decrease, spikes are checked on increments
+  cumulative: boolean
+}
+
+export const DEFAULT_QUALITY_OPTIONS: QualityOptions = {
+  gapFactor: 2,
+  flatlineMinDurationMs: 4 * 60 * 60 * 1000,
+  spikeFactor: 8,
+  cumulative: false,
+}
+
+export interface QualityIssue {
+  type: QualityIssueType
+  start: number
+  end: number
+  // Readings involved (0 for gaps)
+  points: number
+}
+
+export interface KeyQuality {
+  points: number
+  // Readings that are not numbers, left out of the analysis
+  nonNumeric: number
+  expectedIntervalMs: number | null
+  // Share of the range covered by data, gaps excluded (0..1)
+  coverage: number
+  // 0..100: coverage, less the share of flagged readings
+  score: number
+  counts: Record<QualityIssueType, number>
+  issues: QualityIssue[]
+}
+
+interface NumericPoint {
+  ts: number
+  value: number
+  source: TelemetryPoint
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Median and robust standard deviation (1.4826 x MAD) of `values`. Regular
+ * signals often have a MAD of zero; the mean absolute deviation is used then.
+ */
+const robustSpread = (values: number[]) => {
+  const center = median(values)
+  const deviations = values.map((value) => Math.abs(value - center))
+  const mad = median(deviations)
+  const sigma =
+    mad > 0 ? 1.4826 * mad : (1.2533 * deviations.reduce((sum, d) => sum + d, 0)) / Math.max(1, deviations.length)
+  return { center, sigma }
+}
+
+/**
+ * Merge flagged reading indexes of one type into runs of consecutive readings
+ */
+function toIssues(type: QualityIssueType, indexes: number[], points: NumericPoint[]): QualityIssue[] {
+  const issues: QualityIssue[] = []
+  for (const index of [...new Set(indexes)].sort((a, b) => a - b)) {
+    const last = issues[issues.length - 1]
+    if (last && last.type === type && points[index - 1]?.ts === last.end) {
+      last.end = points[index].ts
+      last.points++
+    } else {
+      issues.push({ type, start: points[index].ts, end: points[index].ts, points: 1 })
+    }
+  }
+  return issues
+}
+
+/**
+ * Analyse one key over [startTs, endTs)
+ */
+export function analyzeSeries(
+  series: TelemetryPoint[],
+  startTs: number,
+  endTs: number,
+  options: QualityOptions
+): { quality: KeyQuality; cleaned: TelemetryPoint[] } {
+  const points: NumericPoint[] = []
+  let nonNumeric = 0
+  for (const point of [...series].sort((a, b) => a.ts - b.ts)) {
+    const value = typeof point.value === 'boolean' || point.value === null || point.value === '' ? NaN : Number(point.value)
+    if (Number.isFinite(value)) points.push({ ts: point.ts, value, source: point })
+    else nonNumeric++
+  }
+
+  const intervals = points.slice(1).map((point, i) => point.ts - points[i].ts)
+  const expected = options.expectedIntervalMs ?? (intervals.length > 0 ? median(intervals) : null)
+  const issues: QualityIssue[] = []
+
+  // Gaps, including a missing start or end of the range
+  let gapTime = 0
+  if (expected) {
+    const limit = expected * options.gapFactor
+    const edges = points.length > 0 ? [startTs, ...points.map((p) => p.ts), endTs] : [startTs, endTs]
+    for (let i = 1; i < edges.length; i++) {
+      if (edges[i] - edges[i - 1] > limit) {
+        issues.push({ type: 'gap', start: edges[i - 1], end: edges[i], points: 0 })
+        gapTime += edges[i] - edges[i - 1]
+      }
+    }
+  } else if (points.length === 0) {
+    issues.push({ type: 'gap', start: startTs, end: endTs, points: 0 })
+    gapTime = endTs - startTs
+  }
+
+  // Out of range
+  const outOfRange = points.flatMap((point, i) =>
+    (options.min !== undefined && point.value < options.min) || (options.max !== undefined && point.value > options.max)
+      ? [i]
+      : []
+  )
+  issues.push(...toIssues('out_of_range', outOfRange, points))
+
+  const steps = points.slice(1).map((point, i) => point.value - points[i].value)
+  const spikes: number[] = []
+  const decreases = options.cumulative ? steps.flatMap((step, i) => (step < 0 ? [i + 1] : [])) : []
+  if (options.cumulative) {
+    // Counter going backwards, then increments far above the usual ones
+    issues.push(...toIssues('counter_decrease', decreases, points))
+    const increments = steps.filter((step) => step >= 0)
+    const { center, sigma } = robustSpread(increments)
+    steps.forEach((step, i) => {
+      const statistical = sigma > 0 && (step - center) / sigma > options.spikeFactor
+      if (step >= 0 && (statistical || (options.maxStep !== undefined && step > options.maxStep))) spikes.push(i + 1)
+    })
+  } else {
+    // A spike jumps away and comes back: two large steps of opposite sign around one reading
+    const { center, sigma } = robustSpread(steps)
+    const large = (step: number) =>
+      (sigma > 0 && Math.abs(step - center) / sigma > options.spikeFactor) ||
+      (options.maxStep !== undefined && Math.abs(step) > options.maxStep)
+    for (let i = 1; i < points.length; i++) {
+      const before = steps[i - 1]
+      const after = steps[i]
+      if (large(before) && (after === undefined || (large(after) && Math.sign(after) !== Math.sign(before)))) {
+        spikes.push(i)
+      }
+    }
+  }
+  issues.push(...toIssues('spike', spikes, points))
+
+  // Flatlines: runs of identical values (for counters: no increase) lasting long enough
+  const flatlines: QualityIssue[] = []
+  let runStart = 0
+  for (let i = 1; i <= points.length; i++) {
+    if (i < points.length && points[i].value === points[runStart].value) continue
+    const run = { start: points[runStart]?.ts, end: points[i - 1]?.ts, points: i - runStart }
+    if (run.points >= 3 && run.end - run.start >= options.flatlineMinDurationMs) {
+      flatlines.push({ type: 'flatline', ...run })
+    }
+    runStart = i
+  }
+  issues.push(...flatlines)
+
+  issues.sort((a, b) => a.start - b.start || a.end - b.end)
+  const flagged = new Set([...outOfRange, ...spikes, ...decreases])
+  const range = Math.max(1, endTs - startTs)
+  const coverage = Math.max(0, 1 - gapTime / range)
+  const flaggedShare = points.length > 0 ? flagged.size / points.length : 0
+  const counts = Object.fromEntries(QUALITY_ISSUE_TYPES.map((type) => [type, 0])) as Record<QualityIssueType, number>
+  for (const issue of issues) counts[issue.type]++
+
+  return {
+    quality: {
+      points: points.length,
+      nonNumeric,
+      expectedIntervalMs: expected,
+      coverage: Math.round(coverage * 1000) / 1000,
+      score: Math.round(100 * coverage * (1 - flaggedShare)),
+      counts,
+      issues,
+    },
+    // Numeric readings that were not flagged, oldest first
+    cleaned: points.filter((_, i) => !flagged.has(i)).map((point) => point.source),
+  }
+}
+
+/**
+ * Quality of every key, with the series minus non-numeric readings, spikes,
+ * out-of-range readings and counter decreases when `clean` is set. Flatlines and gaps are reported
+ * but left as they are: there is nothing trustworthy to put in their place.
+ */
+export function analyzeTimeseries(
+  data: Record<string, TelemetryPoint[]>,
+  startTs: number,
+  endTs: number,
+  optionsFor: (key: string) => QualityOptions,
+  clean = false
+): { quality: Record<string, KeyQuality>; cleaned?: Record<string, TelemetryPoint[]> } {
+  const quality: Record<string, KeyQuality> = {}
+  const cleaned: Record<string, TelemetryPoint[]> = {}
+
+  for (const [key, series] of Object.entries(data)) {
+    const result = analyzeSeries(series, startTs, endTs, optionsFor(key))
+    quality[key] = result.quality
+    if (clean) {
+      cleaned[key] = result.cleaned
+    }
+  }
+  return clean ? { quality, cleaned } : { quality }
+}
@@ -1,5 +1,9 @@
-import axios from 'axios'
 import { logger } from '../utils/logger.js'
+import { NotFoundError, UpstreamUnavailableError } from '../utils/apiError.js'
+import { getAllCustomerDevices } from '../modules/customer/customer.service.js'
+import { AuthPayload } from '../modules/auth/auth.model.js'
+import { filterVisibleDevices } from '../modules/auth/auth.policy.js'
+import { eventBus } from './event-bus.js'
 
 const deviceLogger = logger.child({ module: 'DeviceService' })
 
@@ -10,26 +14,70 @@ export interface Device {
   [key: string]: any
 }
 
+export type DeviceFetcher = () => Promise<Device[]>
+
 /**
  * Device Service
  * Fetches device information from the customer API
  */
 export class DeviceService {
-  private readonly baseUrl: string
-  private readonly apiTimeout: number = 10000
+  private readonly fetchDevices: DeviceFetcher
   private devicesCache: Device[] | null = null
   private cacheTimestamp: number = 0
   private readonly cacheDuration: number = 5 * 60 * 1000 // 5 minutes
 
-  constructor(baseUrl: string = 'http://localhost:4000') {
-    this.baseUrl = baseUrl
+  /**
+   * @param fetchDevices - Source of the device list. Defaults to the customer service
+   *   directly rather than looping back through GET /customer/devices, which requires a user token.
+   */
+  constructor(fetchDevices: DeviceFetcher = getAllCustomerDevices) {
+    this.fetchDevices = fetchDevices
   }
 
   /**
    * Get all devices from the customer API
-   * GET {baseUrl}/customer/devices
+   * When `auth` is given, only the devices that caller may see are returned.
+   */
+  async getDevices(forceRefresh: boolean = false, auth?: AuthPayload): Promise<Device[]> {
+    const devices = await this.loadDevices(forceRefresh)
+    return auth ? filterVisibleDevices(auth, devices) : devices
+  }
+
+  /**
+   * Get a specific device by UUID
+   * Devices hidden from `auth` are reported as not found so their existence is not leaked.
+   */
+  async getDeviceByUUID(
+    deviceUUID: string,
+    forceRefresh: boolean = false,
+    auth?: AuthPayload
+  ): Promise<Device> {
+    const devices = await this.getDevices(forceRefresh, auth)
+    const device = devices.find((d) => d.deviceUUID === deviceUUID)
+
+    if (!device) {
+      throw new NotFoundError(`Device with UUID ${deviceUUID} not found`)
+    }
+
+    return device
+  }
+
+  /**
+   * Validate that a device exists (and is visible to `auth`) and get its details
+   */
+  async validateDevice(deviceUUID: string, auth?: AuthPayload): Promise<Device> {
+    try {
+      return await this.getDeviceByUUID(deviceUUID, false, auth)
+    } catch (error) {
+      // Try refreshing the cache
+      return await this.getDeviceByUUID(deviceUUID, true, auth)
+    }
+  }
+
+  /**
+   * Fetch the unscoped device list, using the cache when fresh
    */
-  async getDevices(forceRefresh: boolean = false): Promise<Device[]> {
+  private async loadDevices(forceRefresh: boolean): Promise<Device[]> {
     try {
       // Return cached devices if still fresh
       if (!forceRefresh && this.devicesCache && this.isCacheFresh()) {
@@ -39,24 +87,16 @@ export class DeviceService {
 
       deviceLogger.info('Fetching devices from API')
 
-      const response = await axios.get(
-        `${this.baseUrl}/customer/devices`,
-        {
-          timeout: this.apiTimeout,
-        }
-      )
-
-      // Some endpoints wrap payload in { success, data }
-      const payload = response.data as unknown
-      const devices =
-        payload && typeof payload === 'object' && 'data' in (payload as any)
-          ? (payload as any).data
-          : payload
+      const devices: unknown = await this.fetchDevices()
 
       if (!Array.isArray(devices)) {
         throw new Error('Invalid devices response: expected array')
       }
 
+      if (this.devicesCache) {
+        this.publishChanges(this.devicesCache, devices)
+      }
+
       // Cache the devices
       this.devicesCache = devices
       this.cacheTimestamp = Date.now()
@@ -73,34 +113,36 @@ export class DeviceService {
         return this.devicesCache
       }
 
-      throw new Error(`Failed to fetch devices from ${this.baseUrl}/customer/devices: ${errorMsg}`)
+      throw new UpstreamUnavailableError(`Failed to fetch devices from customer API: ${errorMsg}`)
     }
   }
 
   /**
-   * Get a specific device by UUID
+   * Announce devices that appeared or disappeared since the previous fetch
    */
-  async getDeviceByUUID(deviceUUID: string, forceRefresh: boolean = false): Promise<Device> {
-    const devices = await this.getDevices(forceRefresh)
-    const device = devices.find((d) => d.deviceUUID === deviceUUID)
+  private publishChanges(previous: Device[], current: Device[]): void {
+    const previousUUIDs = new Set(previous.map((device) => device.deviceUUID))
+    const currentUUIDs = new Set(current.map((device) => device.deviceUUID))
 
-    if (!device) {
-      throw new Error(`Device with UUID ${deviceUUID} not found`)
+    for (const device of current) {
+      if (!previousUUIDs.has(device.deviceUUID)) this.publishChange('device.added', device)
+    }
+    for (const device of previous) {
+      if (!currentUUIDs.has(device.deviceUUID)) this.publishChange('device.removed', device)
     }
-
-    return device
   }
 
-  /**
-   * Validate that a device exists and get its details
-   */
-  async validateDevice(deviceUUID: string): Promise<Device> {
-    try {
-      return await this.getDeviceByUUID(deviceUUID, false)
-    } catch (error) {
-      // Try refreshing the cache
-      return await this.getDeviceByUUID(deviceUUID, true)
-    }
+  private publishChange(type: 'device.added' | 'device.removed', device: Device): void {
+    const name = device.name ?? device.deviceUUID
+    eventBus.publish({
+      type,
+      severity: 'info',
+      title: type === 'device.added' ? `Device ${name} was added` : `Device ${name} was removed`,
+      deviceUUID: device.deviceUUID,
+      deviceName: device.name,
+      customerId: device.assignedToCustomer ? device.customerId : undefined,
+      data: {},
+    })
   }
 
   /**
@@ -0,0 +1,227 @@
+/**
+ * Thin out timeseries for charts while keeping their shape.
+ *
+ * - lttb: Largest-Triangle-Three-Buckets keeps, in each bucket, the point that
+ *   forms the largest triangle with its neighbours, so peaks and slopes survive
+ * - minmax: the lowest and highest point of each time bucket, for envelopes
+ *   where no extreme may be lost
+ *
+ * Aggregated queries are not thinned here: the caller widens the interval so
+ * ThingsBoard returns fewer, still correctly aggregated, buckets.
+ */
+
+import { TelemetryPoint, TimeseriesData } from './thingsboard/telemetry-cache.js'
+
+export const DOWNSAMPLE_METHODS = ['lttb', 'minmax'] as const
+export type DownsampleMethod = (typeof DOWNSAMPLE_METHODS)[number]
+
+export interface PointCounts {
+  original: number
+  returned: number
+}
+
+const numeric = (point: TelemetryPoint) => (typeof point.value === 'boolean' ? NaN : Number(point.value))
+
+/**
+ * Largest-Triangle-Three-Buckets on points sorted by ts; keeps the first and last point
+ */
+export function lttb(points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] {
+  if (points.length <= maxPoints || maxPoints < 3) return points
+
+  const sampled: TelemetryPoint[] = [points[0]]
+  const bucketSize = (points.length - 2) / (maxPoints - 2)
+  let previous = 0
+
+  for (let bucket = 0; bucket < maxPoints - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1
+    const end = Math.floor((bucket + 1) * bucketSize) + 1
+
+    // Average of the next bucket (the last point for the final bucket)
+    const nextStart = end
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length)
+    let avgTs = 0
+    let avgValue = 0
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgTs += points[i].ts
+      avgValue += numeric(points[i])
+    }
+    const nextCount = nextEnd - nextStart
+    avgTs /= nextCount
+    avgValue /= nextCount
+
+    const a = points[previous]
+    const aValue = numeric(a)
+    let maxArea = -1
+    let chosen = start
+    for (let i = start; i < end; i++) {
+      const area = Math.abs((a.ts - avgTs) * (numeric(points[i]) - aValue) - (a.ts - points[i].ts) * (avgValue - aValue))
+      if (area > maxArea) {
+        maxArea = area
+        chosen = i
+      }
+    }
+
+    sampled.push(points[chosen])
+    previous = chosen
+  }
+
+  sampled.push(points[points.length - 1])
+  return sampled
+}
+
+/**
+ * Minimum and maximum of each of maxPoints/2 equal time buckets, in time order
+ */
+export function minMaxBuckets(points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] {
+  if (points.length <= maxPoints) return points
+
+  const bucketCount = Math.max(1, Math.floor(maxPoints / 2))
+  const first = points[0].ts
+  const span = points[points.length - 1].ts - first + 1
+  const buckets: { min: TelemetryPoint; max: TelemetryPoint }[] = []
+
+  for (const point of points) {
+    const index = Math.min(bucketCount - 1, Math.floor(((point.ts - first) / span) * bucketCount))
+    const bucket = buckets[index]
+    if (!bucket) {
+      buckets[index] = { min: point, max: point }
+    } else {
+      if (numeric(point) < numeric(bucket.min)) bucket.min = point
+      if (numeric(point) > numeric(bucket.max)) bucket.max = point
+    }
+  }
+
+  return buckets.flatMap(({ min, max }) => (min === max ? [min] : min.ts <= max.ts ? [min, max] : [max, min]))
+}
+
+/**
+ * Every n-th point, for series with non-numeric values
+ */
+function evenlySpaced(points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] {
+  if (points.length <= maxPoints) return points
+  const step = (points.length - 1) / (maxPoints - 1)
+  return Array.from({ length: maxPoints }, (_, i) => points[Math.round(i * step)])
+}
+
+/**
+ * Downsample every key to at most `maxPoints` points. Series keep their order
+ * (ASC or DESC) and value types; non-numeric series are thinned evenly.
+ */
+export function downsampleTimeseries(
+  data: TimeseriesData,
+  maxPoints: number,
+  method: DownsampleMethod
+): { data: TimeseriesData; points: Record<string, PointCounts> } {
+  const result: TimeseriesData = {}
+  const points: Record<string, PointCounts> = {}
+
+  for (const [key, series] of Object.entries(data)) {
+    const descending = series.length > 1 && series[0].ts > series[series.length - 1].ts
+    const ascending = descending ? [...series].reverse() : series
+
+    let sampled: TelemetryPoint[]
+    if (ascending.some((point) => Number.isNaN(numeric(point)) || point.value === null || point.value === '')) {
+      sampled = evenlySpaced(ascending, maxPoints)
+    } else {
+      sampled = method === 'minmax' ? minMaxBuckets(ascending, maxPoints) : lttb(ascending, maxPoints)
+    }
+
+    result[key] = descending ? [...sampled].reverse() : sampled
+    points[key] = { original: series.length, returned: sampled.length }
+  }
+
+  return { data: result, points }
+}
+
+/**
+ * Interval for an aggregated query that yields at most `maxPoints` buckets: the
+ * requested interval, or the smallest multiple of it that is wide enough
+ */
+export function widenInterval(startTs: number, endTs: number, interval: number, maxPoints: number): number {
+  const buckets = Math.ceil((endTs - startTs) / interval)
+  return buckets <= maxPoints ? interval : interval * Math.ceil(buckets / maxPoints)
+}
+
+export interface DownsamplingPlan {
+  maxPoints: number
+  method: DownsampleMethod | 'interval'
+  startTs: number
+  endTs: number
+  // Interval and limit to send to ThingsBoard
+  interval?: number
+  limit?: number
+  requestedInterval?: number
+}
+
+export interface DownsamplingMeta {
+  method: DownsampleMethod | 'interval'
+  maxPoints: number
+  requestedInterval?: number
+  interval?: number
+  // For aggregated queries, `original` is the number of buckets at the requested interval
+  points: Record<string, PointCounts>
+  // Raw keys that hit the fetch limit, so the series end early
+  truncated?: string[]
+}
+
+/**
+ * How to fetch a query that asks for at most `maxPoints` points per key.
+ * Aggregated queries get a wider interval; raw queries are fetched up to
+ * `rawLimit` points (unless the caller set a limit) and thinned afterwards.
+ */
+export function planDownsampling(
+  query: { startTs: number; endTs: number; interval?: number; agg?: string; limit?: number },
+  maxPoints: number,
+  method: DownsampleMethod,
+  rawLimit: number
+): DownsamplingPlan {
+  const { startTs, endTs } = query
+  if (query.agg && query.agg.toUpperCase() !== 'NONE' && query.interval) {
+    return {
+      maxPoints,
+      method: 'interval',
+      startTs,
+      endTs,
+      interval: widenInterval(startTs, endTs, query.interval, maxPoints),
+      limit: query.limit,
+      requestedInterval: query.interval,
+    }
+  }
+  return { maxPoints, method, startTs, endTs, interval: query.interval, limit: query.limit ?? rawLimit }
+}
+
+/**
+ * Thin the fetched data according to `plan` and describe what was done
+ */
+export function applyDownsampling(
+  plan: DownsamplingPlan,
+  data: TimeseriesData
+): { data: TimeseriesData; meta: DownsamplingMeta } {
+  if (plan.method === 'interval') {
+    const requested = Math.ceil((plan.endTs - plan.startTs) / plan.requestedInterval!)
+    return {
+      data,
+      meta: {
+        method: 'interval',
+        maxPoints: plan.maxPoints,
+        requestedInterval: plan.requestedInterval,
+        interval: plan.interval,
+        points: Object.fromEntries(
+          Object.entries(data).map(([key, series]) => [key, { original: requested, returned: series.length }])
+        ),
+      },
+    }
+  }
+
+  const truncated = Object.keys(data).filter((key) => plan.limit !== undefined && data[key].length >= plan.limit)
+  const result = downsampleTimeseries(data, plan.maxPoints, plan.method)
+  return {
+    data: result.data,
+    meta: {
+      method: plan.method,
+      maxPoints: plan.maxPoints,
+      points: result.points,
+      ...(truncated.length > 0 ? { truncated } : {}),
+    },
+  }
+}
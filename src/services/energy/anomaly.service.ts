@@ -0,0 +1,166 @@
+import { logger } from '../../utils/logger.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { TelemetryPoint } from '../thingsboard/telemetry-cache.js'
+import {
+  AnomalyOptions,
+  AnomalyPeriod,
+  Baseline,
+  buildBaseline,
+  detectAnomalies,
+  HourlyValue,
+  ScoredHour,
+} from './baseline.js'
+import { ConsumptionOptions } from './consumption.js'
+import { ConsumptionService } from './consumption.service.js'
+
+const anomalyLogger = logger.child({ module: 'AnomalyService' })
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export interface BaselineQuery extends ConsumptionOptions {
+  deviceUUID: string
+  key: string
+  // true: the key is a cumulative counter and hourly consumption is modelled;
+  // false: the hourly average of the key (e.g. active power) is modelled
+  cumulative: boolean
+  // Days of history, ending at `endTs`, the baseline is learned from
+  baselineDays: number
+  endTs: number
+  timeZone: string
+}
+
+export interface AnomalyQuery extends Omit<BaselineQuery, 'endTs'>, AnomalyOptions {
+  startTs: number
+  endTs: number
+}
+
+export interface BaselineResult extends Baseline {
+  from: number
+  to: number
+}
+
+export interface AnomalyResult {
+  periods: AnomalyPeriod[]
+  hours: ScoredHour[]
+  summary: {
+    // Hours compared with the baseline
+    scoredHours: number
+    anomalousHours: number
+    // Hours without enough data, or without a baseline for their slot
+    skippedHours: number
+    expected: number
+    actual: number
+  }
+  baseline: Omit<BaselineResult, 'slots'>
+}
+
+/**
+ * Anomaly Service
+ * Learns hour-of-week baselines from a device's history in ThingsBoard and
+ * flags recent hours that deviate from them
+ */
+export class AnomalyService {
+  private logger = anomalyLogger
+  private readonly consumptionService: ConsumptionService
+  private readonly telemetryService: TelemetryProvider
+  // Hourly consumption buckets backed by less measured data are left out (gaps are spread evenly)
+  private readonly minCoverage = 0.5
+  private readonly fetchLimit = 50000
+
+  constructor(consumptionService: ConsumptionService, telemetryService: TelemetryProvider) {
+    this.consumptionService = consumptionService
+    this.telemetryService = telemetryService
+  }
+
+  /**
+   * Baseline learned from the `baselineDays` days before `endTs` (rounded down to the hour)
+   */
+  async getBaseline(query: BaselineQuery): Promise<BaselineResult> {
+    const to = Math.floor(query.endTs / HOUR) * HOUR
+    const from = to - query.baselineDays * DAY
+    const values = await this.getHourlyValues(query, from, to)
+
+    return { ...buildBaseline(values, { timeZone: query.timeZone, minSamples: 3 }), from, to }
+  }
+
+  /**
+   * Score every full hour of [startTs, endTs) against the baseline learned from the days before startTs
+   */
+  async detectAnomalies(query: AnomalyQuery): Promise<AnomalyResult> {
+    const from = Math.ceil(query.startTs / HOUR) * HOUR
+    const to = Math.floor(query.endTs / HOUR) * HOUR
+    const { slots, ...baseline } = await this.getBaseline({ ...query, endTs: from })
+    const values = to > from ? await this.getHourlyValues(query, from, to) : []
+    const { hours, periods } = detectAnomalies({ ...baseline, slots }, values, query)
+
+    const scored = hours.filter((hour) => hour.expected !== null)
+    const anomalousHours = scored.filter((hour) => hour.anomalous).length
+    this.logger.info(
+      `Anomalies ${query.deviceUUID}/${query.key}: baseline=${baseline.samples}h scored=${scored.length}h periods=${periods.length}`
+    )
+
+    return {
+      periods,
+      hours,
+      summary: {
+        scoredHours: scored.length,
+        anomalousHours,
+        skippedHours: Math.max(0, (to - from) / HOUR - scored.length),
+        expected: round(scored.reduce((sum, hour) => sum + (hour.expected ?? 0), 0)),
+        actual: round(scored.reduce((sum, hour) => sum + hour.value, 0)),
+      },
+      baseline,
+    }
+  }
+
+  /**
+   * Full hours of [from, to) with enough data: consumption of a counter, or the hourly average of a key
+   */
+  private async getHourlyValues(query: BaselineQuery, from: number, to: number): Promise<HourlyValue[]> {
+    if (query.cumulative) {
+      const { buckets } = await this.consumptionService.getConsumption({
+        deviceUUID: query.deviceUUID,
+        key: query.key,
+        startTs: from,
+        endTs: to,
+        granularity: 'hour',
+        rolloverValue: query.rolloverValue,
+        maxGapMs: query.maxGapMs,
+      })
+      return buckets
+        .filter((bucket) => bucket.value !== null && bucket.end - bucket.start === HOUR)
+        .filter((bucket) => bucket.coverage >= this.minCoverage)
+        .map((bucket) => ({ start: bucket.start, end: bucket.end, value: bucket.value! }))
+    }
+
+    const data = await this.telemetryService.getTimeseries(
+      'DEVICE',
+      query.deviceUUID,
+      [query.key],
+      from,
+      to,
+      HOUR,
+      'AVG',
+      'ASC',
+      this.fetchLimit
+    )
+    const points: TelemetryPoint[] = data[query.key] ?? []
+
+    // Aggregated points are stamped inside their interval; intervals start at `from`
+    const values: HourlyValue[] = []
+    for (const point of points) {
+      const start = from + Math.floor((point.ts - from) / HOUR) * HOUR
+      const value = Number(point.value)
+      if (start >= from && start + HOUR <= to && Number.isFinite(value)) {
+        values.push({ start, end: start + HOUR, value })
+      }
+    }
+    return values
+  }
+}
+
+function round(value: number, decimals = 6): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
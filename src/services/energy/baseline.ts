@@ -0,0 +1,255 @@
+/**
+ * Learned baselines of hourly values (consumption or average load) and anomaly
+ * scoring against them.
+ *
+ * A baseline is an hour-of-week profile in local time: the mean and standard
+ * deviation of the values seen in each of the 168 weekday/hour slots over a
+ * history window. A slot with too few samples falls back to the hour-of-day
+ * profile of its day type (working day or weekend).
+ *
+ * An hour is anomalous when it is at least `threshold` standard deviations and
+ * `minDeviation` (relative) away from what its slot expects. Consecutive
+ * anomalous hours in the same direction are merged into one period.
+ */
+
+import { getZonedParts } from '../../utils/time.js'
+
+export interface HourlyValue {
+  start: number
+  end: number
+  value: number
+}
+
+export type BaselineSource = 'weekly' | 'daily' | 'none'
+
+export interface BaselineSlot {
+  weekday: number // ISO: 1 = Monday ... 7 = Sunday
+  hour: number
+  // null when neither the slot nor its day-type fallback has enough samples
+  mean: number | null
+  stdDev: number | null
+  samples: number
+  source: BaselineSource
+}
+
+export interface Baseline {
+  timeZone: string
+  // Hourly values the profile was learned from
+  samples: number
+  // Mean absolute hourly value, used as the noise floor of the scores
+  scale: number
+  // 168 slots, Monday 00:00 first
+  slots: BaselineSlot[]
+}
+
+export interface BaselineOptions {
+  timeZone: string
+  // Samples a slot needs before its own statistics are used
+  minSamples: number
+}
+
+export interface AnomalyOptions {
+  // Deviation, in standard deviations, from which an hour is anomalous
+  threshold: number
+  // Relative deviation from the expected value that is also required (0.2 = 20 %)
+  minDeviation: number
+}
+
+export type AnomalyDirection = 'above' | 'below'
+
+export interface ScoredHour extends HourlyValue {
+  expected: number | null
+  stdDev: number | null
+  // Signed deviation in standard deviations; null without a baseline for the slot
+  score: number | null
+  anomalous: boolean
+}
+
+export interface AnomalyPeriod {
+  start: number
+  end: number
+  hours: number
+  direction: AnomalyDirection
+  expected: number
+  actual: number
+  deviation: number
+  // null when nothing was expected
+  deviationPct: number | null
+  maxScore: number
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  timeZone: 'UTC',
+  minSamples: 3,
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  threshold: 3,
+  minDeviation: 0.2,
+}
+
+const HOURS_PER_WEEK = 7 * 24
+// Lower bounds of the standard deviation used for scoring, so that a perfectly
+// regular slot does not turn measurement noise into huge scores
+const MIN_RELATIVE_STD = 0.05
+const MIN_SCALE_STD = 0.01
+
+interface SlotStats {
+  mean: number
+  stdDev: number
+  samples: number
+}
+
+const slotIndex = (weekday: number, hour: number) => (weekday - 1) * 24 + hour
+const isWeekend = (weekday: number) => weekday >= 6
+
+function localSlot(ts: number, timeZone: string): { weekday: number; hour: number } {
+  const { weekday, hour } = getZonedParts(ts, timeZone)
+  return { weekday, hour }
+}
+
+function stats(values: number[]): SlotStats {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance =
+    values.length > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1) : 0
+  return { mean, stdDev: Math.sqrt(variance), samples: values.length }
+}
+
+/**
+ * Hour-of-week profile of `values`, bucketed by the local weekday and hour of their start
+ */
+export function buildBaseline(values: HourlyValue[], options: BaselineOptions = DEFAULT_BASELINE_OPTIONS): Baseline {
+  const weekly: number[][] = Array.from({ length: HOURS_PER_WEEK }, () => [])
+  // Hour-of-day values of working days ([0]) and weekends ([1])
+  const daily: number[][][] = [0, 1].map(() => Array.from({ length: 24 }, () => []))
+
+  for (const { start, value } of values) {
+    if (!Number.isFinite(value)) continue
+    const { weekday, hour } = localSlot(start, options.timeZone)
+    weekly[slotIndex(weekday, hour)].push(value)
+    daily[isWeekend(weekday) ? 1 : 0][hour].push(value)
+  }
+
+  const slots: BaselineSlot[] = []
+  for (let weekday = 1; weekday <= 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const own = weekly[slotIndex(weekday, hour)]
+      const fallback = daily[isWeekend(weekday) ? 1 : 0][hour]
+      const [source, sample]: [BaselineSource, number[]] =
+        own.length >= options.minSamples
+          ? ['weekly', own]
+          : fallback.length >= options.minSamples
+            ? ['daily', fallback]
+            : ['none', []]
+
+      const slotStats = sample.length > 0 ? stats(sample) : null
+      slots.push({
+        weekday,
+        hour,
+        mean: slotStats ? round(slotStats.mean) : null,
+        stdDev: slotStats ? round(slotStats.stdDev) : null,
+        samples: sample.length,
+        source,
+      })
+    }
+  }
+
+  const finite = values.filter((v) => Number.isFinite(v.value))
+  return {
+    timeZone: options.timeZone,
+    samples: finite.length,
+    scale: finite.length > 0 ? round(finite.reduce((sum, v) => sum + Math.abs(v.value), 0) / finite.length) : 0,
+    slots,
+  }
+}
+
+/**
+ * Score each hour against its baseline slot and list the anomalous periods
+ */
+export function detectAnomalies(
+  baseline: Baseline,
+  values: HourlyValue[],
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): { hours: ScoredHour[]; periods: AnomalyPeriod[] } {
+  const hours = [...values]
+    .sort((a, b) => a.start - b.start)
+    .map((hour): ScoredHour => {
+      const { weekday, hour: hourOfDay } = localSlot(hour.start, baseline.timeZone)
+      const slot = baseline.slots[slotIndex(weekday, hourOfDay)]
+      if (slot.mean === null || slot.stdDev === null || !Number.isFinite(hour.value)) {
+        return { ...hour, expected: null, stdDev: null, score: null, anomalous: false }
+      }
+
+      const deviation = hour.value - slot.mean
+      const sigma = Math.max(
+        slot.stdDev,
+        Math.abs(slot.mean) * MIN_RELATIVE_STD,
+        baseline.scale * MIN_SCALE_STD,
+        Number.EPSILON
+      )
+      const score = deviation / sigma
+      const significant = Math.abs(deviation) >= Math.abs(slot.mean) * options.minDeviation
+      return {
+        ...hour,
+        expected: slot.mean,
+        stdDev: slot.stdDev,
+        score: round(score, 2),
+        anomalous: significant && Math.abs(score) >= options.threshold,
+      }
+    })
+
+  return { hours, periods: mergePeriods(hours) }
+}
+
+/**
+ * Join back-to-back anomalous hours that deviate in the same direction
+ */
+function mergePeriods(hours: ScoredHour[]): AnomalyPeriod[] {
+  const periods: AnomalyPeriod[] = []
+  let current: AnomalyPeriod | null = null
+
+  for (const hour of hours) {
+    if (!hour.anomalous || hour.expected === null || hour.score === null) {
+      current = null
+      continue
+    }
+
+    const direction: AnomalyDirection = hour.score > 0 ? 'above' : 'below'
+    if (current && current.end === hour.start && current.direction === direction) {
+      current.end = hour.end
+      current.hours++
+      current.expected += hour.expected
+      current.actual += hour.value
+      current.maxScore = Math.max(current.maxScore, Math.abs(hour.score))
+    } else {
+      current = {
+        start: hour.start,
+        end: hour.end,
+        hours: 1,
+        direction,
+        expected: hour.expected,
+        actual: hour.value,
+        deviation: 0,
+        deviationPct: null,
+        maxScore: Math.abs(hour.score),
+      }
+      periods.push(current)
+    }
+  }
+
+  return periods.map((period) => {
+    const deviation = period.actual - period.expected
+    return {
+      ...period,
+      expected: round(period.expected),
+      actual: round(period.actual),
+      deviation: round(deviation),
+      deviationPct: period.expected !== 0 ? round((deviation / Math.abs(period.expected)) * 100, 1) : null,
+    }
+  })
+}
+
+function round(value: number, decimals = 6): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
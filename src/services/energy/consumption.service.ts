@@ -0,0 +1,92 @@
+import { logger } from '../../utils/logger.js'
+import { CalendarUnit, splitRange } from '../../utils/calendar.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { TelemetryPoint } from '../thingsboard/telemetry-cache.js'
+import { computeConsumption, ConsumptionOptions, ConsumptionResult, CounterReading } from './consumption.js'
+
+const consumptionLogger = logger.child({ module: 'ConsumptionService' })
+
+export interface ConsumptionQuery extends ConsumptionOptions {
+  deviceUUID: string
+  // Cumulative counter key, e.g. AccumulatedActiveEnergyDelivered
+  key: string
+  startTs: number
+  endTs: number
+  granularity: CalendarUnit
+}
+
+/**
+ * Consumption Service
+ * Computes per-bucket consumption from cumulative meter counters stored in ThingsBoard
+ */
+export class ConsumptionService {
+  private logger = consumptionLogger
+  private readonly telemetryService: TelemetryProvider
+  // Raw readings are fetched in windows of this size to stay under ThingsBoard's limit
+  private readonly fetchWindowMs = 7 * 24 * 60 * 60 * 1000
+  private readonly fetchLimit = 50000
+  // Extra readings fetched around the range so edge buckets can be interpolated
+  private readonly defaultLookaroundMs = 6 * 60 * 60 * 1000
+
+  constructor(telemetryService: TelemetryProvider) {
+    this.telemetryService = telemetryService
+  }
+
+  async getConsumption(query: ConsumptionQuery): Promise<ConsumptionResult & ConsumptionQuery> {
+    const lookaround = query.maxGapMs ?? this.defaultLookaroundMs
+    const readings = await this.getCounterReadings(
+      query.deviceUUID,
+      query.key,
+      query.startTs - lookaround,
+      query.endTs + lookaround
+    )
+
+    const buckets = splitRange(query.startTs, query.endTs, query.granularity)
+    const result = computeConsumption(readings, buckets, {
+      rolloverValue: query.rolloverValue,
+      maxGapMs: query.maxGapMs,
+    })
+
+    this.logger.info(
+      `Consumption ${query.deviceUUID}/${query.key}: readings=${result.readings} buckets=${buckets.length} events=${result.events.length}`
+    )
+    return { ...query, ...result }
+  }
+
+  /**
+   * Raw numeric counter readings in [startTs, endTs), oldest first
+   */
+  async getCounterReadings(
+    deviceUUID: string,
+    key: string,
+    startTs: number,
+    endTs: number
+  ): Promise<CounterReading[]> {
+    const readings: CounterReading[] = []
+
+    for (let from = startTs; from < endTs; from += this.fetchWindowMs) {
+      const to = Math.min(from + this.fetchWindowMs, endTs)
+      const data = await this.telemetryService.getTimeseries(
+        'DEVICE',
+        deviceUUID,
+        [key],
+        from,
+        to,
+        undefined,
+        'NONE',
+        'ASC',
+        this.fetchLimit
+      )
+
+      const points: TelemetryPoint[] = data[key] ?? []
+      if (points.length >= this.fetchLimit) {
+        this.logger.warn(`Reading limit reached for ${deviceUUID}/${key} in ${from}-${to}; some readings are missing`)
+      }
+      for (const point of points) {
+        readings.push({ ts: point.ts, value: Number(point.value) })
+      }
+    }
+
+    return readings
+  }
+}
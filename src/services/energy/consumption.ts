@@ -0,0 +1,225 @@
+/**
+ * Turn cumulative counter readings (e.g. active energy index in kWh) into
+ * consumption per bucket.
+ *
+ * Each pair of consecutive readings forms a segment whose increase is spread
+ * linearly over its duration, so bucket boundaries that fall between two
+ * readings are interpolated. Segments are "estimated" rather than "measured" when:
+ * - the readings are further apart than maxGapMs (data gap, interpolated across)
+ * - the counter went backwards because of a reset or a meter replacement; the
+ *   consumption for that segment is estimated from the neighbouring rate
+ * - they extend the first/last reading up to maxGapMs towards the range edges
+ *
+ * A counter that wraps around at rolloverValue is treated as a measured segment.
+ */
+
+export interface CounterReading {
+  ts: number
+  value: number
+}
+
+export interface ConsumptionBucketRange {
+  start: number
+  end: number
+  label: string
+}
+
+export type BucketStatus = 'measured' | 'estimated' | 'missing'
+
+export interface ConsumptionBucket extends ConsumptionBucketRange {
+  // null when no reading covers the bucket at all
+  value: number | null
+  status: BucketStatus
+  // Share of the bucket backed by measured segments (0..1)
+  coverage: number
+}
+
+export type CounterEventType = 'rollover' | 'reset' | 'replacement'
+
+export interface CounterEvent {
+  ts: number
+  type: CounterEventType
+  before: number
+  after: number
+}
+
+export interface ConsumptionOptions {
+  // Counter maximum, for meters that wrap around (e.g. 999999.9)
+  rolloverValue?: number
+  // Readings further apart than this are a gap; defaults to 3x the median reading interval (min 15 min)
+  maxGapMs?: number
+}
+
+export interface ConsumptionResult {
+  buckets: ConsumptionBucket[]
+  total: number
+  events: CounterEvent[]
+  readings: number
+  maxGapMs: number
+}
+
+interface Segment {
+  from: number
+  to: number
+  delta: number
+  estimated: boolean
+}
+
+const MIN_DEFAULT_GAP_MS = 15 * 60 * 1000
+
+export function computeConsumption(
+  rawReadings: CounterReading[],
+  buckets: ConsumptionBucketRange[],
+  options: ConsumptionOptions = {}
+): ConsumptionResult {
+  const readings = normalizeReadings(rawReadings)
+  const maxGapMs = options.maxGapMs ?? defaultMaxGap(readings)
+  const events: CounterEvent[] = []
+  const segments: Segment[] = []
+
+  for (let i = 1; i < readings.length; i++) {
+    const prev = readings[i - 1]
+    const cur = readings[i]
+    const gap = cur.ts - prev.ts > maxGapMs
+    let delta = cur.value - prev.value
+
+    if (delta < 0) {
+      const noiseTolerance = Math.max(1e-9, Math.abs(prev.value) * 1e-6)
+      const rollover = options.rolloverValue
+
+      if (-delta <= noiseTolerance) {
+        delta = 0
+      } else if (rollover && prev.value >= rollover * 0.9 && cur.value <= rollover * 0.1) {
+        delta = rollover - prev.value + cur.value
+        events.push({ ts: cur.ts, type: 'rollover', before: prev.value, after: cur.value })
+      } else {
+        // Counter restarted near zero (reset) or jumped to another meter's index (replacement)
+        const type: CounterEventType = cur.value <= Math.abs(prev.value) * 0.01 ? 'reset' : 'replacement'
+        events.push({ ts: cur.ts, type, before: prev.value, after: cur.value })
+        segments.push({ from: prev.ts, to: cur.ts, delta: NaN, estimated: true })
+        continue
+      }
+    }
+
+    segments.push({ from: prev.ts, to: cur.ts, delta, estimated: gap })
+  }
+
+  fillUnknownSegments(segments)
+
+  if (buckets.length > 0 && segments.length > 0) {
+    extendToRangeEdges(segments, buckets[0].start, buckets[buckets.length - 1].end, maxGapMs)
+  }
+
+  const result = distribute(segments, buckets)
+  return {
+    buckets: result,
+    total: round(result.reduce((sum, b) => sum + (b.value ?? 0), 0)),
+    events,
+    readings: readings.length,
+    maxGapMs,
+  }
+}
+
+/**
+ * Sort, drop non-finite values and keep the last reading per timestamp
+ */
+function normalizeReadings(readings: CounterReading[]): CounterReading[] {
+  const byTs = new Map<number, number>()
+  for (const reading of readings) {
+    if (Number.isFinite(reading.value)) byTs.set(reading.ts, reading.value)
+  }
+  return [...byTs].sort(([a], [b]) => a - b).map(([ts, value]) => ({ ts, value }))
+}
+
+function defaultMaxGap(readings: CounterReading[]): number {
+  if (readings.length < 2) return MIN_DEFAULT_GAP_MS
+  const intervals = readings
+    .slice(1)
+    .map((r, i) => r.ts - readings[i].ts)
+    .sort((a, b) => a - b)
+  const median = intervals[Math.floor(intervals.length / 2)]
+  return Math.max(3 * median, MIN_DEFAULT_GAP_MS)
+}
+
+/**
+ * Give reset/replacement segments the average rate of the nearest known segments on each side
+ */
+function fillUnknownSegments(segments: Segment[]): void {
+  const rateAt = (index: number, step: number): number | null => {
+    for (let i = index + step; i >= 0 && i < segments.length; i += step) {
+      const segment = segments[i]
+      if (!isNaN(segment.delta) && !segment.estimated) return segment.delta / (segment.to - segment.from)
+    }
+    return null
+  }
+
+  segments.forEach((segment, index) => {
+    if (!isNaN(segment.delta)) return
+    const rates = [rateAt(index, -1), rateAt(index, 1)].filter((r): r is number => r !== null)
+    const rate = rates.length > 0 ? rates.reduce((a, b) => a + b, 0) / rates.length : 0
+    segment.delta = rate * (segment.to - segment.from)
+  })
+}
+
+/**
+ * Extrapolate the first and last segment's rate up to maxGapMs towards the range edges
+ */
+function extendToRangeEdges(segments: Segment[], rangeStart: number, rangeEnd: number, maxGapMs: number): void {
+  const first = segments[0]
+  const last = segments[segments.length - 1]
+
+  const leadFrom = Math.max(rangeStart, first.from - maxGapMs)
+  if (leadFrom < first.from) {
+    const rate = first.delta / (first.to - first.from)
+    segments.unshift({ from: leadFrom, to: first.from, delta: rate * (first.from - leadFrom), estimated: true })
+  }
+
+  const trailTo = Math.min(rangeEnd, last.to + maxGapMs)
+  if (trailTo > last.to) {
+    const rate = last.delta / (last.to - last.from)
+    segments.push({ from: last.to, to: trailTo, delta: rate * (trailTo - last.to), estimated: true })
+  }
+}
+
+/**
+ * Spread each segment's delta over the buckets it overlaps, proportionally to the overlap
+ */
+function distribute(segments: Segment[], buckets: ConsumptionBucketRange[]): ConsumptionBucket[] {
+  let firstSegment = 0
+
+  return buckets.map((bucket) => {
+    let value = 0
+    let coveredMs = 0
+    let estimatedMs = 0
+
+    while (firstSegment < segments.length && segments[firstSegment].to <= bucket.start) firstSegment++
+
+    for (let i = firstSegment; i < segments.length && segments[i].from < bucket.end; i++) {
+      const segment = segments[i]
+      const overlap = Math.min(segment.to, bucket.end) - Math.max(segment.from, bucket.start)
+      if (overlap <= 0) continue
+
+      value += segment.delta * (overlap / (segment.to - segment.from))
+      coveredMs += overlap
+      if (segment.estimated) estimatedMs += overlap
+    }
+
+    const length = bucket.end - bucket.start
+    if (coveredMs === 0) {
+      return { ...bucket, value: null, status: 'missing' as const, coverage: 0 }
+    }
+
+    const measuredMs = coveredMs - estimatedMs
+    return {
+      ...bucket,
+      value: round(value),
+      status: estimatedMs > 0 || coveredMs < length ? ('estimated' as const) : ('measured' as const),
+      coverage: round(measuredMs / length, 4),
+    }
+  })
+}
+
+function round(value: number, decimals = 6): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,95 @@
+import { logger } from '../../utils/logger.js'
+import { splitRange } from '../../utils/calendar.js'
+import { TariffDefinition } from '../../modules/tariff/tariff.validation.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { ConsumptionOptions } from './consumption.js'
+import { ConsumptionService } from './consumption.service.js'
+import { computeCost, CostBreakdown, MonthlyPeak, peaksFromConsumption } from './cost.js'
+
+const costLogger = logger.child({ module: 'CostService' })
+
+export interface CostQuery extends ConsumptionOptions {
+  deviceUUID: string
+  // Cumulative active energy key (kWh)
+  key: string
+  startTs: number
+  endTs: number
+  tariff: TariffDefinition
+}
+
+/**
+ * Cost Service
+ * Prices a device's consumption with a tariff
+ */
+export class CostService {
+  private logger = costLogger
+  private readonly consumptionService: ConsumptionService
+  private readonly telemetryService: TelemetryProvider
+
+  constructor(consumptionService: ConsumptionService, telemetryService: TelemetryProvider) {
+    this.consumptionService = consumptionService
+    this.telemetryService = telemetryService
+  }
+
+  async getCost(query: CostQuery): Promise<CostBreakdown> {
+    const { tariff, ...consumptionQuery } = query
+    const consumption = await this.consumptionService.getConsumption({
+      ...consumptionQuery,
+      granularity: 'hour',
+    })
+
+    let peaks: { source: 'power' | 'consumption'; months: MonthlyPeak[] } | null = null
+    if (tariff.demandCharge?.powerKey) {
+      peaks = {
+        source: 'power',
+        months: await this.getPowerPeaks(
+          query.deviceUUID,
+          tariff.demandCharge.powerKey,
+          query.startTs,
+          query.endTs,
+          tariff.timeZone
+        ),
+      }
+    } else if (tariff.demandCharge) {
+      peaks = {
+        source: 'consumption',
+        months: peaksFromConsumption(consumption.buckets, query.startTs, query.endTs, tariff.timeZone),
+      }
+    }
+
+    const breakdown = computeCost(tariff, consumption.buckets, query, peaks)
+    this.logger.info(
+      `Cost ${query.deviceUUID}/${query.key} with tariff "${tariff.name}": ${breakdown.total} ${breakdown.currency}`
+    )
+    return breakdown
+  }
+
+  /**
+   * Maximum of a power key (kW) per calendar month of `timeZone`, using ThingsBoard MAX aggregation
+   */
+  private async getPowerPeaks(
+    deviceUUID: string,
+    powerKey: string,
+    startTs: number,
+    endTs: number,
+    timeZone: string
+  ): Promise<MonthlyPeak[]> {
+    const peaks: MonthlyPeak[] = []
+
+    for (const month of splitRange(startTs, endTs, 'month', timeZone)) {
+      const data = await this.telemetryService.getTimeseries(
+        'DEVICE',
+        deviceUUID,
+        [powerKey],
+        month.start,
+        month.end,
+        month.end - month.start,
+        'MAX'
+      )
+      const values = (data[powerKey] ?? []).map((point) => Number(point.value)).filter(Number.isFinite)
+      peaks.push({ ...month, peakKw: values.length > 0 ? Math.max(...values) : null })
+    }
+
+    return peaks
+  }
+}
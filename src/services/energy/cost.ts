@@ -0,0 +1,231 @@
+/**
+ * Apply a tariff to hourly consumption and build a bill-style breakdown.
+ *
+ * Each hourly bucket is classified by the local wall-clock time of its start
+ * (in the tariff's time zone): the season is picked from the month and the
+ * time-of-use period from the first matching window, falling back to the
+ * tariff's default period. Windows are therefore resolved at hour granularity.
+ *
+ * Demand charges apply to each calendar month's peak demand, months being
+ * local to the tariff's time zone too. Monthly demand charges and fixed fees
+ * are prorated by the share of the month in the range.
+ * Line amounts are rounded to cents and the subtotal is the sum of the lines.
+ */
+
+import { CalendarBucket, nextPeriod, splitRange, startOfPeriod } from '../../utils/calendar.js'
+import { getZonedParts } from '../../utils/time.js'
+import { TariffDefinition } from '../../modules/tariff/tariff.validation.js'
+import { ConsumptionBucket } from './consumption.js'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export interface MonthlyPeak {
+  start: number
+  end: number
+  label: string
+  // kW; null when no data is available for the month
+  peakKw: number | null
+}
+
+export interface EnergyCostLine {
+  season: string | null
+  period: string
+  rate: number
+  kWh: number
+  // Part of kWh coming from estimated buckets
+  estimatedKWh: number
+  amount: number
+}
+
+export interface DemandCostLine {
+  month: string
+  peakKw: number | null
+  ratePerKw: number
+  // Share of the month inside the billed range (0..1)
+  share: number
+  amount: number
+}
+
+export interface FixedFeeLine {
+  name: string
+  per: 'day' | 'month' | 'bill'
+  quantity: number
+  amount: number
+}
+
+export interface TaxLine {
+  name: string
+  rate: number
+  base: number
+  amount: number
+}
+
+export interface CostBreakdown {
+  currency: string
+  timeZone: string
+  energy: { lines: EnergyCostLine[]; kWh: number; amount: number }
+  demand: { source: 'power' | 'consumption'; lines: DemandCostLine[]; amount: number } | null
+  fixedFees: FixedFeeLine[]
+  subtotal: number
+  taxes: TaxLine[]
+  total: number
+  coverage: { estimatedKWh: number; missingHours: number }
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+const roundEnergy = (value: number) => Math.round(value * 1000) / 1000
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0)
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Season and time-of-use period applying at instant `ts`
+ */
+export function classifyPeriod(
+  tariff: TariffDefinition,
+  ts: number
+): { season: TariffDefinition['seasons'][number] | null; period: string } {
+  const local = getZonedParts(ts, tariff.timeZone)
+  const season = tariff.seasons.find((candidate) => candidate.months.includes(local.month)) ?? null
+  const minute = local.hour * 60 + local.minute
+
+  const window = season?.windows.find((candidate) => {
+    if (!candidate.days.includes(local.weekday)) return false
+    const from = minutesOf(candidate.from)
+    const to = minutesOf(candidate.to)
+    // Windows such as 22:00 -> 06:00 wrap past midnight
+    return from <= to ? minute >= from && minute < to : minute >= from || minute < to
+  })
+
+  return { season, period: window?.period ?? tariff.defaultPeriod }
+}
+
+/**
+ * Peak hourly average demand (kW) per calendar month of `timeZone`, from hourly consumption (kWh)
+ */
+export function peaksFromConsumption(
+  hourly: ConsumptionBucket[],
+  startTs: number,
+  endTs: number,
+  timeZone = 'UTC'
+): MonthlyPeak[] {
+  return splitRange(startTs, endTs, 'month', timeZone).map((month) => {
+    const values = hourly
+      .filter((bucket) => bucket.value !== null && bucket.start >= month.start && bucket.start < month.end)
+      .map((bucket) => (bucket.value as number) / ((bucket.end - bucket.start) / HOUR))
+    return { ...month, peakKw: values.length > 0 ? Math.max(...values) : null }
+  })
+}
+
+export function computeCost(
+  tariff: TariffDefinition,
+  hourly: ConsumptionBucket[],
+  range: { startTs: number; endTs: number },
+  peaks: { source: 'power' | 'consumption'; months: MonthlyPeak[] } | null = null
+): CostBreakdown {
+  // Energy, grouped by season and period
+  const energyLines = new Map<string, EnergyCostLine>()
+  let missingHours = 0
+
+  for (const bucket of hourly) {
+    if (bucket.value === null) {
+      missingHours += (bucket.end - bucket.start) / HOUR
+      continue
+    }
+
+    const { season, period } = classifyPeriod(tariff, bucket.start)
+    const rate = season?.rates?.[period] ?? tariff.rates[period]
+    const lineKey = `${season?.name ?? ''}\u0000${period}`
+    const line = energyLines.get(lineKey) ?? {
+      season: season?.name ?? null,
+      period,
+      rate,
+      kWh: 0,
+      estimatedKWh: 0,
+      amount: 0,
+    }
+
+    line.kWh += bucket.value
+    if (bucket.status === 'estimated') line.estimatedKWh += bucket.value
+    energyLines.set(lineKey, line)
+  }
+
+  const lines = [...energyLines.values()].map((line) => ({
+    ...line,
+    kWh: roundEnergy(line.kWh),
+    estimatedKWh: roundEnergy(line.estimatedKWh),
+    amount: roundMoney(line.kWh * line.rate),
+  }))
+
+  const months = splitRange(range.startTs, range.endTs, 'month', tariff.timeZone)
+  const monthShare = (month: CalendarBucket) => {
+    // Local months last 28 to 31 days, give or take a DST hour
+    const monthStart = startOfPeriod(month.start, 'month', tariff.timeZone)
+    const fullMonth = nextPeriod(monthStart, 'month', tariff.timeZone) - monthStart
+    return (month.end - month.start) / fullMonth
+  }
+
+  // Demand charge on each month's peak
+  let demand: CostBreakdown['demand'] = null
+  if (tariff.demandCharge && peaks) {
+    const ratePerKw = tariff.demandCharge.ratePerKw
+    const demandLines = peaks.months.map((month) => {
+      const share = monthShare(month)
+      return {
+        month: month.label,
+        peakKw: month.peakKw === null ? null : roundEnergy(month.peakKw),
+        ratePerKw,
+        share: Math.round(share * 10000) / 10000,
+        amount: month.peakKw === null ? 0 : roundMoney(month.peakKw * ratePerKw * share),
+      }
+    })
+    demand = { source: peaks.source, lines: demandLines, amount: roundMoney(sum(demandLines.map((l) => l.amount))) }
+  }
+
+  const fixedFees = tariff.fixedFees.map((fee) => {
+    const quantity =
+      fee.per === 'day'
+        ? (range.endTs - range.startTs) / DAY
+        : fee.per === 'month'
+          ? sum(months.map(monthShare))
+          : 1
+    return {
+      name: fee.name,
+      per: fee.per,
+      quantity: Math.round(quantity * 10000) / 10000,
+      amount: roundMoney(fee.amount * quantity),
+    }
+  })
+
+  const energyAmount = roundMoney(sum(lines.map((line) => line.amount)))
+  const subtotal = roundMoney(energyAmount + (demand?.amount ?? 0) + sum(fixedFees.map((fee) => fee.amount)))
+  const taxes = tariff.taxes.map((tax) => ({
+    name: tax.name,
+    rate: tax.rate,
+    base: subtotal,
+    amount: roundMoney(subtotal * tax.rate),
+  }))
+
+  return {
+    currency: tariff.currency,
+    timeZone: tariff.timeZone,
+    energy: {
+      lines,
+      kWh: roundEnergy(sum(lines.map((line) => line.kWh))),
+      amount: energyAmount,
+    },
+    demand,
+    fixedFees,
+    subtotal,
+    taxes,
+    total: roundMoney(subtotal + sum(taxes.map((tax) => tax.amount))),
+    coverage: {
+      estimatedKWh: roundEnergy(sum(lines.map((line) => line.estimatedKWh))),
+      missingHours: Math.round(missingHours * 100) / 100,
+    },
+  }
+}
@@ -0,0 +1,162 @@
+import { logger } from '../../utils/logger.js'
+import { ApiError } from '../../utils/apiError.js'
+import { splitRange, startOfPeriod } from '../../utils/calendar.js'
+import { AssetAggregationService, DeviceContribution } from '../asset/asset-aggregation.service.js'
+import { ConsumptionBucket, ConsumptionOptions } from './consumption.js'
+import { ConsumptionService } from './consumption.service.js'
+import {
+  BacktestMetrics,
+  ConfidenceLevel,
+  ForecastMethod,
+  ForecastModel,
+  forecastSeries,
+  minHistoryPoints,
+  PointForecast,
+} from './forecast.js'
+
+const forecastLogger = logger.child({ module: 'ForecastService' })
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const FORECAST_GRANULARITIES = ['hour', 'day'] as const
+export type ForecastGranularity = (typeof FORECAST_GRANULARITIES)[number]
+
+// Weekly pattern: 168 hours or 7 days
+const SEASON_LENGTH: Record<ForecastGranularity, number> = { hour: 168, day: 7 }
+
+export interface ForecastQuery extends ConsumptionOptions {
+  // Cumulative counter key, e.g. AccumulatedActiveEnergyDelivered
+  key: string
+  granularity: ForecastGranularity
+  // Days of history the model is fitted on, ending where the forecast starts
+  historyDays: number
+  // Days to forecast, starting with the current (incomplete) period
+  horizonDays: number
+  method: ForecastMethod
+  confidence: ConfidenceLevel
+}
+
+export interface ForecastBucket extends PointForecast {
+  start: number
+  end: number
+  label: string
+}
+
+export interface ConsumptionForecast {
+  buckets: ForecastBucket[]
+  total: PointForecast
+  model: ForecastModel
+  backtest: BacktestMetrics | null
+  history: {
+    startTs: number
+    endTs: number
+    buckets: number
+    // Buckets without data, dropped (leading) or filled in before fitting
+    filled: number
+  }
+}
+
+/**
+ * Forecast Service
+ * Forecasts the consumption of a device or of every device under an asset node
+ * from its hourly or daily history, computed in-process
+ */
+export class ForecastService {
+  private logger = forecastLogger
+  private readonly consumptionService: ConsumptionService
+  private readonly aggregationService: AssetAggregationService
+
+  constructor(consumptionService: ConsumptionService, aggregationService: AssetAggregationService) {
+    this.consumptionService = consumptionService
+    this.aggregationService = aggregationService
+  }
+
+  async forecastDevice(deviceUUID: string, query: ForecastQuery, now: number = Date.now()): Promise<ConsumptionForecast> {
+    const { startTs, endTs } = this.historyRange(query, now)
+    const { buckets } = await this.consumptionService.getConsumption({
+      deviceUUID,
+      ...this.historyQuery(query, startTs, endTs),
+    })
+
+    const forecast = this.forecast(buckets, query, startTs, endTs)
+    this.logger.info(
+      `Forecast ${deviceUUID}/${query.key}: ${forecast.model.method} over ${forecast.buckets.length} ${query.granularity}(s)`
+    )
+    return forecast
+  }
+
+  /**
+   * Forecast of the summed consumption of several devices; devices that fail are listed and left out
+   */
+  async forecastNode(
+    deviceUUIDs: string[],
+    query: ForecastQuery,
+    now: number = Date.now()
+  ): Promise<ConsumptionForecast & { devices: DeviceContribution[] }> {
+    const { startTs, endTs } = this.historyRange(query, now)
+    const { buckets, devices } = await this.aggregationService.getConsumption(
+      deviceUUIDs,
+      this.historyQuery(query, startTs, endTs)
+    )
+
+    return { ...this.forecast(buckets, query, startTs, endTs), devices }
+  }
+
+  /**
+   * History ends where the current period starts
+   */
+  private historyRange(query: ForecastQuery, now: number): { startTs: number; endTs: number } {
+    const endTs = startOfPeriod(now, query.granularity)
+    return { startTs: endTs - query.historyDays * DAY, endTs }
+  }
+
+  private historyQuery(query: ForecastQuery, startTs: number, endTs: number) {
+    return {
+      key: query.key,
+      startTs,
+      endTs,
+      granularity: query.granularity,
+      rolloverValue: query.rolloverValue,
+      maxGapMs: query.maxGapMs,
+    }
+  }
+
+  private forecast(
+    history: ConsumptionBucket[],
+    query: ForecastQuery,
+    startTs: number,
+    endTs: number
+  ): ConsumptionForecast {
+    const seasonLength = SEASON_LENGTH[query.granularity]
+    const values = history.map((bucket) => (bucket.status === 'missing' ? null : bucket.value))
+    const available = values.length - values.findIndex((value) => value !== null)
+    if (values.every((value) => value === null) || available < minHistoryPoints(seasonLength)) {
+      throw new ApiError(
+        422,
+        `Not enough consumption history to forecast: at least ${minHistoryPoints(seasonLength)} ${query.granularity}s of data are needed`
+      )
+    }
+
+    const future = splitRange(endTs, endTs + query.horizonDays * DAY, query.granularity)
+    const forecast = forecastSeries(values, {
+      method: query.method,
+      seasonLength,
+      horizon: future.length,
+      confidence: query.confidence,
+      nonNegative: true,
+    })
+
+    return {
+      buckets: future.map((bucket, i) => ({ ...bucket, ...forecast.points[i] })),
+      total: forecast.total,
+      model: forecast.model,
+      backtest: forecast.backtest,
+      history: {
+        startTs,
+        endTs,
+        buckets: history.length,
+        filled: forecast.filled,
+      },
+    }
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Seasonal forecasts of a regular series (e.g. hourly or daily consumption).
+ *
+ * Two models are available:
+ * - holt_winters: additive triple exponential smoothing (level, trend and
+ *   season), with the smoothing factors picked by a grid search on the
+ *   one-step-ahead errors
+ * - seasonal_regression: least squares fit of a linear trend plus one offset
+ *   per season slot
+ * "auto" backtests both and keeps the one with the lowest RMSE.
+ *
+ * Prediction intervals assume normally distributed errors. The backtest fits
+ * the model without the last `horizon` points (at most a quarter of the
+ * history) and compares its forecast with what was actually measured.
+ */
+
+export const FORECAST_METHODS = ['auto', 'holt_winters', 'seasonal_regression'] as const
+export type ForecastMethod = (typeof FORECAST_METHODS)[number]
+export type FittedMethod = Exclude<ForecastMethod, 'auto'>
+
+export const CONFIDENCE_LEVELS = [80, 90, 95, 99] as const
+export type ConfidenceLevel = (typeof CONFIDENCE_LEVELS)[number]
+
+export interface ForecastOptions {
+  method: ForecastMethod
+  // Points per season, e.g. 7 for daily values with a weekly pattern
+  seasonLength: number
+  // Points to forecast
+  horizon: number
+  // Prediction interval, in percent
+  confidence: ConfidenceLevel
+  // Clamp values and bounds at zero (consumption cannot be negative)
+  nonNegative: boolean
+}
+
+export interface PointForecast {
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface BacktestMetrics {
+  points: number
+  mae: number
+  rmse: number
+  // Mean absolute percentage error over the non-zero actual values; null when all were zero
+  mape: number | null
+  // Mean of forecast minus actual: positive when the model over-forecasts
+  bias: number
+  // Share of the actual values inside the prediction interval (0..1)
+  coverage: number
+}
+
+export interface ForecastModel {
+  method: FittedMethod
+  parameters: Record<string, number>
+  // Standard deviation of the in-sample one-step errors
+  residualStdDev: number
+}
+
+export interface SeriesForecast {
+  model: ForecastModel
+  points: PointForecast[]
+  // Sum of the forecast, with an interval assuming independent errors
+  total: PointForecast
+  backtest: BacktestMetrics | null
+  // Leading missing points dropped and inner ones filled before fitting
+  filled: number
+}
+
+interface FittedModel extends ForecastModel {
+  predict(horizon: number): { mean: number[]; variance: number[] }
+}
+
+const Z_SCORES: Record<ConfidenceLevel, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96, 99: 2.5758 }
+
+const HW_ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7]
+const HW_BETAS = [0, 0.01, 0.05, 0.1]
+const HW_GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5]
+const REGRESSION_ITERATIONS = 20
+
+/**
+ * Points a model needs: two full seasons
+ */
+export const minHistoryPoints = (seasonLength: number) => 2 * seasonLength
+
+/**
+ * Forecast `options.horizon` points after `history`; null entries are missing values
+ */
+export function forecastSeries(history: (number | null)[], options: ForecastOptions): SeriesForecast {
+  const { values, filled } = fillMissing(history, options.seasonLength)
+  const m = options.seasonLength
+  if (values.length < minHistoryPoints(m)) {
+    throw new Error(`Not enough history: ${values.length} points, at least ${minHistoryPoints(m)} are needed`)
+  }
+
+  let method: FittedMethod
+  let backtest: BacktestMetrics | null
+  if (options.method === 'auto') {
+    const candidates = (['holt_winters', 'seasonal_regression'] as const).map((candidate) => ({
+      candidate,
+      metrics: runBacktest(values, candidate, options),
+    }))
+    const best = candidates.reduce((a, b) => ((b.metrics?.rmse ?? Infinity) < (a.metrics?.rmse ?? Infinity) ? b : a))
+    method = best.candidate
+    backtest = best.metrics
+  } else {
+    method = options.method
+    backtest = runBacktest(values, method, options)
+  }
+
+  const model = fit(values, method, m)
+  const { mean, variance } = model.predict(options.horizon)
+  const z = Z_SCORES[options.confidence]
+  const points = mean.map((value, i) => interval(value, Math.sqrt(variance[i]) * z, options.nonNegative))
+  const totalMean = mean.reduce((sum, value) => sum + value, 0)
+  const totalSpread = Math.sqrt(variance.reduce((sum, value) => sum + value, 0)) * z
+
+  return {
+    model: { method: model.method, parameters: model.parameters, residualStdDev: round(model.residualStdDev) },
+    points,
+    total: interval(totalMean, totalSpread, options.nonNegative),
+    backtest,
+    filled,
+  }
+}
+
+function fit(values: number[], method: FittedMethod, seasonLength: number): FittedModel {
+  return method === 'holt_winters' ? fitHoltWinters(values, seasonLength) : fitSeasonalRegression(values, seasonLength)
+}
+
+function interval(value: number, spread: number, nonNegative: boolean): PointForecast {
+  const clamp = (v: number) => round(nonNegative ? Math.max(0, v) : v)
+  return { value: clamp(value), lower: clamp(value - spread), upper: clamp(value + spread) }
+}
+
+/**
+ * Drop leading missing values, then fill inner ones with the value one season
+ * earlier (or the previous value during the first season)
+ */
+function fillMissing(history: (number | null)[], seasonLength: number): { values: number[]; filled: number } {
+  const first = history.findIndex((value) => value !== null && Number.isFinite(value))
+  if (first < 0) return { values: [], filled: history.length }
+
+  const values: number[] = []
+  let filled = first
+  for (const value of history.slice(first)) {
+    if (value !== null && Number.isFinite(value)) {
+      values.push(value)
+    } else {
+      values.push(values.length >= seasonLength ? values[values.length - seasonLength] : values[values.length - 1])
+      filled++
+    }
+  }
+  return { values, filled }
+}
+
+/**
+ * Fit on all but the last points and compare the forecast with them
+ */
+function runBacktest(values: number[], method: FittedMethod, options: ForecastOptions): BacktestMetrics | null {
+  const holdout = Math.min(options.horizon, Math.floor(values.length / 4))
+  const training = values.slice(0, values.length - holdout)
+  if (holdout < 1 || training.length < minHistoryPoints(options.seasonLength)) return null
+
+  const actual = values.slice(training.length)
+  const { mean, variance } = fit(training, method, options.seasonLength).predict(holdout)
+  const z = Z_SCORES[options.confidence]
+
+  let absolute = 0
+  let squared = 0
+  let bias = 0
+  let percentage = 0
+  let nonZero = 0
+  let inside = 0
+  actual.forEach((value, i) => {
+    const point = interval(mean[i], Math.sqrt(variance[i]) * z, options.nonNegative)
+    const error = point.value - value
+    absolute += Math.abs(error)
+    squared += error ** 2
+    bias += error
+    if (value !== 0) {
+      percentage += Math.abs(error / value)
+      nonZero++
+    }
+    if (value >= point.lower && value <= point.upper) inside++
+  })
+
+  return {
+    points: holdout,
+    mae: round(absolute / holdout, 4),
+    rmse: round(Math.sqrt(squared / holdout), 4),
+    mape: nonZero > 0 ? round((percentage / nonZero) * 100, 2) : null,
+    bias: round(bias / holdout, 4),
+    coverage: round(inside / holdout, 4),
+  }
+}
+
+interface HoltWintersState {
+  level: number
+  trend: number
+  season: number[]
+  sse: number
+  errors: number
+}
+
+function runHoltWinters(y: number[], m: number, alpha: number, beta: number, gamma: number): HoltWintersState {
+  const mean = (from: number) => y.slice(from, from + m).reduce((sum, value) => sum + value, 0) / m
+  let level = mean(0)
+  let trend = (mean(m) - level) / m
+  const season = y.slice(0, m).map((value) => value - level)
+  let sse = 0
+
+  for (let t = m; t < y.length; t++) {
+    const s = season[t % m]
+    const error = y[t] - (level + trend + s)
+    sse += error ** 2
+
+    const previousLevel = level
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend)
+    trend = beta * (level - previousLevel) + (1 - beta) * trend
+    season[t % m] = gamma * (y[t] - level) + (1 - gamma) * s
+  }
+
+  return { level, trend, season, sse, errors: y.length - m }
+}
+
+function fitHoltWinters(y: number[], m: number): FittedModel {
+  let best: { alpha: number; beta: number; gamma: number; state: HoltWintersState } | null = null
+  for (const alpha of HW_ALPHAS) {
+    for (const beta of HW_BETAS) {
+      for (const gamma of HW_GAMMAS) {
+        const state = runHoltWinters(y, m, alpha, beta, gamma)
+        if (!best || state.sse < best.state.sse) best = { alpha, beta, gamma, state }
+      }
+    }
+  }
+
+  const { alpha, beta, gamma, state } = best!
+  const sigma2 = state.sse / Math.max(1, state.errors)
+  const n = y.length
+
+  return {
+    method: 'holt_winters',
+    parameters: { alpha, beta, gamma, seasonLength: m },
+    residualStdDev: Math.sqrt(sigma2),
+    predict(horizon) {
+      const mean: number[] = []
+      const variance: number[] = []
+      // Error variance h steps ahead for the additive model: sigma2 * (1 + sum of c_j^2, j < h)
+      let spread = 1
+      for (let h = 1; h <= horizon; h++) {
+        mean.push(state.level + h * state.trend + state.season[(n + h - 1) % m])
+        variance.push(sigma2 * spread)
+        const c = alpha * (1 + h * beta) + (h % m === 0 ? gamma * (1 - alpha) : 0)
+        spread += c ** 2
+      }
+      return { mean, variance }
+    },
+  }
+}
+
+function fitSeasonalRegression(y: number[], m: number): FittedModel {
+  const n = y.length
+  const season = new Array<number>(m).fill(0)
+  const slotCounts = new Array<number>(m).fill(0)
+  for (let t = 0; t < n; t++) slotCounts[t % m]++
+
+  const tMean = (n - 1) / 2
+  let sxx = 0
+  for (let t = 0; t < n; t++) sxx += (t - tMean) ** 2
+
+  // Backfitting: trend on the deseasonalized values, then season offsets on the detrended ones
+  let intercept = 0
+  let slope = 0
+  for (let iteration = 0; iteration < REGRESSION_ITERATIONS; iteration++) {
+    let rMean = 0
+    for (let t = 0; t < n; t++) rMean += y[t] - season[t % m]
+    rMean /= n
+    let sxy = 0
+    for (let t = 0; t < n; t++) sxy += (t - tMean) * (y[t] - season[t % m] - rMean)
+    slope = sxx > 0 ? sxy / sxx : 0
+    intercept = rMean - slope * tMean
+
+    const sums = new Array<number>(m).fill(0)
+    for (let t = 0; t < n; t++) sums[t % m] += y[t] - intercept - slope * t
+    const offsets = sums.map((sum, slot) => sum / slotCounts[slot])
+    const offsetMean = offsets.reduce((sum, value) => sum + value, 0) / m
+    offsets.forEach((value, slot) => (season[slot] = value - offsetMean))
+  }
+
+  let sse = 0
+  for (let t = 0; t < n; t++) sse += (y[t] - intercept - slope * t - season[t % m]) ** 2
+  const sigma2 = sse / Math.max(1, n - m - 1)
+
+  return {
+    method: 'seasonal_regression',
+    parameters: { intercept: round(intercept), slope: round(slope), seasonLength: m },
+    residualStdDev: Math.sqrt(sigma2),
+    predict(horizon) {
+      const mean: number[] = []
+      const variance: number[] = []
+      for (let h = 1; h <= horizon; h++) {
+        const t = n - 1 + h
+        mean.push(intercept + slope * t + season[t % m])
+        variance.push(sigma2 * (1 + 1 / slotCounts[t % m] + 1 / n + (sxx > 0 ? (t - tMean) ** 2 / sxx : 0)))
+      }
+      return { mean, variance }
+    },
+  }
+}
+
+function round(value: number, decimals = 6): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
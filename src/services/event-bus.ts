@@ -0,0 +1,69 @@
+import { EventEmitter } from 'node:events'
+import { logger } from '../utils/logger.js'
+import { AlarmSeverity } from '../modules/alarm/alarm.model.js'
+
+const busLogger = logger.child({ module: 'EventBus' })
+
+export const APP_EVENT_TYPES = [
+  'alarm.raised',
+  'alarm.acknowledged',
+  'alarm.cleared',
+  'device.added',
+  'device.removed',
+  'telemetry.upstream_failed',
+  'telemetry.upstream_recovered',
+  // Only sent on demand to try a notification channel
+  'notification.test',
+] as const
+export type AppEventType = (typeof APP_EVENT_TYPES)[number]
+
+/**
+ * Something that happened in the backend and may be worth telling someone about
+ */
+export interface AppEvent {
+  type: AppEventType
+  severity: AlarmSeverity
+  // One-line human summary, e.g. "Current_L1 > 120 for 5 min on Meter 3"
+  title: string
+  deviceUUID?: string
+  deviceName?: string
+  customerId?: number
+  // Extra fields available to message templates
+  data: Record<string, unknown>
+  occurredAt: number
+}
+
+export type AppEventListener = (event: AppEvent) => void | Promise<void>
+
+/**
+ * In-process publish/subscribe for application events.
+ * Listener failures are logged and never reach the publisher.
+ */
+export class EventBus {
+  private readonly emitter = new EventEmitter()
+
+  constructor() {
+    this.emitter.setMaxListeners(50)
+  }
+
+  publish(event: Omit<AppEvent, 'occurredAt'> & { occurredAt?: number }): void {
+    this.emitter.emit('event', { ...event, occurredAt: event.occurredAt ?? Date.now() })
+  }
+
+  /**
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: AppEventListener): () => void {
+    const handler = (event: AppEvent) => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch((error) => {
+          busLogger.error(`Listener failed on ${event.type}: ${error instanceof Error ? error.message : error}`)
+        })
+    }
+    this.emitter.on('event', handler)
+    return () => this.emitter.off('event', handler)
+  }
+}
+
+export const eventBus = new EventBus()
@@ -0,0 +1,143 @@
+/**
+ * Map raw ThingsBoard keys to the canonical names, units and scaling of the key
+ * catalogue. Meters from different vendors report the same quantity under
+ * different keys (and sometimes in different units); with the catalogue a
+ * caller asks for "active_power" and gets it in kW whatever the device calls it.
+ */
+
+import { TelemetryKey } from '../modules/telemetry-key/telemetry-key.model.js'
+
+export interface KeyCandidate {
+  rawKey: string
+  entry: TelemetryKey | null
+}
+
+export interface RequestedKey {
+  key: string
+  // Raw keys that may hold the requested key, best match first
+  candidates: KeyCandidate[]
+}
+
+export interface KeyResolution {
+  // Raw keys to fetch from ThingsBoard
+  rawKeys: string[]
+  requested: RequestedKey[]
+}
+
+export interface NormalizedKeyInfo {
+  rawKey: string
+  label: string | null
+  unit: string | null
+}
+
+export interface DescribedKey {
+  key: string
+  canonicalKey: string | null
+  label: string | null
+  unit: string | null
+}
+
+/**
+ * Catalogue entries that apply to a device, by raw key. A device-specific entry
+ * replaces the global one for the same raw key.
+ */
+export function entriesForDevice(entries: TelemetryKey[], deviceUUID: string): Map<string, TelemetryKey> {
+  const byRawKey = new Map<string, TelemetryKey>()
+  for (const entry of entries) {
+    if (entry.deviceUUID !== null && entry.deviceUUID !== deviceUUID) continue
+    const current = byRawKey.get(entry.rawKey)
+    if (!current || (current.deviceUUID === null && entry.deviceUUID !== null)) {
+      byRawKey.set(entry.rawKey, entry)
+    }
+  }
+  return byRawKey
+}
+
+/**
+ * Work out which raw keys to fetch for the requested keys. A requested key may be
+ * a canonical name (expanded to every raw key mapped to it, device-specific
+ * mappings first) or a raw key (normalized with its own entry, if any).
+ */
+export function resolveKeys(requested: string[], entries: TelemetryKey[], deviceUUID: string): KeyResolution {
+  const byRawKey = entriesForDevice(entries, deviceUUID)
+  const mapped = [...byRawKey.values()].sort(
+    (a, b) => Number(b.deviceUUID !== null) - Number(a.deviceUUID !== null)
+  )
+
+  const resolved = requested.map((key) => {
+    const candidates: KeyCandidate[] = mapped
+      .filter((entry) => entry.canonicalKey === key)
+      .map((entry) => ({ rawKey: entry.rawKey, entry }))
+    if (!candidates.some((candidate) => candidate.rawKey === key)) {
+      candidates.push({ rawKey: key, entry: byRawKey.get(key) ?? null })
+    }
+    return { key, candidates }
+  })
+
+  return {
+    rawKeys: [...new Set(resolved.flatMap(({ candidates }) => candidates.map((candidate) => candidate.rawKey)))],
+    requested: resolved,
+  }
+}
+
+/**
+ * Scale a raw value with its catalogue entry. Values that are not numeric are
+ * returned unchanged.
+ */
+export function normalizeValue(value: unknown, entry: TelemetryKey | null): unknown {
+  if (!entry || value === null || value === '' || typeof value === 'boolean') return value
+  const number = Number(value)
+  if (!Number.isFinite(number)) return value
+
+  const scaled = number * entry.scale + entry.offset
+  return entry.precision === null ? scaled : Number(scaled.toFixed(entry.precision))
+}
+
+/**
+ * Rename and scale a ThingsBoard answer fetched with `resolution.rawKeys`. Each
+ * requested key is filled from its first candidate that has data, and exposed
+ * under its canonical name. Requested keys without data are left out, as
+ * ThingsBoard does.
+ */
+export function normalizeTimeseries<P extends { value: unknown }>(
+  data: Record<string, P[]>,
+  resolution: KeyResolution
+): { data: Record<string, P[]>; keys: Record<string, NormalizedKeyInfo> } {
+  const normalized: Record<string, P[]> = {}
+  const keys: Record<string, NormalizedKeyInfo> = {}
+
+  for (const { key, candidates } of resolution.requested) {
+    const match = candidates.find((candidate) => (data[candidate.rawKey]?.length ?? 0) > 0)
+    if (!match) continue
+
+    const outputKey = match.entry?.canonicalKey ?? key
+    if (normalized[outputKey]) continue
+    normalized[outputKey] = data[match.rawKey].map((point) => ({
+      ...point,
+      value: normalizeValue(point.value, match.entry),
+    }))
+    keys[outputKey] = {
+      rawKey: match.rawKey,
+      label: match.entry?.label ?? null,
+      unit: match.entry?.unit ?? null,
+    }
+  }
+
+  return { data: normalized, keys }
+}
+
+/**
+ * Raw keys of a device with what the catalogue knows about them
+ */
+export function describeKeys(rawKeys: string[], entries: TelemetryKey[], deviceUUID: string): DescribedKey[] {
+  const byRawKey = entriesForDevice(entries, deviceUUID)
+  return [...rawKeys].sort().map((key) => {
+    const entry = byRawKey.get(key)
+    return {
+      key,
+      canonicalKey: entry?.canonicalKey ?? null,
+      label: entry?.label ?? null,
+      unit: entry?.unit ?? null,
+    }
+  })
+}
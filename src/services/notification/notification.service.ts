@@ -0,0 +1,268 @@
+import { randomUUID } from 'node:crypto'
+import { logger } from '../../utils/logger.js'
+import { canViewDevice } from '../../modules/auth/auth.policy.js'
+import { findUserById } from '../../modules/user/user.repository.js'
+import { UserRecord } from '../../modules/user/user.model.js'
+import {
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationSubscription,
+} from '../../modules/notification/notification.model.js'
+import {
+  findChannelById,
+  findDueDeliveries,
+  findEnabledSubscriptions,
+  insertDelivery,
+  updateDelivery,
+} from '../../modules/notification/notification.repository.js'
+import { AppEvent, EventBus } from '../event-bus.js'
+import { matchesSubscription, quietHoursEnd } from './routing.js'
+import { NotificationSenders } from './senders.js'
+import { buildMessage } from './templates.js'
+
+const notificationLogger = logger.child({ module: 'NotificationService' })
+
+export interface NotificationOptions {
+  // How often pending deliveries (retries, quiet hours) are checked; 0 disables the schedule
+  dispatchIntervalMs: number
+  // Attempts before a delivery is marked failed
+  maxAttempts: number
+  // First retry delay, doubled on every further attempt (capped at one hour)
+  retryDelayMs: number
+}
+
+interface PlannedDelivery {
+  subscription: NotificationSubscription
+  user: UserRecord
+  channel: NotificationChannel
+  recipient: string
+  nextAttemptAt: number
+}
+
+/**
+ * Notification Service
+ * Turns application events into deliveries for matching subscriptions, then
+ * sends them through the subscribed channels with retries
+ */
+export class NotificationService {
+  private logger = notificationLogger
+  private readonly senders: NotificationSenders
+  private readonly options: NotificationOptions
+  private readonly maxRetryDelayMs = 60 * 60 * 1000
+  private readonly batchSize = 50
+  private timer: NodeJS.Timeout | null = null
+  private unsubscribe: (() => void) | null = null
+  private processing: Promise<number> | null = null
+
+  constructor(senders: NotificationSenders, options: NotificationOptions) {
+    this.senders = senders
+    this.options = options
+  }
+
+  /**
+   * Listen to `eventBus` and start sending due deliveries on a schedule
+   */
+  start(eventBus: EventBus): void {
+    if (this.unsubscribe) return
+
+    this.unsubscribe = eventBus.subscribe((event) => this.handleEvent(event).then(() => undefined))
+    if (this.options.dispatchIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.processDue().catch((error) => {
+          this.logger.error(`Notification dispatch failed: ${error instanceof Error ? error.message : error}`)
+        })
+      }, this.options.dispatchIntervalMs)
+      this.timer.unref()
+    }
+  }
+
+  stop(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Queue one delivery per matching channel and recipient, then send what is due.
+   * A recipient subscribed several times to the same channel gets the message once.
+   * Critical events ignore quiet hours.
+   */
+  async handleEvent(event: AppEvent, now: number = Date.now()): Promise<NotificationDelivery[]> {
+    const planned = new Map<string, PlannedDelivery>()
+    const channels = new Map<string, NotificationChannel | null>()
+    const users = new Map<string, UserRecord | null>()
+
+    for (const subscription of await findEnabledSubscriptions()) {
+      if (!matchesSubscription(subscription, event)) continue
+
+      if (!channels.has(subscription.channelId)) {
+        channels.set(subscription.channelId, await findChannelById(subscription.channelId))
+      }
+      if (!users.has(subscription.userId)) {
+        users.set(subscription.userId, await findUserById(subscription.userId))
+      }
+      const channel = channels.get(subscription.channelId)
+      const user = users.get(subscription.userId)
+      if (!channel?.enabled || !user || !this.canReceive(user, event)) continue
+
+      const recipient = channel.type === 'email' ? user.email : channel.config.url
+      const nextAttemptAt =
+        event.severity === 'critical' ? now : (quietHoursEnd(subscription.quietHours, now) ?? now)
+      const key = `${channel.id}|${recipient}`
+      const existing = planned.get(key)
+      if (!existing || nextAttemptAt < existing.nextAttemptAt) {
+        planned.set(key, { subscription, user, channel, recipient, nextAttemptAt })
+      }
+    }
+
+    const deliveries: NotificationDelivery[] = []
+    for (const plan of planned.values()) {
+      const message = buildMessage(plan.channel, event)
+      deliveries.push(
+        await insertDelivery({
+          id: randomUUID(),
+          eventType: event.type,
+          channelId: plan.channel.id,
+          subscriptionId: plan.subscription.id,
+          userId: plan.user.id,
+          recipient: plan.recipient,
+          subject: message.subject,
+          body: message.body,
+          event,
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: plan.nextAttemptAt,
+          createdAt: new Date(now).toISOString(),
+          sentAt: null,
+        })
+      )
+    }
+
+    if (deliveries.length > 0) {
+      this.logger.info(`Queued ${deliveries.length} notification(s) for ${event.type}`)
+      await this.processDue(now)
+    }
+    return deliveries
+  }
+
+  /**
+   * Send every pending delivery that is due. Runs one batch at a time; a call
+   * made while a batch is in progress joins it.
+   */
+  processDue(now: number = Date.now()): Promise<number> {
+    if (!this.processing) {
+      this.processing = this.sendDue(now).finally(() => {
+        this.processing = null
+      })
+    }
+    return this.processing
+  }
+
+  /**
+   * Send a sample message through a channel right away, recorded in the delivery log
+   */
+  async sendTest(channel: NotificationChannel, user: UserRecord): Promise<NotificationDelivery> {
+    const event: AppEvent = {
+      type: 'notification.test',
+      severity: 'info',
+      title: `Test notification from channel "${channel.name}"`,
+      data: { requestedBy: user.email },
+      occurredAt: Date.now(),
+    }
+    const message = buildMessage(channel, event)
+    const delivery = await insertDelivery({
+      id: randomUUID(),
+      eventType: event.type,
+      channelId: channel.id,
+      subscriptionId: null,
+      userId: user.id,
+      recipient: channel.type === 'email' ? user.email : channel.config.url,
+      subject: message.subject,
+      body: message.body,
+      event,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: null,
+      createdAt: new Date(event.occurredAt).toISOString(),
+      sentAt: null,
+    })
+
+    // A test is not retried: the caller sees the outcome immediately
+    return this.attempt(delivery, channel, event.occurredAt, 1)
+  }
+
+  private canReceive(user: UserRecord, event: AppEvent): boolean {
+    if (!event.deviceUUID) return true
+    return canViewDevice(user, {
+      deviceUUID: event.deviceUUID,
+      customerId: event.customerId,
+      assignedToCustomer: event.customerId !== undefined,
+    })
+  }
+
+  private async sendDue(now: number): Promise<number> {
+    let sent = 0
+    const due = await findDueDeliveries(now, this.batchSize)
+
+    for (const delivery of due) {
+      const channel = delivery.channelId ? await findChannelById(delivery.channelId) : null
+      if (!channel) {
+        await updateDelivery({ ...delivery, status: 'failed', lastError: 'Channel was deleted', nextAttemptAt: null })
+        continue
+      }
+      const result = await this.attempt(delivery, channel, now, this.options.maxAttempts)
+      if (result.status === 'sent') sent++
+    }
+
+    return sent
+  }
+
+  private async attempt(
+    delivery: NotificationDelivery,
+    channel: NotificationChannel,
+    now: number,
+    maxAttempts: number
+  ): Promise<NotificationDelivery> {
+    const attempts = delivery.attempts + 1
+
+    try {
+      await this.senders[channel.type].send(channel, delivery.recipient, {
+        id: delivery.id,
+        subject: delivery.subject,
+        body: delivery.body,
+        event: delivery.event,
+      })
+      return await updateDelivery({
+        ...delivery,
+        status: 'sent',
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        sentAt: new Date(now).toISOString(),
+      })
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      const giveUp = attempts >= maxAttempts
+      this.logger.warn(
+        `Delivery ${delivery.id} via ${channel.type} failed (attempt ${attempts}/${maxAttempts}): ${errorMsg}`
+      )
+
+      return await updateDelivery({
+        ...delivery,
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: errorMsg,
+        nextAttemptAt: giveUp ? null : now + this.retryDelay(attempts),
+      })
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.retryDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs)
+  }
+}
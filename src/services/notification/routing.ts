@@ -0,0 +1,52 @@
+/**
+ * Which subscriptions an event goes to, and when.
+ */
+
+import { ALARM_SEVERITIES, AlarmSeverity } from '../../modules/alarm/alarm.model.js'
+import { NotificationSubscription } from '../../modules/notification/notification.model.js'
+import { getZonedParts } from '../../utils/time.js'
+import { AppEvent } from '../event-bus.js'
+
+const MINUTE = 60 * 1000
+const DAY_MINUTES = 24 * 60
+
+// info = 0 ... critical = 4
+export const severityRank = (severity: AlarmSeverity) =>
+  ALARM_SEVERITIES.length - 1 - ALARM_SEVERITIES.indexOf(severity)
+
+/**
+ * Event type, severity and device filters of a subscription. Device visibility
+ * for the subscribing user is checked separately.
+ */
+export function matchesSubscription(subscription: NotificationSubscription, event: AppEvent): boolean {
+  if (!subscription.enabled || !subscription.eventTypes.includes(event.type)) return false
+  if (severityRank(event.severity) < severityRank(subscription.minSeverity)) return false
+  if (subscription.deviceUUIDs) {
+    return event.deviceUUID !== undefined && subscription.deviceUUIDs.includes(event.deviceUUID)
+  }
+  return true
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * When `now` falls inside the quiet hours, the instant they end; otherwise null.
+ * Quiet hours such as 22:00 -> 07:00 wrap past midnight.
+ */
+export function quietHoursEnd(quietHours: NotificationSubscription['quietHours'], now: number): number | null {
+  if (!quietHours) return null
+
+  const local = getZonedParts(now, quietHours.timeZone)
+  const minute = local.hour * 60 + local.minute
+  const from = minutesOf(quietHours.from)
+  const to = minutesOf(quietHours.to)
+  const inside = from <= to ? minute >= from && minute < to : minute >= from || minute < to
+  if (!inside) return null
+
+  const minutesLeft = (to - minute + DAY_MINUTES) % DAY_MINUTES
+  const startOfMinute = now - local.second * 1000 - (now % 1000)
+  return startOfMinute + minutesLeft * MINUTE
+}
@@ -0,0 +1,132 @@
+import { createHmac } from 'node:crypto'
+import axios from 'axios'
+import nodemailer, { SendMailOptions, Transporter } from 'nodemailer'
+import { ChannelType, NotificationChannel } from '../../modules/notification/notification.model.js'
+import { AppEvent } from '../event-bus.js'
+import { RenderedMessage } from './templates.js'
+
+export interface OutgoingMessage extends RenderedMessage {
+  // Delivery id, sent along so receivers can ignore retried duplicates
+  id: string
+  event: AppEvent
+}
+
+/**
+ * Delivers one message through one channel; throws when delivery failed
+ */
+export interface NotificationSender {
+  send(channel: NotificationChannel, recipient: string, message: OutgoingMessage): Promise<void>
+}
+
+export type NotificationSenders = Record<ChannelType, NotificationSender>
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}
+
+const REQUEST_TIMEOUT_MS = 10_000
+
+/**
+ * POST JSON and fail on anything but a 2xx answer
+ */
+async function postJson(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const response = await axios.post(url, body, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    timeout: REQUEST_TIMEOUT_MS,
+    validateStatus: () => true,
+  })
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`)
+  }
+}
+
+/**
+ * Email through SMTP. Works against any SMTP server, including a local sink
+ * such as MailHog or smtp4dev for development.
+ */
+export class EmailSender implements NotificationSender {
+  private readonly smtp: SmtpConfig | null
+  private transporter: Transporter | null = null
+
+  constructor(smtp: SmtpConfig | null) {
+    this.smtp = smtp
+  }
+
+  async send(_channel: NotificationChannel, recipient: string, message: OutgoingMessage): Promise<void> {
+    await this.sendMail({
+      to: recipient,
+      subject: message.subject,
+      text: message.body,
+      headers: { 'X-Indusmind-Event': message.event.type },
+    })
+  }
+
+  /**
+   * Send any email through the configured SMTP server (also used for reports)
+   */
+  async sendMail(mail: Omit<SendMailOptions, 'from'>): Promise<void> {
+    if (!this.smtp) {
+      throw new Error('SMTP is not configured (SMTP_HOST)')
+    }
+
+    this.transporter ??= nodemailer.createTransport({
+      host: this.smtp.host,
+      port: this.smtp.port,
+      secure: this.smtp.secure,
+      auth: this.smtp.user ? { user: this.smtp.user, pass: this.smtp.password } : undefined,
+    })
+
+    await this.transporter.sendMail({ ...mail, from: this.smtp.from })
+  }
+}
+
+/**
+ * Generic HTTP webhook. With a secret, each request carries
+ * `X-Indusmind-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`
+ * and the timestamp in `X-Indusmind-Timestamp`, so receivers can check both
+ * the origin and the freshness of the call.
+ */
+export class WebhookSender implements NotificationSender {
+  async send(channel: NotificationChannel, recipient: string, message: OutgoingMessage): Promise<void> {
+    if (channel.type !== 'webhook') {
+      throw new Error(`Channel ${channel.id} is not a webhook`)
+    }
+
+    const body = JSON.stringify({
+      id: message.id,
+      subject: message.subject,
+      body: message.body,
+      event: message.event,
+    })
+    const timestamp = String(Date.now())
+    const headers: Record<string, string> = {
+      ...channel.config.headers,
+      'X-Indusmind-Event': message.event.type,
+      'X-Indusmind-Delivery': message.id,
+      'X-Indusmind-Timestamp': timestamp,
+    }
+    if (channel.config.secret) {
+      headers['X-Indusmind-Signature'] = `sha256=${signPayload(channel.config.secret, timestamp, body)}`
+    }
+
+    await postJson(recipient, body, headers)
+  }
+}
+
+/**
+ * Slack-style incoming webhook: `{ "text": ... }` with *bold* subject
+ */
+export class ChatSender implements NotificationSender {
+  async send(_channel: NotificationChannel, recipient: string, message: OutgoingMessage): Promise<void> {
+    await postJson(recipient, JSON.stringify({ text: `*${message.subject}*\n${message.body}` }), {})
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
@@ -0,0 +1,71 @@
+import { MessageTemplate } from '../../modules/notification/notification.validation.js'
+import { NotificationChannel } from '../../modules/notification/notification.model.js'
+import { AppEvent, AppEventType } from '../event-bus.js'
+
+export interface RenderedMessage {
+  subject: string
+  body: string
+}
+
+const DEFAULT_SUBJECT = '[{{severity}}] {{title}}'
+const DEFAULT_BODY = [
+  '{{title}}',
+  '',
+  'Event: {{type}}',
+  'Severity: {{severity}}',
+  'Device: {{device}}',
+  'Time: {{occurredAt}}',
+].join('\n')
+
+const BUILT_IN_TEMPLATES: Partial<Record<AppEventType, MessageTemplate>> = {
+  'alarm.raised': {
+    body: [
+      '{{title}}',
+      '',
+      'Rule: {{data.ruleName}}',
+      'Severity: {{severity}}',
+      'Device: {{device}}',
+      'Value: {{data.value}}',
+      'Since: {{data.startedAt}}',
+    ].join('\n'),
+  },
+}
+
+/**
+ * Replace `{{path}}` placeholders with values from `context`; unknown paths render empty
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    let value: unknown = context
+    for (const part of path.split('.')) {
+      value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined
+    }
+    return value === undefined || value === null ? '' : String(value)
+  })
+}
+
+/**
+ * Subject and body for an event on a channel. The channel's template for the
+ * event type wins over its "default" template, then over the built-in ones.
+ */
+export function buildMessage(channel: Pick<NotificationChannel, 'templates'>, event: AppEvent): RenderedMessage {
+  const context = {
+    type: event.type,
+    severity: event.severity,
+    title: event.title,
+    device: event.deviceName ?? event.deviceUUID ?? '-',
+    deviceUUID: event.deviceUUID,
+    deviceName: event.deviceName,
+    customerId: event.customerId,
+    occurredAt: new Date(event.occurredAt).toISOString(),
+    data: event.data,
+  }
+  const custom = channel.templates[event.type] ?? {}
+  const fallback = channel.templates.default ?? {}
+  const builtIn = BUILT_IN_TEMPLATES[event.type] ?? {}
+
+  return {
+    subject: renderTemplate(custom.subject ?? fallback.subject ?? builtIn.subject ?? DEFAULT_SUBJECT, context),
+    body: renderTemplate(custom.body ?? fallback.body ?? builtIn.body ?? DEFAULT_BODY, context),
+  }
+}
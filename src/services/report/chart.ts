@@ -0,0 +1,74 @@
+/**
+ * Layout of a line chart, shared by the HTML (SVG) and PDF renderers.
+ */
+
+export const CHART_COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f']
+
+export interface ChartBox {
+  width: number
+  height: number
+  // Room left for the y axis labels and below for the x axis labels
+  marginLeft: number
+  marginBottom: number
+}
+
+export interface ChartLayout {
+  // One list of runs per series; a run is broken wherever a value is missing
+  lines: { x: number; y: number }[][][]
+  yTicks: { y: number; value: number }[]
+  xLabels: { x: number; label: string }[]
+  plot: { left: number; top: number; right: number; bottom: number }
+}
+
+const niceStep = (range: number, ticks: number) => {
+  const raw = range / ticks
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  const normalized = raw / magnitude
+  return (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude
+}
+
+export function layoutChart(series: (number | null)[][], labels: string[], box: ChartBox): ChartLayout {
+  const plot = { left: box.marginLeft, top: 10, right: box.width - 10, bottom: box.height - box.marginBottom }
+  const present = series.flat().filter((value): value is number => value !== null)
+
+  let min = present.length > 0 ? Math.min(0, ...present) : 0
+  let max = present.length > 0 ? Math.max(...present) : 1
+  if (max === min) max = min + 1
+  const step = niceStep(max - min, 4)
+  min = Math.floor(min / step) * step
+  max = Math.ceil(max / step) * step
+
+  const count = labels.length
+  const x = (index: number) =>
+    count <= 1 ? (plot.left + plot.right) / 2 : plot.left + ((plot.right - plot.left) * index) / (count - 1)
+  const y = (value: number) => plot.bottom - ((plot.bottom - plot.top) * (value - min)) / (max - min)
+
+  const lines = series.map((values) => {
+    const runs: { x: number; y: number }[][] = []
+    let run: { x: number; y: number }[] = []
+    values.forEach((value, index) => {
+      if (value === null) {
+        if (run.length > 0) runs.push(run)
+        run = []
+      } else {
+        run.push({ x: x(index), y: y(value) })
+      }
+    })
+    if (run.length > 0) runs.push(run)
+    return runs
+  })
+
+  const yTicks: ChartLayout['yTicks'] = []
+  for (let value = min; value <= max + step / 2; value += step) {
+    yTicks.push({ y: y(value), value: Number(value.toPrecision(12)) })
+  }
+
+  // At most ~8 x labels so they stay readable
+  const every = Math.max(1, Math.ceil(count / 8))
+  const xLabels = labels
+    .map((label, index) => ({ x: x(index), label, index }))
+    .filter(({ index }) => index % every === 0)
+    .map(({ x: position, label }) => ({ x: position, label }))
+
+  return { lines, yTicks, xLabels, plot }
+}
@@ -0,0 +1,131 @@
+/**
+ * Self-contained HTML rendering of a report: inline styles and SVG charts, so
+ * it displays the same in a browser and in an email client.
+ */
+
+import { CHART_COLORS, layoutChart } from './chart.js'
+import { formatPeriod, formatValue, ReportData, ReportMetric, ReportSeries } from './report-data.js'
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const TABLE = 'border-collapse:collapse;width:100%;font-size:12px;margin:8px 0 16px'
+const CELL = 'border:1px solid #ddd;padding:4px 6px;text-align:right'
+const HEAD = `${CELL};background:#f3f5f7;text-align:left`
+
+const metricTitle = (metric: ReportMetric) =>
+  `${metric.label}${metric.unit ? ` (${metric.unit})` : ''} - ${metric.aggregation}`
+
+function renderSummary(data: ReportData): string {
+  const devices = [...new Map(data.metrics.flatMap(({ series }) => series.map((s) => [s.deviceUUID, s.deviceName]))).entries()]
+  const header = data.metrics.map(({ metric }) => `<th style="${HEAD}">${escapeHtml(metricTitle(metric))}</th>`).join('')
+  const rows = devices
+    .map(([deviceUUID, deviceName]) => {
+      const cells = data.metrics
+        .map(({ metric, series }) => {
+          const summary = series.find((s) => s.deviceUUID === deviceUUID)?.summary ?? null
+          return `<td style="${CELL}">${escapeHtml(formatValue(summary, metric.unit))}</td>`
+        })
+        .join('')
+      return `<tr><td style="${CELL};text-align:left">${escapeHtml(deviceName)}</td>${cells}</tr>`
+    })
+    .join('')
+
+  return `<h2>Summary</h2><table style="${TABLE}"><tr><th style="${HEAD}">Device</th>${header}</tr>${rows}</table>`
+}
+
+function renderChart(data: ReportData, series: ReportSeries[]): string {
+  const width = 720
+  const height = 240
+  const layout = layoutChart(
+    series.map((s) => s.values),
+    data.buckets.map((bucket) => bucket.label),
+    { width, height, marginLeft: 60, marginBottom: 30 }
+  )
+  const { plot } = layout
+
+  const grid = layout.yTicks
+    .map(
+      (tick) =>
+        `<line x1="${plot.left}" x2="${plot.right}" y1="${tick.y}" y2="${tick.y}" stroke="#e5e5e5"/>` +
+        `<text x="${plot.left - 6}" y="${tick.y + 4}" text-anchor="end">${escapeHtml(formatValue(tick.value))}</text>`
+    )
+    .join('')
+  const labels = layout.xLabels
+    .map((label) => `<text x="${label.x}" y="${plot.bottom + 18}" text-anchor="middle">${escapeHtml(label.label)}</text>`)
+    .join('')
+  const lines = layout.lines
+    .map((runs, index) =>
+      runs
+        .map((run) => {
+          const color = CHART_COLORS[index % CHART_COLORS.length]
+          if (run.length === 1) return `<circle cx="${run[0].x}" cy="${run[0].y}" r="2.5" fill="${color}"/>`
+          const points = run.map((point) => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')
+          return `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.5"/>`
+        })
+        .join('')
+    )
+    .join('')
+  const legend = series
+    .map(
+      (s, index) =>
+        `<span style="margin-right:12px"><span style="display:inline-block;width:10px;height:10px;background:${
+          CHART_COLORS[index % CHART_COLORS.length]
+        }"></span> ${escapeHtml(s.deviceName)}</span>`
+    )
+    .join('')
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+    `style="font:10px sans-serif;fill:#555;max-width:100%">${grid}${labels}${lines}</svg>` +
+    `<div style="font-size:11px;margin-bottom:8px">${legend}</div>`
+  )
+}
+
+function renderTable(data: ReportData, metric: ReportMetric, series: ReportSeries[]): string {
+  const header = series.map((s) => `<th style="${HEAD}">${escapeHtml(s.deviceName)}</th>`).join('')
+  const rows = data.buckets
+    .map((bucket, index) => {
+      const cells = series
+        .map((s) => `<td style="${CELL}">${escapeHtml(formatValue(s.values[index], metric.unit))}</td>`)
+        .join('')
+      return `<tr><td style="${CELL};text-align:left">${escapeHtml(bucket.label)}</td>${cells}</tr>`
+    })
+    .join('')
+
+  return `<table style="${TABLE}"><tr><th style="${HEAD}">Period</th>${header}</tr>${rows}</table>`
+}
+
+export function renderReportHtml(data: ReportData): string {
+  const sections: string[] = []
+  if (data.sections.includes('summary')) {
+    sections.push(renderSummary(data))
+  }
+  const withChart = data.sections.includes('chart')
+  const withTable = data.sections.includes('table')
+  if (withChart || withTable) {
+    for (const { metric, series } of data.metrics) {
+      sections.push(`<h2>${escapeHtml(metricTitle(metric))}</h2>`)
+      if (withChart) sections.push(renderChart(data, series))
+      if (withTable) sections.push(renderTable(data, metric, series))
+    }
+  }
+  if (data.errors.length > 0) {
+    const items = data.errors
+      .map((error) => `<li>${escapeHtml(error.deviceUUID)}: ${escapeHtml(error.error)}</li>`)
+      .join('')
+    sections.push(`<h2>Missing data</h2><ul style="font-size:12px">${items}</ul>`)
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(data.title)}</title></head>`,
+    '<body style="font-family:Helvetica,Arial,sans-serif;color:#222;max-width:760px;margin:0 auto;padding:16px">',
+    `<h1 style="margin-bottom:4px">${escapeHtml(data.title)}</h1>`,
+    `<p style="color:#666;margin-top:0">${escapeHtml(formatPeriod(data.periodStart, data.periodEnd))} (UTC), ` +
+      `per ${data.granularity}. Generated ${escapeHtml(new Date(data.generatedAt).toISOString())}.</p>`,
+    ...sections,
+    '</body></html>',
+  ].join('\n')
+}
@@ -0,0 +1,224 @@
+/**
+ * PDF rendering of a report with pdfkit: A4 portrait, vector charts, and
+ * tables split into column groups so wide device sets stay readable.
+ */
+
+import PDFDocument from 'pdfkit'
+import { CHART_COLORS, layoutChart } from './chart.js'
+import { formatPeriod, formatValue, ReportData, ReportMetric, ReportSeries } from './report-data.js'
+
+type Doc = PDFKit.PDFDocument
+
+const MARGIN = 40
+const ROW_HEIGHT = 14
+const FIRST_COLUMN = 120
+// Device columns per table; more devices continue in another table below
+const MAX_COLUMNS = 5
+
+const contentWidth = (doc: Doc) => doc.page.width - 2 * MARGIN
+
+const metricTitle = (metric: ReportMetric) =>
+  `${metric.label}${metric.unit ? ` (${metric.unit})` : ''} - ${metric.aggregation}`
+
+/**
+ * Start a new page unless `height` still fits on the current one
+ */
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage()
+  }
+}
+
+function heading(doc: Doc, text: string): void {
+  ensureSpace(doc, 40)
+  doc.moveDown(0.5).font('Helvetica-Bold').fontSize(13).fillColor('#222').text(text, MARGIN)
+  doc.moveDown(0.3)
+}
+
+/**
+ * Draw a table; `rows` are text cells, the first column left aligned
+ */
+function table(doc: Doc, header: string[], rows: string[][]): void {
+  const otherWidth = (contentWidth(doc) - FIRST_COLUMN) / Math.max(1, header.length - 1)
+  const columnX = (index: number) => MARGIN + (index === 0 ? 0 : FIRST_COLUMN + (index - 1) * otherWidth)
+  const columnWidth = (index: number) => (index === 0 ? FIRST_COLUMN : otherWidth)
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, ROW_HEIGHT)
+    const y = doc.y
+    if (bold) {
+      doc.rect(MARGIN, y, contentWidth(doc), ROW_HEIGHT).fill('#f3f5f7')
+    }
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8).fillColor('#222')
+    cells.forEach((cell, index) => {
+      doc.text(cell, columnX(index) + 3, y + 3, {
+        width: columnWidth(index) - 6,
+        align: index === 0 ? 'left' : 'right',
+        lineBreak: false,
+        ellipsis: true,
+      })
+    })
+    doc
+      .moveTo(MARGIN, y + ROW_HEIGHT)
+      .lineTo(MARGIN + contentWidth(doc), y + ROW_HEIGHT)
+      .lineWidth(0.5)
+      .strokeColor('#dddddd')
+      .stroke()
+    doc.x = MARGIN
+    doc.y = y + ROW_HEIGHT
+  }
+
+  drawRow(header, true)
+  for (const row of rows) {
+    // Repeat the header on every page the table runs onto
+    if (doc.y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage()
+      drawRow(header, true)
+    }
+    drawRow(row, false)
+  }
+  doc.moveDown(0.8)
+}
+
+function chart(doc: Doc, data: ReportData, series: ReportSeries[]): void {
+  const width = contentWidth(doc)
+  const height = 180
+  const legendHeight = Math.ceil(series.length / 4) * 12
+  ensureSpace(doc, height + legendHeight + 10)
+
+  const originX = MARGIN
+  const originY = doc.y
+  const layout = layoutChart(
+    series.map((s) => s.values),
+    data.buckets.map((bucket) => bucket.label),
+    { width, height, marginLeft: 50, marginBottom: 24 }
+  )
+  const { plot } = layout
+
+  doc.font('Helvetica').fontSize(7).fillColor('#555')
+  for (const tick of layout.yTicks) {
+    doc
+      .moveTo(originX + plot.left, originY + tick.y)
+      .lineTo(originX + plot.right, originY + tick.y)
+      .lineWidth(0.5)
+      .strokeColor('#e5e5e5')
+      .stroke()
+    doc.text(formatValue(tick.value), originX, originY + tick.y - 3, {
+      width: plot.left - 6,
+      align: 'right',
+      lineBreak: false,
+    })
+  }
+  for (const label of layout.xLabels) {
+    doc.text(label.label, originX + label.x - 40, originY + plot.bottom + 8, {
+      width: 80,
+      align: 'center',
+      lineBreak: false,
+    })
+  }
+
+  layout.lines.forEach((runs, index) => {
+    const color = CHART_COLORS[index % CHART_COLORS.length]
+    for (const run of runs) {
+      if (run.length === 1) {
+        doc.circle(originX + run[0].x, originY + run[0].y, 1.5).fill(color)
+        continue
+      }
+      doc.moveTo(originX + run[0].x, originY + run[0].y)
+      for (const point of run.slice(1)) {
+        doc.lineTo(originX + point.x, originY + point.y)
+      }
+      doc.lineWidth(1.2).strokeColor(color).stroke()
+    }
+  })
+
+  // Legend, four entries per line
+  const legendY = originY + height + 4
+  series.forEach((s, index) => {
+    const x = originX + (index % 4) * (width / 4)
+    const y = legendY + Math.floor(index / 4) * 12
+    doc.rect(x, y + 1, 7, 7).fill(CHART_COLORS[index % CHART_COLORS.length])
+    doc.fillColor('#222').text(s.deviceName, x + 10, y, { width: width / 4 - 12, lineBreak: false, ellipsis: true })
+  })
+
+  doc.x = MARGIN
+  doc.y = legendY + legendHeight + 8
+}
+
+const chunks = <T>(items: T[], size: number): T[][] => {
+  const result: T[][] = []
+  for (let index = 0; index < items.length; index += size) {
+    result.push(items.slice(index, index + size))
+  }
+  return result
+}
+
+export function renderReportPdf(data: ReportData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: data.title } })
+    const parts: Buffer[] = []
+    doc.on('data', (part: Buffer) => parts.push(part))
+    doc.on('end', () => resolve(Buffer.concat(parts)))
+    doc.on('error', reject)
+
+    doc.font('Helvetica-Bold').fontSize(18).fillColor('#222').text(data.title)
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor('#666')
+      .text(
+        `${formatPeriod(data.periodStart, data.periodEnd)} (UTC), per ${data.granularity}. ` +
+          `Generated ${new Date(data.generatedAt).toISOString()}.`
+      )
+
+    if (data.sections.includes('summary')) {
+      heading(doc, 'Summary')
+      const devices = [
+        ...new Map(data.metrics.flatMap(({ series }) => series.map((s) => [s.deviceUUID, s.deviceName]))).entries(),
+      ]
+      for (const metrics of chunks(data.metrics, MAX_COLUMNS)) {
+        table(
+          doc,
+          ['Device', ...metrics.map(({ metric }) => metricTitle(metric))],
+          devices.map(([deviceUUID, deviceName]) => [
+            deviceName,
+            ...metrics.map(({ metric, series }) =>
+              formatValue(series.find((s) => s.deviceUUID === deviceUUID)?.summary ?? null, metric.unit)
+            ),
+          ])
+        )
+      }
+    }
+
+    const withChart = data.sections.includes('chart')
+    const withTable = data.sections.includes('table')
+    if (withChart || withTable) {
+      for (const { metric, series } of data.metrics) {
+        heading(doc, metricTitle(metric))
+        if (withChart) chart(doc, data, series)
+        if (withTable) {
+          for (const group of chunks(series, MAX_COLUMNS)) {
+            table(
+              doc,
+              ['Period', ...group.map((s) => s.deviceName)],
+              data.buckets.map((bucket, index) => [
+                bucket.label,
+                ...group.map((s) => formatValue(s.values[index], metric.unit)),
+              ])
+            )
+          }
+        }
+      }
+    }
+
+    if (data.errors.length > 0) {
+      heading(doc, 'Missing data')
+      doc.font('Helvetica').fontSize(9).fillColor('#222')
+      for (const error of data.errors) {
+        doc.text(`${error.deviceUUID}: ${error.error}`, MARGIN)
+      }
+    }
+
+    doc.end()
+  })
+}
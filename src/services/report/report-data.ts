@@ -0,0 +1,108 @@
+/**
+ * Data behind a rendered report: one aggregated series per device and metric,
+ * bucketed by the report granularity, plus a summary value per series.
+ */
+
+import { CalendarBucket } from '../../utils/calendar.js'
+import { ReportAggregation } from '../../modules/report/report.model.js'
+import { ReportDefinition } from '../../modules/report/report.validation.js'
+
+export interface ReportMetric {
+  key: string
+  label: string
+  unit: string
+  aggregation: ReportAggregation
+}
+
+export interface ReportSeries {
+  deviceUUID: string
+  deviceName: string
+  // One value per bucket, null when there is no data
+  values: (number | null)[]
+  // Total for DELTA and SUM, average for AVG, extreme for MIN and MAX
+  summary: number | null
+}
+
+export interface ReportData {
+  title: string
+  periodStart: number
+  periodEnd: number
+  generatedAt: number
+  granularity: ReportDefinition['granularity']
+  sections: ReportDefinition['layout']['sections']
+  buckets: CalendarBucket[]
+  // Series per metric, in the order of `metrics`
+  metrics: { metric: ReportMetric; series: ReportSeries[] }[]
+  // Devices that could not be read, with the reason
+  errors: { deviceUUID: string; error: string }[]
+}
+
+export interface AggregatedPoint {
+  ts: number
+  value: unknown
+}
+
+export const toReportMetric = (metric: ReportDefinition['metrics'][number]): ReportMetric => ({
+  key: metric.key,
+  label: metric.label ?? metric.key,
+  unit: metric.unit ?? '',
+  aggregation: metric.aggregation,
+})
+
+/**
+ * Place aggregated points into the bucket containing their timestamp. ThingsBoard
+ * stamps an aggregated value with the middle of its interval, which always falls
+ * inside the matching bucket.
+ */
+export function bucketValues(points: AggregatedPoint[], buckets: CalendarBucket[]): (number | null)[] {
+  const values: (number | null)[] = buckets.map(() => null)
+  for (const point of points) {
+    const value = Number(point.value)
+    if (point.value === null || point.value === '' || !Number.isFinite(value)) continue
+    const index = buckets.findIndex((bucket) => point.ts >= bucket.start && point.ts < bucket.end)
+    if (index >= 0) values[index] = value
+  }
+  return values
+}
+
+/**
+ * Increase of a cumulative counter per bucket, from its MIN and MAX in that bucket
+ */
+export function counterDeltas(minimums: (number | null)[], maximums: (number | null)[]): (number | null)[] {
+  return maximums.map((max, index) => {
+    const min = minimums[index]
+    return max === null || min === null ? null : Math.max(0, max - min)
+  })
+}
+
+export function summarize(values: (number | null)[], aggregation: ReportAggregation): number | null {
+  const present = values.filter((value): value is number => value !== null)
+  if (present.length === 0) return null
+
+  switch (aggregation) {
+    case 'DELTA':
+    case 'SUM':
+      return present.reduce((sum, value) => sum + value, 0)
+    case 'AVG':
+      return present.reduce((sum, value) => sum + value, 0) / present.length
+    case 'MIN':
+      return Math.min(...present)
+    case 'MAX':
+      return Math.max(...present)
+  }
+}
+
+/**
+ * Compact display of a report value
+ */
+export function formatValue(value: number | null, unit = ''): string {
+  if (value === null) return '-'
+  const digits = Math.abs(value) >= 1000 ? 0 : Math.abs(value) >= 10 ? 1 : 2
+  const text = value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })
+  return unit ? `${text} ${unit}` : text
+}
+
+export function formatPeriod(start: number, end: number): string {
+  const day = (ts: number) => new Date(ts).toISOString().slice(0, 10)
+  return `${day(start)} to ${day(end - 1)}`
+}
@@ -0,0 +1,324 @@
+import { randomUUID } from 'node:crypto'
+import { logger } from '../../utils/logger.js'
+import { ValidationError } from '../../utils/apiError.js'
+import { CalendarBucket, splitRange } from '../../utils/calendar.js'
+import { mapWithConcurrency } from '../../utils/concurrency.js'
+import { canViewDevice } from '../../modules/auth/auth.policy.js'
+import { findUserById } from '../../modules/user/user.repository.js'
+import { Report, ReportRun } from '../../modules/report/report.model.js'
+import { completeRun, findDueReports, insertRun, updateNextRunAt } from '../../modules/report/report.repository.js'
+import { Device, DeviceService } from '../device.service.js'
+import { EmailSender } from '../notification/senders.js'
+import { TelemetryProvider } from '../telemetry-provider.js'
+import { renderReportHtml } from './html.js'
+import { renderReportPdf } from './pdf.js'
+import {
+  bucketValues,
+  counterDeltas,
+  formatPeriod,
+  ReportData,
+  ReportSeries,
+  summarize,
+  toReportMetric,
+} from './report-data.js'
+import { lastCompletePeriod, nextRunAfter, ReportPeriod } from './schedule.js'
+
+const reportLogger = logger.child({ module: 'ReportService' })
+
+const HOUR = 60 * 60 * 1000
+const GRANULARITY_MS = { hour: HOUR, day: 24 * HOUR, week: 7 * 24 * HOUR }
+
+export interface ReportServiceOptions {
+  // How often due reports are looked for; 0 disables the scheduler
+  intervalMs: number
+  // Devices read in parallel while building a report
+  concurrency: number
+}
+
+export interface ReportRunOptions {
+  period?: ReportPeriod
+  trigger: ReportRun['trigger']
+  // Email the report to its recipients
+  sendEmail: boolean
+}
+
+/**
+ * Report Service
+ * Builds report runs from aggregated telemetry, renders them to HTML and PDF,
+ * archives them and emails them to the recipients. Scheduled reports run
+ * from a timer inside the backend.
+ */
+export class ReportService {
+  private logger = reportLogger
+  private readonly telemetryService: TelemetryProvider
+  private readonly deviceService: DeviceService
+  private readonly emailSender: EmailSender
+  private readonly options: ReportServiceOptions
+  private readonly maxBuckets = 2000
+  private timer: NodeJS.Timeout | null = null
+  private running: Promise<number> | null = null
+
+  constructor(
+    telemetryService: TelemetryProvider,
+    deviceService: DeviceService,
+    emailSender: EmailSender,
+    options: ReportServiceOptions
+  ) {
+    this.telemetryService = telemetryService
+    this.deviceService = deviceService
+    this.emailSender = emailSender
+    this.options = options
+  }
+
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) return
+
+    this.timer = setInterval(() => {
+      this.runDue().catch((error) => {
+        this.logger.error(`Scheduled reports failed: ${error instanceof Error ? error.message : error}`)
+      })
+    }, this.options.intervalMs)
+    this.timer.unref()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Run every report whose schedule is due, one after the other. A report
+   * that was due several times while the server was down runs once, for the
+   * period it was first due for.
+   */
+  runDue(now: number = Date.now()): Promise<number> {
+    if (!this.running) {
+      this.running = this.runScheduled(now).finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  /**
+   * Build, archive and optionally email one run of a report. Defaults to the
+   * last complete week or month. Failures are recorded on the returned run.
+   */
+  async run(report: Report, options: ReportRunOptions, now: number = Date.now()): Promise<ReportRun> {
+    const period = options.period ?? lastCompletePeriod(report.frequency, now)
+    const buckets = splitRange(period.start, period.end, report.granularity)
+    if (buckets.length > this.maxBuckets) {
+      throw new ValidationError(`Report period has ${buckets.length} ${report.granularity} buckets (max ${this.maxBuckets})`)
+    }
+
+    const run = await insertRun({
+      id: randomUUID(),
+      reportId: report.id,
+      trigger: options.trigger,
+      status: 'running',
+      periodStart: period.start,
+      periodEnd: period.end,
+      startedAt: new Date(now).toISOString(),
+      finishedAt: null,
+      error: null,
+      emailError: null,
+    })
+
+    try {
+      const data = await this.collect(report, period, buckets, now)
+      const html = renderReportHtml(data)
+      const pdf = await renderReportPdf(data)
+
+      let emailError: string | null = null
+      if (options.sendEmail && report.recipients.length > 0) {
+        emailError = await this.email(report, data, html, pdf)
+      }
+
+      this.logger.info(`Report "${report.name}" (${report.id}) built for ${formatPeriod(period.start, period.end)}`)
+      return await completeRun(
+        { ...run, status: 'succeeded', finishedAt: new Date().toISOString(), emailError },
+        { html, pdf }
+      )
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      this.logger.error(`Report "${report.name}" (${report.id}) failed: ${errorMsg}`)
+      return await completeRun({ ...run, status: 'failed', finishedAt: new Date().toISOString(), error: errorMsg }, null)
+    }
+  }
+
+  private async runScheduled(now: number): Promise<number> {
+    const due = await findDueReports(now)
+
+    for (const report of due) {
+      // Move the schedule first so a report that keeps failing does not run on every tick
+      await updateNextRunAt(report.id, nextRunAfter(report.frequency, report.schedule.hour, now))
+      await this.run(
+        report,
+        { period: lastCompletePeriod(report.frequency, report.nextRunAt ?? now), trigger: 'schedule', sendEmail: true },
+        now
+      )
+    }
+
+    return due.length
+  }
+
+  /**
+   * Aggregated series for every device and metric. Devices are resolved with
+   * the report owner's visibility, so a report never shows more than its
+   * owner may see.
+   */
+  private async collect(
+    report: Report,
+    period: ReportPeriod,
+    buckets: CalendarBucket[],
+    now: number
+  ): Promise<ReportData> {
+    const owner = await findUserById(report.ownerId)
+    if (!owner) {
+      throw new Error(`Report owner ${report.ownerId} no longer exists`)
+    }
+
+    const devices = new Map(
+      (await this.deviceService.getDevices())
+        .filter((device) => canViewDevice(owner, device))
+        .map((device) => [device.deviceUUID, device])
+    )
+    const metrics = report.metrics.map(toReportMetric)
+    const data: ReportData = {
+      title: report.layout.title ?? report.name,
+      periodStart: period.start,
+      periodEnd: period.end,
+      generatedAt: now,
+      granularity: report.granularity,
+      sections: report.layout.sections,
+      buckets,
+      metrics: metrics.map((metric) => ({ metric, series: [] })),
+      errors: [],
+    }
+
+    const results = await mapWithConcurrency(report.deviceUUIDs, this.options.concurrency, async (deviceUUID) => {
+      const device = devices.get(deviceUUID)
+      if (!device) {
+        return { deviceUUID, error: 'Device not found' }
+      }
+      try {
+        return { deviceUUID, series: await this.deviceSeries(report, device, buckets) }
+      } catch (error) {
+        return { deviceUUID, error: error instanceof Error ? error.message : String(error) }
+      }
+    })
+
+    for (const result of results) {
+      if (result.series) {
+        result.series.forEach((series, index) => data.metrics[index].series.push(series))
+      } else {
+        data.errors.push({ deviceUUID: result.deviceUUID, error: result.error })
+      }
+    }
+    return data
+  }
+
+  /**
+   * One series per report metric for a device. Keys sharing an aggregation are
+   * fetched together; DELTA needs both the MIN and the MAX of each bucket.
+   */
+  private async deviceSeries(report: Report, device: Device, buckets: CalendarBucket[]): Promise<ReportSeries[]> {
+    const keysByAgg = new Map<string, Set<string>>()
+    for (const metric of report.metrics) {
+      const aggs = metric.aggregation === 'DELTA' ? ['MIN', 'MAX'] : [metric.aggregation]
+      for (const agg of aggs) {
+        keysByAgg.set(agg, (keysByAgg.get(agg) ?? new Set()).add(metric.key))
+      }
+    }
+
+    const valuesByAgg = new Map<string, Record<string, (number | null)[]>>()
+    for (const [agg, keys] of keysByAgg) {
+      valuesByAgg.set(agg, await this.aggregate(device.deviceUUID, [...keys], agg, buckets, report.granularity))
+    }
+
+    return report.metrics.map((metric) => {
+      const values =
+        metric.aggregation === 'DELTA'
+          ? counterDeltas(valuesByAgg.get('MIN')![metric.key], valuesByAgg.get('MAX')![metric.key])
+          : valuesByAgg.get(metric.aggregation)![metric.key]
+      return {
+        deviceUUID: device.deviceUUID,
+        deviceName: device.name ?? device.deviceUUID,
+        values,
+        summary: summarize(values, metric.aggregation),
+      }
+    })
+  }
+
+  /**
+   * Bucket values of `keys` with ThingsBoard aggregation. Runs of full-length
+   * buckets are fetched in one call; buckets clipped by the range edges (or ISO
+   * weeks that do not line up with the range) are fetched on their own.
+   */
+  private async aggregate(
+    deviceUUID: string,
+    keys: string[],
+    agg: string,
+    buckets: CalendarBucket[],
+    granularity: Report['granularity']
+  ): Promise<Record<string, (number | null)[]>> {
+    const intervalMs = GRANULARITY_MS[granularity]
+    const calls: { start: number; end: number; interval: number }[] = []
+    for (const bucket of buckets) {
+      const length = bucket.end - bucket.start
+      const last = calls[calls.length - 1]
+      if (length === intervalMs && last?.interval === intervalMs && last.end === bucket.start) {
+        last.end = bucket.end
+      } else {
+        calls.push({ start: bucket.start, end: bucket.end, interval: length })
+      }
+    }
+
+    const points: Record<string, { ts: number; value: unknown }[]> = Object.fromEntries(keys.map((key) => [key, []]))
+    for (const call of calls) {
+      const data = await this.telemetryService.getTimeseries(
+        'DEVICE',
+        deviceUUID,
+        keys,
+        call.start,
+        call.end,
+        call.interval,
+        agg
+      )
+      for (const key of keys) {
+        points[key].push(...(data[key] ?? []))
+      }
+    }
+
+    return Object.fromEntries(keys.map((key) => [key, bucketValues(points[key], buckets)]))
+  }
+
+  /**
+   * Email the report; returns the error message instead of throwing so the run is still archived
+   */
+  private async email(report: Report, data: ReportData, html: string, pdf: Buffer): Promise<string | null> {
+    const period = formatPeriod(data.periodStart, data.periodEnd)
+    const fileName = `${data.title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'report'}-${new Date(
+      data.periodStart
+    )
+      .toISOString()
+      .slice(0, 10)}.pdf`
+
+    try {
+      await this.emailSender.sendMail({
+        to: report.recipients,
+        subject: `${data.title}: ${period}`,
+        html,
+        text: `${data.title}, ${period} (UTC). The report is attached as a PDF.`,
+        attachments: [{ filename: fileName, content: pdf, contentType: 'application/pdf' }],
+      })
+      return null
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      this.logger.warn(`Report "${report.name}" (${report.id}) could not be emailed: ${errorMsg}`)
+      return errorMsg
+    }
+  }
+}
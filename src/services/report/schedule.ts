@@ -0,0 +1,34 @@
+/**
+ * When scheduled reports run and which period they cover, in UTC.
+ */
+
+import { nextPeriod, startOfPeriod } from '../../utils/calendar.js'
+import { ReportFrequency } from '../../modules/report/report.model.js'
+
+const HOUR = 60 * 60 * 1000
+
+export interface ReportPeriod {
+  start: number
+  end: number
+}
+
+const unitOf = (frequency: ReportFrequency) => (frequency === 'weekly' ? 'week' : 'month')
+
+/**
+ * The last complete week (Monday to Monday) or month before `ts`
+ */
+export function lastCompletePeriod(frequency: ReportFrequency, ts: number): ReportPeriod {
+  const unit = unitOf(frequency)
+  const end = startOfPeriod(ts, unit)
+  return { start: startOfPeriod(end - 1, unit), end }
+}
+
+/**
+ * First scheduled run strictly after `now`: `hour` o'clock on the Monday
+ * (weekly) or the 1st of the month (monthly) that follows a period.
+ */
+export function nextRunAfter(frequency: ReportFrequency, hour: number, now: number): number {
+  const unit = unitOf(frequency)
+  const current = startOfPeriod(now, unit) + hour * HOUR
+  return current > now ? current : nextPeriod(startOfPeriod(now, unit), unit) + hour * HOUR
+}
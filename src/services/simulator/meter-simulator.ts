@@ -0,0 +1,285 @@
+/**
+ * Simulated three-phase energy meters.
+ *
+ * Every value is a pure function of the meter and the timestamp, so any time
+ * range can be queried, in any order, and always gives the same answer.
+ *
+ * Active power follows a weekly load shape (office, industrial or retail
+ * hours) between the meter's base and peak load, with smooth noise on top.
+ * Power factor rises with the load, phase voltages sag slightly under load
+ * and phase currents follow from P = V * I * PF. The energy counter integrates
+ * the noise-free load shape from a precomputed weekly table, so it is cheap to
+ * evaluate at any time and never decreases. Load shapes follow a fixed UTC
+ * offset (no DST), which keeps the counter monotonic across clock changes.
+ */
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+const WEEK = 7 * DAY
+// Resolution of the weekly energy table and of the smooth noise
+const SLOT_MS = 15 * MINUTE
+const SLOTS_PER_WEEK = WEEK / SLOT_MS
+// Counters start at initialKwh on Monday 2024-01-01 00:00 local time
+const ORIGIN = Date.UTC(2024, 0, 1)
+
+export const METER_KEYS = [
+  'ActivePowerTotal',
+  'ReactivePowerTotal',
+  'PowerFactor',
+  'VoltageL1',
+  'VoltageL2',
+  'VoltageL3',
+  'CurrentL1',
+  'CurrentL2',
+  'CurrentL3',
+  'Frequency',
+  'AccumulatedActiveEnergyDelivered',
+] as const
+export type MeterKey = (typeof METER_KEYS)[number]
+export type MeterReading = Record<MeterKey, number>
+
+// Decimals kept per key, like a real meter's register resolution
+const PRECISION: MeterReading = {
+  ActivePowerTotal: 3,
+  ReactivePowerTotal: 3,
+  PowerFactor: 3,
+  VoltageL1: 1,
+  VoltageL2: 1,
+  VoltageL3: 1,
+  CurrentL1: 2,
+  CurrentL2: 2,
+  CurrentL3: 2,
+  Frequency: 3,
+  AccumulatedActiveEnergyDelivered: 3,
+}
+
+export type LoadShape = 'office' | 'industrial' | 'retail'
+const LOAD_SHAPES: LoadShape[] = ['office', 'industrial', 'retail']
+
+export interface MeterProfile {
+  deviceUUID: string
+  name: string
+  shape: LoadShape
+  // Load at night and on closed days, in kW
+  baseKw: number
+  // Load at full activity, in kW
+  peakKw: number
+  // Share of the load on each phase, summing to 3
+  phaseShares: [number, number, number]
+  nominalVoltage: number
+  initialKwh: number
+  utcOffsetMinutes: number
+  seed: number
+}
+
+interface WeeklyTable {
+  // Noise-free power in each 15-minute slot of the week, starting Monday 00:00
+  slotKw: Float64Array
+  // Energy used from the start of the week to the start of each slot
+  cumulativeKwh: Float64Array
+  weekKwh: number
+}
+
+const tables = new WeakMap<MeterProfile, WeeklyTable>()
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic value in [0, 1) for a seed and an integer
+ */
+function random(seed: number, n: number): number {
+  let x = Math.imul(seed ^ Math.imul(n | 0, 0x9e3779b1), 0x85ebca6b) ^ Math.floor(n / 0x100000000)
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35)
+  x ^= x >>> 16
+  return (x >>> 0) / 0x100000000
+}
+
+/**
+ * Noise in [-1, 1] that changes smoothly over 15-minute slots
+ */
+function smoothNoise(seed: number, ts: number): number {
+  const position = ts / SLOT_MS
+  const slot = Math.floor(position)
+  const t = position - slot
+  const a = random(seed, slot)
+  const b = random(seed, slot + 1)
+  return (a + (b - a) * (3 - 2 * t) * t * t) * 2 - 1
+}
+
+/**
+ * 0 before `from`, 1 after `to`, a cosine ramp in between
+ */
+function ramp(hour: number, from: number, to: number): number {
+  if (hour <= from) return 0
+  if (hour >= to) return 1
+  return (1 - Math.cos(((hour - from) / (to - from)) * Math.PI)) / 2
+}
+
+/**
+ * Activity between 0 and 1 at a local hour of a day (0 = Monday)
+ */
+export function loadShapeAt(shape: LoadShape, day: number, hour: number): number {
+  const open = (start: number, end: number, rampHours: number) =>
+    ramp(hour, start - rampHours, start) * (1 - ramp(hour, end, end + rampHours))
+
+  switch (shape) {
+    case 'office': {
+      if (day >= 5) return 0
+      // Lunch dip around 12:30
+      const lunch = 0.15 * open(12, 13.5, 0.5)
+      return open(8.5, 17.5, 1.5) * (1 - lunch)
+    }
+    case 'industrial': {
+      // Two shifts on weekdays, one on Saturday, idle process load otherwise
+      let shifts = 0
+      if (day < 5) shifts = open(6, 22, 0.5) * (1 - 0.1 * open(13.75, 14.25, 0.25))
+      else if (day === 5) shifts = 0.7 * open(6, 14, 0.5)
+      return 0.35 + 0.65 * shifts
+    }
+    case 'retail':
+      if (day === 6) return 0.6 * open(10, 13, 0.5)
+      return open(9.5, 20, 1) * (0.9 + 0.1 * ramp(hour, 15, 18))
+  }
+}
+
+/**
+ * Meter profile derived from a seed and the meter's index
+ */
+export function createMeterProfile(seed: string, index: number, utcOffsetMinutes: number): MeterProfile {
+  const hash = hashString(`${seed}:${index}`)
+  const r = (n: number) => random(hash, n)
+  const shape = LOAD_SHAPES[index % LOAD_SHAPES.length]
+  const peakKw = Math.round(shape === 'industrial' ? 150 + r(1) * 350 : 20 + r(1) * 80)
+  const baseKw = Math.round(peakKw * (0.12 + r(2) * 0.13) * 10) / 10
+  const imbalance = [1 + (r(3) - 0.5) * 0.12, 1 + (r(4) - 0.5) * 0.12, 1 + (r(5) - 0.5) * 0.12]
+  const total = imbalance[0] + imbalance[1] + imbalance[2]
+
+  return {
+    deviceUUID: simulatedUUID(hash),
+    name: `Simulated ${shape} meter ${index + 1}`,
+    shape,
+    baseKw,
+    peakKw,
+    phaseShares: imbalance.map((share) => (share * 3) / total) as [number, number, number],
+    nominalVoltage: 230,
+    initialKwh: Math.round(1000 + r(6) * 50_000),
+    utcOffsetMinutes,
+    seed: hash,
+  }
+}
+
+/**
+ * Stable version 4 style UUID derived from a hash
+ */
+function simulatedUUID(hash: number): string {
+  const hex = Array.from({ length: 4 }, (_, i) =>
+    Math.floor(random(hash, 100 + i) * 0x100000000)
+      .toString(16)
+      .padStart(8, '0')
+  ).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+/**
+ * Noise-free active power at a local time, in kW
+ */
+function shapedKw(profile: MeterProfile, localMs: number): number {
+  const weekMs = mod(localMs - ORIGIN, WEEK)
+  const day = Math.floor(weekMs / DAY)
+  const hour = (weekMs - day * DAY) / HOUR
+  return profile.baseKw + (profile.peakKw - profile.baseKw) * loadShapeAt(profile.shape, day, hour)
+}
+
+function weeklyTable(profile: MeterProfile): WeeklyTable {
+  let table = tables.get(profile)
+  if (!table) {
+    const slotKw = new Float64Array(SLOTS_PER_WEEK)
+    const cumulativeKwh = new Float64Array(SLOTS_PER_WEEK)
+    let energy = 0
+    for (let slot = 0; slot < SLOTS_PER_WEEK; slot++) {
+      slotKw[slot] = shapedKw(profile, ORIGIN + slot * SLOT_MS + SLOT_MS / 2)
+      cumulativeKwh[slot] = energy
+      energy += (slotKw[slot] * SLOT_MS) / HOUR
+    }
+    table = { slotKw, cumulativeKwh, weekKwh: energy }
+    tables.set(profile, table)
+  }
+  return table
+}
+
+/**
+ * Energy counter in kWh at `ts`
+ */
+export function energyAt(profile: MeterProfile, ts: number): number {
+  const table = weeklyTable(profile)
+  const sinceOrigin = ts + profile.utcOffsetMinutes * MINUTE - ORIGIN
+  const weeks = Math.floor(sinceOrigin / WEEK)
+  const weekMs = sinceOrigin - weeks * WEEK
+  const slot = Math.floor(weekMs / SLOT_MS)
+  const energy =
+    profile.initialKwh +
+    weeks * table.weekKwh +
+    table.cumulativeKwh[slot] +
+    (table.slotKw[slot] * (weekMs - slot * SLOT_MS)) / HOUR
+  return Math.max(0, energy)
+}
+
+/**
+ * Every meter value at `ts`, rounded to the meter's resolution
+ */
+export function readMeter(profile: MeterProfile, ts: number): MeterReading {
+  const localMs = ts + profile.utcOffsetMinutes * MINUTE
+  const shaped = shapedKw(profile, localMs)
+  const activity = (shaped - profile.baseKw) / Math.max(profile.peakKw - profile.baseKw, 1e-9)
+  const noise = smoothNoise(profile.seed, ts)
+  const jitter = random(profile.seed ^ 0x5bd1e995, Math.floor(ts / 1000)) * 2 - 1
+
+  const activePower = Math.max(0, shaped * (1 + 0.06 * noise + 0.01 * jitter))
+  const powerFactor = Math.min(0.99, Math.max(0.8, 0.86 + 0.1 * activity + 0.01 * noise))
+  const voltages = [0, 1, 2].map(
+    (phase) => profile.nominalVoltage + 2.5 - 5 * activity + 1.2 * smoothNoise(profile.seed + phase + 1, ts)
+  )
+  const currents = voltages.map(
+    (voltage, phase) => (((activePower * profile.phaseShares[phase]) / 3) * 1000) / (voltage * powerFactor)
+  )
+
+  const reading: MeterReading = {
+    ActivePowerTotal: activePower,
+    ReactivePowerTotal: activePower * Math.tan(Math.acos(powerFactor)),
+    PowerFactor: powerFactor,
+    VoltageL1: voltages[0],
+    VoltageL2: voltages[1],
+    VoltageL3: voltages[2],
+    CurrentL1: currents[0],
+    CurrentL2: currents[1],
+    CurrentL3: currents[2],
+    Frequency: 50 + 0.03 * smoothNoise(profile.seed + 7, ts),
+    AccumulatedActiveEnergyDelivered: energyAt(profile, ts),
+  }
+  for (const key of METER_KEYS) {
+    reading[key] = roundMeterValue(key, reading[key])
+  }
+  return reading
+}
+
+/**
+ * Round a value to the resolution of its key
+ */
+export function roundMeterValue(key: MeterKey, value: number): number {
+  const factor = 10 ** PRECISION[key]
+  return Math.round(value * factor) / factor
+}
+
+function mod(value: number, modulus: number): number {
+  return ((value % modulus) + modulus) % modulus
+}
@@ -0,0 +1,85 @@
+import { logger } from '../../utils/logger.js'
+import { StreamSubscription, TelemetryUpdate } from '../thingsboard/telemetry-stream.service.js'
+import { TelemetryStream } from '../telemetry-provider.js'
+import { SimulatorTelemetryService } from './simulator-telemetry.service.js'
+
+const streamLogger = logger.child({ module: 'SimulatorStreamService' })
+
+interface Subscriber {
+  subscriptions: StreamSubscription[]
+  listener: (update: TelemetryUpdate) => void
+  onEnd?: () => void
+}
+
+/**
+ * Live updates of the simulated meters: every subscriber gets the current
+ * readings of its devices on a fixed tick, like ThingsBoard pushes new values.
+ * The timer runs only while someone is subscribed.
+ */
+export class SimulatorStreamService implements TelemetryStream {
+  private logger = streamLogger
+  private readonly simulator: SimulatorTelemetryService
+  private readonly intervalMs: number
+  private readonly subscribers = new Map<number, Subscriber>()
+  private nextSubscriberId = 1
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(simulator: SimulatorTelemetryService, intervalMs: number = 5000) {
+    this.simulator = simulator
+    this.intervalMs = intervalMs
+  }
+
+  subscribe(
+    subscriptions: StreamSubscription[],
+    listener: (update: TelemetryUpdate) => void,
+    onEnd?: () => void
+  ): () => void {
+    const id = this.nextSubscriberId++
+    this.subscribers.set(id, { subscriptions, listener, onEnd })
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), this.intervalMs)
+    }
+
+    return () => {
+      this.subscribers.delete(id)
+      if (this.subscribers.size === 0) this.stopTimer()
+    }
+  }
+
+  cleanup(): void {
+    const subscribers = [...this.subscribers.values()]
+    this.subscribers.clear()
+    this.stopTimer()
+    for (const subscriber of subscribers) subscriber.onEnd?.()
+  }
+
+  private tick(): void {
+    const ts = Date.now()
+    for (const subscriber of this.subscribers.values()) {
+      for (const { deviceUUID, keys } of subscriber.subscriptions) {
+        const reading = this.simulator.readingAt(deviceUUID, ts)
+        if (!reading) continue
+
+        const data: TelemetryUpdate['data'] = {}
+        for (const [key, value] of Object.entries(reading)) {
+          if (keys.length === 0 || keys.includes(key)) data[key] = [{ ts, value: String(value) }]
+        }
+        if (Object.keys(data).length === 0) continue
+
+        try {
+          subscriber.listener({ deviceUUID, data })
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error)
+          this.logger.warn(`Stream listener failed: ${errorMsg}`)
+        }
+      }
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import { logger } from '../../utils/logger.js'
+import { NotFoundError, ValidationError } from '../../utils/apiError.js'
+import { Device } from '../device.service.js'
+import { TelemetryCacheStats, TelemetryPoint, TimeseriesData } from '../thingsboard/telemetry-cache.js'
+import {
+  ATTRIBUTE_SCOPES,
+  AttributeEntry,
+  AttributeScope,
+  LatestValue,
+  TelemetryProvider,
+  WritableAttributeScope,
+} from '../telemetry-provider.js'
+import {
+  createMeterProfile,
+  METER_KEYS,
+  MeterKey,
+  MeterProfile,
+  MeterReading,
+  readMeter,
+  roundMeterValue,
+} from './meter-simulator.js'
+
+const simulatorLogger = logger.child({ module: 'SimulatorTelemetryService' })
+
+export interface SimulatorOptions {
+  deviceCount?: number
+  // Time between two raw readings
+  sampleIntervalMs?: number
+  // Local time of the load shapes, as a fixed offset from UTC
+  utcOffsetMinutes?: number
+  // Same seed, same meters and values
+  seed?: string
+  customerId?: number
+}
+
+// Readings aggregated per bucket; longer buckets are sampled more sparsely
+const SAMPLES_PER_BUCKET = 240
+// ThingsBoard answers with at most this many raw points when no limit is given
+const DEFAULT_RAW_LIMIT = 100
+const MAX_BUCKETS = 100_000
+const NO_CACHE: TelemetryCacheStats = { cacheable: false, hits: 0, misses: 0, upstreamRequests: 0 }
+
+/**
+ * Telemetry provider backed by simulated three-phase energy meters, for local
+ * development and demos without ThingsBoard. Answers queries like ThingsBoard
+ * does (raw points or per-interval aggregates, values as strings unless strict
+ * data types are asked for, nothing after now) and keeps attributes in memory.
+ */
+export class SimulatorTelemetryService implements TelemetryProvider {
+  readonly name = 'simulator'
+  private logger = simulatorLogger
+  private readonly profiles: Map<string, MeterProfile>
+  private readonly sampleIntervalMs: number
+  private readonly customerId: number
+  private readonly createdAt = new Date().toISOString()
+  private readonly attributes = new Map<string, Map<AttributeScope, Map<string, { value: unknown; ts: number }>>>()
+
+  constructor(options: SimulatorOptions = {}) {
+    const count = options.deviceCount ?? 5
+    const seed = options.seed ?? 'indusmind'
+    this.sampleIntervalMs = options.sampleIntervalMs ?? 60_000
+    this.customerId = options.customerId ?? 1
+    this.profiles = new Map(
+      Array.from({ length: count }, (_, index) => {
+        const profile = createMeterProfile(seed, index, options.utcOffsetMinutes ?? 60)
+        return [profile.deviceUUID, profile]
+      })
+    )
+    this.logger.info(`Simulating ${count} meters, one reading every ${this.sampleIntervalMs}ms`)
+  }
+
+  async getTimeseries(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<TimeseriesData> {
+    const profile = this.getProfile(entityType, entityId)
+    const meterKeys = keys.filter(isMeterKey)
+    const aggregation = (agg ?? 'NONE').toUpperCase()
+    const descending = (orderBy ?? 'DESC').toUpperCase() === 'DESC'
+    const to = Math.min(endTs, Date.now())
+
+    const data: Record<string, TelemetryPoint[]> = Object.fromEntries(meterKeys.map((key) => [key, []]))
+    const push = (ts: number, reading: Partial<MeterReading>) => {
+      for (const key of meterKeys) {
+        const value = reading[key]
+        if (value !== undefined) data[key].push({ ts, value: useStrictDataTypes ? value : String(value) })
+      }
+    }
+
+    if (aggregation === 'NONE') {
+      const max = limit ?? DEFAULT_RAW_LIMIT
+      const first = Math.ceil(startTs / this.sampleIntervalMs) * this.sampleIntervalMs
+      const last = Math.ceil(to / this.sampleIntervalMs) * this.sampleIntervalMs - this.sampleIntervalMs
+      for (let i = 0; i < max && first <= last; i++) {
+        const ts = descending ? last - i * this.sampleIntervalMs : first + i * this.sampleIntervalMs
+        if (ts < first || ts > last) break
+        push(ts, readMeter(profile, ts))
+      }
+      return data
+    }
+
+    if (!interval || interval <= 0) {
+      const message = `interval is required with agg=${aggregation}`
+      throw new ValidationError(message, [{ path: 'interval', message }])
+    }
+    if ((to - startTs) / interval > MAX_BUCKETS) {
+      const message = `More than ${MAX_BUCKETS} intervals requested`
+      throw new ValidationError(message, [{ path: 'interval', message }])
+    }
+
+    const buckets: { ts: number; reading: Partial<MeterReading> }[] = []
+    for (let start = startTs; start < to; start += interval) {
+      const end = Math.min(start + interval, to)
+      const reading = this.aggregate(profile, meterKeys, start, end, aggregation)
+      if (reading) buckets.push({ ts: start + Math.floor((end - start) / 2), reading })
+    }
+    if (descending) buckets.reverse()
+    for (const bucket of buckets) push(bucket.ts, bucket.reading)
+    return data
+  }
+
+  async getTimeseriesWithCacheStats(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<{ data: TimeseriesData; cache: TelemetryCacheStats }> {
+    const data = await this.getTimeseries(
+      entityType,
+      entityId,
+      keys,
+      startTs,
+      endTs,
+      interval,
+      agg,
+      orderBy,
+      limit,
+      useStrictDataTypes
+    )
+    return { data, cache: { ...NO_CACHE } }
+  }
+
+  /**
+   * Nothing is cached: every value is computed on demand
+   */
+  invalidateCache(): void {}
+
+  async getLatestTimeseries(
+    entityType: string,
+    entityId: string,
+    keys?: string[],
+    useStrictDataTypes?: boolean
+  ): Promise<Record<string, LatestValue>> {
+    const profile = this.getProfile(entityType, entityId)
+    const ts = Math.floor(Date.now() / this.sampleIntervalMs) * this.sampleIntervalMs
+    const reading = readMeter(profile, ts)
+
+    const latest: Record<string, LatestValue> = {}
+    for (const key of keys && keys.length > 0 ? keys.filter(isMeterKey) : METER_KEYS) {
+      latest[key] = { ts, value: useStrictDataTypes ? reading[key] : String(reading[key]) }
+    }
+    return latest
+  }
+
+  async getTimeseriesKeys(entityType: string, entityId: string): Promise<string[]> {
+    this.getProfile(entityType, entityId)
+    return [...METER_KEYS]
+  }
+
+  async getAttributes(
+    entityType: string,
+    entityId: string,
+    scopes: readonly AttributeScope[] = ATTRIBUTE_SCOPES,
+    keys?: string[]
+  ): Promise<AttributeEntry[]> {
+    const profile = this.getProfile(entityType, entityId)
+    const attributes: AttributeEntry[] = []
+    for (const scope of scopes) {
+      const entries =
+        scope === 'client'
+          ? Object.entries(this.clientAttributes(profile)).map(([key, value]) => [key, { value, ts: 0 }] as const)
+          : [...(this.attributes.get(profile.deviceUUID)?.get(scope) ?? [])]
+      for (const [key, { value, ts }] of entries) {
+        if (!keys || keys.length === 0 || keys.includes(key)) {
+          attributes.push({ scope, key, value, lastUpdateTs: ts })
+        }
+      }
+    }
+    return attributes
+  }
+
+  async saveAttributes(
+    entityType: string,
+    entityId: string,
+    scope: WritableAttributeScope,
+    attributes: Record<string, unknown>
+  ): Promise<void> {
+    const profile = this.getProfile(entityType, entityId)
+    let scopes = this.attributes.get(profile.deviceUUID)
+    if (!scopes) {
+      scopes = new Map()
+      this.attributes.set(profile.deviceUUID, scopes)
+    }
+    let saved = scopes.get(scope)
+    if (!saved) {
+      saved = new Map()
+      scopes.set(scope, saved)
+    }
+    const ts = Date.now()
+    for (const [key, value] of Object.entries(attributes)) {
+      saved.set(key, { value, ts })
+    }
+  }
+
+  async listDevices(): Promise<Device[]> {
+    return [...this.profiles.values()].map((profile, index) => ({
+      id: index + 1,
+      deviceUUID: profile.deviceUUID,
+      accessToken: `sim-${profile.deviceUUID.slice(0, 8)}`,
+      name: profile.name,
+      label: `${profile.peakKw} kW ${profile.shape} load`,
+      assignedToCustomer: true,
+      customerId: this.customerId,
+      createdAt: this.createdAt,
+      updatedAt: this.createdAt,
+    }))
+  }
+
+  /**
+   * Every meter value of a simulated device at `ts`, or null for an unknown device
+   */
+  readingAt(deviceUUID: string, ts: number): MeterReading | null {
+    const profile = this.profiles.get(deviceUUID)
+    return profile ? readMeter(profile, ts) : null
+  }
+
+  private getProfile(entityType: string, entityId: string): MeterProfile {
+    const profile = entityType.toUpperCase() === 'DEVICE' ? this.profiles.get(entityId) : undefined
+    if (!profile) {
+      throw new NotFoundError(`Entity not found: ${entityType}/${entityId} (404). Check entity ID and type.`)
+    }
+    return profile
+  }
+
+  /**
+   * AVG, MIN, MAX, SUM or COUNT of the readings in [start, end), null when the bucket holds none
+   */
+  private aggregate(
+    profile: MeterProfile,
+    keys: MeterKey[],
+    start: number,
+    end: number,
+    aggregation: string
+  ): Partial<MeterReading> | null {
+    const sample = this.sampleIntervalMs
+    const step = Math.max(1, Math.ceil((end - start) / sample / SAMPLES_PER_BUCKET)) * sample
+    const first = Math.ceil(start / sample) * sample
+    if (first >= end) return null
+
+    const totals: Partial<MeterReading> = {}
+    let count = 0
+    for (let ts = first; ts < end; ts += step) {
+      const reading = readMeter(profile, ts)
+      count++
+      for (const key of keys) {
+        const value = reading[key]
+        const total = totals[key]
+        if (total === undefined) totals[key] = value
+        else if (aggregation === 'MIN') totals[key] = Math.min(total, value)
+        else if (aggregation === 'MAX') totals[key] = Math.max(total, value)
+        else totals[key] = total + value
+      }
+    }
+
+    // Readings skipped by sparse sampling still count towards SUM and COUNT
+    const readings = Math.ceil((end - first) / sample)
+    const result: Partial<MeterReading> = {}
+    for (const key of keys) {
+      const total = totals[key]!
+      if (aggregation === 'AVG') result[key] = roundMeterValue(key, total / count)
+      else if (aggregation === 'SUM') result[key] = roundMeterValue(key, (total / count) * readings)
+      else if (aggregation === 'COUNT') result[key] = readings
+      else result[key] = total
+    }
+    return result
+  }
+
+  private clientAttributes(profile: MeterProfile): Record<string, unknown> {
+    return {
+      model: 'SIM-3P-400',
+      serialNumber: `SIM${profile.seed.toString(16).toUpperCase().padStart(8, '0')}`,
+      firmwareVersion: '1.4.2',
+      loadProfile: profile.shape,
+      peakPowerKw: profile.peakKw,
+      nominalVoltage: profile.nominalVoltage,
+    }
+  }
+}
+
+function isMeterKey(key: string): key is MeterKey {
+  return (METER_KEYS as readonly string[]).includes(key)
+}
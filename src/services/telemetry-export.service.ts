@@ -0,0 +1,311 @@
+import { Response } from 'express'
+import ExcelJS from 'exceljs'
+import { logger } from '../utils/logger.js'
+import { mapWithConcurrency } from '../utils/concurrency.js'
+import { formatIsoInTimeZone } from '../utils/time.js'
+import { TelemetryProvider } from './telemetry-provider.js'
+import { TelemetryPoint } from './thingsboard/telemetry-cache.js'
+
+const exportLogger = logger.child({ module: 'TelemetryExportService' })
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson'
+
+export interface ExportDevice {
+  deviceUUID: string
+  // Used in column headers, usually the device name
+  label: string
+  keys: string[]
+}
+
+export interface TelemetryExportRequest {
+  format: ExportFormat
+  devices: ExportDevice[]
+  startTs: number
+  endTs: number
+  interval?: number
+  agg?: string
+  timeZone: string
+  useStrictDataTypes?: boolean
+}
+
+interface ExportColumn {
+  header: string
+  deviceUUID: string
+  key: string
+}
+
+type ExportRow = { ts: number; values: unknown[] }
+
+interface RowWriter {
+  start(columns: ExportColumn[]): Promise<void>
+  write(rows: ExportRow[]): Promise<void>
+  end(): Promise<void>
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+}
+
+/**
+ * Telemetry Export Service
+ * Streams telemetry for one or more devices as CSV, XLSX or NDJSON.
+ *
+ * The range is fetched chunk by chunk and each chunk is written out before the
+ * next one is requested, so memory stays bounded regardless of the range.
+ * Rows are aligned by timestamp with one column per device and key.
+ */
+export class TelemetryExportService {
+  private logger = exportLogger
+  private readonly telemetryService: Pick<TelemetryProvider, 'getTimeseries'>
+  // Raw (agg=NONE) chunk length; halved when ThingsBoard's limit is hit
+  private readonly rawChunkMs = 24 * 60 * 60 * 1000
+  private readonly rawLimit = 10000
+  private readonly minRawChunkMs = 60 * 1000
+  // Aggregation buckets per chunk
+  private readonly bucketsPerChunk = 1000
+  private readonly concurrency: number
+
+  constructor(telemetryService: Pick<TelemetryProvider, 'getTimeseries'>, concurrency: number = 5) {
+    this.telemetryService = telemetryService
+    this.concurrency = concurrency
+  }
+
+  /**
+   * Stream the export into `res`. Headers are sent before the first upstream call;
+   * a failure after that point aborts the response.
+   */
+  async export(request: TelemetryExportRequest, res: Response): Promise<void> {
+    const columns = this.buildColumns(request.devices)
+    const filename = `telemetry-${request.startTs}-${request.endTs}.${request.format}`
+
+    let aborted = false
+    res.on('close', () => {
+      aborted = !res.writableFinished
+    })
+
+    res.status(200)
+    res.setHeader('Content-Type', CONTENT_TYPES[request.format])
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+
+    const writer = this.createWriter(request.format, request.timeZone, res)
+    await writer.start(columns)
+
+    const aggregated = request.agg !== undefined && request.agg !== 'NONE'
+    const chunkMs = aggregated ? request.interval! * this.bucketsPerChunk : this.rawChunkMs
+    let rowCount = 0
+
+    for (let from = request.startTs; from < request.endTs && !aborted; from += chunkMs) {
+      const to = Math.min(from + chunkMs, request.endTs)
+      const rows = aggregated
+        ? await this.fetchRows(request, columns, from, to)
+        : await this.fetchRawRows(request, columns, from, to)
+
+      await writer.write(rows)
+      rowCount += rows.length
+    }
+
+    if (aborted) {
+      this.logger.warn(`Export aborted by client after ${rowCount} rows`)
+      return
+    }
+
+    await writer.end()
+    this.logger.info(
+      `Export finished: format=${request.format} devices=${request.devices.length} rows=${rowCount}`
+    )
+  }
+
+  /**
+   * Raw chunk; split in halves while ThingsBoard returns a full page for any key
+   */
+  private async fetchRawRows(
+    request: TelemetryExportRequest,
+    columns: ExportColumn[],
+    from: number,
+    to: number
+  ): Promise<ExportRow[]> {
+    const { rows, truncated } = await this.fetchChunk(request, columns, from, to, this.rawLimit)
+    if (!truncated || to - from <= this.minRawChunkMs) {
+      if (truncated) this.logger.warn(`Chunk ${from}-${to} still hits the limit, rows may be missing`)
+      return rows
+    }
+
+    const middle = from + Math.floor((to - from) / 2)
+    return [
+      ...(await this.fetchRawRows(request, columns, from, middle)),
+      ...(await this.fetchRawRows(request, columns, middle, to)),
+    ]
+  }
+
+  private async fetchRows(
+    request: TelemetryExportRequest,
+    columns: ExportColumn[],
+    from: number,
+    to: number
+  ): Promise<ExportRow[]> {
+    return (await this.fetchChunk(request, columns, from, to, undefined)).rows
+  }
+
+  private async fetchChunk(
+    request: TelemetryExportRequest,
+    columns: ExportColumn[],
+    from: number,
+    to: number,
+    limit: number | undefined
+  ): Promise<{ rows: ExportRow[]; truncated: boolean }> {
+    const perDevice = await mapWithConcurrency(request.devices, this.concurrency, (device) =>
+      this.telemetryService.getTimeseries(
+        'DEVICE',
+        device.deviceUUID,
+        device.keys,
+        from,
+        to,
+        request.interval,
+        request.agg,
+        'ASC',
+        limit,
+        request.useStrictDataTypes
+      )
+    )
+
+    const rowsByTs = new Map<number, unknown[]>()
+    let truncated = false
+
+    request.devices.forEach((device, deviceIndex) => {
+      const data = perDevice[deviceIndex] as Record<string, TelemetryPoint[]>
+      for (const key of device.keys) {
+        const points = data[key] ?? []
+        if (limit !== undefined && points.length >= limit) truncated = true
+
+        const column = columns.findIndex((c) => c.deviceUUID === device.deviceUUID && c.key === key)
+        for (const point of points) {
+          let row = rowsByTs.get(point.ts)
+          if (!row) {
+            row = new Array(columns.length).fill(null)
+            rowsByTs.set(point.ts, row)
+          }
+          row[column] = point.value
+        }
+      }
+    })
+
+    const rows = [...rowsByTs]
+      .sort(([a], [b]) => a - b)
+      .map(([ts, values]) => ({ ts, values }))
+    return { rows, truncated }
+  }
+
+  private buildColumns(devices: ExportDevice[]): ExportColumn[] {
+    const labelCounts = new Map<string, number>()
+    for (const device of devices) {
+      labelCounts.set(device.label, (labelCounts.get(device.label) ?? 0) + 1)
+    }
+
+    return devices.flatMap((device) => {
+      // Disambiguate devices that share a name
+      const label =
+        (labelCounts.get(device.label) ?? 0) > 1
+          ? `${device.label} (${device.deviceUUID.slice(0, 8)})`
+          : device.label
+      return device.keys.map((key) => ({ header: `${label} / ${key}`, deviceUUID: device.deviceUUID, key }))
+    })
+  }
+
+  private createWriter(format: ExportFormat, timeZone: string, res: Response): RowWriter {
+    const write = (chunk: string) =>
+      new Promise<void>((resolve) => {
+        if (res.write(chunk)) {
+          resolve()
+          return
+        }
+        // Wait for the socket to drain, or give up if the client left
+        const done = () => {
+          res.off('drain', done)
+          res.off('close', done)
+          resolve()
+        }
+        res.on('drain', done)
+        res.on('close', done)
+      })
+
+    if (format === 'csv') {
+      return {
+        // BOM so Excel detects UTF-8
+        start: (columns) => write(`\uFEFF${['timestamp', ...columns.map((c) => c.header)].map(csvCell).join(',')}\n`),
+        write: (rows) =>
+          rows.length === 0
+            ? Promise.resolve()
+            : write(
+                rows
+                  .map((row) => [formatIsoInTimeZone(row.ts, timeZone), ...row.values].map(csvCell).join(',') + '\n')
+                  .join('')
+              ),
+        end: async () => {
+          res.end()
+        },
+      }
+    }
+
+    if (format === 'ndjson') {
+      let headers: string[] = []
+      return {
+        start: async (columns) => {
+          headers = columns.map((c) => c.header)
+        },
+        write: (rows) =>
+          rows.length === 0
+            ? Promise.resolve()
+            : write(
+                rows
+                  .map(
+                    (row) =>
+                      JSON.stringify({
+                        ts: row.ts,
+                        timestamp: formatIsoInTimeZone(row.ts, timeZone),
+                        values: Object.fromEntries(headers.map((h, i) => [h, toNumeric(row.values[i])])),
+                      }) + '\n'
+                  )
+                  .join('')
+              ),
+        end: async () => {
+          res.end()
+        },
+      }
+    }
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false })
+    const sheet = workbook.addWorksheet('Telemetry')
+    return {
+      start: async (columns) => {
+        sheet.addRow([`timestamp (${timeZone})`, ...columns.map((c) => c.header)]).commit()
+      },
+      write: async (rows) => {
+        for (const row of rows) {
+          sheet.addRow([formatIsoInTimeZone(row.ts, timeZone), ...row.values.map(toNumeric)]).commit()
+        }
+      },
+      end: async () => {
+        sheet.commit()
+        await workbook.commit()
+      },
+    }
+  }
+}
+
+/**
+ * ThingsBoard returns numbers as strings unless useStrictDataTypes is set
+ */
+function toNumeric(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value)
+  }
+  return value
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,114 @@
+/**
+ * Source of device telemetry. ThingsBoard is the production implementation;
+ * the meter simulator stands in for it in local development and demos.
+ * Selected with TELEMETRY_PROVIDER, see telemetry.module.ts.
+ */
+
+import { Device } from './device.service.js'
+import { TelemetryCacheStats, TimeseriesData } from './thingsboard/telemetry-cache.js'
+import { StreamSubscription, TelemetryUpdate } from './thingsboard/telemetry-stream.service.js'
+
+export const ATTRIBUTE_SCOPES = ['client', 'shared', 'server'] as const
+export type AttributeScope = (typeof ATTRIBUTE_SCOPES)[number]
+export type WritableAttributeScope = Exclude<AttributeScope, 'client'>
+
+export interface LatestValue {
+  ts: number
+  value: unknown
+}
+
+export interface AttributeEntry {
+  scope: AttributeScope
+  key: string
+  value: unknown
+  lastUpdateTs: number
+}
+
+export type TelemetryProviderName = 'thingsboard' | 'simulator'
+
+/**
+ * Timeseries queries follow ThingsBoard's semantics: with agg NONE the raw
+ * points are returned (at most `limit`), otherwise one value per `interval`
+ * bucket anchored on startTs and stamped inside its bucket.
+ */
+export interface TelemetryProvider {
+  readonly name: TelemetryProviderName
+
+  getTimeseries(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<TimeseriesData>
+
+  /**
+   * Same as getTimeseries, also reporting how much of the answer came from a cache
+   */
+  getTimeseriesWithCacheStats(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<{ data: TimeseriesData; cache: TelemetryCacheStats }>
+
+  invalidateCache(entityType?: string, entityId?: string): void
+
+  /**
+   * Latest value of each key; all keys of the entity when `keys` is omitted
+   */
+  getLatestTimeseries(
+    entityType: string,
+    entityId: string,
+    keys?: string[],
+    useStrictDataTypes?: boolean
+  ): Promise<Record<string, LatestValue>>
+
+  getTimeseriesKeys(entityType: string, entityId: string): Promise<string[]>
+
+  getAttributes(
+    entityType: string,
+    entityId: string,
+    scopes?: readonly AttributeScope[],
+    keys?: string[]
+  ): Promise<AttributeEntry[]>
+
+  saveAttributes(
+    entityType: string,
+    entityId: string,
+    scope: WritableAttributeScope,
+    attributes: Record<string, unknown>
+  ): Promise<void>
+
+  /**
+   * Every device the provider has telemetry for
+   */
+  listDevices(): Promise<Device[]>
+}
+
+/**
+ * Live updates of the latest values, fanned out to local subscribers
+ */
+export interface TelemetryStream {
+  /**
+   * Returns a function that removes the subscription. `onEnd` is called if the
+   * stream shuts down while the subscription is active.
+   */
+  subscribe(
+    subscriptions: StreamSubscription[],
+    listener: (update: TelemetryUpdate) => void,
+    onEnd?: () => void
+  ): () => void
+  cleanup(): void
+}
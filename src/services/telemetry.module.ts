@@ -0,0 +1,36 @@
+import { config } from '../config/index.js'
+import { logger } from '../utils/logger.js'
+import { TelemetryProvider, TelemetryStream } from './telemetry-provider.js'
+import { initializeThingsboardServices } from './thingsboard/thingsboard.module.js'
+import { SimulatorTelemetryService } from './simulator/simulator-telemetry.service.js'
+import { SimulatorStreamService } from './simulator/simulator-stream.service.js'
+
+/**
+ * Initialize the telemetry provider selected by TELEMETRY_PROVIDER and its live stream.
+ * `cleanup` releases their timers and upstream connections.
+ */
+export function initializeTelemetryServices(): {
+  telemetryService: TelemetryProvider
+  streamService: TelemetryStream
+  cleanup: () => void
+} {
+  logger.info(`Telemetry provider: ${config.telemetryProvider}`)
+
+  if (config.telemetryProvider === 'simulator') {
+    const { streamIntervalMs, ...options } = config.simulator
+    const telemetryService = new SimulatorTelemetryService(options)
+    const streamService = new SimulatorStreamService(telemetryService, streamIntervalMs)
+    return { telemetryService, streamService, cleanup: () => streamService.cleanup() }
+  }
+
+  const { authService, telemetryService, streamService } = initializeThingsboardServices()
+  return {
+    telemetryService,
+    streamService,
+    cleanup: () => {
+      streamService.cleanup()
+      telemetryService.cleanup()
+      authService.cleanup()
+    },
+  }
+}
@@ -0,0 +1,255 @@
+import { logger } from '../../utils/logger.js'
+
+const cacheLogger = logger.child({ module: 'TelemetryRangeCache' })
+
+/**
+ * A single ThingsBoard timeseries point
+ */
+export interface TelemetryPoint {
+  ts: number
+  value: unknown
+}
+
+export type TimeseriesData = Record<string, TelemetryPoint[]>
+
+export interface TelemetryCacheQuery {
+  entityType: string
+  entityId: string
+  keys: string[]
+  startTs: number
+  endTs: number
+  interval: number
+  agg: string
+  orderBy?: string
+  useStrictDataTypes?: boolean
+}
+
+/**
+ * Per-request cache statistics, counted in aggregation buckets (one bucket per key per interval)
+ */
+export interface TelemetryCacheStats {
+  cacheable: boolean
+  hits: number
+  misses: number
+  upstreamRequests: number
+}
+
+/**
+ * Fetch `keys` for [startTs, endTs) from the upstream
+ */
+export type RangeFetcher = (keys: string[], startTs: number, endTs: number) => Promise<TimeseriesData>
+
+type Range = [number, number]
+
+interface SeriesEntry {
+  // Sorted, non-overlapping [from, to) ranges made of closed buckets
+  covered: Range[]
+  points: Map<number, TelemetryPoint>
+  // Trailing bucket that may still change
+  open: { from: number; to: number; points: TelemetryPoint[]; expiresAt: number } | null
+  lastAccess: number
+}
+
+export interface TelemetryRangeCacheOptions {
+  // How long the bucket containing "now" may be served from cache
+  openBucketTtlMs?: number
+  // Series kept before the least recently used ones are dropped
+  maxSeries?: number
+}
+
+/**
+ * Range-aware cache for aggregated ThingsBoard timeseries.
+ *
+ * Each series (entity, key, aggregation, interval) remembers which time ranges
+ * it already holds. A request only fetches the sub-ranges that are missing and
+ * merges them with what is cached. Buckets that ended before "now" never change
+ * and are kept until evicted; the trailing open bucket expires after a short TTL.
+ *
+ * Buckets are anchored on the request's startTs, exactly like ThingsBoard does,
+ * so the bucket grid phase (startTs mod interval) is part of the series key.
+ */
+export class TelemetryRangeCache {
+  private readonly series = new Map<string, SeriesEntry>()
+  private readonly openBucketTtlMs: number
+  private readonly maxSeries: number
+
+  constructor(options: TelemetryRangeCacheOptions = {}) {
+    this.openBucketTtlMs = options.openBucketTtlMs ?? 30_000
+    this.maxSeries = options.maxSeries ?? 1000
+  }
+
+  async get(
+    query: TelemetryCacheQuery,
+    fetch: RangeFetcher,
+    now: number = Date.now()
+  ): Promise<{ data: TimeseriesData; stats: TelemetryCacheStats }> {
+    const { startTs, endTs, interval } = query
+    const stats: TelemetryCacheStats = { cacheable: true, hits: 0, misses: 0, upstreamRequests: 0 }
+
+    // Whole buckets that ended before now are closed; the rest is the open tail
+    const closedEnd =
+      startTs + Math.max(0, Math.floor((Math.min(endTs, now) - startTs) / interval)) * interval
+    const entries = new Map(query.keys.map((key) => [key, this.getEntry(query, key, now)]))
+
+    // Group keys that miss exactly the same ranges so they share upstream calls
+    const missingGroups = new Map<string, { ranges: Range[]; keys: string[] }>()
+    for (const [key, entry] of entries) {
+      const missing = subtractRanges([startTs, closedEnd], entry.covered)
+      const missingBuckets = sumRanges(missing) / interval
+      stats.misses += missingBuckets
+      stats.hits += (closedEnd - startTs) / interval - missingBuckets
+
+      if (missing.length === 0) continue
+      const signature = JSON.stringify(missing)
+      const group = missingGroups.get(signature) ?? { ranges: missing, keys: [] }
+      group.keys.push(key)
+      missingGroups.set(signature, group)
+    }
+
+    for (const { ranges, keys } of missingGroups.values()) {
+      for (const [from, to] of ranges) {
+        const fetched = await fetch(keys, from, to)
+        stats.upstreamRequests++
+
+        for (const key of keys) {
+          const entry = entries.get(key)!
+          for (const point of fetched[key] ?? []) {
+            if (point.ts >= from && point.ts < to) entry.points.set(point.ts, point)
+          }
+          entry.covered = addRange(entry.covered, [from, to])
+        }
+      }
+    }
+
+    // Open tail: reuse a fresh copy of the very same window, otherwise fetch it
+    // for every key at once. A partial bucket aggregates up to endTs only.
+    if (closedEnd < endTs) {
+      const openBuckets = Math.ceil((endTs - closedEnd) / interval)
+      const staleKeys = [...entries].filter(
+        ([, entry]) =>
+          !entry.open || entry.open.from !== closedEnd || entry.open.to !== endTs || entry.open.expiresAt <= now
+      )
+      stats.hits += (entries.size - staleKeys.length) * openBuckets
+      stats.misses += staleKeys.length * openBuckets
+
+      if (staleKeys.length > 0) {
+        const keys = staleKeys.map(([key]) => key)
+        const fetched = await fetch(keys, closedEnd, endTs)
+        stats.upstreamRequests++
+
+        for (const [key, entry] of staleKeys) {
+          entry.open = {
+            from: closedEnd,
+            to: endTs,
+            points: (fetched[key] ?? []).filter((p) => p.ts >= closedEnd),
+            expiresAt: now + this.openBucketTtlMs,
+          }
+        }
+      }
+    }
+
+    const ascending = query.orderBy?.toUpperCase() === 'ASC'
+    const data: TimeseriesData = {}
+    for (const [key, entry] of entries) {
+      const points = [...entry.points.values()].filter((p) => p.ts >= startTs && p.ts < closedEnd)
+      if (closedEnd < endTs && entry.open) {
+        points.push(...entry.open.points.filter((p) => p.ts < endTs))
+      }
+      if (points.length === 0) continue // ThingsBoard omits keys without data
+
+      points.sort((a, b) => (ascending ? a.ts - b.ts : b.ts - a.ts))
+      data[key] = points
+    }
+
+    this.evict()
+    cacheLogger.debug(
+      `Cache ${query.entityType}/${query.entityId}: hits=${stats.hits} misses=${stats.misses} upstream=${stats.upstreamRequests}`
+    )
+    return { data, stats }
+  }
+
+  /**
+   * Drop everything cached for one entity, or for all of them
+   */
+  invalidate(entityType?: string, entityId?: string): void {
+    if (!entityType || !entityId) {
+      this.series.clear()
+      return
+    }
+    const prefix = `${entityType}/${entityId}|`
+    for (const key of this.series.keys()) {
+      if (key.startsWith(prefix)) this.series.delete(key)
+    }
+  }
+
+  private getEntry(query: TelemetryCacheQuery, key: string, now: number): SeriesEntry {
+    const phase = ((query.startTs % query.interval) + query.interval) % query.interval
+    const cacheKey = [
+      `${query.entityType}/${query.entityId}`,
+      key,
+      query.agg.toUpperCase(),
+      query.interval,
+      phase,
+      query.useStrictDataTypes ? 'strict' : 'loose',
+    ].join('|')
+
+    let entry = this.series.get(cacheKey)
+    if (!entry) {
+      entry = { covered: [], points: new Map(), open: null, lastAccess: now }
+      this.series.set(cacheKey, entry)
+    }
+    entry.lastAccess = now
+    return entry
+  }
+
+  private evict(): void {
+    if (this.series.size <= this.maxSeries) return
+
+    const byAge = [...this.series].sort(([, a], [, b]) => a.lastAccess - b.lastAccess)
+    for (const [key] of byAge.slice(0, this.series.size - this.maxSeries)) {
+      this.series.delete(key)
+    }
+  }
+}
+
+/**
+ * Parts of `range` not covered by the sorted, disjoint `covered` ranges
+ */
+function subtractRanges([from, to]: Range, covered: Range[]): Range[] {
+  const missing: Range[] = []
+  let cursor = from
+
+  for (const [coveredFrom, coveredTo] of covered) {
+    if (coveredTo <= cursor) continue
+    if (coveredFrom >= to) break
+    if (coveredFrom > cursor) missing.push([cursor, coveredFrom])
+    cursor = Math.max(cursor, coveredTo)
+  }
+
+  if (cursor < to) missing.push([cursor, to])
+  return missing
+}
+
+/**
+ * Insert a range, merging it with overlapping or adjacent ones
+ */
+function addRange(covered: Range[], range: Range): Range[] {
+  const merged: Range[] = []
+  let [from, to] = range
+
+  for (const [coveredFrom, coveredTo] of covered) {
+    if (coveredTo < from || coveredFrom > to) {
+      merged.push([coveredFrom, coveredTo])
+    } else {
+      from = Math.min(from, coveredFrom)
+      to = Math.max(to, coveredTo)
+    }
+  }
+
+  merged.push([from, to])
+  return merged.sort((a, b) => a[0] - b[0])
+}
+
+function sumRanges(ranges: Range[]): number {
+  return ranges.reduce((total, [from, to]) => total + (to - from), 0)
+}
@@ -0,0 +1,323 @@
+import WebSocket from 'ws'
+import { logger } from '../../utils/logger.js'
+import { ThingsboardAuthService } from './thingsboard-auth.service.js'
+import { TelemetryPoint } from './telemetry-cache.js'
+import type { TelemetryStream } from '../telemetry-provider.js'
+
+const streamLogger = logger.child({ module: 'TelemetryStreamService' })
+
+/**
+ * New values pushed for one device
+ */
+export interface TelemetryUpdate {
+  deviceUUID: string
+  data: Record<string, TelemetryPoint[]>
+}
+
+export interface StreamSubscription {
+  deviceUUID: string
+  // Empty means every key the device reports
+  keys: string[]
+}
+
+type UpdateListener = (update: TelemetryUpdate) => void
+
+interface Subscriber {
+  subscriptions: Map<string, Set<string>>
+  listener: UpdateListener
+  onEnd?: () => void
+}
+
+interface UpstreamSubscription {
+  cmdId: number
+  // Sorted key list sent to ThingsBoard; empty = all keys
+  keys: string[]
+}
+
+/**
+ * ThingsBoard wire format: { subscriptionId, errorCode, errorMsg, data: { key: [[ts, value]] } }
+ */
+interface ThingsboardUpdateMessage {
+  subscriptionId?: number
+  errorCode?: number
+  errorMsg?: string | null
+  data?: Record<string, [number, unknown][]>
+}
+
+/**
+ * ThingsBoard Telemetry Stream Service
+ * Keeps a single WebSocket to ThingsBoard (/api/ws/plugins/telemetry) and fans
+ * LATEST_TELEMETRY updates out to any number of local subscribers.
+ *
+ * - One upstream subscription per device, covering the union of keys wanted by local subscribers
+ * - The socket is opened with the first subscriber and closed when the last one leaves
+ * - Reconnects with exponential backoff, and again whenever the access token changes,
+ *   resubscribing everything on the new connection
+ */
+export class TelemetryStreamService implements TelemetryStream {
+  private logger = streamLogger
+  private readonly authService: ThingsboardAuthService
+  private readonly subscribers = new Map<number, Subscriber>()
+  private readonly upstream = new Map<string, UpstreamSubscription>()
+  private readonly devicesByCmdId = new Map<number, string>()
+  private socket: WebSocket | null = null
+  private nextSubscriberId = 1
+  private nextCmdId = 1
+  private reconnectAttempts = 0
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private readonly maxReconnectDelayMs = 30000
+  private readonly unsubscribeTokenListener: () => void
+
+  constructor(authService: ThingsboardAuthService) {
+    this.authService = authService
+    this.unsubscribeTokenListener = this.authService.onTokenChange(() => {
+      if (this.socket) {
+        this.logger.info('Access token changed, reconnecting telemetry stream')
+        this.reconnect(0)
+      }
+    })
+  }
+
+  /**
+   * Subscribe to updates for the given devices and keys.
+   * `onEnd` is called if the service shuts down while the subscription is active.
+   * Returns a function that removes the subscription.
+   */
+  subscribe(
+    subscriptions: StreamSubscription[],
+    listener: UpdateListener,
+    onEnd?: () => void
+  ): () => void {
+    const id = this.nextSubscriberId++
+    this.subscribers.set(id, {
+      subscriptions: new Map(subscriptions.map((s) => [s.deviceUUID, new Set(s.keys)])),
+      listener,
+      onEnd,
+    })
+
+    this.syncUpstream()
+    return () => {
+      if (this.subscribers.delete(id)) this.syncUpstream()
+    }
+  }
+
+  /**
+   * Connection state for health output
+   */
+  getStatus() {
+    return {
+      connected: this.socket?.readyState === WebSocket.OPEN,
+      subscribers: this.subscribers.size,
+      devices: this.upstream.size,
+      reconnectAttempts: this.reconnectAttempts,
+    }
+  }
+
+  /**
+   * Close the upstream socket and end all subscribers
+   */
+  cleanup(): void {
+    const subscribers = [...this.subscribers.values()]
+    this.subscribers.clear()
+    for (const subscriber of subscribers) subscriber.onEnd?.()
+    this.upstream.clear()
+    this.devicesByCmdId.clear()
+    this.unsubscribeTokenListener()
+    this.closeSocket()
+  }
+
+  /**
+   * Reconcile upstream subscriptions with what local subscribers want
+   */
+  private syncUpstream(): void {
+    const wanted = this.wantedKeysByDevice()
+
+    if (wanted.size === 0) {
+      this.upstream.clear()
+      this.devicesByCmdId.clear()
+      this.closeSocket()
+      return
+    }
+
+    const commands: Record<string, unknown>[] = []
+
+    for (const [deviceUUID, current] of this.upstream) {
+      const keys = wanted.get(deviceUUID)
+      if (!keys || keys.join(',') !== current.keys.join(',')) {
+        commands.push({ cmdId: current.cmdId, unsubscribe: true })
+        this.upstream.delete(deviceUUID)
+        this.devicesByCmdId.delete(current.cmdId)
+      }
+    }
+
+    for (const [deviceUUID, keys] of wanted) {
+      if (this.upstream.has(deviceUUID)) continue
+      const subscription = { cmdId: this.nextCmdId++, keys }
+      this.upstream.set(deviceUUID, subscription)
+      this.devicesByCmdId.set(subscription.cmdId, deviceUUID)
+      commands.push(this.subscribeCommand(deviceUUID, subscription))
+    }
+
+    if (!this.socket) {
+      void this.connect()
+      return
+    }
+    if (commands.length > 0) this.send({ tsSubCmds: commands })
+  }
+
+  private wantedKeysByDevice(): Map<string, string[]> {
+    const wanted = new Map<string, Set<string> | 'all'>()
+
+    for (const { subscriptions } of this.subscribers.values()) {
+      for (const [deviceUUID, keys] of subscriptions) {
+        const existing = wanted.get(deviceUUID)
+        if (existing === 'all') continue
+        if (keys.size === 0) {
+          wanted.set(deviceUUID, 'all')
+          continue
+        }
+        wanted.set(deviceUUID, new Set([...(existing ?? []), ...keys]))
+      }
+    }
+
+    return new Map(
+      [...wanted].map(([deviceUUID, keys]) => [deviceUUID, keys === 'all' ? [] : [...keys].sort()])
+    )
+  }
+
+  private subscribeCommand(deviceUUID: string, subscription: UpstreamSubscription) {
+    return {
+      entityType: 'DEVICE',
+      entityId: deviceUUID,
+      scope: 'LATEST_TELEMETRY',
+      cmdId: subscription.cmdId,
+      ...(subscription.keys.length > 0 ? { keys: subscription.keys.join(',') } : {}),
+    }
+  }
+
+  private async connect(): Promise<void> {
+    if (this.socket || this.reconnectTimer) return
+
+    let token: string
+    try {
+      token = await this.authService.getValidToken()
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      this.logger.error(`Cannot open telemetry stream: ${errorMsg}`)
+      this.scheduleReconnect()
+      return
+    }
+
+    // Everybody may have left while we were fetching the token
+    if (this.subscribers.size === 0 || this.socket) return
+
+    const wsUrl = `${this.authService.getBaseUrl().replace(/^http/, 'ws')}/api/ws/plugins/telemetry`
+    this.logger.info(`Connecting to ${wsUrl}`)
+
+    const socket = new WebSocket(`${wsUrl}?token=${encodeURIComponent(token)}`)
+    this.socket = socket
+
+    socket.on('open', () => {
+      this.reconnectAttempts = 0
+      this.logger.info(`Telemetry stream connected, subscribing ${this.upstream.size} devices`)
+      this.send({
+        tsSubCmds: [...this.upstream].map(([deviceUUID, s]) => this.subscribeCommand(deviceUUID, s)),
+      })
+    })
+
+    socket.on('message', (raw) => this.handleMessage(raw.toString()))
+
+    socket.on('error', (error) => {
+      this.logger.warn(`Telemetry stream error: ${error.message}`)
+    })
+
+    socket.on('close', (code) => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.logger.warn(`Telemetry stream closed (code ${code})`)
+      if (this.subscribers.size > 0) this.scheduleReconnect()
+    })
+  }
+
+  private handleMessage(raw: string): void {
+    let message: ThingsboardUpdateMessage
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      this.logger.warn('Ignoring non-JSON telemetry stream message')
+      return
+    }
+
+    if (message.errorCode) {
+      this.logger.warn(`Subscription ${message.subscriptionId} error: ${message.errorMsg}`)
+      return
+    }
+
+    const deviceUUID =
+      message.subscriptionId !== undefined ? this.devicesByCmdId.get(message.subscriptionId) : undefined
+    if (!deviceUUID || !message.data) return
+
+    for (const { subscriptions, listener } of this.subscribers.values()) {
+      const keys = subscriptions.get(deviceUUID)
+      if (!keys) continue
+
+      const data: Record<string, TelemetryPoint[]> = {}
+      for (const [key, values] of Object.entries(message.data)) {
+        if (keys.size > 0 && !keys.has(key)) continue
+        if (values.length === 0) continue
+        data[key] = values.map(([ts, value]) => ({ ts, value }))
+      }
+      if (Object.keys(data).length === 0) continue
+
+      try {
+        listener({ deviceUUID, data })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        this.logger.warn(`Stream listener failed: ${errorMsg}`)
+      }
+    }
+  }
+
+  private send(payload: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(payload))
+    }
+    // Otherwise the 'open' handler subscribes everything in this.upstream
+  }
+
+  /**
+   * Drop the current socket and connect again after `delayMs`
+   */
+  private reconnect(delayMs: number): void {
+    this.closeSocket()
+    if (this.subscribers.size === 0) return
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      void this.connect()
+    }, delayMs)
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return
+    // Exponential backoff with jitter, capped
+    const base = Math.min(1000 * 2 ** this.reconnectAttempts, this.maxReconnectDelayMs)
+    const delay = Math.round(base / 2 + Math.random() * (base / 2))
+    this.reconnectAttempts++
+    this.logger.info(`Reconnecting telemetry stream in ${delay}ms (attempt ${this.reconnectAttempts})`)
+    this.reconnect(delay)
+  }
+
+  private closeSocket(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    const socket = this.socket
+    this.socket = null
+    if (socket) {
+      socket.removeAllListeners()
+      socket.on('error', () => undefined)
+      socket.close()
+    }
+  }
+}
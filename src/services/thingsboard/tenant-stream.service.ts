@@ -0,0 +1,99 @@
+import { logger } from '../../utils/logger.js'
+import { ThingsboardAuthService } from './thingsboard-auth.service.js'
+import { ThingsboardTenants } from './thingsboard-tenants.js'
+import { StreamSubscription, TelemetryStreamService, TelemetryUpdate } from './telemetry-stream.service.js'
+import type { TelemetryStream } from '../telemetry-provider.js'
+
+const tenantStreamLogger = logger.child({ module: 'TenantStreamService' })
+
+export type StreamFactory = (authService: ThingsboardAuthService) => TelemetryStream
+
+/**
+ * Live telemetry across ThingsBoard tenants.
+ * Each subscription is split by the ThingsBoard session its devices belong to
+ * (see ThingsboardTenants) and handed to one TelemetryStreamService per session,
+ * so devices of customers with their own tenant stream over their own socket.
+ */
+export class TenantStreamService implements TelemetryStream {
+  private logger = tenantStreamLogger
+  private readonly tenants: ThingsboardTenants
+  private readonly createStream: StreamFactory
+  private readonly streams = new Map<ThingsboardAuthService, TelemetryStream>()
+
+  constructor(
+    tenants: ThingsboardTenants,
+    createStream: StreamFactory = (authService) => new TelemetryStreamService(authService)
+  ) {
+    this.tenants = tenants
+    this.createStream = createStream
+  }
+
+  subscribe(
+    subscriptions: StreamSubscription[],
+    listener: (update: TelemetryUpdate) => void,
+    onEnd?: () => void
+  ): () => void {
+    let active = true
+    let ended = false
+    const unsubscribes: (() => void)[] = []
+    const unsubscribe = () => {
+      active = false
+      for (const remove of unsubscribes.splice(0)) remove()
+    }
+    // Called by every session stream the subscription spans; the subscriber ends once
+    const end = () => {
+      if (ended) return
+      ended = true
+      unsubscribe()
+      onEnd?.()
+    }
+
+    void this.groupBySession(subscriptions).then((groups) => {
+      // The subscriber may have left while the devices were being resolved
+      if (!active) return
+      for (const [authService, group] of groups) {
+        unsubscribes.push(this.streamFor(authService).subscribe(group, listener, end))
+      }
+    })
+
+    return unsubscribe
+  }
+
+  /**
+   * End every subscriber and close the session streams
+   */
+  cleanup(): void {
+    const streams = [...this.streams.values()]
+    this.streams.clear()
+    for (const stream of streams) stream.cleanup()
+  }
+
+  private streamFor(authService: ThingsboardAuthService): TelemetryStream {
+    let stream = this.streams.get(authService)
+    if (!stream) {
+      stream = this.createStream(authService)
+      this.streams.set(authService, stream)
+    }
+    return stream
+  }
+
+  /**
+   * Subscriptions grouped by the session of their device. Devices that cannot be
+   * resolved are left out: they get no updates, the others still stream.
+   */
+  private async groupBySession(
+    subscriptions: StreamSubscription[]
+  ): Promise<Map<ThingsboardAuthService, StreamSubscription[]>> {
+    const groups = new Map<ThingsboardAuthService, StreamSubscription[]>()
+    for (const subscription of subscriptions) {
+      try {
+        const authService = await this.tenants.authFor('DEVICE', subscription.deviceUUID)
+        groups.set(authService, [...(groups.get(authService) ?? []), subscription])
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        this.logger.warn(`Not streaming ${subscription.deviceUUID}: ${errorMsg}`)
+      }
+    }
+    return groups
+  }
+}
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios'
 import { logger } from '../../utils/logger.js'
+import { UpstreamError, UpstreamUnavailableError } from '../../utils/apiError.js'
 
 const authLogger = logger.child({ module: 'ThingsboardAuthService' })
 
@@ -25,6 +26,7 @@ export class ThingsboardAuthService {
   private readonly password: string
   private tokenPayload: ThingsboardTokenPayload | null = null
   private tokenRefreshInterval: NodeJS.Timeout | null = null
+  private readonly tokenListeners = new Set<(token: string) => void>()
 
   constructor(
     baseUrl: string = process.env.THINGSBOARD_BASE_URL || 'https://portal.indusmind.net',
@@ -35,19 +37,26 @@ export class ThingsboardAuthService {
     this.username = username
     this.password = password
     console.log('THINGSBOARD_USERNAME:', this.username)
-    console.log('THINGSBOARD_PASSWORD:', this.password
-    )
     console.log('THINGSBOARD_BASE_URL:', this.baseUrl)
-    if (!this.username || !this.password) {
-      throw new Error('ThingsBoard credentials not provided in environment variables')
+    // Missing credentials only fail the calls that need ThingsBoard, so the server can still start
+    if (!this.hasCredentials()) {
+      this.logger.warn('ThingsBoard credentials not provided in environment variables')
     }
   }
 
+  hasCredentials(): boolean {
+    return Boolean(this.username && this.password)
+  }
+
   /**
    * Authenticate with ThingsBoard and obtain access token
    * Sets up automatic token refresh if needed
    */
   async authenticate(): Promise<string> {
+    if (!this.hasCredentials()) {
+      throw new UpstreamUnavailableError('ThingsBoard credentials not provided in environment variables')
+    }
+
     try {
       this.logger.info('Authenticating with ThingsBoard...')
 
@@ -64,7 +73,7 @@ export class ThingsboardAuthService {
       )
 
       if (response.status !== 200) {
-        throw new Error(
+        throw new UpstreamError(
           `ThingsBoard authentication failed: ${response.status} ${response.statusText}`
         )
       }
@@ -87,11 +96,15 @@ export class ThingsboardAuthService {
 
       // Setup automatic refresh before expiration
       this.setupAutoRefresh()
+      this.notifyTokenChange(token)
 
       return token
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error)
       this.logger.error(`Authentication failed: ${errorMsg}`)
+      if (axios.isAxiosError(error)) {
+        throw new UpstreamUnavailableError(`ThingsBoard unreachable: ${error.message}`)
+      }
       throw error
     }
   }
@@ -127,7 +140,7 @@ export class ThingsboardAuthService {
       }
 
       if (response.status !== 200) {
-        throw new Error(
+        throw new UpstreamError(
           `Token refresh failed: ${response.status} ${response.statusText}`
         )
       }
@@ -144,6 +157,7 @@ export class ThingsboardAuthService {
       this.logger.info(
         `Token refreshed successfully. Expires at: ${new Date(expiresAt).toISOString()}`
       )
+      this.notifyTokenChange(token)
 
       return token
     } catch (error) {
@@ -191,6 +205,34 @@ export class ThingsboardAuthService {
     })
   }
 
+  /**
+   * ThingsBoard base URL (e.g. https://portal.indusmind.net)
+   */
+  getBaseUrl(): string {
+    return this.baseUrl
+  }
+
+  /**
+   * Register a listener called with every new access token (login or refresh).
+   * Long-lived connections that embed the token, like the telemetry WebSocket,
+   * use this to reconnect. Returns an unsubscribe function.
+   */
+  onTokenChange(listener: (token: string) => void): () => void {
+    this.tokenListeners.add(listener)
+    return () => this.tokenListeners.delete(listener)
+  }
+
+  private notifyTokenChange(token: string): void {
+    for (const listener of this.tokenListeners) {
+      try {
+        listener(token)
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error)
+        this.logger.warn(`Token listener failed: ${errorMsg}`)
+      }
+    }
+  }
+
   /**
    * Decode JWT to extract expiration time
    * Standard JWT expiration is in the 'exp' claim
@@ -1,22 +1,59 @@
-import { AxiosError } from 'axios'
 import { logger } from '../../utils/logger.js'
+import { ApiError, NotFoundError, UpstreamError, UpstreamUnavailableError } from '../../utils/apiError.js'
 import { ThingsboardAuthService } from './thingsboard-auth.service.js'
+import { TelemetryCacheStats, TelemetryRangeCache, TimeseriesData } from './telemetry-cache.js'
+import { UpstreamClient } from '../upstream/upstream-client.js'
+import { upstreams } from '../upstream/upstreams.js'
+import { eventBus } from '../event-bus.js'
+import { Device } from '../device.service.js'
+import { listDevicesByCustomer } from '../../modules/customer/customer.service.js'
+import { findCustomerById } from '../../modules/customer/customer.repository.js'
+import { ThingsboardTenants } from './thingsboard-tenants.js'
+import {
+  ATTRIBUTE_SCOPES,
+  AttributeEntry,
+  AttributeScope,
+  LatestValue,
+  TelemetryProvider,
+  WritableAttributeScope,
+} from '../telemetry-provider.js'
 
 const telemetryLogger = logger.child({ module: 'ThingsboardTelemetryService' })
 
+const ATTRIBUTE_SCOPE_NAMES: Record<AttributeScope, string> = {
+  client: 'CLIENT_SCOPE',
+  shared: 'SHARED_SCOPE',
+  server: 'SERVER_SCOPE',
+}
+
 /**
  * ThingsBoard Telemetry Service
  * Retrieves timeseries data from ThingsBoard using the endpoint:
  * GET /api/plugins/telemetry/{entityType}/{entityId}/values/timeseries
+ * and reads or writes entity attributes through the same telemetry API.
+ * Devices are listed by the customers' device APIs, which map them to ThingsBoard UUIDs;
+ * requests about a device use its customer's ThingsBoard session when it has one.
  */
-export class ThingsboardTelemetryService {
+export class ThingsboardTelemetryService implements TelemetryProvider {
+  readonly name = 'thingsboard'
   private logger = telemetryLogger
-  private readonly authService: ThingsboardAuthService
+  private readonly tenants: ThingsboardTenants
   private readonly maxRetries = 3
   private readonly retryDelayMs = 1000
+  private readonly cache: TelemetryRangeCache
+  private readonly upstream: UpstreamClient
+  // Last known state of ThingsBoard, so failures and recoveries are announced once
+  private upstreamHealthy = true
 
-  constructor(authService: ThingsboardAuthService) {
-    this.authService = authService
+  constructor(
+    authService: ThingsboardAuthService,
+    cache: TelemetryRangeCache = new TelemetryRangeCache(),
+    upstream: UpstreamClient = upstreams.thingsboard,
+    tenants: ThingsboardTenants = new ThingsboardTenants(authService, findCustomerById, listDevicesByCustomer)
+  ) {
+    this.tenants = tenants
+    this.cache = cache
+    this.upstream = upstream
   }
 
   /**
@@ -46,7 +83,7 @@ export class ThingsboardTelemetryService {
     limit?: number,
     useStrictDataTypes?: boolean
   ): Promise<Record<string, any[]>> {
-    return this.getTimeseriesWithRetry(
+    const { data } = await this.getTimeseriesWithCacheStats(
       entityType,
       entityId,
       keys,
@@ -56,11 +93,200 @@ export class ThingsboardTelemetryService {
       agg,
       orderBy,
       limit,
-      useStrictDataTypes,
-      0
+      useStrictDataTypes
+    )
+    return data
+  }
+
+  /**
+   * Same as getTimeseries, also reporting how much of the answer came from the range cache.
+   *
+   * Only aggregated queries (agg other than NONE, with an interval and no limit) are cached:
+   * raw queries are capped by ThingsBoard's limit, so a fetched sub-range could be incomplete.
+   */
+  async getTimeseriesWithCacheStats(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<{ data: TimeseriesData; cache: TelemetryCacheStats }> {
+    const cacheable =
+      agg !== undefined && agg.toUpperCase() !== 'NONE' && interval !== undefined && limit === undefined
+
+    if (!cacheable) {
+      const data = await this.getTimeseriesWithRetry(
+        entityType,
+        entityId,
+        keys,
+        startTs,
+        endTs,
+        interval,
+        agg,
+        orderBy,
+        limit,
+        useStrictDataTypes
+      )
+      return { data, cache: { cacheable: false, hits: 0, misses: 0, upstreamRequests: 1 } }
+    }
+
+    const { data, stats } = await this.cache.get(
+      { entityType, entityId, keys, startTs, endTs, interval, agg, orderBy, useStrictDataTypes },
+      (missingKeys, from, to) =>
+        this.getTimeseriesWithRetry(
+          entityType,
+          entityId,
+          missingKeys,
+          from,
+          to,
+          interval,
+          agg,
+          'ASC',
+          undefined,
+          useStrictDataTypes
+        )
+    )
+    return { data, cache: stats }
+  }
+
+  /**
+   * Drop cached telemetry for one entity, or everything
+   */
+  invalidateCache(entityType?: string, entityId?: string): void {
+    this.cache.invalidate(entityType, entityId)
+  }
+
+  /**
+   * Latest value of each key, without a time range
+   * GET /api/plugins/telemetry/{entityType}/{entityId}/values/timeseries
+   *
+   * @param keys - Keys to read; all keys of the entity when omitted
+   * @returns The newest point per key, e.g. { "temperature": { "ts": 1705689600000, "value": "21.5" } }
+   */
+  async getLatestTimeseries(
+    entityType: string,
+    entityId: string,
+    keys?: string[],
+    useStrictDataTypes?: boolean
+  ): Promise<Record<string, LatestValue>> {
+    const params: Record<string, string | boolean> = {}
+    if (keys && keys.length > 0) {
+      params.keys = keys.join(',')
+    }
+    if (useStrictDataTypes !== undefined) {
+      params.useStrictDataTypes = useStrictDataTypes
+    }
+
+    this.logger.info(`Fetching latest telemetry: ${entityType}/${entityId} keys=${keys?.join(',') ?? 'ALL'}`)
+    const data = await this.requestWithRetry<Record<string, { ts: number; value: unknown }[]>>(
+      'get',
+      `/api/plugins/telemetry/${entityType}/${entityId}/values/timeseries`,
+      entityType,
+      entityId,
+      { params }
+    )
+
+    const latest: Record<string, LatestValue> = {}
+    for (const [key, points] of Object.entries(data ?? {})) {
+      // ThingsBoard answers with an empty value for requested keys that have no data
+      const point = points?.[0]
+      if (point && point.value !== null && point.value !== undefined && point.value !== '') {
+        latest[key] = { ts: point.ts, value: point.value }
+      }
+    }
+    return latest
+  }
+
+  /**
+   * Timeseries keys an entity has ever reported
+   * GET /api/plugins/telemetry/{entityType}/{entityId}/keys/timeseries
+   */
+  async getTimeseriesKeys(entityType: string, entityId: string): Promise<string[]> {
+    this.logger.info(`Fetching timeseries keys: ${entityType}/${entityId}`)
+    const keys = await this.requestWithRetry<string[]>(
+      'get',
+      `/api/plugins/telemetry/${entityType}/${entityId}/keys/timeseries`,
+      entityType,
+      entityId,
+      {}
+    )
+    return keys ?? []
+  }
+
+  /**
+   * Read attributes of an entity, one scope after the other
+   * GET /api/plugins/telemetry/{entityType}/{entityId}/values/attributes/{scope}
+   *
+   * @param scopes - Scopes to read (default: client, shared and server)
+   * @param keys - Attribute keys to read; all when omitted
+   */
+  async getAttributes(
+    entityType: string,
+    entityId: string,
+    scopes: readonly AttributeScope[] = ATTRIBUTE_SCOPES,
+    keys?: string[]
+  ): Promise<AttributeEntry[]> {
+    const params: Record<string, string> = {}
+    if (keys && keys.length > 0) {
+      params.keys = keys.join(',')
+    }
+
+    const attributes: AttributeEntry[] = []
+    for (const scope of scopes) {
+      this.logger.info(`Fetching ${scope} attributes: ${entityType}/${entityId} keys=${keys?.join(',') ?? 'ALL'}`)
+      const entries = await this.requestWithRetry<{ key: string; value: unknown; lastUpdateTs: number }[]>(
+        'get',
+        `/api/plugins/telemetry/${entityType}/${entityId}/values/attributes/${ATTRIBUTE_SCOPE_NAMES[scope]}`,
+        entityType,
+        entityId,
+        { params }
+      )
+      for (const entry of entries ?? []) {
+        attributes.push({ scope, key: entry.key, value: entry.value, lastUpdateTs: entry.lastUpdateTs })
+      }
+    }
+    return attributes
+  }
+
+  /**
+   * Create or update attributes. Only the shared and server scopes can be written
+   * through the REST API; client attributes belong to the device itself.
+   * POST /api/plugins/telemetry/{entityType}/{entityId}/attributes/{scope}
+   */
+  async saveAttributes(
+    entityType: string,
+    entityId: string,
+    scope: WritableAttributeScope,
+    attributes: Record<string, unknown>
+  ): Promise<void> {
+    this.logger.info(
+      `Saving ${scope} attributes: ${entityType}/${entityId} keys=${Object.keys(attributes).join(',')}`
+    )
+    await this.requestWithRetry<unknown>(
+      'post',
+      `/api/plugins/telemetry/${entityType}/${entityId}/attributes/${ATTRIBUTE_SCOPE_NAMES[scope]}`,
+      entityType,
+      entityId,
+      { data: attributes }
     )
   }
 
+  async listDevices(): Promise<Device[]> {
+    return this.tenants.listDevices()
+  }
+
+  /**
+   * Cleanup: stop the token refresh of the customers' ThingsBoard sessions
+   */
+  cleanup(): void {
+    this.tenants.cleanup()
+  }
+
   /**
    * Retrieve telemetry with automatic retry on 401 (token expired)
    */
@@ -74,60 +300,90 @@ export class ThingsboardTelemetryService {
     agg?: string,
     orderBy?: string,
     limit?: number,
-    useStrictDataTypes?: boolean,
-    retryCount: number = 0
+    useStrictDataTypes?: boolean
   ): Promise<Record<string, any[]>> {
-    try {
-      const client = await this.authService.getAuthenticatedClient()
+    // Build query parameters
+    const params: Record<string, string | number | boolean> = {
+      keys: keys.join(','),
+      startTs: startTs.toString(),
+      endTs: endTs.toString(),
+    }
 
-      // Build query parameters
-      const params: Record<string, string | number | boolean> = {
-        keys: keys.join(','),
-        startTs: startTs.toString(),
-        endTs: endTs.toString(),
-      }
+    if (interval !== undefined) {
+      params.interval = interval
+    }
+    if (agg !== undefined) {
+      params.agg = agg
+    }
+    if (orderBy !== undefined) {
+      params.orderBy = orderBy
+    }
+    if (limit !== undefined) {
+      params.limit = limit
+    }
+    if (useStrictDataTypes !== undefined) {
+      params.useStrictDataTypes = useStrictDataTypes
+    }
 
-      if (interval !== undefined) {
-        params.interval = interval
-      }
-      if (agg !== undefined) {
-        params.agg = agg
-      }
-      if (orderBy !== undefined) {
-        params.orderBy = orderBy
-      }
-      if (limit !== undefined) {
-        params.limit = limit
-      }
-      if (useStrictDataTypes !== undefined) {
-        params.useStrictDataTypes = useStrictDataTypes
-      }
+    this.logger.info(
+      `Fetching telemetry: ${entityType}/${entityId} keys=${keys.join(',')} range=${startTs}-${endTs}`
+    )
+    this.logger.info(
+      `Request params: ${JSON.stringify(params)}`
+    )
 
-      const endpoint = `/api/plugins/telemetry/${entityType}/${entityId}/values/timeseries`
+    const data = await this.requestWithRetry<TimeseriesData>(
+      'get',
+      `/api/plugins/telemetry/${entityType}/${entityId}/values/timeseries`,
+      entityType,
+      entityId,
+      { params }
+    )
 
-      const baseURL = (client.defaults && client.defaults.baseURL) ? String(client.defaults.baseURL) : ''
-      this.logger.info(
-        `Fetching telemetry: ${entityType}/${entityId} keys=${keys.join(',')} range=${startTs}-${endTs}`
-      )
-      this.logger.info(
-        `Request URL: ${baseURL}${endpoint}`
-      )
+    const dataKeys = Object.keys(data || {})
+    this.logger.info(
+      `Successfully retrieved telemetry for ${entityId} - returned keys: ${dataKeys.length > 0 ? dataKeys.join(',') : 'NONE'}`
+    )
+    return data
+  }
+
+  /**
+   * Call the ThingsBoard telemetry API and return the response body. On 401 the
+   * token is refreshed and the call retried (up to maxRetries times); timeouts,
+   * network errors and 5xx answers are retried by the upstream client.
+   */
+  private async requestWithRetry<T>(
+    method: 'get' | 'post',
+    endpoint: string,
+    entityType: string,
+    entityId: string,
+    options: { params?: Record<string, string | number | boolean>; data?: unknown },
+    retryCount: number = 0
+  ): Promise<T> {
+    try {
+      const authService = await this.tenants.authFor(entityType, entityId)
+      const token = await authService.getValidToken()
+      const baseURL = authService.getBaseUrl()
       this.logger.info(
-        `Request params: ${JSON.stringify(params)}`
+        `Request URL: ${method.toUpperCase()} ${baseURL}${endpoint}`
       )
 
-      const response = await client.get(endpoint, {
-        params,
-        validateStatus: () => true, // Handle all status codes
+      const response = await this.upstream.request<T>({
+        method,
+        baseURL,
+        url: endpoint,
+        params: options.params,
+        data: options.data,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
       })
       this.logger.debug(`ThingsBoard response status=${response.status}`)
       this.logger.info(`ThingsBoard response data: ${JSON.stringify(response.data)}`)
 
       if (response.status === 200) {
-        const dataKeys = Object.keys(response.data || {})
-        this.logger.info(
-          `Successfully retrieved telemetry for ${entityId} - returned keys: ${dataKeys.length > 0 ? dataKeys.join(',') : 'NONE'}`
-        )
+        this.setUpstreamHealth(true)
         return response.data
       }
 
@@ -141,52 +397,52 @@ export class ThingsboardTelemetryService {
         await this.delay(this.retryDelayMs)
 
         // Refresh token
-        await this.authService.refreshToken()
+        await authService.refreshToken()
 
         // Retry the request
-        return this.getTimeseriesWithRetry(
-          entityType,
-          entityId,
-          keys,
-          startTs,
-          endTs,
-          interval,
-          agg,
-          orderBy,
-          limit,
-          useStrictDataTypes,
-          retryCount + 1
-        )
+        return this.requestWithRetry<T>(method, endpoint, entityType, entityId, options, retryCount + 1)
       }
 
       if (response.status === 404) {
-        throw new Error(
+        throw new NotFoundError(
           `Entity not found: ${entityType}/${entityId} (404). Check entity ID and type.`
         )
       }
 
       if (response.status === 400) {
-        throw new Error(
-          `Bad request: ${response.data?.message || 'Invalid parameters'}`
-        )
+        const body = response.data as { message?: string } | undefined
+        throw new ApiError(400, `Bad request: ${body?.message || 'Invalid parameters'}`)
       }
 
-      throw new Error(
+      this.setUpstreamHealth(false, `${response.status} ${response.statusText}`)
+      throw new UpstreamError(
         `ThingsBoard API error: ${response.status} ${response.statusText}\n${JSON.stringify(response.data)}`
       )
     } catch (error) {
-      if (error instanceof AxiosError) {
-        this.logger.error(
-          `Request failed: ${error.message}. Status: ${error.response?.status}`
-        )
-      } else {
-        const errorMsg = error instanceof Error ? error.message : String(error)
-        this.logger.error(`Telemetry fetch failed: ${errorMsg}`)
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      this.logger.error(`Telemetry request failed: ${errorMsg}`)
+      if (error instanceof UpstreamUnavailableError) {
+        this.setUpstreamHealth(false, errorMsg)
       }
       throw error
     }
   }
 
+  /**
+   * Publish an event when ThingsBoard starts failing or recovers
+   */
+  private setUpstreamHealth(healthy: boolean, reason?: string): void {
+    if (healthy === this.upstreamHealthy) return
+    this.upstreamHealthy = healthy
+
+    eventBus.publish({
+      type: healthy ? 'telemetry.upstream_recovered' : 'telemetry.upstream_failed',
+      severity: healthy ? 'info' : 'critical',
+      title: healthy ? 'ThingsBoard telemetry is reachable again' : `ThingsBoard telemetry requests are failing: ${reason}`,
+      data: { reason: reason ?? null },
+    })
+  }
+
   /**
    * Helper: delay execution
    */
@@ -0,0 +1,118 @@
+import { logger } from '../../utils/logger.js'
+import { NotFoundError } from '../../utils/apiError.js'
+import { Device } from '../device.service.js'
+import { Customer } from '../../modules/customer/customer.model.js'
+import { RegisteredCustomerDevices } from '../../modules/customer/customer.service.js'
+import { ThingsboardAuthService } from './thingsboard-auth.service.js'
+
+const tenantLogger = logger.child({ module: 'ThingsboardTenants' })
+
+export type CustomerLoader = (customerId: number) => Promise<Customer | null>
+export type CustomerDevicesLoader = () => Promise<RegisteredCustomerDevices[]>
+
+interface TenantSession {
+  // Credentials the session was opened with, to notice when the customer's are changed
+  fingerprint: string
+  authService: ThingsboardAuthService
+}
+
+/**
+ * ThingsBoard session per customer.
+ * Customers registered with their own ThingsBoard tenant (or server) get their own
+ * login; devices of other customers, and entities other than devices, go through
+ * the default account. Devices are mapped to the registry customer whose device
+ * API lists them, which may differ from the customerId the device reports. A
+ * device not seen yet (after a restart, or added since the last listing) makes
+ * the device lists load again; one no customer lists is not found.
+ */
+export class ThingsboardTenants {
+  private logger = tenantLogger
+  private readonly defaultAuth: ThingsboardAuthService
+  private readonly loadCustomer: CustomerLoader
+  private readonly loadDevices: CustomerDevicesLoader
+  private readonly deviceCustomers = new Map<string, number>()
+  private readonly sessions = new Map<number, TenantSession>()
+  // Device lists are loaded again for an unknown device at most this often
+  private readonly reloadIntervalMs = 30_000
+  private lastLoadAt = 0
+  private loading: Promise<Device[]> | null = null
+
+  constructor(defaultAuth: ThingsboardAuthService, loadCustomer: CustomerLoader, loadDevices: CustomerDevicesLoader) {
+    this.defaultAuth = defaultAuth
+    this.loadCustomer = loadCustomer
+    this.loadDevices = loadDevices
+  }
+
+  /**
+   * Devices of every registered customer, remembering which customer lists each one
+   */
+  async listDevices(): Promise<Device[]> {
+    // Concurrent callers share one load
+    this.loading ??= this.loadDevices()
+      .then((groups) => {
+        this.lastLoadAt = Date.now()
+        for (const { customer, devices } of groups) {
+          for (const device of devices) this.deviceCustomers.set(device.deviceUUID, customer.id)
+        }
+        return groups.flatMap((group) => group.devices)
+      })
+      .finally(() => {
+        this.loading = null
+      })
+    return this.loading
+  }
+
+  /**
+   * Auth service for requests about an entity: the session of the device's
+   * customer when it has its own ThingsBoard credentials, the default one otherwise
+   */
+  async authFor(entityType: string, entityId: string): Promise<ThingsboardAuthService> {
+    if (entityType.toUpperCase() !== 'DEVICE') return this.defaultAuth
+
+    const customerId = await this.customerOf(entityId)
+    const customer = await this.loadCustomer(customerId)
+    if (!customer?.thingsboard) {
+      this.closeSession(customerId)
+      return this.defaultAuth
+    }
+
+    const { baseUrl, username, password } = customer.thingsboard
+    const fingerprint = JSON.stringify([baseUrl, username, password])
+    const session = this.sessions.get(customerId)
+    if (session?.fingerprint === fingerprint) return session.authService
+
+    this.closeSession(customerId)
+    this.logger.info(`Opening ThingsBoard session for customer ${customerId} as ${username}`)
+    const authService = new ThingsboardAuthService(baseUrl ?? this.defaultAuth.getBaseUrl(), username, password)
+    this.sessions.set(customerId, { fingerprint, authService })
+    return authService
+  }
+
+  /**
+   * Registry customer listing a device, loading the device lists when the device is not known yet
+   */
+  private async customerOf(deviceUUID: string): Promise<number> {
+    let customerId = this.deviceCustomers.get(deviceUUID)
+    if (customerId === undefined && (this.loading || Date.now() - this.lastLoadAt >= this.reloadIntervalMs)) {
+      this.logger.info(`Device ${deviceUUID} not mapped to a customer yet, loading device lists`)
+      await this.listDevices()
+      customerId = this.deviceCustomers.get(deviceUUID)
+    }
+    if (customerId === undefined) {
+      throw new NotFoundError(`Device ${deviceUUID} is not listed by any registered customer`)
+    }
+    return customerId
+  }
+
+  /**
+   * Stop the token refresh timers of every customer session
+   */
+  cleanup(): void {
+    for (const customerId of [...this.sessions.keys()]) this.closeSession(customerId)
+  }
+
+  private closeSession(customerId: number): void {
+    this.sessions.get(customerId)?.authService.cleanup()
+    this.sessions.delete(customerId)
+  }
+}
@@ -1,5 +1,12 @@
 import { ThingsboardAuthService } from './thingsboard-auth.service.js'
 import { ThingsboardTelemetryService } from './thingsboard-telemetry.service.js'
+import { TelemetryRangeCache } from './telemetry-cache.js'
+import { ThingsboardTenants } from './thingsboard-tenants.js'
+import { TenantStreamService } from './tenant-stream.service.js'
+import { config } from '../../config/index.js'
+import { upstreams } from '../upstream/upstreams.js'
+import { findCustomerById } from '../../modules/customer/customer.repository.js'
+import { listDevicesByCustomer } from '../../modules/customer/customer.service.js'
 
 /**
  * Initialize ThingsBoard services
@@ -8,12 +15,22 @@ import { ThingsboardTelemetryService } from './thingsboard-telemetry.service.js'
 export function initializeThingsboardServices(): {
   authService: ThingsboardAuthService
   telemetryService: ThingsboardTelemetryService
+  streamService: TenantStreamService
 } {
   const authService = new ThingsboardAuthService()
-  const telemetryService = new ThingsboardTelemetryService(authService)
+  // Shared, so queries and streams use the same session per customer
+  const tenants = new ThingsboardTenants(authService, findCustomerById, listDevicesByCustomer)
+  const telemetryService = new ThingsboardTelemetryService(
+    authService,
+    new TelemetryRangeCache(config.telemetryCache),
+    upstreams.thingsboard,
+    tenants
+  )
+  const streamService = new TenantStreamService(tenants)
 
   return {
     authService,
     telemetryService,
+    streamService,
   }
 }
@@ -0,0 +1,64 @@
+import { UpstreamUnavailableError } from '../../utils/apiError.js'
+
+export interface BulkheadOptions {
+  // Calls running at the same time
+  maxConcurrent?: number
+  // Calls waiting for a free slot before new ones are refused
+  maxQueued?: number
+}
+
+/**
+ * Concurrency limit for the calls to one upstream, so a slow upstream
+ * cannot tie up every request of the server. Calls beyond maxConcurrent
+ * wait in FIFO order; once maxQueued calls are waiting, new ones are refused.
+ */
+export class Bulkhead {
+  private readonly name: string
+  private readonly maxConcurrent: number
+  private readonly maxQueued: number
+  private active = 0
+  private readonly queue: (() => void)[] = []
+
+  constructor(name: string, options: BulkheadOptions = {}) {
+    this.name = name
+    this.maxConcurrent = options.maxConcurrent ?? 10
+    this.maxQueued = options.maxQueued ?? 100
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire()
+    try {
+      return await fn()
+    } finally {
+      this.release()
+    }
+  }
+
+  get inFlight(): number {
+    return this.active
+  }
+
+  get queued(): number {
+    return this.queue.length
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++
+      return Promise.resolve()
+    }
+    if (this.queue.length >= this.maxQueued) {
+      return Promise.reject(
+        new UpstreamUnavailableError(`${this.name} is overloaded: ${this.queue.length} requests already waiting`)
+      )
+    }
+    // The slot is handed over by release(), so `active` stays the same
+    return new Promise((resolve) => this.queue.push(resolve))
+  }
+
+  private release(): void {
+    const next = this.queue.shift()
+    if (next) next()
+    else this.active--
+  }
+}
@@ -0,0 +1,125 @@
+import { logger } from '../../utils/logger.js'
+
+const breakerLogger = logger.child({ module: 'CircuitBreaker' })
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold?: number
+  // How long the circuit stays open before a probe request is let through
+  resetTimeoutMs?: number
+  // Probe requests allowed at the same time while half-open
+  halfOpenMaxCalls?: number
+  now?: () => number
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: string | null
+  // When an open circuit lets the next probe through
+  retryAt: string | null
+  lastFailure: string | null
+}
+
+/**
+ * Circuit breaker for one upstream.
+ *
+ * Closed: every call goes through and consecutive failures are counted.
+ * Open: calls are refused until resetTimeoutMs has passed since opening.
+ * Half-open: a few probe calls go through; one success closes the circuit,
+ * one failure opens it again.
+ */
+export class CircuitBreaker {
+  private readonly name: string
+  private readonly failureThreshold: number
+  private readonly resetTimeoutMs: number
+  private readonly halfOpenMaxCalls: number
+  private readonly now: () => number
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private probesInFlight = 0
+  private lastFailure: string | null = null
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Whether a call may go through now. Every granted call must be followed
+   * by onSuccess() or onFailure().
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() < this.openedAt! + this.resetTimeoutMs) return false
+      this.transition('half_open')
+    }
+    if (this.state === 'half_open') {
+      if (this.probesInFlight >= this.halfOpenMaxCalls) return false
+      this.probesInFlight++
+    }
+    return true
+  }
+
+  onSuccess(): void {
+    this.consecutiveFailures = 0
+    if (this.state === 'half_open') {
+      this.probesInFlight = 0
+      this.transition('closed')
+    }
+  }
+
+  onFailure(reason: string): void {
+    this.consecutiveFailures++
+    this.lastFailure = reason
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.probesInFlight = 0
+      this.openedAt = this.now()
+      this.transition('open')
+    }
+  }
+
+  getState(): CircuitState {
+    // An open circuit whose timeout has passed is reported as ready to probe
+    if (this.state === 'open' && this.now() >= this.openedAt! + this.resetTimeoutMs) return 'half_open'
+    return this.state
+  }
+
+  /**
+   * When an open circuit lets the next probe through, null otherwise
+   */
+  getRetryAt(): number | null {
+    return this.state === 'open' ? this.openedAt! + this.resetTimeoutMs : null
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const retryAt = this.getRetryAt()
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null && this.state !== 'closed' ? new Date(this.openedAt).toISOString() : null,
+      retryAt: retryAt !== null ? new Date(retryAt).toISOString() : null,
+      lastFailure: this.lastFailure,
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) return
+    const from = this.state
+    this.state = state
+    if (state === 'closed') this.openedAt = null
+
+    const message = `${this.name} circuit ${from} -> ${state}`
+    if (state === 'open') {
+      breakerLogger.warn(`${message} after ${this.consecutiveFailures} failure(s): ${this.lastFailure}`)
+    } else {
+      breakerLogger.info(message)
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { logger } from '../../utils/logger.js'
+import { UpstreamUnavailableError } from '../../utils/apiError.js'
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerSnapshot } from './circuit-breaker.js'
+import { Bulkhead, BulkheadOptions } from './bulkhead.js'
+
+const upstreamLogger = logger.child({ module: 'UpstreamClient' })
+
+export interface UpstreamClientOptions extends BulkheadOptions {
+  // Per-attempt timeout
+  timeoutMs: number
+  // Retries after the first attempt, for network errors, timeouts and 5xx answers
+  maxRetries?: number
+  // Backoff before retry n is a random delay up to min(retryMaxDelayMs, retryBaseDelayMs * 2^n)
+  retryBaseDelayMs?: number
+  retryMaxDelayMs?: number
+  breaker?: CircuitBreakerOptions
+  http?: AxiosInstance
+}
+
+export interface UpstreamRequestConfig extends AxiosRequestConfig {
+  // Whether the call may be repeated; defaults to true for GET and HEAD only
+  retry?: boolean
+}
+
+export interface UpstreamStatus extends CircuitBreakerSnapshot {
+  timeoutMs: number
+  inFlight: number
+  queued: number
+}
+
+/**
+ * HTTP client for one upstream service (ThingsBoard, a customer device API).
+ *
+ * Every attempt runs inside the upstream's bulkhead and circuit breaker, with
+ * the upstream's timeout. Network errors, timeouts and 5xx answers count as
+ * failures and are retried with exponential backoff and full jitter; other
+ * answers are returned as they are, whatever their status, for the caller to
+ * interpret. An open circuit or a full bulkhead fails at once with a 503.
+ */
+export class UpstreamClient {
+  readonly name: string
+  private readonly timeoutMs: number
+  private readonly maxRetries: number
+  private readonly retryBaseDelayMs: number
+  private readonly retryMaxDelayMs: number
+  private readonly breaker: CircuitBreaker
+  private readonly bulkhead: Bulkhead
+  private readonly http: AxiosInstance
+
+  constructor(name: string, options: UpstreamClientOptions) {
+    this.name = name
+    this.timeoutMs = options.timeoutMs
+    this.maxRetries = options.maxRetries ?? 2
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 250
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 5000
+    this.breaker = new CircuitBreaker(name, options.breaker)
+    this.bulkhead = new Bulkhead(name, options)
+    this.http = options.http ?? axios.create()
+  }
+
+  async request<T = unknown>({ retry, ...config }: UpstreamRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (config.method ?? 'get').toLowerCase()
+    const maxRetries = (retry ?? (method === 'get' || method === 'head')) ? this.maxRetries : 0
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: string
+      try {
+        const response = await this.attempt<T>(config)
+        if (response.status < 500 || attempt >= maxRetries) return response
+        failure = `${response.status} ${response.statusText}`
+      } catch (error) {
+        if (!axios.isAxiosError(error)) throw error
+        failure = this.describe(error)
+        if (attempt >= maxRetries) {
+          throw new UpstreamUnavailableError(`${this.name} ${failure}`)
+        }
+      }
+
+      const delay = this.backoff(attempt)
+      upstreamLogger.warn(
+        `${this.name} ${method.toUpperCase()} ${config.url} failed (${failure}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`
+      )
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+
+  status(): UpstreamStatus {
+    return {
+      ...this.breaker.snapshot(),
+      timeoutMs: this.timeoutMs,
+      inFlight: this.bulkhead.inFlight,
+      queued: this.bulkhead.queued,
+    }
+  }
+
+  private attempt<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.bulkhead.run(async () => {
+      if (!this.breaker.tryAcquire()) {
+        const retryAt = this.breaker.getRetryAt()
+        throw new UpstreamUnavailableError(
+          `${this.name} is unavailable (circuit open${retryAt ? ` until ${new Date(retryAt).toISOString()}` : ''})`
+        )
+      }
+
+      try {
+        const response = await this.http.request<T>({
+          ...config,
+          timeout: this.timeoutMs,
+          validateStatus: () => true,
+        })
+        if (response.status >= 500) this.breaker.onFailure(`${response.status} ${response.statusText}`)
+        else this.breaker.onSuccess()
+        return response
+      } catch (error) {
+        this.breaker.onFailure(axios.isAxiosError(error) ? this.describe(error) : String(error))
+        throw error
+      }
+    })
+  }
+
+  private backoff(attempt: number): number {
+    return Math.round(Math.random() * Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt))
+  }
+
+  private describe(error: { code?: string; message: string }): string {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+      ? `timed out after ${this.timeoutMs}ms`
+      : `unreachable: ${error.message}`
+  }
+}
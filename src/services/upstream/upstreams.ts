@@ -0,0 +1,55 @@
+import { config } from '../../config/index.js'
+import { UpstreamClient, UpstreamStatus } from './upstream-client.js'
+
+const { maxRetries, retryBaseDelayMs, breaker } = config.upstreams
+
+/**
+ * Shared clients of the upstream HTTP services, one circuit breaker and bulkhead each
+ */
+export const upstreams = {
+  thingsboard: new UpstreamClient('ThingsBoard', {
+    ...config.upstreams.thingsboard,
+    maxRetries,
+    retryBaseDelayMs,
+    breaker,
+  }),
+}
+
+// Device API clients by customer id
+const customerApis = new Map<number, UpstreamClient>()
+
+/**
+ * Client of one customer's device API. Each customer gets its own circuit breaker
+ * and bulkhead, so a dead endpoint only fails that customer's calls.
+ */
+export const customerApiFor = (customerId: number): UpstreamClient => {
+  let client = customerApis.get(customerId)
+  if (!client) {
+    client = new UpstreamClient(`Customer API (customer ${customerId})`, {
+      ...config.upstreams.customerApi,
+      maxRetries,
+      retryBaseDelayMs,
+      breaker,
+    })
+    customerApis.set(customerId, client)
+  }
+  return client
+}
+
+/**
+ * Drop the client of a deleted customer, so its status is no longer reported
+ */
+export const forgetCustomerApi = (customerId: number): void => {
+  customerApis.delete(customerId)
+}
+
+/**
+ * Status of every upstream: `thingsboard`, and `customerApi:<customerId>` for each
+ * customer device API called since startup
+ */
+export const getUpstreamStatuses = (): Record<string, UpstreamStatus> => ({
+  thingsboard: upstreams.thingsboard.status(),
+  ...Object.fromEntries(
+    [...customerApis].map(([customerId, client]) => [`customerApi:${customerId}`, client.status()])
+  ),
+})
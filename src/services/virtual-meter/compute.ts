@@ -0,0 +1,63 @@
+/**
+ * Evaluate a formula over aligned source series.
+ */
+
+import { TelemetryPoint } from '../thingsboard/telemetry-cache.js'
+import { collectRefs, evaluateExpression, Expression } from './expression.js'
+
+/**
+ * - exact: only timestamps where every source has a value (aggregated queries,
+ *   whose buckets start at the same timestamps for every device)
+ * - hold: every timestamp of any source, each source keeping its last value
+ *   (raw readings, which devices report at their own pace)
+ */
+export type AlignMode = 'exact' | 'hold'
+
+export const refId = (alias: string, key: string) => `${alias}.${key}`
+
+/**
+ * Telemetry value as a number; null for missing, boolean or non-numeric values
+ */
+export const numericValue = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Formula values over time, oldest first. `series` holds the source points by
+ * `alias.key`; timestamps where the formula has no value are skipped.
+ */
+export function computeSeries(
+  expression: Expression,
+  series: Record<string, TelemetryPoint[]>,
+  mode: AlignMode
+): TelemetryPoint[] {
+  const refs = collectRefs(expression).map(({ alias, key }) => refId(alias, key))
+  if (refs.length === 0) return []
+
+  const byRef = refs.map((ref) =>
+    [...(series[ref] ?? [])]
+      .map((point) => ({ ts: point.ts, value: numericValue(point.value) }))
+      .filter((point): point is { ts: number; value: number } => point.value !== null)
+      .sort((a, b) => a.ts - b.ts)
+  )
+  const timestamps = [...new Set(byRef.flatMap((points) => points.map((point) => point.ts)))].sort((a, b) => a - b)
+
+  const cursors = refs.map(() => -1)
+  const current = new Map<string, number>()
+  const result: TelemetryPoint[] = []
+
+  for (const ts of timestamps) {
+    current.clear()
+    byRef.forEach((points, i) => {
+      while (cursors[i] + 1 < points.length && points[cursors[i] + 1].ts <= ts) cursors[i]++
+      const point = points[cursors[i]]
+      if (point && (mode === 'hold' || point.ts === ts)) current.set(refs[i], point.value)
+    })
+
+    const value = evaluateExpression(expression, (alias, key) => current.get(refId(alias, key)) ?? null)
+    if (value !== null) result.push({ ts, value })
+  }
+  return result
+}
@@ -0,0 +1,247 @@
+/**
+ * Arithmetic formulas over other devices' telemetry, e.g. `A.kWh - B.kWh - C.kWh`.
+ *
+ * Grammar (no eval, no identifiers other than source references and functions):
+ *   expr    = term (("+" | "-") term)*
+ *   term    = unary (("*" | "/") unary)*
+ *   unary   = "-" unary | primary
+ *   primary = number | ref | func "(" expr ("," expr)* ")" | "(" expr ")"
+ *   ref     = alias "." key         alias and key made of letters, digits and "_"
+ *   func    = abs | min | max
+ */
+
+export type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; alias: string; key: string }
+  | { type: 'negate'; operand: Expression }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: Expression; right: Expression }
+  | { type: 'call'; fn: ExpressionFunction; args: Expression[] }
+
+export type ExpressionFunction = 'abs' | 'min' | 'max'
+
+export interface SourceRef {
+  alias: string
+  key: string
+}
+
+export const MAX_EXPRESSION_LENGTH = 500
+const MAX_DEPTH = 20
+const FUNCTIONS: Record<ExpressionFunction, { minArgs: number; maxArgs: number }> = {
+  abs: { minArgs: 1, maxArgs: 1 },
+  min: { minArgs: 2, maxArgs: 10 },
+  max: { minArgs: 2, maxArgs: 10 },
+}
+
+export class ExpressionError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`)
+    this.position = position
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'name'; value: string; pos: number }
+  | { kind: 'ref'; alias: string; key: string; pos: number }
+  | { kind: 'punct'; value: string; pos: number }
+  | { kind: 'end'; pos: number }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < source.length) {
+    const char = source[pos]
+    if (/\s/.test(char)) {
+      pos++
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[pos + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos))!
+      tokens.push({ kind: 'number', value: Number(match[0]), pos })
+      pos += match[0].length
+    } else if (/[A-Za-z_]/.test(char)) {
+      // Keys may start with a digit (e.g. A.3phase_kW), so a reference is read as one token
+      const match = /^([A-Za-z_]\w*)(?:\.(\w+))?/.exec(source.slice(pos))!
+      tokens.push(
+        match[2] !== undefined
+          ? { kind: 'ref', alias: match[1], key: match[2], pos }
+          : { kind: 'name', value: match[1], pos }
+      )
+      pos += match[0].length
+    } else if ('+-*/(),'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, pos })
+      pos++
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}"`, pos)
+    }
+  }
+
+  tokens.push({ kind: 'end', pos })
+  return tokens
+}
+
+/**
+ * Parse a formula; throws an ExpressionError pointing at the offending character
+ */
+export function parseExpression(source: string): Expression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH)
+  }
+
+  const tokens = tokenize(source)
+  let index = 0
+  const peek = () => tokens[index]
+  const isPunct = (value: string) => {
+    const token = peek()
+    return token.kind === 'punct' && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!isPunct(value)) {
+      throw new ExpressionError(`Expected "${value}"`, peek().pos)
+    }
+    index++
+  }
+
+  const parseExpr = (depth: number): Expression => {
+    if (depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', peek().pos)
+    }
+    let left = parseTerm(depth)
+    while (isPunct('+') || isPunct('-')) {
+      const op = (tokens[index++] as { value: '+' | '-' }).value
+      left = { type: 'binary', op, left, right: parseTerm(depth) }
+    }
+    return left
+  }
+
+  const parseTerm = (depth: number): Expression => {
+    let left = parseUnary(depth)
+    while (isPunct('*') || isPunct('/')) {
+      const op = (tokens[index++] as { value: '*' | '/' }).value
+      left = { type: 'binary', op, left, right: parseUnary(depth) }
+    }
+    return left
+  }
+
+  const parseUnary = (depth: number): Expression => {
+    if (isPunct('-')) {
+      index++
+      return { type: 'negate', operand: parseUnary(depth + 1) }
+    }
+    return parsePrimary(depth)
+  }
+
+  const parsePrimary = (depth: number): Expression => {
+    const token = peek()
+
+    if (token.kind === 'number') {
+      index++
+      return { type: 'number', value: token.value }
+    }
+
+    if (token.kind === 'ref') {
+      index++
+      if (isPunct('(')) {
+        throw new ExpressionError(`Unknown function "${token.alias}.${token.key}"`, token.pos)
+      }
+      return { type: 'ref', alias: token.alias, key: token.key }
+    }
+
+    if (token.kind === 'name') {
+      index++
+      if (isPunct('(')) {
+        if (!Object.hasOwn(FUNCTIONS, token.value)) {
+          throw new ExpressionError(`Unknown function "${token.value}"`, token.pos)
+        }
+        const fn = token.value as ExpressionFunction
+        index++
+        const args = [parseExpr(depth + 1)]
+        while (isPunct(',')) {
+          index++
+          args.push(parseExpr(depth + 1))
+        }
+        expect(')')
+        const { minArgs, maxArgs } = FUNCTIONS[fn]
+        if (args.length < minArgs || args.length > maxArgs) {
+          throw new ExpressionError(`${fn}() takes ${minArgs === maxArgs ? minArgs : `${minArgs} to ${maxArgs}`} arguments`, token.pos)
+        }
+        return { type: 'call', fn, args }
+      }
+      throw new ExpressionError(`Expected a source reference such as ${token.value}.kWh`, token.pos)
+    }
+
+    if (isPunct('(')) {
+      index++
+      const inner = parseExpr(depth + 1)
+      expect(')')
+      return inner
+    }
+
+    throw new ExpressionError(token.kind === 'end' ? 'Unexpected end of expression' : 'Unexpected token', token.pos)
+  }
+
+  const expression = parseExpr(0)
+  if (peek().kind !== 'end') {
+    throw new ExpressionError('Unexpected token', peek().pos)
+  }
+  return expression
+}
+
+/**
+ * Distinct source references of an expression, in order of appearance
+ */
+export function collectRefs(expression: Expression): SourceRef[] {
+  const refs = new Map<string, SourceRef>()
+  const visit = (node: Expression) => {
+    if (node.type === 'ref') refs.set(`${node.alias}.${node.key}`, { alias: node.alias, key: node.key })
+    else if (node.type === 'negate') visit(node.operand)
+    else if (node.type === 'binary') {
+      visit(node.left)
+      visit(node.right)
+    } else if (node.type === 'call') node.args.forEach(visit)
+  }
+  visit(expression)
+  return [...refs.values()]
+}
+
+/**
+ * Evaluate with `lookup` giving the value of each reference. Returns null when a
+ * reference has no value or the result is not finite (e.g. division by zero).
+ */
+export function evaluateExpression(
+  expression: Expression,
+  lookup: (alias: string, key: string) => number | null
+): number | null {
+  const evaluate = (node: Expression): number | null => {
+    switch (node.type) {
+      case 'number':
+        return node.value
+      case 'ref':
+        return lookup(node.alias, node.key)
+      case 'negate': {
+        const value = evaluate(node.operand)
+        return value === null ? null : -value
+      }
+      case 'binary': {
+        const left = evaluate(node.left)
+        const right = evaluate(node.right)
+        if (left === null || right === null) return null
+        if (node.op === '+') return left + right
+        if (node.op === '-') return left - right
+        if (node.op === '*') return left * right
+        return left / right
+      }
+      case 'call': {
+        const args = node.args.map(evaluate)
+        if (args.some((arg) => arg === null)) return null
+        const values = args as number[]
+        if (node.fn === 'abs') return Math.abs(values[0])
+        return node.fn === 'min' ? Math.min(...values) : Math.max(...values)
+      }
+    }
+  }
+
+  const result = evaluate(expression)
+  return result !== null && Number.isFinite(result) ? result : null
+}
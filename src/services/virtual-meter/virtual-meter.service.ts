@@ -0,0 +1,245 @@
+import { logger } from '../../utils/logger.js'
+import { NotFoundError } from '../../utils/apiError.js'
+import { mapWithConcurrency } from '../../utils/concurrency.js'
+import { AuthPayload } from '../../modules/auth/auth.model.js'
+import { VirtualMeter } from '../../modules/virtual-meter/virtual-meter.model.js'
+import { findVirtualMeterById } from '../../modules/virtual-meter/virtual-meter.repository.js'
+import { canViewVirtualMeter, listVirtualMeters } from '../../modules/virtual-meter/virtual-meter.service.js'
+import { LatestValue, TelemetryProvider } from '../telemetry-provider.js'
+import { TelemetryCacheStats, TelemetryPoint, TimeseriesData } from '../thingsboard/telemetry-cache.js'
+import { Device } from '../device.service.js'
+import { computeSeries, numericValue, refId } from './compute.js'
+import { collectRefs, evaluateExpression, Expression, parseExpression } from './expression.js'
+
+const virtualMeterLogger = logger.child({ module: 'VirtualMeterService' })
+
+export const toVirtualDevice = (meter: VirtualMeter): Device => ({
+  deviceUUID: meter.id,
+  accessToken: '',
+  name: meter.name,
+  customerId: meter.customerId ?? undefined,
+  assignedToCustomer: meter.customerId !== null,
+  virtual: true,
+})
+
+/**
+ * Virtual Meter Service
+ * Answers telemetry queries for virtual meters by fetching their source devices
+ * and evaluating the formulas on the fly. The telemetry methods take the same
+ * arguments as TelemetryProvider and pass anything that is not a
+ * virtual meter through to it, so callers can use either one.
+ */
+export class VirtualMeterService {
+  private logger = virtualMeterLogger
+  private readonly telemetryService: TelemetryProvider
+  private readonly concurrency: number
+  // Raw readings fetched per source device and key
+  private readonly rawLimit = 10000
+
+  constructor(telemetryService: TelemetryProvider, concurrency: number = 5) {
+    this.telemetryService = telemetryService
+    this.concurrency = concurrency
+  }
+
+  /**
+   * The virtual meter `deviceUUID` as a device, or null when it is not a virtual
+   * meter. A meter hidden from `auth` is reported as not found.
+   */
+  async findDevice(deviceUUID: string, auth?: AuthPayload): Promise<Device | null> {
+    const meter = await findVirtualMeterById(deviceUUID)
+    if (!meter) return null
+    if (auth && !canViewVirtualMeter(auth, meter)) {
+      throw new NotFoundError(`Device with UUID ${deviceUUID} not found`)
+    }
+    return toVirtualDevice(meter)
+  }
+
+  async listDevices(auth: AuthPayload): Promise<Device[]> {
+    return (await listVirtualMeters(auth)).map(toVirtualDevice)
+  }
+
+  async getTimeseries(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<TimeseriesData> {
+    const { data } = await this.getTimeseriesWithCacheStats(
+      entityType,
+      entityId,
+      keys,
+      startTs,
+      endTs,
+      interval,
+      agg,
+      orderBy,
+      limit,
+      useStrictDataTypes
+    )
+    return data
+  }
+
+  /**
+   * For a virtual meter, each source device is queried with the same interval and
+   * aggregation, then the formulas are evaluated per timestamp: aggregated
+   * buckets must exist for every source, raw readings are combined with each
+   * source's last known value. Values are always numbers.
+   */
+  async getTimeseriesWithCacheStats(
+    entityType: string,
+    entityId: string,
+    keys: string[],
+    startTs: number,
+    endTs: number,
+    interval?: number,
+    agg?: string,
+    orderBy?: string,
+    limit?: number,
+    useStrictDataTypes?: boolean
+  ): Promise<{ data: TimeseriesData; cache: TelemetryCacheStats }> {
+    const meter = await this.findMeter(entityType, entityId)
+    if (!meter) {
+      return this.telemetryService.getTimeseriesWithCacheStats(
+        entityType,
+        entityId,
+        keys,
+        startTs,
+        endTs,
+        interval,
+        agg,
+        orderBy,
+        limit,
+        useStrictDataTypes
+      )
+    }
+
+    const aggregated = agg !== undefined && agg.toUpperCase() !== 'NONE'
+    const formulas = this.parseFormulas(meter, keys)
+    const cache: TelemetryCacheStats = { cacheable: true, hits: 0, misses: 0, upstreamRequests: 0 }
+
+    const fetched = await mapWithConcurrency(
+      this.sourceKeys(meter, formulas),
+      this.concurrency,
+      async ({ alias, deviceUUID, keys: sourceKeys }) => {
+        const result = await this.telemetryService.getTimeseriesWithCacheStats(
+          'DEVICE',
+          deviceUUID,
+          sourceKeys,
+          startTs,
+          endTs,
+          interval,
+          agg,
+          'ASC',
+          aggregated ? undefined : this.rawLimit
+        )
+        for (const key of sourceKeys) {
+          if (!aggregated && (result.data[key]?.length ?? 0) >= this.rawLimit) {
+            this.logger.warn(`Reading limit reached for ${meter.id} source ${alias}.${key}; later readings are missing`)
+          }
+        }
+        return { alias, ...result }
+      }
+    )
+
+    const series: Record<string, TelemetryPoint[]> = {}
+    for (const { alias, data, cache: sourceCache } of fetched) {
+      for (const [key, points] of Object.entries(data)) {
+        series[refId(alias, key)] = points
+      }
+      cache.cacheable &&= sourceCache.cacheable
+      cache.hits += sourceCache.hits
+      cache.misses += sourceCache.misses
+      cache.upstreamRequests += sourceCache.upstreamRequests
+    }
+
+    const data: TimeseriesData = {}
+    for (const [key, expression] of formulas) {
+      let points = computeSeries(expression, series, aggregated ? 'exact' : 'hold')
+      if (orderBy?.toUpperCase() === 'DESC') points = points.reverse()
+      if (limit !== undefined) points = points.slice(0, limit)
+      if (points.length > 0) data[key] = points
+    }
+    return { data, cache }
+  }
+
+  /**
+   * Formulas evaluated on the latest value of each source; the timestamp is the newest one used
+   */
+  async getLatestTimeseries(
+    entityType: string,
+    entityId: string,
+    keys?: string[],
+    useStrictDataTypes?: boolean
+  ): Promise<Record<string, LatestValue>> {
+    const meter = await this.findMeter(entityType, entityId)
+    if (!meter) {
+      return this.telemetryService.getLatestTimeseries(entityType, entityId, keys, useStrictDataTypes)
+    }
+
+    const formulas = this.parseFormulas(meter, keys && keys.length > 0 ? keys : Object.keys(meter.formulas))
+    const fetched = await mapWithConcurrency(this.sourceKeys(meter, formulas), this.concurrency, async (source) => ({
+      alias: source.alias,
+      latest: await this.telemetryService.getLatestTimeseries('DEVICE', source.deviceUUID, source.keys),
+    }))
+    const latestByRef = new Map<string, LatestValue>()
+    for (const { alias, latest } of fetched) {
+      for (const [key, value] of Object.entries(latest)) {
+        latestByRef.set(refId(alias, key), value)
+      }
+    }
+
+    const result: Record<string, LatestValue> = {}
+    for (const [key, expression] of formulas) {
+      const value = evaluateExpression(expression, (alias, sourceKey) =>
+        numericValue(latestByRef.get(refId(alias, sourceKey))?.value)
+      )
+      if (value !== null) {
+        const timestamps = collectRefs(expression).map(({ alias, key: sourceKey }) =>
+          latestByRef.get(refId(alias, sourceKey))!.ts
+        )
+        result[key] = { ts: Math.max(...timestamps), value }
+      }
+    }
+    return result
+  }
+
+  async getTimeseriesKeys(entityType: string, entityId: string): Promise<string[]> {
+    const meter = await this.findMeter(entityType, entityId)
+    return meter ? Object.keys(meter.formulas) : this.telemetryService.getTimeseriesKeys(entityType, entityId)
+  }
+
+  private async findMeter(entityType: string, entityId: string): Promise<VirtualMeter | null> {
+    return entityType.toUpperCase() === 'DEVICE' ? findVirtualMeterById(entityId) : null
+  }
+
+  /**
+   * Parsed formulas of the requested keys; keys the meter does not define are left out
+   */
+  private parseFormulas(meter: VirtualMeter, keys: string[]): [string, Expression][] {
+    return keys
+      .filter((key) => Object.hasOwn(meter.formulas, key))
+      .map((key) => [key, parseExpression(meter.formulas[key].expression)])
+  }
+
+  /**
+   * Keys to fetch from each source device for `formulas`
+   */
+  private sourceKeys(
+    meter: VirtualMeter,
+    formulas: [string, Expression][]
+  ): { alias: string; deviceUUID: string; keys: string[] }[] {
+    const keysByAlias = new Map<string, Set<string>>()
+    for (const [, expression] of formulas) {
+      for (const { alias, key } of collectRefs(expression)) {
+        keysByAlias.set(alias, (keysByAlias.get(alias) ?? new Set()).add(key))
+      }
+    }
+    return [...keysByAlias].map(([alias, keys]) => ({ alias, deviceUUID: meter.sources[alias], keys: [...keys] }))
+  }
+}
@@ -0,0 +1,11 @@
+import { AuthPayload } from "../modules/auth/auth.model.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthPayload;
+    }
+  }
+}
+
+export {};
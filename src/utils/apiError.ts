@@ -1,8 +1,108 @@
+/**
+ * Machine-readable error codes sent with every error response, next to the
+ * human-readable message.
+ */
+export const ERROR_CODES = [
+  "BAD_REQUEST",
+  "VALIDATION_ERROR",
+  "INVALID_JSON",
+  "UNAUTHORIZED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "CONFLICT",
+  "PAYLOAD_TOO_LARGE",
+  "UNPROCESSABLE",
+  "RATE_LIMITED",
+  "INTERNAL_ERROR",
+  "UPSTREAM_ERROR",
+  "UPSTREAM_UNAVAILABLE",
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  422: "UNPROCESSABLE",
+  429: "RATE_LIMITED",
+  502: "UPSTREAM_ERROR",
+  503: "UPSTREAM_UNAVAILABLE",
+};
+
+/**
+ * Error carrying the HTTP status and code of the response it should produce.
+ * The code defaults to the one of the status.
+ */
 export class ApiError extends Error {
   status: number;
+  code: ErrorCode;
+  details?: unknown;
 
-  constructor(status: number, message: string) {
+  constructor(status: number, message: string, code?: ErrorCode, details?: unknown) {
     super(message);
+    this.name = new.target.name;
     this.status = status;
+    this.code = code ?? STATUS_CODES[status] ?? (status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST");
+    this.details = details;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Invalid request input; `details` lists the failing fields
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(400, message, "VALIDATION_ERROR", details);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Not authenticated") {
+    super(401, message, "UNAUTHORIZED");
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = "Insufficient permissions") {
+    super(403, message, "FORBIDDEN");
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message, "NOT_FOUND");
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, message, "CONFLICT");
+  }
+}
+
+/**
+ * An upstream service (ThingsBoard, the customer API) answered with an error
+ */
+export class UpstreamError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(502, message, "UPSTREAM_ERROR", details);
+  }
+}
+
+/**
+ * An upstream service could not be reached or timed out
+ */
+export class UpstreamUnavailableError extends ApiError {
+  constructor(message: string) {
+    super(503, message, "UPSTREAM_UNAVAILABLE");
+  }
+}
+
+/**
+ * The ApiError an unknown thrown value stands for; anything that is not one is an internal error
+ */
+export const toApiError = (error: unknown): ApiError =>
+  error instanceof ApiError ? error : new ApiError(500, "Internal Server Error", "INTERNAL_ERROR");
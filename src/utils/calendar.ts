@@ -0,0 +1,147 @@
+/**
+ * Calendar buckets (hour, day, ISO week, month) over a time range, in UTC or
+ * in the local time of an IANA time zone. Local days, weeks and months follow
+ * DST changes, so a day may last 23 or 25 hours.
+ */
+
+import { getZonedParts, zonedTimeToUtc } from './time.js'
+
+export const CALENDAR_UNITS = ['hour', 'day', 'week', 'month'] as const
+export type CalendarUnit = (typeof CALENDAR_UNITS)[number]
+
+export interface CalendarBucket {
+  start: number
+  end: number
+  // Local time of the period start, e.g. 2026-01-20T10:00, 2026-01-20, 2026-W04, 2026-01
+  label: string
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Start of the calendar period containing `ts`
+ */
+export function startOfPeriod(ts: number, unit: CalendarUnit, timeZone = 'UTC'): number {
+  if (timeZone === 'UTC') {
+    return startOfUtcPeriod(ts, unit)
+  }
+
+  const local = getZonedParts(ts, timeZone)
+  switch (unit) {
+    case 'hour':
+      // Local hours start on the UTC hour, except in zones with a fractional offset
+      return ts - ((local.minute * 60 + local.second) * 1000 + (((ts % 1000) + 1000) % 1000))
+    case 'day':
+      return zonedTimeToUtc(timeZone, local.year, local.month, local.day)
+    case 'week':
+      return zonedTimeToUtc(timeZone, local.year, local.month, local.day - (local.weekday - 1))
+    case 'month':
+      return zonedTimeToUtc(timeZone, local.year, local.month, 1)
+  }
+}
+
+/**
+ * Start of the period following the one that starts at `periodStart`
+ */
+export function nextPeriod(periodStart: number, unit: CalendarUnit, timeZone = 'UTC'): number {
+  if (unit === 'hour') {
+    return periodStart + HOUR
+  }
+  if (timeZone === 'UTC') {
+    return nextUtcPeriod(periodStart, unit)
+  }
+
+  const local = getZonedParts(periodStart, timeZone)
+  switch (unit) {
+    case 'day':
+      return zonedTimeToUtc(timeZone, local.year, local.month, local.day + 1)
+    case 'week':
+      return zonedTimeToUtc(timeZone, local.year, local.month, local.day + 7)
+    case 'month':
+      return zonedTimeToUtc(timeZone, local.year, local.month + 1, 1)
+  }
+}
+
+export function periodLabel(periodStart: number, unit: CalendarUnit, timeZone = 'UTC'): string {
+  const local = getZonedParts(periodStart, timeZone)
+  const ymd = `${local.year}-${pad(local.month)}-${pad(local.day)}`
+  switch (unit) {
+    case 'hour':
+      return `${ymd}T${pad(local.hour)}:00`
+    case 'day':
+      return ymd
+    case 'week': {
+      const { year, week } = isoWeek(Date.UTC(local.year, local.month - 1, local.day))
+      return `${year}-W${pad(week)}`
+    }
+    case 'month':
+      return ymd.slice(0, 7)
+  }
+}
+
+/**
+ * Split [startTs, endTs) at calendar boundaries. The first and last buckets
+ * are clipped to the range, so they may be shorter than a full period.
+ */
+export function splitRange(startTs: number, endTs: number, unit: CalendarUnit, timeZone = 'UTC'): CalendarBucket[] {
+  const buckets: CalendarBucket[] = []
+  let periodStart = startOfPeriod(startTs, unit, timeZone)
+
+  while (periodStart < endTs) {
+    const periodEnd = nextPeriod(periodStart, unit, timeZone)
+    buckets.push({
+      start: Math.max(periodStart, startTs),
+      end: Math.min(periodEnd, endTs),
+      label: periodLabel(periodStart, unit, timeZone),
+    })
+    periodStart = periodEnd
+  }
+
+  return buckets
+}
+
+function startOfUtcPeriod(ts: number, unit: CalendarUnit): number {
+  const date = new Date(ts)
+  switch (unit) {
+    case 'hour':
+      return Math.floor(ts / HOUR) * HOUR
+    case 'day':
+      return Math.floor(ts / DAY) * DAY
+    case 'week': {
+      const day = Math.floor(ts / DAY) * DAY
+      const isoWeekday = ((new Date(day).getUTCDay() + 6) % 7) + 1
+      return day - (isoWeekday - 1) * DAY
+    }
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+  }
+}
+
+function nextUtcPeriod(periodStart: number, unit: Exclude<CalendarUnit, 'hour'>): number {
+  switch (unit) {
+    case 'day':
+      return periodStart + DAY
+    case 'week':
+      return periodStart + 7 * DAY
+    case 'month': {
+      const date = new Date(periodStart)
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+    }
+  }
+}
+
+/**
+ * ISO 8601 week-numbering year and week of the (UTC) day containing `ts`
+ */
+function isoWeek(ts: number): { year: number; week: number } {
+  const day = Math.floor(ts / DAY) * DAY
+  const isoWeekday = ((new Date(day).getUTCDay() + 6) % 7) + 1
+  // The Thursday of this week decides the year
+  const thursday = new Date(day + (4 - isoWeekday) * DAY)
+  const year = thursday.getUTCFullYear()
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY)) + 1
+  return { year, week }
+}
@@ -1,2 +1,14 @@
+import { ApiError } from "./apiError.js";
+
 export const success = <T>(data: T) => ({ success: true, data });
-export const failure = (message: string) => ({ success: false, message });
\ No newline at end of file
+
+/**
+ * Error envelope: `{ success: false, error, code, requestId, details? }`
+ */
+export const failure = (error: ApiError, requestId?: string) => ({
+  success: false,
+  error: error.message,
+  code: error.code,
+  ...(error.details !== undefined && { details: error.details }),
+  ...(requestId && { requestId }),
+});
@@ -0,0 +1,118 @@
+import { Response } from 'express'
+
+export interface SseStreamOptions {
+  // Events held back while the client is not draining; older ones are dropped first
+  maxPendingEvents?: number
+  // Close the stream once this many events were dropped for a slow client
+  maxDroppedEvents?: number
+  heartbeatMs?: number
+}
+
+/**
+ * Server-Sent Events writer with backpressure handling.
+ *
+ * While the socket buffer is full (res.write returned false) events are queued
+ * and coalesced by their optional key, so a slow client receives the latest
+ * value instead of every intermediate one. Past maxPendingEvents the oldest
+ * queued events are dropped; a client that keeps falling behind is disconnected.
+ */
+export class SseStream {
+  private readonly res: Response
+  private readonly pending = new Map<string, string>()
+  private readonly maxPendingEvents: number
+  private readonly maxDroppedEvents: number
+  private readonly heartbeat: NodeJS.Timeout
+  private draining = false
+  private dropped = 0
+  private nextAnonymousKey = 0
+  private closed = false
+  private readonly closeListeners: (() => void)[] = []
+
+  constructor(res: Response, options: SseStreamOptions = {}) {
+    this.res = res
+    this.maxPendingEvents = options.maxPendingEvents ?? 500
+    this.maxDroppedEvents = options.maxDroppedEvents ?? 5000
+
+    res.status(200)
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache, no-transform')
+    res.setHeader('Connection', 'keep-alive')
+    res.setHeader('X-Accel-Buffering', 'no')
+    res.flushHeaders()
+
+    res.on('drain', () => this.flushPending())
+    res.on('close', () => this.close())
+
+    this.heartbeat = setInterval(() => this.write(': heartbeat\n\n'), options.heartbeatMs ?? 15000)
+  }
+
+  /**
+   * Queue or write an event. Events sharing `coalesceKey` replace each other while queued.
+   */
+  send(event: string, data: unknown, coalesceKey?: string): void {
+    if (this.closed) return
+    const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+    if (!this.draining) {
+      this.write(frame)
+      return
+    }
+
+    const key = coalesceKey ?? `#${this.nextAnonymousKey++}`
+    this.pending.delete(key)
+    this.pending.set(key, frame)
+
+    while (this.pending.size > this.maxPendingEvents) {
+      const oldest = this.pending.keys().next().value as string
+      this.pending.delete(oldest)
+      this.dropped++
+    }
+
+    if (this.dropped > this.maxDroppedEvents) {
+      this.write(`event: error\ndata: ${JSON.stringify({ error: 'Client too slow, closing stream' })}\n\n`)
+      this.end()
+    }
+  }
+
+  /**
+   * End the stream from the server side
+   */
+  end(): void {
+    if (this.closed) return
+    this.res.end()
+    this.close()
+  }
+
+  onClose(listener: () => void): void {
+    if (this.closed) {
+      listener()
+      return
+    }
+    this.closeListeners.push(listener)
+  }
+
+  private write(frame: string): void {
+    if (this.closed) return
+    const accepted = this.res.write(frame)
+    // compression() buffers output unless asked to flush
+    ;(this.res as Response & { flush?: () => void }).flush?.()
+    if (!accepted) this.draining = true
+  }
+
+  private flushPending(): void {
+    this.draining = false
+    for (const [key, frame] of this.pending) {
+      this.pending.delete(key)
+      this.write(frame)
+      if (this.draining) return
+    }
+  }
+
+  private close(): void {
+    if (this.closed) return
+    this.closed = true
+    clearInterval(this.heartbeat)
+    this.pending.clear()
+    for (const listener of this.closeListeners) listener()
+  }
+}
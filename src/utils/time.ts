@@ -0,0 +1,111 @@
+/**
+ * Timezone helpers built on Intl, so no tz database dependency is needed.
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Wall-clock fields of `ts` in `timeZone`
+ */
+export interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // ISO: 1 = Monday ... 7 = Sunday
+}
+
+const WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 }
+
+export function getZonedParts(ts: number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ts))) {
+    parts[part.type] = part.value
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday],
+  }
+}
+
+/**
+ * Offset of `timeZone` from UTC at instant `ts`, in milliseconds (e.g. +3600000 for CET)
+ */
+export function getTimeZoneOffset(ts: number, timeZone: string): number {
+  const p = getZonedParts(ts, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - (ts - (((ts % 1000) + 1000) % 1000))
+}
+
+/**
+ * Instant at which the wall clock in `timeZone` shows the given local time (month 1-12).
+ * Out-of-range fields roll over like Date.UTC (day 0 is the last day of the previous month).
+ * A local time skipped by a DST change is shifted by the jump (02:30 becomes 03:30).
+ */
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+): number {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute)
+  const guess = asUtc - getTimeZoneOffset(asUtc, timeZone)
+  const offset = getTimeZoneOffset(guess, timeZone)
+  const ts = asUtc - offset
+  // In a DST gap neither candidate shows the requested time; the later one is shifted forward
+  return getTimeZoneOffset(ts, timeZone) === offset ? ts : Math.max(ts, guess)
+}
+
+const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, '0')
+
+/**
+ * ISO 8601 with the local offset, e.g. 2026-03-29T03:00:00.000+02:00
+ */
+export function formatIsoInTimeZone(ts: number, timeZone: string): string {
+  const p = getZonedParts(ts, timeZone)
+  const offsetMinutes = Math.round(getTimeZoneOffset(ts, timeZone) / 60000)
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const ms = ((ts % 1000) + 1000) % 1000
+
+  return (
+    `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}.${pad(ms, 3)}` +
+    `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`
+  )
+}
@@ -0,0 +1,41 @@
+import { NextFunction, Request, Response } from "express";
+import { z, ZodError, ZodType, ZodTypeDef } from "zod";
+import { ValidationError } from "./apiError.js";
+
+/**
+ * Flatten zod issues into one readable message, e.g. "startTs: Required; keys: ..."
+ */
+export const formatZodError = (error: ZodError): string =>
+  error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+
+/**
+ * Zod issues as `{ path, message }` pairs, sent as the details of a validation error
+ */
+export const zodErrorDetails = (error: ZodError) =>
+  error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+export const toValidationError = (error: ZodError): ValidationError =>
+  new ValidationError(formatZodError(error), zodErrorDetails(error));
+
+/**
+ * Parse input against a zod schema, throwing a ValidationError listing the failing fields.
+ */
+export const parseOrThrow = <T>(schema: ZodType<T, ZodTypeDef, unknown>, input: unknown): T => {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw toValidationError(parsed.error);
+  }
+  return parsed.data;
+};
+
+const uuidSchema = z.string().uuid("Expected a UUID");
+
+/**
+ * `router.param()` callback for ids and device UUIDs, which are all UUIDs
+ */
+export const uuidParam = (_req: Request, _res: Response, next: NextFunction, value: string, name: string) => {
+  const parsed = z.object({ [name]: uuidSchema }).safeParse({ [name]: value });
+  next(parsed.success ? undefined : toValidationError(parsed.error));
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCondition } from "../src/services/alarm/rule-evaluation.js";
+import { alarmConditionSchema } from "../src/modules/alarm/alarm.validation.js";
+
+const MINUTE = 60 * 1000;
+const NOW = 100 * MINUTE;
+
+const highCurrent = alarmConditionSchema.parse({
+  type: "threshold",
+  key: "Current_L1",
+  operator: ">",
+  value: 120,
+  durationMs: 5 * MINUTE,
+  hysteresis: 5,
+});
+
+// One reading per minute ending at NOW
+const readings = (...values: number[]) =>
+  values.map((value, i) => ({ ts: NOW - (values.length - 1 - i) * MINUTE, value }));
+
+describe("evaluateCondition", () => {
+  it("raises a threshold alarm only once the breach has lasted long enough", () => {
+    expect(evaluateCondition(highCurrent, readings(100, 130, 130, 130, 130), NOW, false)).toEqual({ outcome: "hold" });
+
+    const result = evaluateCondition(highCurrent, readings(100, 130, 130, 130, 130, 130, 131), NOW, false);
+    expect(result).toMatchObject({ outcome: "raise", value: 131, since: NOW - 5 * MINUTE });
+  });
+
+  it("keeps an open alarm inside the hysteresis band and clears it past the band", () => {
+    expect(evaluateCondition(highCurrent, readings(130, 118), NOW, true)).toEqual({ outcome: "hold" });
+    expect(evaluateCondition(highCurrent, readings(130, 114), NOW, true)).toEqual({ outcome: "clear", value: 114 });
+  });
+
+  it("refreshes an open alarm while the threshold is still breached", () => {
+    expect(evaluateCondition(highCurrent, readings(125), NOW, true)).toMatchObject({ outcome: "raise", value: 125 });
+  });
+
+  it("holds a threshold alarm when there is no data", () => {
+    expect(evaluateCondition(highCurrent, [], NOW, true)).toEqual({ outcome: "hold" });
+  });
+
+  it("raises no_data when nothing arrived within the duration", () => {
+    const noData = alarmConditionSchema.parse({ type: "no_data", key: "Current_L1", durationMs: 30 * MINUTE });
+
+    expect(evaluateCondition(noData, [{ ts: NOW - 40 * MINUTE, value: 1 }], NOW, false)).toMatchObject({
+      outcome: "raise",
+      since: NOW - 40 * MINUTE,
+      message: "No data for Current_L1 in the last 30 min",
+    });
+    expect(evaluateCondition(noData, [{ ts: NOW - MINUTE, value: 1 }], NOW, true)).toEqual({
+      outcome: "clear",
+      value: 1,
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { ConsumptionBucket } from "../src/services/energy/consumption.js";
+import { combineSeries, normalizedKpis, sumConsumption } from "../src/services/asset/aggregation.js";
+
+const bucket = (start: number, value: number | null, status: ConsumptionBucket["status"], coverage: number) => ({
+  start,
+  end: start + 10,
+  label: String(start),
+  value,
+  status,
+  coverage,
+});
+
+describe("asset aggregation", () => {
+  it("sums device buckets and keeps the weakest status", () => {
+    const { buckets, total } = sumConsumption([
+      [bucket(0, 5, "measured", 1), bucket(10, 2, "measured", 1), bucket(20, null, "missing", 0)],
+      [bucket(0, 3, "measured", 1), bucket(10, 4, "estimated", 0.5), bucket(20, null, "missing", 0)],
+    ]);
+
+    expect(buckets.map((b) => [b.value, b.status, b.coverage, b.devices])).toEqual([
+      [8, "measured", 1, 2],
+      [6, "estimated", 0.75, 2],
+      [null, "missing", 0, 0],
+    ]);
+    expect(total).toBe(14);
+  });
+
+  it("combines series by timestamp and skips non-numeric values", () => {
+    const series = [
+      [{ ts: 0, value: "10" }, { ts: 60, value: 20 }],
+      [{ ts: 0, value: 30 }, { ts: 60, value: null }, { ts: 120, value: 5 }],
+    ];
+
+    expect(combineSeries(series, "sum")).toEqual([
+      { ts: 0, value: 40, devices: 2 },
+      { ts: 60, value: 20, devices: 1 },
+      { ts: 120, value: 5, devices: 1 },
+    ]);
+    expect(combineSeries(series, "avg")[0].value).toBe(20);
+    expect(combineSeries(series, "max")[0].value).toBe(30);
+  });
+
+  it("normalizes totals by floor area and headcount when known", () => {
+    expect(normalizedKpis(1000, { floorArea: 500, headcount: 0 })).toEqual({ perFloorArea: 2, perHeadcount: null });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { canQueryEntity, canViewDevice, filterVisibleDevices } from "../src/modules/auth/auth.policy.js";
+import { AuthPayload } from "../src/modules/auth/auth.model.js";
+
+const session = (role: AuthPayload["role"], customerIds: number[] = []): AuthPayload => ({
+  userId: "u1",
+  email: "u1@indusmind.test",
+  role,
+  customerIds,
+  tokenId: "t1",
+  expiresAt: Date.now() + 60_000,
+});
+
+const devices = [
+  { deviceUUID: "a", customerId: 1, assignedToCustomer: true },
+  { deviceUUID: "b", customerId: 2, assignedToCustomer: true },
+  { deviceUUID: "c", customerId: 1, assignedToCustomer: false },
+];
+
+describe("auth policy", () => {
+  it("lets admins see every device", () => {
+    expect(filterVisibleDevices(session("admin"), devices)).toHaveLength(3);
+  });
+
+  it("limits other roles to devices assigned to their customers", () => {
+    const viewer = session("viewer", [1]);
+    expect(filterVisibleDevices(viewer, devices).map((d) => d.deviceUUID)).toEqual(["a"]);
+    expect(canViewDevice(session("site_manager", [2]), devices[1])).toBe(true);
+  });
+
+  it("restricts raw entity queries for non-admins to visible devices", () => {
+    const viewer = session("viewer", [1]);
+    expect(canQueryEntity(viewer, "DEVICE", "a", devices)).toBe(true);
+    expect(canQueryEntity(viewer, "DEVICE", "b", devices)).toBe(false);
+    expect(canQueryEntity(viewer, "ASSET", "a", devices)).toBe(false);
+    expect(canQueryEntity(session("admin"), "ASSET", "anything", [])).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import * as authService from "../src/modules/auth/auth.service.js";
+import { createUser } from "../src/modules/user/user.service.js";
+
+describe("auth service", () => {
+  beforeAll(async () => {
+    await createUser({ email: "operator@indusmind.test", name: "Operator", password: "correct-horse" });
+  });
+
+  it("rejects a wrong password", async () => {
+    await expect(authService.authenticate("operator@indusmind.test", "nope")).rejects.toMatchObject({
+      status: 401,
+    });
+  });
+
+  it("issues tokens that verify back to the user", async () => {
+    const { user, tokens } = await authService.authenticate("OPERATOR@indusmind.test", "correct-horse");
+    const payload = await authService.verifyAccessToken(tokens.accessToken);
+
+    expect(payload.userId).toBe(user.id);
+    expect(payload.email).toBe("operator@indusmind.test");
+  });
+
+  it("does not accept a refresh token as an access token", async () => {
+    const { tokens } = await authService.authenticate("operator@indusmind.test", "correct-horse");
+    await expect(authService.verifyAccessToken(tokens.refreshToken)).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("rotates refresh tokens and rejects reuse", async () => {
+    const { tokens } = await authService.authenticate("operator@indusmind.test", "correct-horse");
+    const rotated = await authService.refresh(tokens.refreshToken);
+
+    expect(rotated.accessToken).not.toBe(tokens.accessToken);
+    await expect(authService.refresh(tokens.refreshToken)).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("revokes the session on logout", async () => {
+    const { tokens } = await authService.authenticate("operator@indusmind.test", "correct-horse");
+    const payload = await authService.verifyAccessToken(tokens.accessToken);
+
+    await authService.logout(payload, tokens.refreshToken);
+
+    await expect(authService.verifyAccessToken(tokens.accessToken)).rejects.toMatchObject({ status: 401 });
+    await expect(authService.refresh(tokens.refreshToken)).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildBaseline, detectAnomalies, HourlyValue } from "../src/services/energy/baseline.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// Monday 2024-01-01 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 1);
+
+// Hourly values from `start` for `days` days: 10 during working hours on weekdays, 2 otherwise, plus 0.2 every other week
+const history = (start: number, days: number): HourlyValue[] => {
+  const values = [];
+  for (let ts = start; ts < start + days * DAY; ts += HOUR) {
+    const date = new Date(ts);
+    const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    const busy = !weekend && date.getUTCHours() >= 8 && date.getUTCHours() < 18;
+    const noise = (Math.floor((ts - MONDAY) / (7 * DAY)) % 2) * 0.2;
+    values.push({ start: ts, end: ts + HOUR, value: (busy ? 10 : 2) + noise });
+  }
+  return values;
+};
+
+describe("buildBaseline", () => {
+  it("learns an hour-of-week profile in local time", () => {
+    const baseline = buildBaseline(history(MONDAY, 28), { timeZone: "UTC", minSamples: 3 });
+    const monday9 = baseline.slots[9];
+    const sunday9 = baseline.slots[6 * 24 + 9];
+
+    expect(baseline.slots).toHaveLength(168);
+    expect(monday9).toMatchObject({ weekday: 1, hour: 9, samples: 4, source: "weekly" });
+    expect(monday9.mean).toBeCloseTo(10.1, 1);
+    expect(sunday9.mean).toBeCloseTo(2.1, 1);
+
+    // In Paris (UTC+1 in January), 09:00 UTC is 10:00 local time
+    const paris = buildBaseline(history(MONDAY, 28), { timeZone: "Europe/Paris", minSamples: 3 });
+    expect(paris.slots[10].mean).toBeCloseTo(10.1, 1);
+    expect(paris.slots[8].mean).toBeCloseTo(2.1, 1);
+  });
+
+  it("falls back to the day-type profile when a slot has too few samples", () => {
+    // Nine days: no slot has 3 samples of its own
+    const baseline = buildBaseline(history(MONDAY, 9), { timeZone: "UTC", minSamples: 3 });
+    const friday9 = baseline.slots[4 * 24 + 9];
+    const saturday9 = baseline.slots[5 * 24 + 9];
+
+    expect(friday9.source).toBe("daily");
+    expect(friday9.mean).toBeCloseTo(10, 0);
+    expect(saturday9).toMatchObject({ source: "none", mean: null, samples: 0 });
+  });
+});
+
+describe("detectAnomalies", () => {
+  it("merges consecutive abnormal hours into periods with expected and actual values", () => {
+    const baseline = buildBaseline(history(MONDAY, 28), { timeZone: "UTC", minSamples: 3 });
+    const week = history(MONDAY + 28 * DAY, 7);
+    // Sunday night 01:00-04:00 runs like a working day
+    const sunday = MONDAY + 34 * DAY;
+    for (const value of week) {
+      if (value.start >= sunday + HOUR && value.start < sunday + 4 * HOUR) value.value = 10;
+    }
+
+    const { hours, periods } = detectAnomalies(baseline, week, { threshold: 3, minDeviation: 0.2 });
+
+    expect(hours.filter((h) => h.anomalous)).toHaveLength(3);
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({ start: sunday + HOUR, end: sunday + 4 * HOUR, hours: 3, direction: "above" });
+    expect(periods[0].actual).toBe(30);
+    expect(periods[0].expected).toBeCloseTo(6.3, 1);
+    expect(periods[0].deviationPct).toBeGreaterThan(300);
+  });
+
+  it("ignores deviations that are statistically large but small in relative terms", () => {
+    const baseline = buildBaseline(history(MONDAY, 28), { timeZone: "UTC", minSamples: 3 });
+    const week = history(MONDAY + 28 * DAY, 7).map((v) => ({ ...v, value: v.value * 1.1 }));
+
+    const { periods } = detectAnomalies(baseline, week, { threshold: 1, minDeviation: 0.2 });
+
+    expect(periods).toEqual([]);
+  });
+});
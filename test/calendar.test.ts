@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { splitRange } from "../src/utils/calendar.js";
+import { getCalendarTimeseries } from "../src/services/calendar-aggregation.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("splitRange in a time zone", () => {
+  it("follows local days across DST changes", () => {
+    // 2026-03-28 00:00 to 2026-03-31 00:00 in Paris; clocks go forward on the 29th
+    const buckets = splitRange(Date.UTC(2026, 2, 27, 23), Date.UTC(2026, 2, 30, 22), "day", "Europe/Paris");
+
+    expect(buckets.map((b) => b.label)).toEqual(["2026-03-28", "2026-03-29", "2026-03-30"]);
+    expect(buckets.map((b) => (b.end - b.start) / HOUR)).toEqual([24, 23, 24]);
+  });
+
+  it("splits local months and ISO weeks", () => {
+    const months = splitRange(Date.UTC(2025, 11, 31, 23), Date.UTC(2026, 2, 31, 22), "month", "Europe/Paris");
+    expect(months.map((b) => b.label)).toEqual(["2026-01", "2026-02", "2026-03"]);
+    expect(months[0].start).toBe(Date.UTC(2025, 11, 31, 23));
+    expect(months[2].start).toBe(Date.UTC(2026, 1, 28, 23));
+
+    // Monday 2026-03-23 00:00 in New York (UTC-4 since March 8)
+    const weeks = splitRange(Date.UTC(2026, 2, 23, 4), Date.UTC(2026, 3, 6, 4), "week", "America/New_York");
+    expect(weeks.map((b) => b.label)).toEqual(["2026-W13", "2026-W14"]);
+    expect(weeks[1].start).toBe(Date.UTC(2026, 2, 30, 4));
+  });
+
+  it("keeps UTC buckets unchanged without a time zone", () => {
+    const buckets = splitRange(Date.UTC(2026, 0, 1), Date.UTC(2026, 0, 1, 3), "hour");
+    expect(buckets.map((b) => b.label)).toEqual(["2026-01-01T00:00", "2026-01-01T01:00", "2026-01-01T02:00"]);
+  });
+});
+
+describe("getCalendarTimeseries", () => {
+  it("requests equal-length buckets together and labels every value", async () => {
+    const requests: { startTs: number; endTs: number; interval?: number }[] = [];
+    const source = {
+      getTimeseriesWithCacheStats: async (
+        _entityType: string,
+        _entityId: string,
+        keys: string[],
+        startTs: number,
+        endTs: number,
+        interval?: number
+      ) => {
+        requests.push({ startTs, endTs, interval });
+        // One value per interval, stamped in its middle like ThingsBoard does
+        const points = [];
+        for (let ts = startTs; ts < endTs; ts += interval!) {
+          points.push({ ts: ts + interval! / 2, value: (interval! / HOUR).toString() });
+        }
+        return {
+          data: { [keys[0]]: points },
+          cache: { cacheable: true, hits: 0, misses: points.length, upstreamRequests: 1 },
+        };
+      },
+    };
+
+    const { data, cache } = await getCalendarTimeseries(source, {
+      entityType: "DEVICE",
+      entityId: "d1",
+      keys: ["energy"],
+      startTs: Date.UTC(2026, 2, 26, 23),
+      endTs: Date.UTC(2026, 2, 31, 22),
+      calendar: { unit: "day", timeZone: "Europe/Paris" },
+      agg: "SUM",
+      orderBy: "DESC",
+    });
+
+    expect(requests.map((r) => r.interval! / HOUR)).toEqual([24, 23, 24]);
+    expect(cache).toMatchObject({ upstreamRequests: 3, misses: 5 });
+    expect(data.energy.map((p) => [p.label, p.value])).toEqual([
+      ["2026-03-31", "24"],
+      ["2026-03-30", "24"],
+      ["2026-03-29", "23"],
+      ["2026-03-28", "24"],
+      ["2026-03-27", "24"],
+    ]);
+    expect(data.energy[2]).toMatchObject({ ts: Date.UTC(2026, 2, 28, 23), end: Date.UTC(2026, 2, 29, 22) });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { computeConsumption } from "../src/services/energy/consumption.js";
+import { splitRange } from "../src/utils/calendar.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Readings every 15 minutes, constant 1 kWh per hour, starting at `start` with index `base`
+const steadyReadings = (start: number, end: number, base = 1000) => {
+  const readings = [];
+  for (let ts = start; ts <= end; ts += HOUR / 4) {
+    readings.push({ ts, value: base + (ts - start) / HOUR });
+  }
+  return readings;
+};
+
+describe("computeConsumption", () => {
+  it("splits a steady counter into measured hourly buckets", () => {
+    const readings = steadyReadings(0, 4 * HOUR);
+    const { buckets, total } = computeConsumption(readings, splitRange(0, 4 * HOUR, "hour"));
+
+    expect(buckets.map((b) => b.value)).toEqual([1, 1, 1, 1]);
+    expect(buckets.every((b) => b.status === "measured" && b.coverage === 1)).toBe(true);
+    expect(total).toBe(4);
+  });
+
+  it("interpolates bucket boundaries that fall between readings", () => {
+    const readings = [
+      { ts: 0, value: 0 },
+      { ts: 2 * HOUR, value: 10 },
+    ];
+    const { buckets } = computeConsumption(readings, splitRange(0, 2 * HOUR, "hour"), { maxGapMs: 3 * HOUR });
+
+    expect(buckets.map((b) => b.value)).toEqual([5, 5]);
+  });
+
+  it("handles counter rollover as measured consumption", () => {
+    const readings = [
+      { ts: 0, value: 99998 },
+      { ts: HOUR, value: 1 },
+    ];
+    const { buckets, events } = computeConsumption(readings, splitRange(0, HOUR, "hour"), {
+      rolloverValue: 100000,
+      maxGapMs: 2 * HOUR,
+    });
+
+    expect(buckets[0]).toMatchObject({ value: 3, status: "measured" });
+    expect(events).toEqual([{ ts: HOUR, type: "rollover", before: 99998, after: 1 }]);
+  });
+
+  it("estimates across a meter replacement from the neighbouring rate", () => {
+    const readings = [
+      ...steadyReadings(0, 2 * HOUR, 5000),
+      // New meter installed at 02:15 with its own index
+      ...steadyReadings(2 * HOUR + HOUR / 4, 4 * HOUR, 420),
+    ];
+    const { buckets, events } = computeConsumption(readings, splitRange(0, 4 * HOUR, "hour"));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe("replacement");
+    expect(buckets[2]).toMatchObject({ value: 1, status: "estimated", coverage: 0.75 });
+    expect(buckets.map((b) => b.value)).toEqual([1, 1, 1, 1]);
+  });
+
+  it("reports buckets without readings as missing", () => {
+    const readings = steadyReadings(0, DAY);
+    const { buckets } = computeConsumption(readings, splitRange(0, 3 * DAY, "day"));
+
+    expect(buckets[0]).toMatchObject({ value: 24, status: "measured" });
+    expect(buckets[1].status).toBe("estimated"); // short extrapolation past the last reading
+    expect(buckets[2]).toMatchObject({ value: null, status: "missing" });
+  });
+});
+
+describe("splitRange", () => {
+  it("uses ISO weeks starting on Monday", () => {
+    // 2026-01-01 is a Thursday
+    const buckets = splitRange(Date.UTC(2026, 0, 1), Date.UTC(2026, 0, 13), "week");
+    expect(buckets.map((b) => b.label)).toEqual(["2026-W01", "2026-W02", "2026-W03"]);
+    expect(buckets[1].start).toBe(Date.UTC(2026, 0, 5));
+  });
+
+  it("handles months of different lengths", () => {
+    const buckets = splitRange(Date.UTC(2026, 0, 1), Date.UTC(2026, 3, 1), "month");
+    expect(buckets.map((b) => [b.label, (b.end - b.start) / DAY])).toEqual([
+      ["2026-01", 31],
+      ["2026-02", 28],
+      ["2026-03", 31],
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { classifyPeriod, computeCost, peaksFromConsumption } from "../src/services/energy/cost.js";
+import { ConsumptionBucket } from "../src/services/energy/consumption.js";
+import { tariffDefinitionSchema } from "../src/modules/tariff/tariff.validation.js";
+import { splitRange } from "../src/utils/calendar.js";
+
+const HOUR = 60 * 60 * 1000;
+
+// Monday 2026-01-05 00:00 in Europe/Paris (UTC+1)
+const MONDAY = Date.UTC(2026, 0, 4, 23);
+
+const tariff = tariffDefinitionSchema.parse({
+  name: "Industrial TOU",
+  timeZone: "Europe/Paris",
+  rates: { peak: 0.2, off_peak: 0.1 },
+  defaultPeriod: "off_peak",
+  seasons: [
+    {
+      name: "winter",
+      months: [1, 2, 3, 11, 12],
+      windows: [{ period: "peak", days: [1, 2, 3, 4, 5], from: "07:00", to: "23:00" }],
+    },
+    {
+      name: "summer",
+      months: [4, 5, 6, 7, 8, 9, 10],
+      windows: [{ period: "peak", days: [1, 2, 3, 4, 5], from: "22:00", to: "02:00" }],
+      rates: { peak: 0.3 },
+    },
+  ],
+  demandCharge: { ratePerKw: 10 },
+  fixedFees: [{ name: "Standing charge", amount: 1, per: "day" }],
+  taxes: [{ name: "VAT", rate: 0.2 }],
+});
+
+const hourly = (start: number, end: number, value: number | null = 1): ConsumptionBucket[] =>
+  splitRange(start, end, "hour").map((bucket) => ({
+    ...bucket,
+    value,
+    status: value === null ? "missing" : "measured",
+    coverage: value === null ? 0 : 1,
+  }));
+
+describe("classifyPeriod", () => {
+  it("uses local time in the tariff's time zone", () => {
+    // 06:00 UTC is 07:00 in Paris
+    expect(classifyPeriod(tariff, MONDAY + 7 * HOUR).period).toBe("peak");
+    expect(classifyPeriod(tariff, MONDAY + 6 * HOUR).period).toBe("off_peak");
+    // Saturday
+    expect(classifyPeriod(tariff, MONDAY + 5 * 24 * HOUR + 12 * HOUR).period).toBe("off_peak");
+  });
+
+  it("matches windows that wrap past midnight", () => {
+    // Wednesday 2026-07-01, Paris is UTC+2
+    const midnight = Date.UTC(2026, 5, 30, 22);
+    expect(classifyPeriod(tariff, midnight + HOUR)).toMatchObject({ period: "peak", season: { name: "summer" } });
+    expect(classifyPeriod(tariff, midnight + 3 * HOUR).period).toBe("off_peak");
+  });
+});
+
+describe("computeCost", () => {
+  it("builds a bill from energy, demand, fixed fees and taxes", () => {
+    const buckets = hourly(MONDAY, MONDAY + 24 * HOUR);
+    const range = { startTs: MONDAY, endTs: MONDAY + 24 * HOUR };
+    const bill = computeCost(tariff, buckets, range, {
+      source: "consumption",
+      months: peaksFromConsumption(buckets, range.startTs, range.endTs),
+    });
+
+    expect(bill.energy.lines).toEqual([
+      expect.objectContaining({ season: "winter", period: "off_peak", kWh: 8, amount: 0.8 }),
+      expect.objectContaining({ season: "winter", period: "peak", kWh: 16, amount: 3.2 }),
+    ]);
+    expect(bill.demand?.lines).toEqual([expect.objectContaining({ month: "2026-01", peakKw: 1, amount: 0.32 })]);
+    expect(bill.fixedFees).toEqual([expect.objectContaining({ quantity: 1, amount: 1 })]);
+    expect(bill.subtotal).toBe(5.32);
+    expect(bill.taxes[0].amount).toBe(1.06);
+    expect(bill.total).toBe(6.38);
+  });
+
+  it("bills demand and monthly fees on the tariff's local months", () => {
+    // February 2026 in Paris, which starts at 23:00 UTC the day before
+    const range = { startTs: Date.UTC(2026, 0, 31, 23), endTs: Date.UTC(2026, 1, 28, 23) };
+    const buckets = hourly(range.startTs, range.endTs);
+    const monthly = { ...tariff, fixedFees: [{ name: "Subscription", amount: 30, per: "month" as const }] };
+    const bill = computeCost(monthly, buckets, range, {
+      source: "consumption",
+      months: peaksFromConsumption(buckets, range.startTs, range.endTs, tariff.timeZone),
+    });
+
+    expect(bill.demand?.lines).toEqual([{ month: "2026-02", peakKw: 1, ratePerKw: 10, share: 1, amount: 10 }]);
+    expect(bill.fixedFees).toEqual([{ name: "Subscription", per: "month", quantity: 1, amount: 30 }]);
+  });
+
+  it("reports hours without data instead of pricing them", () => {
+    const buckets = [...hourly(MONDAY, MONDAY + 2 * HOUR), ...hourly(MONDAY + 2 * HOUR, MONDAY + 3 * HOUR, null)];
+    const bill = computeCost(tariff, buckets, { startTs: MONDAY, endTs: MONDAY + 3 * HOUR });
+
+    expect(bill.energy.kWh).toBe(2);
+    expect(bill.coverage.missingHours).toBe(1);
+    expect(bill.demand).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import { Customer, toPublicCustomer } from "../src/modules/customer/customer.model.js";
+import { CustomerDevice } from "../src/modules/customer/customer.service.js";
+import { customerValidation } from "../src/modules/customer/customer.validation.js";
+import { ThingsboardAuthService } from "../src/services/thingsboard/thingsboard-auth.service.js";
+import { ThingsboardTenants } from "../src/services/thingsboard/thingsboard-tenants.js";
+import { TenantStreamService } from "../src/services/thingsboard/tenant-stream.service.js";
+import type { TelemetryStream } from "../src/services/telemetry-provider.js";
+
+const customer = (overrides: Partial<Customer> = {}): Customer => ({
+  id: 7,
+  name: "Acme Steel",
+  deviceApi: { url: "https://devices.acme.test/list", headers: { "X-Api-Key": "secret-key" } },
+  thingsboard: { username: "tenant@acme.test", password: "tb-password" },
+  branding: { primaryColor: "#0a7cff" },
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const device = (deviceUUID: string, customerId: number): CustomerDevice => ({
+  id: 1,
+  name: deviceUUID,
+  label: "",
+  deviceUUID,
+  accessToken: "token",
+  assignedToCustomer: true,
+  customerId,
+  createdAt: "",
+  updatedAt: "",
+});
+
+describe("customer registry", () => {
+  it("validates definitions and keeps secrets out of the public view", () => {
+    const parsed = customerValidation.create.safeParse({ name: "Acme", branding: { primaryColor: "blue" } });
+    expect(parsed.success).toBe(false);
+
+    const publicCustomer = toPublicCustomer(customer());
+    expect(publicCustomer.deviceApi).toEqual({ url: "https://devices.acme.test/list", customerName: undefined, headers: ["X-Api-Key"] });
+    expect(publicCustomer.thingsboard).toEqual({ baseUrl: undefined, username: "tenant@acme.test" });
+    expect(JSON.stringify(publicCustomer)).not.toMatch(/secret-key|tb-password/);
+  });
+
+  it("uses the ThingsBoard session of the device's customer when it has one", async () => {
+    const defaultAuth = new ThingsboardAuthService("https://tb.default.test", "", "");
+    const customers = new Map([
+      [7, customer()],
+      [8, customer({ id: 8, name: "Shared", thingsboard: null })],
+    ]);
+    const loadDevices = vi.fn(async () => [
+      // The device API reports its own customer ids; sessions follow the registry customer
+      { customer: customers.get(7)!, devices: [device("dev-acme", 1)] },
+      { customer: customers.get(8)!, devices: [device("dev-shared", 1)] },
+    ]);
+    const tenants = new ThingsboardTenants(defaultAuth, async (id) => customers.get(id) ?? null, loadDevices);
+
+    // Nothing listed yet, as after a restart: the device lists are loaded on demand
+    const acme = await tenants.authFor("DEVICE", "dev-acme");
+    expect(loadDevices).toHaveBeenCalledTimes(1);
+    expect(acme).not.toBe(defaultAuth);
+    expect(acme.getBaseUrl()).toBe("https://tb.default.test");
+    expect(await tenants.authFor("DEVICE", "dev-acme")).toBe(acme);
+    expect(await tenants.authFor("DEVICE", "dev-shared")).toBe(defaultAuth);
+    expect(await tenants.authFor("ASSET", "asset-1")).toBe(defaultAuth);
+    await expect(tenants.authFor("DEVICE", "dev-unknown")).rejects.toThrow("not listed by any registered customer");
+    expect(loadDevices).toHaveBeenCalledTimes(1);
+    expect((await tenants.listDevices()).map((d) => d.customerId)).toEqual([1, 1]);
+
+    customers.set(7, customer({ thingsboard: { baseUrl: "https://tb.acme.test", username: "new@acme.test", password: "x" } }));
+    const renewed = await tenants.authFor("DEVICE", "dev-acme");
+    expect(renewed).not.toBe(acme);
+    expect(renewed.getBaseUrl()).toBe("https://tb.acme.test");
+    tenants.cleanup();
+  });
+
+  it("streams each device over the socket of its customer's session", async () => {
+    const defaultAuth = new ThingsboardAuthService("https://tb.default.test", "", "");
+    const tenants = new ThingsboardTenants(
+      defaultAuth,
+      async (id) => (id === 7 ? customer() : null),
+      async () => [
+        { customer: customer(), devices: [device("dev-acme", 7)] },
+        { customer: customer({ id: 8, thingsboard: null }), devices: [device("dev-shared", 8)] },
+      ]
+    );
+    const streams = new Map<ThingsboardAuthService, { subscribe: ReturnType<typeof vi.fn>; remove: ReturnType<typeof vi.fn> }>();
+    const service = new TenantStreamService(tenants, (authService) => {
+      const remove = vi.fn();
+      const subscribe = vi.fn(() => remove);
+      streams.set(authService, { subscribe, remove });
+      return { subscribe, cleanup: vi.fn() } as TelemetryStream;
+    });
+
+    const onEnd = vi.fn();
+    const unsubscribe = service.subscribe(
+      [
+        { deviceUUID: "dev-acme", keys: ["ActivePowerTotal"] },
+        { deviceUUID: "dev-shared", keys: [] },
+      ],
+      () => undefined,
+      onEnd
+    );
+    await vi.waitFor(() => expect(streams.size).toBe(2));
+
+    const shared = streams.get(defaultAuth)!;
+    const [acme] = [...streams].filter(([authService]) => authService !== defaultAuth).map(([, stream]) => stream);
+    expect(shared.subscribe.mock.calls[0][0]).toEqual([{ deviceUUID: "dev-shared", keys: [] }]);
+    expect(acme.subscribe.mock.calls[0][0]).toEqual([{ deviceUUID: "dev-acme", keys: ["ActivePowerTotal"] }]);
+
+    // A session stream shutting down ends the subscriber once and leaves the other stream
+    const end = acme.subscribe.mock.calls[0][2] as () => void;
+    end();
+    end();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(shared.remove).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    tenants.cleanup();
+  });
+});
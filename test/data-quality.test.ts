@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { analyzeSeries, analyzeTimeseries, DEFAULT_QUALITY_OPTIONS } from "../src/services/data-quality.js";
+
+const MINUTE = 60_000;
+// One reading per minute for two hours, gently varying
+const readings = (count: number, valueAt: (i: number) => number = (i) => 10 + (i % 5) * 0.1) =>
+  Array.from({ length: count }, (_, i) => ({ ts: i * MINUTE, value: valueAt(i) }));
+
+describe("data quality", () => {
+  it("scores clean data at 100", () => {
+    const { quality } = analyzeSeries(readings(120), 0, 120 * MINUTE, DEFAULT_QUALITY_OPTIONS);
+    expect(quality).toMatchObject({ points: 120, expectedIntervalMs: MINUTE, coverage: 1, score: 100, issues: [] });
+  });
+
+  it("flags gaps, spikes and out-of-range readings", () => {
+    const series = readings(120, (i) => (i === 30 ? 500 : i === 90 ? -3 : 10 + (i % 5) * 0.1)).filter(
+      (point) => point.ts < 50 * MINUTE || point.ts >= 80 * MINUTE,
+    );
+    const { quality, cleaned } = analyzeSeries(series, 0, 120 * MINUTE, { ...DEFAULT_QUALITY_OPTIONS, min: 0 });
+
+    expect(quality.issues.map(({ type, start, end }) => [type, start / MINUTE, end / MINUTE])).toEqual([
+      ["spike", 30, 30],
+      ["gap", 49, 80],
+      ["out_of_range", 90, 90],
+    ]);
+    expect(quality.coverage).toBeCloseTo(1 - 31 / 120, 3);
+    expect(cleaned.map((point) => point.ts / MINUTE)).not.toContain(30);
+    expect(cleaned).toHaveLength(series.length - 2);
+    expect(quality.score).toBe(Math.round(100 * quality.coverage * (1 - 2 / series.length)));
+  });
+
+  it("flags flatlines and counters going backwards", () => {
+    const counter = readings(600, (i) => (i < 200 ? i : i < 500 ? 200 : i - 400));
+    const { quality } = analyzeSeries(counter, 0, 600 * MINUTE, { ...DEFAULT_QUALITY_OPTIONS, cumulative: true });
+
+    expect(quality.counts).toMatchObject({ flatline: 1, counter_decrease: 1, spike: 0 });
+    expect(quality.issues.find((issue) => issue.type === "counter_decrease")).toMatchObject({ start: 500 * MINUTE });
+  });
+
+  it("reports keys without data as one gap", () => {
+    const { quality } = analyzeTimeseries({ power: [] }, 0, 1000, () => DEFAULT_QUALITY_OPTIONS);
+    expect(quality.power).toMatchObject({ points: 0, coverage: 0, score: 0, issues: [{ type: "gap", start: 0, end: 1000 }] });
+  });
+});
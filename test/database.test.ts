@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import Database from "better-sqlite3";
+import { runMigrations, Migration } from "../src/database/migrator.js";
+import { migrations } from "../src/database/migrations/index.js";
+
+describe("database migrations", () => {
+  it("applies every migration once", () => {
+    const db = new Database(":memory:");
+
+    expect(runMigrations(db, migrations)).toBe(migrations.length);
+    expect(runMigrations(db, migrations)).toBe(0);
+
+    const versions = db.prepare("SELECT version FROM schema_migrations ORDER BY version").all();
+    expect(versions).toEqual(migrations.map((m) => ({ version: m.version })));
+  });
+
+  it("rolls back a failing migration", () => {
+    const db = new Database(":memory:");
+    const broken: Migration = {
+      version: 99,
+      name: "broken",
+      up: (conn) => {
+        conn.exec("CREATE TABLE half_done (id INTEGER)");
+        throw new Error("boom");
+      },
+    };
+
+    expect(() => runMigrations(db, [broken])).toThrow("boom");
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeUndefined();
+    expect(db.prepare("SELECT COUNT(*) AS n FROM schema_migrations").get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyDownsampling,
+  downsampleTimeseries,
+  lttb,
+  minMaxBuckets,
+  planDownsampling,
+} from "../src/services/downsampling.js";
+
+// A flat signal with one spike at ts=500
+const spiky = Array.from({ length: 1000 }, (_, ts) => ({ ts, value: ts === 500 ? 100 : Math.sin(ts / 50) }));
+
+describe("downsampling", () => {
+  it("keeps the ends and the spike with LTTB", () => {
+    const sampled = lttb(spiky, 50);
+    expect(sampled).toHaveLength(50);
+    expect(sampled[0].ts).toBe(0);
+    expect(sampled[49].ts).toBe(999);
+    expect(sampled.some((point) => point.value === 100)).toBe(true);
+  });
+
+  it("returns each bucket's extremes in time order with min/max", () => {
+    const sampled = minMaxBuckets(spiky, 20);
+    expect(sampled.length).toBeLessThanOrEqual(20);
+    expect(sampled.some((point) => point.value === 100)).toBe(true);
+    expect(sampled.map((point) => point.ts)).toEqual([...sampled.map((point) => point.ts)].sort((a, b) => a - b));
+  });
+
+  it("keeps the order and value types of each key", () => {
+    const desc = spiky.map(({ ts, value }) => ({ ts, value: String(value) })).reverse();
+    const { data, points } = downsampleTimeseries({ power: desc, state: desc.map((p) => ({ ...p, value: "on" })) }, 100, "lttb");
+
+    expect(points).toEqual({ power: { original: 1000, returned: 100 }, state: { original: 1000, returned: 100 } });
+    expect(data.power[0]).toEqual({ ts: 999, value: String(Math.sin(999 / 50)) });
+    expect(data.state[99].ts).toBe(0);
+  });
+
+  it("widens the interval of aggregated queries instead of thinning", () => {
+    const hour = 3_600_000;
+    const plan = planDownsampling({ startTs: 0, endTs: 30 * 24 * hour, interval: hour, agg: "SUM" }, 100, "lttb", 50000);
+    expect(plan).toMatchObject({ method: "interval", interval: 8 * hour, requestedInterval: hour });
+
+    const raw = planDownsampling({ startTs: 0, endTs: 1000, agg: "NONE" }, 100, "minmax", 50000);
+    expect(raw).toMatchObject({ method: "minmax", limit: 50000 });
+    expect(applyDownsampling({ ...raw, limit: 1000 }, { power: spiky }).meta).toMatchObject({
+      points: { power: { original: 1000 } },
+      truncated: ["power"],
+    });
+  });
+});
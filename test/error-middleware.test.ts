@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { Request, Response } from "express";
+import { errorMiddleware } from "../src/middlewares/error.middleware.js";
+import { NotFoundError, UpstreamUnavailableError } from "../src/utils/apiError.js";
+import { timeseriesQuerySchema } from "../src/routes/telemetry.validation.js";
+
+const handle = (err: unknown) => {
+  const sent: { status?: number; body?: Record<string, unknown> } = {};
+  const req = { id: "req-1", method: "GET", originalUrl: "/telemetry/x" } as unknown as Request;
+  const res = {
+    headersSent: false,
+    status(code: number) {
+      sent.status = code;
+      return this;
+    },
+    json(body: Record<string, unknown>) {
+      sent.body = body;
+      return this;
+    },
+  } as unknown as Response;
+  errorMiddleware(err, req, res, () => undefined);
+  return sent;
+};
+
+describe("errorMiddleware", () => {
+  it("answers typed errors with their status, code and the request id", () => {
+    expect(handle(new NotFoundError("Device with UUID x not found"))).toEqual({
+      status: 404,
+      body: { success: false, error: "Device with UUID x not found", code: "NOT_FOUND", requestId: "req-1" },
+    });
+    expect(handle(new UpstreamUnavailableError("ThingsBoard unreachable"))).toMatchObject({
+      status: 503,
+      body: { code: "UPSTREAM_UNAVAILABLE" },
+    });
+  });
+
+  it("turns zod and JSON body errors into 400s listing the failing fields", () => {
+    const parsed = timeseriesQuerySchema.safeParse({ keys: "power", startTs: "20", endTs: "10", interval: "day" });
+    const { status, body } = handle(parsed.success ? null : parsed.error);
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "VALIDATION_ERROR" });
+    expect(body!.details).toEqual([
+      { path: "startTs", message: "startTs must be less than endTs" },
+      { path: "agg", message: "agg (AVG, MIN, MAX or SUM) is required with a calendar interval" },
+    ]);
+
+    const syntaxError = Object.assign(new SyntaxError("Unexpected token"), { status: 400, type: "entity.parse.failed" });
+    expect(handle(syntaxError)).toMatchObject({ status: 400, body: { code: "INVALID_JSON" } });
+  });
+
+  it("hides the message of unexpected errors", () => {
+    expect(handle(new Error("SQLITE_BUSY: database is locked"))).toEqual({
+      status: 500,
+      body: { success: false, error: "Internal Server Error", code: "INTERNAL_ERROR", requestId: "req-1" },
+    });
+  });
+});
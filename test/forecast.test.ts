@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { forecastSeries, ForecastOptions } from "../src/services/energy/forecast.js";
+
+// Daily consumption with a weekly pattern (low weekends), a slight upward trend and deterministic noise
+const WEEK = [100, 105, 102, 104, 98, 40, 35];
+const daily = (days: number, from = 0) =>
+  Array.from({ length: days }, (_, i) => WEEK[(from + i) % 7] + 0.2 * (from + i) + ((((from + i) * 7) % 5) - 2));
+
+const options: ForecastOptions = {
+  method: "auto",
+  seasonLength: 7,
+  horizon: 14,
+  confidence: 95,
+  nonNegative: true,
+};
+
+describe("forecastSeries", () => {
+  it.each(["holt_winters", "seasonal_regression"] as const)("follows the weekly pattern with %s", (method) => {
+    const history = daily(84);
+    const actual = daily(14, 84);
+    const { points, backtest, model } = forecastSeries(history, { ...options, method });
+
+    expect(model.method).toBe(method);
+    expect(points).toHaveLength(14);
+    points.forEach((point, i) => {
+      expect(Math.abs(point.value - actual[i])).toBeLessThan(8);
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    });
+    expect(backtest).toMatchObject({ points: 14 });
+    expect(backtest!.mape).toBeLessThan(5);
+    expect(backtest!.coverage).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it("picks the model with the best backtest and sums the total", () => {
+    const { model, backtest, points, total } = forecastSeries(daily(84), options);
+    const other = forecastSeries(daily(84), {
+      ...options,
+      method: model.method === "holt_winters" ? "seasonal_regression" : "holt_winters",
+    });
+
+    expect(backtest!.rmse).toBeLessThanOrEqual(other.backtest!.rmse);
+    expect(total.value).toBeCloseTo(
+      points.reduce((sum, point) => sum + point.value, 0),
+      4
+    );
+    expect(total.lower).toBeLessThan(total.value);
+  });
+
+  it("drops leading gaps, fills inner ones and requires two seasons", () => {
+    const history: (number | null)[] = [null, null, ...daily(28)];
+    history[10] = null;
+    const { filled, points } = forecastSeries(history, options);
+
+    expect(filled).toBe(3);
+    expect(points.every((point) => Number.isFinite(point.value))).toBe(true);
+    expect(() => forecastSeries([null, ...daily(13)], options)).toThrow("Not enough history");
+  });
+});
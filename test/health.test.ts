@@ -7,6 +7,9 @@ describe("health route", () => {
   it("returns ok", async () => {
     const res = await request(app).get("/health");
     expect(res.status).toBe(200);
-    expect(res.body).toEqual({ status: "ok" });
+    expect(res.body).toMatchObject({
+      status: "ok",
+      upstreams: { thingsboard: { state: "closed" } },
+    });
   });
 });
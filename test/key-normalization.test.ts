@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { TelemetryKey } from "../src/modules/telemetry-key/telemetry-key.model.js";
+import { describeKeys, normalizeTimeseries, resolveKeys } from "../src/services/key-normalization.js";
+
+const entry = (rawKey: string, canonicalKey: string, overrides: Partial<TelemetryKey> = {}): TelemetryKey => ({
+  id: `${rawKey}-${overrides.deviceUUID ?? "all"}`,
+  rawKey,
+  deviceUUID: null,
+  canonicalKey,
+  label: null,
+  unit: "kW",
+  scale: 1,
+  offset: 0,
+  precision: null,
+  createdAt: "",
+  updatedAt: "",
+  ...overrides,
+});
+
+const catalogue = [
+  entry("ActivePowerTotal", "active_power", { label: "Active power" }),
+  entry("P_tot", "active_power", { scale: 0.001, precision: 2 }),
+  // This one meter reports P_tot in kW already
+  entry("P_tot", "active_power", { deviceUUID: "meter-b" }),
+];
+
+describe("key normalization", () => {
+  it("expands canonical names to every raw key mapped to them", () => {
+    const resolution = resolveKeys(["active_power", "Voltage"], catalogue, "meter-a");
+    expect(resolution.rawKeys).toEqual(["ActivePowerTotal", "P_tot", "active_power", "Voltage"]);
+  });
+
+  it("renames and scales the first raw key that has data", () => {
+    const resolution = resolveKeys(["active_power"], catalogue, "meter-a");
+    const { data, keys } = normalizeTimeseries(
+      { ActivePowerTotal: [], P_tot: [{ ts: 1, value: "12345.678" }] },
+      resolution,
+    );
+    expect(data).toEqual({ active_power: [{ ts: 1, value: 12.35 }] });
+    expect(keys.active_power).toEqual({ rawKey: "P_tot", label: null, unit: "kW" });
+  });
+
+  it("prefers a device-specific mapping over the global one", () => {
+    const resolution = resolveKeys(["P_tot"], catalogue, "meter-b");
+    const { data } = normalizeTimeseries({ P_tot: [{ ts: 1, value: "42" }] }, resolution);
+    expect(data).toEqual({ active_power: [{ ts: 1, value: 42 }] });
+  });
+
+  it("describes raw keys with what the catalogue knows", () => {
+    expect(describeKeys(["Voltage", "P_tot"], catalogue, "meter-a")).toEqual([
+      { key: "P_tot", canonicalKey: "active_power", label: null, unit: "kW" },
+      { key: "Voltage", canonicalKey: null, label: null, unit: null },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { createMeterProfile, energyAt, readMeter } from "../src/services/simulator/meter-simulator.js";
+import { SimulatorTelemetryService } from "../src/services/simulator/simulator-telemetry.service.js";
+
+const HOUR = 60 * 60 * 1000;
+// Wednesday 2026-03-04 00:00 UTC
+const WEDNESDAY = Date.UTC(2026, 2, 4);
+
+describe("meter simulator", () => {
+  const office = createMeterProfile("test", 0, 0);
+
+  it("follows a daily load shape with consistent electrical values", () => {
+    const night = readMeter(office, WEDNESDAY + 3 * HOUR);
+    const day = readMeter(office, WEDNESDAY + 11 * HOUR);
+
+    expect(day.ActivePowerTotal).toBeGreaterThan(night.ActivePowerTotal * 2);
+    expect(day.PowerFactor).toBeGreaterThan(night.PowerFactor);
+    expect(day.VoltageL1).toBeGreaterThan(220);
+    expect(day.VoltageL1).toBeLessThan(240);
+
+    // P = sum of V * I * PF over the three phases
+    const phases = (["L1", "L2", "L3"] as const).reduce(
+      (sum, phase) => sum + day[`Voltage${phase}`] * day[`Current${phase}`] * day.PowerFactor,
+      0
+    );
+    expect(phases / 1000).toBeCloseTo(day.ActivePowerTotal, 0);
+    expect(readMeter(office, WEDNESDAY + 11 * HOUR)).toEqual(day);
+  });
+
+  it("integrates power into a counter that never decreases", () => {
+    let previous = energyAt(office, WEDNESDAY);
+    for (let ts = WEDNESDAY; ts < WEDNESDAY + 8 * 24 * HOUR; ts += 7 * 60 * 1000) {
+      const energy = energyAt(office, ts);
+      expect(energy).toBeGreaterThanOrEqual(previous);
+      previous = energy;
+    }
+
+    // Energy of a working hour matches its mean power, noise aside
+    const used = energyAt(office, WEDNESDAY + 11 * HOUR) - energyAt(office, WEDNESDAY + 10 * HOUR);
+    expect(used / readMeter(office, WEDNESDAY + 10.5 * HOUR).ActivePowerTotal).toBeCloseTo(1, 0);
+  });
+});
+
+describe("SimulatorTelemetryService", () => {
+  it("answers raw and aggregated queries like ThingsBoard", async () => {
+    const simulator = new SimulatorTelemetryService({ deviceCount: 2, seed: "test" });
+    const [device] = await simulator.listDevices();
+    expect(device.deviceUUID).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/);
+
+    const raw = await simulator.getTimeseries("DEVICE", device.deviceUUID, ["ActivePowerTotal"], WEDNESDAY, WEDNESDAY + HOUR);
+    expect(raw.ActivePowerTotal).toHaveLength(60);
+    expect(raw.ActivePowerTotal[0].ts).toBe(WEDNESDAY + HOUR - 60_000);
+    expect(typeof raw.ActivePowerTotal[0].value).toBe("string");
+
+    const hourly = await simulator.getTimeseries(
+      "DEVICE",
+      device.deviceUUID,
+      ["ActivePowerTotal", "unknown"],
+      WEDNESDAY,
+      WEDNESDAY + 24 * HOUR,
+      HOUR,
+      "MAX",
+      "ASC",
+      undefined,
+      true
+    );
+    expect(Object.keys(hourly)).toEqual(["ActivePowerTotal"]);
+    expect(hourly.ActivePowerTotal).toHaveLength(24);
+    expect(hourly.ActivePowerTotal[0]).toMatchObject({ ts: WEDNESDAY + HOUR / 2 });
+
+    await expect(simulator.getLatestTimeseries("DEVICE", "00000000-0000-4000-a000-000000000000")).rejects.toThrow(
+      "Entity not found"
+    );
+    await expect(
+      simulator.getTimeseries("DEVICE", device.deviceUUID, ["ActivePowerTotal"], WEDNESDAY, WEDNESDAY + HOUR, undefined, "AVG")
+    ).rejects.toMatchObject({ status: 400, code: "VALIDATION_ERROR" });
+  });
+});
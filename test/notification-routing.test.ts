@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { matchesSubscription, quietHoursEnd } from "../src/services/notification/routing.js";
+import { buildMessage } from "../src/services/notification/templates.js";
+import { AppEvent } from "../src/services/event-bus.js";
+import { NotificationChannel, NotificationSubscription, toPublicChannel } from "../src/modules/notification/notification.model.js";
+
+const event: AppEvent = {
+  type: "alarm.raised",
+  severity: "major",
+  title: "Current_L1 > 120 on Meter 3",
+  deviceUUID: "dev-3",
+  deviceName: "Meter 3",
+  data: { value: 131, ruleName: "Phase current high" },
+  occurredAt: Date.UTC(2026, 0, 5, 12),
+};
+
+const subscription = (overrides: Partial<NotificationSubscription> = {}): NotificationSubscription => ({
+  id: "sub-1",
+  userId: "user-1",
+  channelId: "channel-1",
+  eventTypes: ["alarm.raised"],
+  minSeverity: "info",
+  deviceUUIDs: null,
+  quietHours: null,
+  enabled: true,
+  createdAt: "",
+  updatedAt: "",
+  ...overrides,
+});
+
+describe("matchesSubscription", () => {
+  it("filters on event type, minimum severity and devices", () => {
+    expect(matchesSubscription(subscription(), event)).toBe(true);
+    expect(matchesSubscription(subscription({ eventTypes: ["alarm.cleared"] }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ minSeverity: "critical" }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ minSeverity: "minor" }), event)).toBe(true);
+    expect(matchesSubscription(subscription({ deviceUUIDs: ["dev-4"] }), event)).toBe(false);
+    expect(matchesSubscription(subscription({ enabled: false }), event)).toBe(false);
+  });
+});
+
+describe("quietHoursEnd", () => {
+  const quietHours = { from: "22:00", to: "07:00", timeZone: "Europe/Paris" };
+
+  it("returns the end of quiet hours that wrap past midnight", () => {
+    // 23:30 in Paris (UTC+1) -> released at 07:00 Paris the next day
+    expect(quietHoursEnd(quietHours, Date.UTC(2026, 0, 5, 22, 30))).toBe(Date.UTC(2026, 0, 6, 6));
+    expect(quietHoursEnd(quietHours, Date.UTC(2026, 0, 6, 5, 15, 20))).toBe(Date.UTC(2026, 0, 6, 6));
+  });
+
+  it("returns null outside quiet hours", () => {
+    expect(quietHoursEnd(quietHours, Date.UTC(2026, 0, 5, 12))).toBeNull();
+    expect(quietHoursEnd(null, Date.UTC(2026, 0, 5, 22, 30))).toBeNull();
+  });
+});
+
+describe("buildMessage", () => {
+  it("prefers the channel template for the event type, then the built-in one", () => {
+    const custom = buildMessage({ templates: { "alarm.raised": { subject: "{{device}}: {{data.value}} A" } } }, event);
+    expect(custom.subject).toBe("Meter 3: 131 A");
+    expect(custom.body).toContain("Rule: Phase current high");
+
+    const fallback = buildMessage({ templates: { default: { body: "{{title}} ({{missing}})" } } }, event);
+    expect(fallback.subject).toBe("[major] Current_L1 > 120 on Meter 3");
+    expect(fallback.body).toBe("Current_L1 > 120 on Meter 3 ()");
+  });
+});
+
+describe("toPublicChannel", () => {
+  const webhook: NotificationChannel = {
+    id: "channel-1",
+    type: "webhook",
+    name: "Ops webhook",
+    enabled: true,
+    config: { url: "https://ops.example.com/hooks/indusmind", secret: "0123456789abcdef", headers: { "X-Api-Key": "key-1" } },
+    templates: {},
+    createdAt: "",
+    updatedAt: "",
+  };
+  const chat: NotificationChannel = {
+    ...webhook,
+    type: "chat",
+    name: "#energy",
+    config: { url: "https://hooks.slack.com/services/T000/B000/XXXX" },
+  };
+
+  it("masks webhook secrets for everyone", () => {
+    expect(toPublicChannel(webhook).config).toEqual({ ...webhook.config, secret: "********" });
+    expect(toPublicChannel(chat)).toEqual(chat);
+  });
+
+  it("also masks URLs and header values for non-admins", () => {
+    expect(toPublicChannel(webhook, false).config).toEqual({
+      url: "https://ops.example.com/********",
+      secret: "********",
+      headers: { "X-Api-Key": "********" },
+    });
+    expect(toPublicChannel(chat, false).config).toEqual({ url: "https://hooks.slack.com/********" });
+  });
+});
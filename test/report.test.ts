@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { lastCompletePeriod, nextRunAfter } from "../src/services/report/schedule.js";
+import { bucketValues, counterDeltas, summarize } from "../src/services/report/report-data.js";
+import { splitRange } from "../src/utils/calendar.js";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe("report schedule", () => {
+  // Wednesday 2026-01-14 10:00 UTC
+  const now = Date.UTC(2026, 0, 14, 10);
+
+  it("covers the previous ISO week or month", () => {
+    expect(lastCompletePeriod("weekly", now)).toEqual({ start: Date.UTC(2026, 0, 5), end: Date.UTC(2026, 0, 12) });
+    expect(lastCompletePeriod("monthly", now)).toEqual({ start: Date.UTC(2025, 11, 1), end: Date.UTC(2026, 0, 1) });
+  });
+
+  it("runs at the configured hour after each period", () => {
+    expect(nextRunAfter("weekly", 6, now)).toBe(Date.UTC(2026, 0, 19, 6));
+    expect(nextRunAfter("monthly", 6, now)).toBe(Date.UTC(2026, 1, 1, 6));
+    // Monday before the run hour: the run for last week is still ahead
+    expect(nextRunAfter("weekly", 6, Date.UTC(2026, 0, 12, 5))).toBe(Date.UTC(2026, 0, 12, 6));
+  });
+});
+
+describe("report data", () => {
+  const buckets = splitRange(Date.UTC(2026, 0, 5), Date.UTC(2026, 0, 8), "day");
+
+  it("places aggregated points in their bucket and leaves gaps empty", () => {
+    const points = [
+      { ts: buckets[0].start + 12 * HOUR, value: "10" },
+      { ts: buckets[2].start + 12 * HOUR, value: 30 },
+      { ts: buckets[2].end + DAY, value: 99 },
+    ];
+    expect(bucketValues(points, buckets)).toEqual([10, null, 30]);
+  });
+
+  it("turns counter MIN/MAX into consumption and summarizes per aggregation", () => {
+    const deltas = counterDeltas([100, null, 130], [120, 125, 160]);
+    expect(deltas).toEqual([20, null, 30]);
+    expect(summarize(deltas, "DELTA")).toBe(50);
+    expect(summarize([2, null, 4], "AVG")).toBe(3);
+    expect(summarize([2, null, 4], "MAX")).toBe(4);
+    expect(summarize([null], "SUM")).toBeNull();
+  });
+});
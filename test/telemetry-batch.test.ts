@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import express from "express";
+import { createTelemetryRoutes } from "../src/routes/telemetry.router.js";
+import { Device, DeviceService } from "../src/services/device.service.js";
+import { VirtualMeterService } from "../src/services/virtual-meter/virtual-meter.service.js";
+import { TelemetryProvider, TelemetryStream } from "../src/services/telemetry-provider.js";
+import { AuthPayload } from "../src/modules/auth/auth.model.js";
+import { errorMiddleware } from "../src/middlewares/error.middleware.js";
+import { ForbiddenError, NotFoundError } from "../src/utils/apiError.js";
+import { config } from "../src/config/index.js";
+
+const uuid = (n: number) => `00000000-0000-4000-a000-${String(n).padStart(12, "0")}`;
+const device = (n: number, customerId: number): Device => ({
+  deviceUUID: uuid(n),
+  accessToken: `token-${n}`,
+  name: `Meter ${n}`,
+  customerId,
+  assignedToCustomer: true,
+});
+
+// Customer 1 owns meters 1-8, customer 2 owns meter 9
+const devices = [...Array.from({ length: 8 }, (_, i) => device(i + 1, 1)), device(9, 2)];
+const auth: AuthPayload = {
+  userId: "user-1",
+  email: "viewer@example.com",
+  role: "viewer",
+  customerIds: [1],
+  tokenId: "token",
+  expiresAt: Date.now() + 60_000,
+};
+
+let inFlight = 0;
+let maxInFlight = 0;
+const provider = {
+  name: "simulator",
+  async getTimeseriesWithCacheStats(_entityType: string, entityId: string, keys: string[], startTs: number) {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    inFlight--;
+    if (entityId === uuid(2)) throw new ForbiddenError("Tenant denied access to the device");
+    if (entityId === uuid(3)) throw new NotFoundError(`Entity not found: DEVICE/${entityId} (404). Check entity ID and type.`);
+    return {
+      data: Object.fromEntries(keys.map((key) => [key, [{ ts: startTs, value: "1" }]])),
+      cache: { cacheable: false, hits: 0, misses: 0, upstreamRequests: 1 },
+    };
+  },
+} as unknown as TelemetryProvider;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.auth = auth;
+    next();
+  });
+  app.use(
+    "/telemetry",
+    createTelemetryRoutes(
+      provider,
+      new DeviceService(async () => devices),
+      {} as TelemetryStream,
+      new VirtualMeterService(provider)
+    )
+  );
+  app.use(errorMiddleware);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+const batch = async (request: unknown) => {
+  const response = await fetch(`${baseUrl}/telemetry/batch`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const body = (await response.json()) as {
+    data: Record<string, unknown>[];
+    meta: Record<string, unknown>;
+    code?: string;
+  };
+  return { status: response.status, body };
+};
+
+describe("POST /telemetry/batch", () => {
+  it("answers every device, reporting failed entries without failing the request", async () => {
+    const { status, body } = await batch({
+      devices: [uuid(1), { deviceUUID: uuid(4), keys: ["PowerFactor"] }, uuid(2), uuid(3), uuid(9), uuid(99)],
+      keys: ["ActivePowerTotal"],
+      startTs: 1000,
+      endTs: 2000,
+    });
+
+    expect(status).toBe(200);
+    expect(body.data.map((entry) => entry.deviceUUID)).toEqual(
+      [1, 4, 2, 3, 9, 99].map(uuid)
+    );
+    const [first, fourth, forbidden, missing, hidden, unknown] = body.data;
+    expect(first).toMatchObject({ success: true, name: "Meter 1", keys: ["ActivePowerTotal"] });
+    expect(fourth).toMatchObject({ success: true, data: { PowerFactor: [{ ts: 1000, value: "1" }] } });
+    expect(forbidden).toMatchObject({ success: false, status: 403, code: "FORBIDDEN" });
+    expect(missing).toMatchObject({ success: false, status: 404, code: "NOT_FOUND" });
+    // Another customer's device looks exactly like one that does not exist
+    expect(hidden).toEqual({ deviceUUID: uuid(9), success: false, status: 404, code: "NOT_FOUND", error: `Device with UUID ${uuid(9)} not found` });
+    expect(unknown).toMatchObject({ success: false, status: 404, code: "NOT_FOUND" });
+    expect(body.meta).toMatchObject({ requested: 6, succeeded: 2, failed: 4 });
+  });
+
+  it("limits the number of concurrent upstream calls", async () => {
+    maxInFlight = 0;
+    const { body } = await batch({
+      devices: [1, 4, 5, 6, 7, 8, 1, 4, 5, 6, 7, 8].map(uuid),
+      keys: ["ActivePowerTotal"],
+      startTs: 1000,
+      endTs: 2000,
+    });
+
+    expect(body.meta).toMatchObject({ requested: 12, succeeded: 12 });
+    expect(maxInFlight).toBe(config.telemetryBatchConcurrency);
+  });
+
+  it("keeps calendar intervals within the same concurrency limit", async () => {
+    maxInFlight = 0;
+    // Months of 31, 28 and 31 days are fetched as separate runs
+    const { body } = await batch({
+      devices: [1, 4, 5, 6, 7, 8].map(uuid),
+      keys: ["AccumulatedActiveEnergyDelivered"],
+      startTs: Date.UTC(2026, 0, 1),
+      endTs: Date.UTC(2026, 3, 1),
+      interval: "month",
+      agg: "SUM",
+    });
+
+    expect(body.meta).toMatchObject({ requested: 6, succeeded: 6 });
+    expect(maxInFlight).toBe(config.telemetryBatchConcurrency);
+  });
+
+  it("rejects an invalid body as a whole", async () => {
+    const { status, body } = await batch({ devices: [], startTs: 2000, endTs: 1000 });
+    expect(status).toBe(400);
+    expect(body.code).toBe("VALIDATION_ERROR");
+  });
+});
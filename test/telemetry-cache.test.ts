@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { TelemetryRangeCache, TimeseriesData } from "../src/services/thingsboard/telemetry-cache.js";
+
+const HOUR = 60 * 60 * 1000;
+
+// Fake upstream: one aggregated point per hour bucket, value = bucket index
+const upstream = () =>
+  vi.fn(async (keys: string[], from: number, to: number): Promise<TimeseriesData> => {
+    const data: TimeseriesData = {};
+    for (const key of keys) {
+      data[key] = [];
+      for (let ts = from; ts < to; ts += HOUR) {
+        data[key].push({ ts: ts + HOUR / 2, value: String(ts / HOUR) });
+      }
+    }
+    return data;
+  });
+
+const query = (startTs: number, endTs: number, keys = ["kWh"]) => ({
+  entityType: "DEVICE",
+  entityId: "d1",
+  keys,
+  startTs,
+  endTs,
+  interval: HOUR,
+  agg: "SUM",
+  orderBy: "ASC",
+});
+
+describe("TelemetryRangeCache", () => {
+  const now = 1000 * HOUR;
+
+  it("serves a repeated historical window from cache", async () => {
+    const cache = new TelemetryRangeCache();
+    const fetch = upstream();
+
+    const first = await cache.get(query(10 * HOUR, 20 * HOUR), fetch, now);
+    const second = await cache.get(query(10 * HOUR, 20 * HOUR), fetch, now);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(first.stats).toMatchObject({ hits: 0, misses: 10, upstreamRequests: 1 });
+    expect(second.stats).toMatchObject({ hits: 10, misses: 0, upstreamRequests: 0 });
+    expect(second.data).toEqual(first.data);
+  });
+
+  it("only fetches the missing sub-ranges", async () => {
+    const cache = new TelemetryRangeCache();
+    const fetch = upstream();
+
+    await cache.get(query(10 * HOUR, 20 * HOUR), fetch, now);
+    const { data, stats } = await cache.get(query(5 * HOUR, 25 * HOUR), fetch, now);
+
+    expect(fetch.mock.calls.slice(1).map(([, from, to]) => [from / HOUR, to / HOUR])).toEqual([
+      [5, 10],
+      [20, 25],
+    ]);
+    expect(stats).toMatchObject({ hits: 10, misses: 10 });
+    expect(data.kWh.map((p) => p.value)).toEqual(Array.from({ length: 20 }, (_, i) => String(i + 5)));
+  });
+
+  it("expires the open bucket but keeps closed ones", async () => {
+    const cache = new TelemetryRangeCache({ openBucketTtlMs: 1000 });
+    const fetch = upstream();
+    const endTs = now + HOUR / 2;
+
+    await cache.get(query(now - 2 * HOUR, endTs), fetch, now);
+    await cache.get(query(now - 2 * HOUR, endTs), fetch, now + 500);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await cache.get(query(now - 2 * HOUR, endTs), fetch, now + 2000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[2].slice(1)).toEqual([now, endTs]);
+  });
+
+  it("does not reuse a partial last bucket for another end time", async () => {
+    const cache = new TelemetryRangeCache();
+    const fetch = upstream();
+    const startTs = now - 3 * HOUR;
+
+    await cache.get(query(startTs, now - HOUR / 2), fetch, now);
+    await cache.get(query(startTs, now - HOUR / 4), fetch, now);
+
+    expect(fetch.mock.calls.map(([, from, to]) => [from, to])).toEqual([
+      [startTs, now - HOUR],
+      [now - HOUR, now - HOUR / 2],
+      [now - HOUR, now - HOUR / 4],
+    ]);
+  });
+
+  it("keeps bucket grids with a different phase apart", async () => {
+    const cache = new TelemetryRangeCache();
+    const fetch = upstream();
+
+    await cache.get(query(10 * HOUR, 20 * HOUR), fetch, now);
+    await cache.get(query(10 * HOUR + 1, 20 * HOUR + 1), fetch, now);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import { PassThrough } from "node:stream";
+import { finished } from "node:stream/promises";
+import { Response } from "express";
+import ExcelJS from "exceljs";
+import { ExportFormat, TelemetryExportService } from "../src/services/telemetry-export.service.js";
+import { TelemetryPoint } from "../src/services/thingsboard/telemetry-cache.js";
+
+// Europe/Paris switches to summer time at 01:00 UTC that day
+const T0 = Date.UTC(2026, 2, 29, 0, 0);
+const T1 = Date.UTC(2026, 2, 29, 1, 0);
+const A = "aaaaaaaa-0000-4000-a000-000000000001";
+const B = "bbbbbbbb-0000-4000-a000-000000000002";
+
+const series: Record<string, Record<string, TelemetryPoint[]>> = {
+  [A]: {
+    ActivePowerTotal: [
+      { ts: T0, value: "12.5" },
+      { ts: T1, value: "13" },
+    ],
+    Note: [{ ts: T0, value: 'said "hi", then\nleft' }],
+  },
+  [B]: { ActivePowerTotal: [{ ts: T1, value: "7" }] },
+};
+
+const telemetry = {
+  getTimeseries: vi.fn(async (_type: string, deviceUUID: string, keys: string[], from: number, to: number) =>
+    Object.fromEntries(
+      keys.map((key) => [key, (series[deviceUUID][key] ?? []).filter((point) => point.ts >= from && point.ts < to)])
+    )
+  ),
+};
+
+const run = async (format: ExportFormat) => {
+  const res = Object.assign(new PassThrough(), { status: vi.fn(), setHeader: vi.fn() });
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  await new TelemetryExportService(telemetry).export(
+    {
+      format,
+      // Two devices with the same name get told apart in the headers
+      devices: [
+        { deviceUUID: A, label: "Meter", keys: ["ActivePowerTotal", "Note"] },
+        { deviceUUID: B, label: "Meter", keys: ["ActivePowerTotal"] },
+      ],
+      startTs: T0,
+      endTs: T0 + 2 * 60 * 60 * 1000,
+      timeZone: "Europe/Paris",
+    },
+    res as unknown as Response
+  );
+  await finished(res);
+  return { res, output: Buffer.concat(chunks) };
+};
+
+describe("TelemetryExportService", () => {
+  it("writes CSV rows aligned by timestamp, in the requested time zone, with escaped cells", async () => {
+    const { res, output } = await run("csv");
+
+    expect(res.setHeader).toHaveBeenCalledWith("Content-Type", "text/csv; charset=utf-8");
+    expect(output.toString("utf8")).toBe(
+      "\uFEFFtimestamp,Meter (aaaaaaaa) / ActivePowerTotal,Meter (aaaaaaaa) / Note,Meter (bbbbbbbb) / ActivePowerTotal\n" +
+        '2026-03-29T01:00:00.000+01:00,12.5,"said ""hi"", then\nleft",\n' +
+        "2026-03-29T03:00:00.000+02:00,13,,7\n"
+    );
+  });
+
+  it("writes one NDJSON object per timestamp with numeric values", async () => {
+    const { output } = await run("ndjson");
+
+    const lines = output.toString("utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      {
+        ts: T0,
+        timestamp: "2026-03-29T01:00:00.000+01:00",
+        values: {
+          "Meter (aaaaaaaa) / ActivePowerTotal": 12.5,
+          "Meter (aaaaaaaa) / Note": 'said "hi", then\nleft',
+          "Meter (bbbbbbbb) / ActivePowerTotal": null,
+        },
+      },
+      {
+        ts: T1,
+        timestamp: "2026-03-29T03:00:00.000+02:00",
+        values: {
+          "Meter (aaaaaaaa) / ActivePowerTotal": 13,
+          "Meter (aaaaaaaa) / Note": null,
+          "Meter (bbbbbbbb) / ActivePowerTotal": 7,
+        },
+      },
+    ]);
+  });
+
+  it("writes an XLSX sheet with a header row and numeric cells", async () => {
+    const { output } = await run("xlsx");
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(output as unknown as ExcelJS.Buffer);
+    const sheet = workbook.getWorksheet("Telemetry")!;
+    const rows = sheet.getSheetValues().filter(Boolean).map((row) => (row as unknown[]).slice(1));
+
+    expect(rows).toEqual([
+      [
+        "timestamp (Europe/Paris)",
+        "Meter (aaaaaaaa) / ActivePowerTotal",
+        "Meter (aaaaaaaa) / Note",
+        "Meter (bbbbbbbb) / ActivePowerTotal",
+      ],
+      ["2026-03-29T01:00:00.000+01:00", 12.5, 'said "hi", then\nleft'],
+      ["2026-03-29T03:00:00.000+02:00", 13, undefined, 7],
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { Response } from "express";
+import WebSocket from "ws";
+import { SseStream } from "../src/utils/sse.js";
+import { TelemetryStreamService } from "../src/services/thingsboard/telemetry-stream.service.js";
+import { ThingsboardAuthService } from "../src/services/thingsboard/thingsboard-auth.service.js";
+
+vi.mock("ws", async () => {
+  const { EventEmitter } = await import("node:events");
+
+  class FakeSocket extends EventEmitter {
+    static OPEN = 1;
+    static instances: FakeSocket[] = [];
+    readyState = 0;
+    sent: Record<string, unknown>[] = [];
+
+    constructor(readonly url: string) {
+      super();
+      FakeSocket.instances.push(this);
+    }
+
+    send(data: string) {
+      this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+      this.readyState = 3;
+    }
+
+    open() {
+      this.readyState = FakeSocket.OPEN;
+      this.emit("open");
+    }
+  }
+
+  return { default: FakeSocket };
+});
+
+type FakeSocket = EventEmitter & {
+  url: string;
+  readyState: number;
+  sent: { tsSubCmds: Record<string, unknown>[] }[];
+  open(): void;
+};
+const sockets = (WebSocket as unknown as { instances: FakeSocket[] }).instances;
+
+const fakeAuth = () => {
+  const tokenListeners: ((token: string) => void)[] = [];
+  let token = "token-1";
+  const auth = {
+    getValidToken: async () => token,
+    getBaseUrl: () => "https://tb.test",
+    onTokenChange: (listener: (token: string) => void) => {
+      tokenListeners.push(listener);
+      return () => undefined;
+    },
+  } as unknown as ThingsboardAuthService;
+  const changeToken = (next: string) => {
+    token = next;
+    for (const listener of tokenListeners) listener(next);
+  };
+  return { auth, changeToken };
+};
+
+const connected = async (count: number) => {
+  await vi.waitFor(() => expect(sockets).toHaveLength(count));
+  const socket = sockets[count - 1];
+  socket.open();
+  return socket;
+};
+
+const push = (socket: FakeSocket, subscriptionId: number, data: Record<string, [number, unknown][]>) =>
+  socket.emit("message", Buffer.from(JSON.stringify({ subscriptionId, errorCode: 0, data })));
+
+afterEach(() => {
+  sockets.length = 0;
+});
+
+describe("TelemetryStreamService", () => {
+  it("subscribes once per device to the union of keys and fans updates out by key", async () => {
+    const { auth } = fakeAuth();
+    const service = new TelemetryStreamService(auth);
+    const power = vi.fn();
+    const energy = vi.fn();
+
+    service.subscribe([{ deviceUUID: "dev-1", keys: ["ActivePowerTotal"] }], power);
+    const removeEnergy = service.subscribe([{ deviceUUID: "dev-1", keys: ["AccumulatedActiveEnergyDelivered"] }], energy);
+    const socket = await connected(1);
+    expect(socket.url).toBe("wss://tb.test/api/ws/plugins/telemetry?token=token-1");
+
+    const [{ tsSubCmds: initial }] = socket.sent;
+    expect(initial).toEqual([
+      expect.objectContaining({
+        entityId: "dev-1",
+        scope: "LATEST_TELEMETRY",
+        keys: "AccumulatedActiveEnergyDelivered,ActivePowerTotal",
+      }),
+    ]);
+    const cmdId = initial[0].cmdId as number;
+
+    push(socket, cmdId, { ActivePowerTotal: [[1000, "12.5"]], AccumulatedActiveEnergyDelivered: [[1000, "900"]] });
+    expect(power).toHaveBeenCalledWith({ deviceUUID: "dev-1", data: { ActivePowerTotal: [{ ts: 1000, value: "12.5" }] } });
+    expect(energy).toHaveBeenCalledWith({
+      deviceUUID: "dev-1",
+      data: { AccumulatedActiveEnergyDelivered: [{ ts: 1000, value: "900" }] },
+    });
+
+    // Narrowing the key union replaces the upstream subscription
+    removeEnergy();
+    expect(socket.sent[1].tsSubCmds).toEqual([
+      { cmdId, unsubscribe: true },
+      expect.objectContaining({ entityId: "dev-1", keys: "ActivePowerTotal" }),
+    ]);
+    push(socket, cmdId, { ActivePowerTotal: [[2000, "13"]] });
+    expect(power).toHaveBeenCalledTimes(1);
+
+    service.cleanup();
+    expect(socket.readyState).toBe(3);
+  });
+
+  it("reconnects and resubscribes everything when the access token changes", async () => {
+    const { auth, changeToken } = fakeAuth();
+    const service = new TelemetryStreamService(auth);
+    const onEnd = vi.fn();
+    service.subscribe([{ deviceUUID: "dev-1", keys: [] }, { deviceUUID: "dev-2", keys: ["PowerFactor"] }], vi.fn(), onEnd);
+    const first = await connected(1);
+
+    changeToken("token-2");
+    expect(first.readyState).toBe(3);
+    const second = await connected(2);
+    expect(second.url).toContain("token=token-2");
+    expect(second.sent[0].tsSubCmds.map((cmd) => [cmd.entityId, cmd.keys])).toEqual([
+      ["dev-1", undefined],
+      ["dev-2", "PowerFactor"],
+    ]);
+
+    service.cleanup();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+});
+
+/**
+ * Response whose socket buffer is full while `accepting` is false
+ */
+const fakeResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    accepting: true,
+    written: [] as string[],
+    ended: false,
+    status: vi.fn(),
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(),
+    write(frame: string) {
+      res.written.push(frame);
+      return res.accepting;
+    },
+    end() {
+      res.ended = true;
+    },
+  });
+  return res;
+};
+
+describe("SseStream", () => {
+  it("coalesces events by key while the client is draining", () => {
+    const res = fakeResponse();
+    const stream = new SseStream(res as unknown as Response, { heartbeatMs: 60_000 });
+
+    res.accepting = false;
+    stream.send("telemetry", { value: 1 }, "dev-1:power");
+    stream.send("telemetry", { value: 2 }, "dev-1:power");
+    stream.send("telemetry", { value: 3 }, "dev-1:power");
+    stream.send("telemetry", { value: 9 }, "dev-2:power");
+    expect(res.written).toHaveLength(1);
+
+    res.accepting = true;
+    res.emit("drain");
+    expect(res.written.slice(1)).toEqual([
+      'event: telemetry\ndata: {"value":3}\n\n',
+      'event: telemetry\ndata: {"value":9}\n\n',
+    ]);
+    stream.end();
+  });
+
+  it("disconnects a client that keeps falling behind", () => {
+    const res = fakeResponse();
+    const stream = new SseStream(res as unknown as Response, { maxPendingEvents: 2, maxDroppedEvents: 3, heartbeatMs: 60_000 });
+    const onClose = vi.fn();
+    stream.onClose(onClose);
+
+    res.accepting = false;
+    stream.send("telemetry", { n: 0 });
+    for (let n = 1; n <= 5; n++) stream.send("telemetry", { n });
+    expect(res.ended).toBe(false);
+
+    stream.send("telemetry", { n: 6 });
+    expect(res.written.at(-1)).toContain("event: error");
+    expect(res.ended).toBe(true);
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    stream.send("telemetry", { n: 7 });
+    expect(res.written.at(-1)).toContain("event: error");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { AxiosInstance } from "axios";
+import { ThingsboardTelemetryService } from "../src/services/thingsboard/thingsboard-telemetry.service.js";
+import { ThingsboardAuthService } from "../src/services/thingsboard/thingsboard-auth.service.js";
+import { ThingsboardTenants } from "../src/services/thingsboard/thingsboard-tenants.js";
+import { TelemetryRangeCache } from "../src/services/thingsboard/telemetry-cache.js";
+import { UpstreamClient } from "../src/services/upstream/upstream-client.js";
+import { Customer } from "../src/modules/customer/customer.model.js";
+import { CustomerDevice } from "../src/modules/customer/customer.service.js";
+import { NotFoundError } from "../src/utils/apiError.js";
+
+const DEVICE = "545ffcb0-ab9c-11f0-a05e-97f672464deb";
+const answer = (status: number, data: unknown = {}) => ({ status, statusText: String(status), data, headers: {}, config: {} });
+
+const setup = () => {
+  let token = "token-1";
+  const auth = {
+    getValidToken: vi.fn(async () => token),
+    getBaseUrl: () => "https://tb.test",
+    refreshToken: vi.fn(async () => {
+      token = "token-2";
+      return token;
+    }),
+  } as unknown as ThingsboardAuthService;
+  const request = vi.fn();
+  const upstream = new UpstreamClient("ThingsBoard", {
+    timeoutMs: 1000,
+    retryBaseDelayMs: 0,
+    http: { request } as unknown as AxiosInstance,
+  });
+  const tenants = new ThingsboardTenants(
+    auth,
+    async () => null,
+    async () => [
+      {
+        customer: { id: 1, thingsboard: null } as Customer,
+        devices: [{ deviceUUID: DEVICE, customerId: 1 } as CustomerDevice],
+      },
+    ]
+  );
+  const service = new ThingsboardTelemetryService(auth, new TelemetryRangeCache(), upstream, tenants);
+  return { service, request, auth };
+};
+
+describe("ThingsboardTelemetryService", () => {
+  it("reads the latest values, leaving out keys without data", async () => {
+    const { service, request } = setup();
+    request.mockResolvedValueOnce(
+      answer(200, { ActivePowerTotal: [{ ts: 1000, value: "12.5" }], PowerFactor: [{ ts: 0, value: "" }] })
+    );
+
+    expect(await service.getLatestTimeseries("DEVICE", DEVICE, ["ActivePowerTotal", "PowerFactor"], true)).toEqual({
+      ActivePowerTotal: { ts: 1000, value: "12.5" },
+    });
+    expect(request.mock.calls[0][0]).toMatchObject({
+      method: "get",
+      baseURL: "https://tb.test",
+      url: `/api/plugins/telemetry/DEVICE/${DEVICE}/values/timeseries`,
+      params: { keys: "ActivePowerTotal,PowerFactor", useStrictDataTypes: true },
+      headers: { Authorization: "Bearer token-1" },
+    });
+
+    request.mockResolvedValueOnce(answer(404));
+    await expect(service.getLatestTimeseries("DEVICE", DEVICE)).rejects.toThrow(NotFoundError);
+  });
+
+  it("reads attributes scope by scope", async () => {
+    const { service, request } = setup();
+    request
+      .mockResolvedValueOnce(answer(200, [{ key: "model", value: "PM5560", lastUpdateTs: 1 }]))
+      .mockResolvedValueOnce(answer(200, [{ key: "threshold", value: 40, lastUpdateTs: 2 }]));
+
+    expect(await service.getAttributes("DEVICE", DEVICE, ["client", "shared"], ["model", "threshold"])).toEqual([
+      { scope: "client", key: "model", value: "PM5560", lastUpdateTs: 1 },
+      { scope: "shared", key: "threshold", value: 40, lastUpdateTs: 2 },
+    ]);
+    expect(request.mock.calls.map(([config]) => [config.url, config.params])).toEqual([
+      [`/api/plugins/telemetry/DEVICE/${DEVICE}/values/attributes/CLIENT_SCOPE`, { keys: "model,threshold" }],
+      [`/api/plugins/telemetry/DEVICE/${DEVICE}/values/attributes/SHARED_SCOPE`, { keys: "model,threshold" }],
+    ]);
+  });
+
+  it("refreshes the token and retries once ThingsBoard answers 401", async () => {
+    const { service, request, auth } = setup();
+    request.mockResolvedValueOnce(answer(401)).mockResolvedValueOnce(answer(200));
+
+    await service.saveAttributes("DEVICE", DEVICE, "server", { threshold: 45 });
+
+    expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[1][0]).toMatchObject({
+      method: "post",
+      url: `/api/plugins/telemetry/DEVICE/${DEVICE}/attributes/SERVER_SCOPE`,
+      data: { threshold: 45 },
+      headers: { Authorization: "Bearer token-2" },
+    });
+  });
+});
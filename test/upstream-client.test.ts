@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+import { AxiosError, AxiosInstance } from "axios";
+import { UpstreamClient } from "../src/services/upstream/upstream-client.js";
+import { CircuitBreaker } from "../src/services/upstream/circuit-breaker.js";
+import { UpstreamUnavailableError } from "../src/utils/apiError.js";
+
+const answer = (status: number) => ({ status, statusText: String(status), data: {}, headers: {}, config: {} });
+const networkError = () => new AxiosError("connect ECONNREFUSED", "ECONNREFUSED");
+
+const client = (request: ReturnType<typeof vi.fn>, options = {}) =>
+  new UpstreamClient("ThingsBoard", {
+    timeoutMs: 1000,
+    retryBaseDelayMs: 0,
+    http: { request } as unknown as AxiosInstance,
+    ...options,
+  });
+
+describe("UpstreamClient", () => {
+  it("retries network errors and 5xx answers of idempotent requests", async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValueOnce(answer(502))
+      .mockResolvedValueOnce(answer(200));
+
+    const response = await client(request).request({ method: "get", url: "/values" });
+
+    expect(response.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[0][0]).toMatchObject({ timeout: 1000 });
+  });
+
+  it("does not retry POSTs or 4xx answers unless told to", async () => {
+    const failing = vi.fn().mockRejectedValue(networkError());
+    await expect(client(failing).request({ method: "post", url: "/attributes" })).rejects.toThrow(
+      "ThingsBoard unreachable: connect ECONNREFUSED"
+    );
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const notFound = vi.fn().mockResolvedValue(answer(404));
+    expect((await client(notFound).request({ url: "/values" })).status).toBe(404);
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails fast once the circuit is open, then probes after the reset timeout", async () => {
+    let now = 0;
+    const request = vi.fn().mockRejectedValue(networkError());
+    const upstream = client(request, { maxRetries: 0, breaker: { failureThreshold: 2, resetTimeoutMs: 5000, now: () => now } });
+
+    await expect(upstream.request({ url: "/a" })).rejects.toThrow(UpstreamUnavailableError);
+    await expect(upstream.request({ url: "/a" })).rejects.toThrow(UpstreamUnavailableError);
+    expect(upstream.status()).toMatchObject({ state: "open", consecutiveFailures: 2 });
+
+    await expect(upstream.request({ url: "/a" })).rejects.toThrow("circuit open");
+    expect(request).toHaveBeenCalledTimes(2);
+
+    now = 5000;
+    request.mockResolvedValueOnce(answer(200));
+    expect((await upstream.request({ url: "/a" })).status).toBe(200);
+    expect(upstream.status()).toMatchObject({ state: "closed", consecutiveFailures: 0, retryAt: null });
+  });
+
+  it("limits concurrent calls and refuses them when the queue is full", async () => {
+    const pending: (() => void)[] = [];
+    const request = vi.fn(() => new Promise((resolve) => pending.push(() => resolve(answer(200)))));
+    const upstream = client(request, { maxConcurrent: 1, maxQueued: 1 });
+
+    const first = upstream.request({ url: "/a" });
+    const second = upstream.request({ url: "/b" });
+    await expect(upstream.request({ url: "/c" })).rejects.toThrow("overloaded");
+    expect(upstream.status()).toMatchObject({ inFlight: 1, queued: 1 });
+
+    pending.shift()!();
+    await first;
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    pending.shift()!();
+    await second;
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("reopens when the half-open probe fails and lets a single probe through", () => {
+    let now = 0;
+    const breaker = new CircuitBreaker("Customer API", { failureThreshold: 1, resetTimeoutMs: 1000, now: () => now });
+
+    breaker.onFailure("503 Service Unavailable");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.onFailure("timed out after 1000ms");
+    expect(breaker.snapshot()).toMatchObject({ state: "open", retryAt: new Date(2000).toISOString() });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { collectRefs, evaluateExpression, parseExpression } from "../src/services/virtual-meter/expression.js";
+import { computeSeries } from "../src/services/virtual-meter/compute.js";
+
+describe("virtual meter formulas", () => {
+  it("parses references, precedence and functions", () => {
+    const expression = parseExpression("A.kWh - B.kWh * 2 + max(C.3ph_kW, 0) / (1 + 1)");
+    expect(collectRefs(expression)).toEqual([
+      { alias: "A", key: "kWh" },
+      { alias: "B", key: "kWh" },
+      { alias: "C", key: "3ph_kW" },
+    ]);
+
+    const values: Record<string, number> = { "A.kWh": 100, "B.kWh": 10, "C.3ph_kW": -4 };
+    expect(evaluateExpression(expression, (alias, key) => values[`${alias}.${key}`] ?? null)).toBe(80);
+  });
+
+  it("rejects anything but arithmetic over references", () => {
+    expect(() => parseExpression("A.kWh - process.exit(1)")).toThrow('Unknown function "process.exit"');
+    expect(() => parseExpression("A.kWh; B.kWh")).toThrow('Unexpected character ";" at position 6');
+    expect(() => parseExpression("A - B.kWh")).toThrow("Expected a source reference such as A.kWh");
+    expect(() => parseExpression("(A.kWh")).toThrow('Expected ")"');
+    expect(() => parseExpression("abs(A.kWh, B.kWh)")).toThrow("abs() takes 1 arguments");
+  });
+
+  it("gives no value on division by zero or a missing source", () => {
+    const expression = parseExpression("A.x / B.x");
+    expect(evaluateExpression(expression, (alias) => (alias === "A" ? 1 : 0))).toBeNull();
+    expect(evaluateExpression(expression, (alias) => (alias === "A" ? 1 : null))).toBeNull();
+  });
+
+  it("aligns raw readings on each source's last value and aggregated buckets exactly", () => {
+    const expression = parseExpression("A.kWh - B.kWh");
+    const series = {
+      "A.kWh": [
+        { ts: 0, value: "100" },
+        { ts: 20, value: "110" },
+      ],
+      "B.kWh": [
+        { ts: 10, value: "30" },
+        { ts: 20, value: "35" },
+      ],
+    };
+
+    expect(computeSeries(expression, series, "hold")).toEqual([
+      { ts: 10, value: 70 },
+      { ts: 20, value: 75 },
+    ]);
+    expect(computeSeries(expression, series, "exact")).toEqual([{ ts: 20, value: 75 }]);
+  });
+});